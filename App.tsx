@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { Loader2 } from 'lucide-react';
-import { ConvexReactClient } from 'convex/react';
+import { ConvexReactClient, useQuery } from 'convex/react';
 import { ConvexAuthProvider } from '@convex-dev/auth/react';
+import { api } from './convex/_generated/api';
 import { Listing } from './types';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { CurrencyProvider } from './contexts/CurrencyContext';
 import { Navbar } from './components/Navbar';
 import { Footer } from './components/Footer';
 import { BookingModal } from './components/BookingModal';
@@ -15,11 +17,16 @@ import { ExplorePage } from './pages/ExplorePage';
 import { ListingDetailsPage } from './pages/ListingDetailsPage';
 import { VendorDashboard } from './pages/VendorDashboard';
 import { CustomerDashboard } from './pages/CustomerDashboard';
+import { CartPage } from './pages/CartPage';
+import { GiftVouchersPage } from './pages/GiftVouchersPage';
+import { WaiverPage } from './pages/WaiverPage';
+import { ReviewPage } from './pages/ReviewPage';
 import { AdminDashboard } from './pages/AdminDashboard';
 import { AdminPage } from './pages/AdminPage';
 import { SeedDataPage } from './pages/SeedDataPage';
 import { CreateListingPage } from './pages/CreateListingPage';
 import { EditListingPage } from './pages/EditListingPage';
+import { CheckInPage } from './pages/CheckInPage';
 import { SetupPage } from './pages/SetupPage';
 
 // Initialize Convex client
@@ -28,6 +35,7 @@ const convex = new ConvexReactClient(import.meta.env.VITE_CONVEX_URL!);
 const AppContent = () => {
   const [selectedListing, setSelectedListing] = useState<Listing | null>(null);
   const { loading } = useAuth();
+  const cartCount = useQuery(api.cart.count);
 
   // Safety timeout increased to 5s to handle jitter retries smoothly
   const [showContent, setShowContent] = useState(false);
@@ -46,7 +54,7 @@ const AppContent = () => {
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 font-sans text-gray-900 dark:text-gray-100 selection:bg-teal-200 dark:selection:bg-teal-800 selection:text-teal-900 dark:selection:text-teal-100 flex flex-col">
-      <Navbar cartCount={0} />
+      <Navbar cartCount={cartCount ?? 0} />
       <div className="flex-grow">
         <Routes>
           <Route path="/" element={<ExplorePage onBook={setSelectedListing} />} />
@@ -59,7 +67,12 @@ const AppContent = () => {
           <Route path="/vendor" element={<VendorDashboard onAddListing={() => {}} />} />
           <Route path="/vendor/create-listing" element={<CreateListingPage />} />
           <Route path="/vendor/edit-listing" element={<EditListingPage />} />
+          <Route path="/vendor/check-in" element={<CheckInPage />} />
           <Route path="/trips" element={<CustomerDashboard />} />
+          <Route path="/cart" element={<CartPage />} />
+          <Route path="/gift-vouchers" element={<GiftVouchersPage />} />
+          <Route path="/waiver/:bookingId" element={<WaiverPage />} />
+          <Route path="/review/:bookingId" element={<ReviewPage />} />
           <Route path="/admin" element={<AdminDashboard />} />
           <Route path="/admin/users" element={<AdminPage />} />
           <Route path="/seed" element={<SeedDataPage />} />
@@ -79,7 +92,9 @@ const App = () => {
       <Router>
         <ThemeProvider>
           <AuthProvider>
-            <AppContent />
+            <CurrencyProvider>
+              <AppContent />
+            </CurrencyProvider>
           </AuthProvider>
         </ThemeProvider>
       </Router>
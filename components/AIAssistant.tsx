@@ -4,7 +4,7 @@ import { ChatMessage, Listing, TimeSlotComponentProps, ListingsForDateComponentP
 import { createLiveSession, LiveSession } from '../services/geminiLiveService';
 import { AudioRecorder, AudioPlayer, checkAudioSupport } from '../services/audioUtils';
 import { Sparkles, Send, X, Mic, MicOff, Volume2 } from 'lucide-react';
-import { useQuery, useAction } from 'convex/react';
+import { useAction } from 'convex/react';
 import { api } from '../convex/_generated/api';
 import { Id } from '../convex/_generated/dataModel';
 import { ChatTimeSlots } from './chat/ChatTimeSlots';
@@ -44,8 +44,6 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({ listings }) => {
   const isRecordingRef = useRef<boolean>(false);
 
   // Fetch availability for next 30 days
-  const availabilityData = useQuery(api.bookings.getAvailabilityNext30Days);
-
   // Convex actions for Gemini (secure backend calls)
   const chatWithGemini = useAction(api.ai.gemini.chat);
   const createVoiceToken = useAction(api.ai.gemini.createVoiceSession);
@@ -229,6 +227,7 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({ listings }) => {
         location: l.location,
         category: l.category,
         price: l.price,
+        currency: l.currency,
         duration: l.duration,
         maxCapacity: l.maxCapacity,
         operatingDays: l.operatingDays,
@@ -240,7 +239,6 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({ listings }) => {
         userQuery: userMessage,
         listings: listingsData,
         conversationHistory: conversationHistory.map(m => ({ role: m.role, text: m.text })),
-        availabilityData: availabilityData || {},
       });
 
       // Check if response is JSON with component data
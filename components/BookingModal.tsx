@@ -1,15 +1,31 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { X, Users, Loader2, AlertCircle, Lock, CheckCircle } from 'lucide-react';
+import { X, Users, Loader2, AlertCircle, Lock, CheckCircle, Clock, ShieldCheck, Minus, Plus, ShoppingCart, Tag, Gift, PenLine, MapPin } from 'lucide-react';
 import { Elements } from '@stripe/react-stripe-js';
-import { useMutation, useAction } from 'convex/react';
+import { useMutation, useAction, useQuery } from 'convex/react';
+import toast from 'react-hot-toast';
 import { api } from '../convex/_generated/api';
 import { Id } from '../convex/_generated/dataModel';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 import { Listing } from '../types';
 import { getStripe } from '../services/stripeService';
 import { PaymentForm } from './PaymentForm';
 import { CustomerBookingCalendar } from './CustomerBookingCalendar';
+import { describeCancellationPolicy } from '../convex/lib/cancellationPolicy';
+import { priceTickets, STANDARD_TICKET_ID } from '../convex/lib/ticketTypes';
+import { checkBookingAnswers, BookingQuestion } from '../convex/lib/bookingQuestions';
+import { hasWaiver } from '../convex/lib/waivers';
+import { requiresApproval, DEFAULT_REQUEST_WINDOW_HOURS } from '../convex/lib/bookingRequests';
+import { WaiverFields } from './customer/WaiverFields';
+import { describePaymentPlan, describeBalance, isDepositPlan } from '../convex/lib/paymentPlans';
+import { describeNoShowPolicy } from '../convex/lib/attendance';
+import { BASE_CURRENCY, Currency, convertAmount, formatMoney } from '../convex/lib/currency';
+import { getSlotPricing, applyPriceAdjustment, adjustPrice } from '../convex/lib/pricingRules';
+import { priceAddOns, getMaxAddOnQuantity, getAddOnsTotal, ADD_ON_PRICING_LABELS } from '../convex/lib/addOns';
+import { findPickupZone, getPickupTime } from '../convex/lib/pickups';
+import { VendorLocationPicker } from './maps/VendorLocationPicker';
+import { getSlotTicketTypes, describeSegment } from '../convex/lib/routes';
 
 interface BookingModalProps {
   listing: Listing;
@@ -25,8 +41,10 @@ interface BookingModalProps {
 }
 
 export const BookingModal: React.FC<BookingModalProps> = ({ listing, onClose, preSelectedSlot }) => {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
+  const { rates, chargeCurrency, formatPrice } = useCurrency();
   const navigate = useNavigate();
+  const listingCurrency = listing.currency ?? BASE_CURRENCY;
 
   // Step 1: Select slot from calendar
   // Step 2: Enter guest count and review
@@ -36,16 +54,159 @@ export const BookingModal: React.FC<BookingModalProps> = ({ listing, onClose, pr
   const [step, setStep] = useState(preSelectedSlot ? 2 : 1);
 
   const [selectedSlot, setSelectedSlot] = useState<any | null>(preSelectedSlot || null);
-  const [guests, setGuests] = useState(1);
+  // Route segments sell at their own fare
+  const ticketTypes = getSlotTicketTypes(listing, selectedSlot || {});
+  const hasTicketTypes = ticketTypes[0].id !== STANDARD_TICKET_ID;
+  const [quantities, setQuantities] = useState<Record<string, number>>({ [ticketTypes[0].id]: 1 });
+  const [addOnQuantities, setAddOnQuantities] = useState<Record<string, number>>({});
   const [booking, setBooking] = useState(false);
   const [createdBookingId, setCreatedBookingId] = useState<string | null>(null);
   const [clientSecret, setClientSecret] = useState<string | null>(null);
+  // Deposit plans: what's charged now and what's left for later, in cents
+  // (THB), and the charge in the currency the card is charged in
+  const [charge, setCharge] = useState<{
+    amount: number;
+    balanceAmount: number;
+    presentmentAmount: number;
+    presentmentCurrency: Currency;
+  } | null>(null);
   const [paymentOptions, setPaymentOptions] = useState<any>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromoCode, setAppliedPromoCode] = useState<string | null>(null);
+  const [voucherInput, setVoucherInput] = useState('');
+  const [appliedVoucherCode, setAppliedVoucherCode] = useState<string | null>(null);
+  const [answerValues, setAnswerValues] = useState<Record<string, string>>({});
+  const [signerName, setSignerName] = useState(profile?.fullName || '');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [wantsPickup, setWantsPickup] = useState(false);
+  const [pickupLocation, setPickupLocation] = useState('');
+  const [pickupPin, setPickupPin] = useState<{ latitude: number; longitude: number } | null>(null);
 
   const [stripePromise] = useState(() => getStripe());
 
+  // The selected slot's pricing rules, as the server will apply them
+  const slotPricing = selectedSlot
+    ? getSlotPricing(listing.pricingRules, selectedSlot)
+    : { adjustment: 0, appliedRules: [] };
+
+  // Selected tickets, priced the same way the server will price them (in THB)
+  const tickets = ticketTypes.map(t => ({ ticketTypeId: t.id, quantity: quantities[t.id] || 0 }));
+  const pricing = useMemo(() => {
+    try {
+      const priced = applyPriceAdjustment(priceTickets(ticketTypes, tickets), slotPricing.adjustment);
+      const lineItems = priced.lineItems.map(item => ({
+        ...item,
+        unitPrice: convertAmount(item.unitPrice, listingCurrency, BASE_CURRENCY, rates),
+      }));
+      return {
+        ...priced,
+        lineItems,
+        totalPrice: lineItems.reduce((total, item) => total + item.unitPrice * item.quantity, 0),
+      };
+    } catch {
+      return null;
+    }
+  }, [listing, selectedSlot, quantities, rates, slotPricing.adjustment]);
+  const guests = pricing?.seats ?? 0;
+  // Free tickets can't be booked on their own (see priceTickets)
+  const onlyFreeTickets = tickets.some(t => t.quantity > 0) &&
+    tickets.every(t => t.quantity === 0 || ticketTypes.find(type => type.id === t.ticketTypeId)?.price === 0);
+
+  const setQuantity = (ticketTypeId: string, quantity: number) => {
+    setQuantities({ ...quantities, [ticketTypeId]: Math.max(0, quantity) });
+  };
+
+  // Extras, capped at what the group can take, priced like the server prices them (in THB)
+  const listingAddOns = listing.addOns || [];
+  const addOnSelections = listingAddOns
+    .map(a => ({ addOnId: a.id, quantity: Math.min(addOnQuantities[a.id] || 0, getMaxAddOnQuantity(a, guests)) }))
+    .filter(selection => selection.quantity > 0);
+  const addOnItems = priceAddOns(listingAddOns, addOnSelections, guests).items.map(item => ({
+    ...item,
+    unitPrice: convertAmount(item.unitPrice, listingCurrency, BASE_CURRENCY, rates),
+  }));
+  const addOnsTotal = getAddOnsTotal(addOnItems);
+  const addOnRemaining = useQuery(
+    api.addOns.getRemaining,
+    selectedSlot && listingAddOns.length > 0 ? { slotId: selectedSlot._id as Id<"slots"> } : "skip"
+  );
+
+  const setAddOnQuantity = (addOnId: string, quantity: number) => {
+    setAddOnQuantities({ ...addOnQuantities, [addOnId]: Math.max(0, quantity) });
+  };
+
+  // Hotel pickup: the pin decides the zone, its fee (in THB) and the pickup time
+  const pickupZones = listing.pickupZones || [];
+  const pickupZone = wantsPickup && pickupPin ? findPickupZone(pickupZones, pickupPin) : null;
+  const pickupFee = pickupZone ? convertAmount(pickupZone.fee, listingCurrency, BASE_CURRENCY, rates) : 0;
+  const pickupReady = !wantsPickup || (!!pickupZone && !!pickupLocation.trim());
+
+  // Booking questions, one field per question (or per guest for per-guest questions)
+  const bookingQuestions = listing.bookingQuestions || [];
+  const answerFields: { question: BookingQuestion; guestNumber?: number }[] = bookingQuestions.flatMap(question =>
+    question.perGuest
+      ? Array.from({ length: guests }, (_, i) => ({ question, guestNumber: i + 1 }))
+      : [{ question }]
+  );
+  const answerKey = (questionId: string, guestNumber?: number) => `${questionId}:${guestNumber ?? ''}`;
+  const answers = answerFields
+    .map(({ question, guestNumber }) => ({
+      questionId: question.id,
+      guestNumber,
+      value: answerValues[answerKey(question.id, guestNumber)] || '',
+    }))
+    .filter(answer => answer.value.trim());
+  const answersComplete = useMemo(() => {
+    try {
+      checkBookingAnswers(bookingQuestions, answers, guests);
+      return true;
+    } catch {
+      return false;
+    }
+  }, [listing, answerValues, guests]);
+
   const createBookingMutation = useMutation(api.bookings.createSlotBooking);
+  const cancelBookingMutation = useMutation(api.bookings.cancel);
   const createPaymentIntentAction = useAction(api.stripe.payments.createPaymentIntent);
+  const addToCartMutation = useMutation(api.cart.add);
+  const signWaiverAction = useAction(api.waivers.sign);
+
+  // Request-to-book listings authorize the card and wait for the vendor
+  const isRequest = requiresApproval(listing);
+
+  // The booker signs the waiver here; the rest of the group signs from the emailed link
+  const needsWaiver = hasWaiver(listing);
+  const waiverSigned = !needsWaiver || (!!signerName.trim() && !!signature);
+  const waiverDocumentUrl = useQuery(
+    api.files.getFileUrl,
+    listing.waiver?.storageId ? { storageId: listing.waiver.storageId } : "skip"
+  );
+
+  // Preview the promo code; the discount is applied server-side with the payment
+  const promo = useQuery(
+    api.promoCodes.validate,
+    appliedPromoCode && pricing
+      ? {
+          code: appliedPromoCode,
+          listingId: listing.id as Id<"listings">,
+          guests,
+          subtotal: pricing.totalPrice + addOnsTotal + pickupFee,
+        }
+      : "skip"
+  );
+  const discountAmount = promo?.valid ? promo.discountAmount : 0;
+
+  // Preview the gift voucher balance; it is redeemed server-side with the payment
+  const voucher = useQuery(
+    api.giftVouchers.check,
+    appliedVoucherCode ? { code: appliedVoucherCode } : "skip"
+  );
+
+  // Seat hold placed when the pending booking is created
+  const seatHold = useQuery(
+    api.availability.holds.getByBooking,
+    createdBookingId ? { bookingId: createdBookingId as Id<"bookings"> } : "skip"
+  );
 
   const handleSlotSelect = (slot: any) => {
     setSelectedSlot(slot);
@@ -68,21 +229,47 @@ export const BookingModal: React.FC<BookingModalProps> = ({ listing, onClose, pr
       // Step 1: Create booking with pending status
       const bookingId = await createBookingMutation({
         slotId: selectedSlot._id,
-        guests: guests,
+        tickets,
+        answers,
+        addOns: addOnSelections,
+        pickup: wantsPickup && pickupPin ? { location: pickupLocation, ...pickupPin } : undefined,
       });
 
       console.log('✅ Booking created:', bookingId);
       setCreatedBookingId(bookingId);
 
-      // Step 2: Create payment intent with commission calculation
-      const totalAmountInCents = Math.round((listing.price * guests) * 100);
+      if (needsWaiver && signature) {
+        await signWaiverAction({
+          bookingId,
+          guestNumber: 1,
+          signerName,
+          signatureDataUrl: signature,
+        });
+      }
+
+      // Step 2: Create payment intent (amount is priced server-side from the tickets and extras)
       const paymentResult = await createPaymentIntentAction({
         bookingId,
-        amount: totalAmountInCents,
+        promoCode: promo?.valid ? promo.code : undefined,
+        voucherCode: voucher?.valid ? voucher.code : undefined,
+        currency: chargeCurrency,
       });
 
+      // Nothing left to pay by card
+      if (paymentResult.paidByVoucher) {
+        setBooking(false);
+        setStep(4);
+        return;
+      }
+
       console.log('✅ Payment intent created:', paymentResult.paymentIntentId);
       setClientSecret(paymentResult.clientSecret);
+      setCharge({
+        amount: paymentResult.amount,
+        balanceAmount: paymentResult.balanceAmount,
+        presentmentAmount: paymentResult.presentmentAmount,
+        presentmentCurrency: paymentResult.presentmentCurrency,
+      });
 
       // Set up payment options
       setPaymentOptions({
@@ -105,6 +292,28 @@ export const BookingModal: React.FC<BookingModalProps> = ({ listing, onClose, pr
     }
   };
 
+  const handleAddToCart = async () => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+
+    setBooking(true);
+    try {
+      await addToCartMutation({
+        slotId: selectedSlot._id,
+        tickets,
+        answers,
+      });
+      toast.success(`${listing.title} added to your cart`);
+      onClose();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to add to cart');
+    } finally {
+      setBooking(false);
+    }
+  };
+
   const handlePaymentSuccess = async () => {
     // Payment succeeded - webhook will update booking status
     setStep(4); // Success step
@@ -114,7 +323,28 @@ export const BookingModal: React.FC<BookingModalProps> = ({ listing, onClose, pr
     console.error('Payment error:', error);
   };
 
-  const totalAmount = listing.price * guests;
+  // Release the held seats if the customer leaves the payment step
+  const releasePendingBooking = async () => {
+    if (!createdBookingId || step !== 3) return;
+    try {
+      await cancelBookingMutation({ id: createdBookingId as Id<"bookings"> });
+    } catch (error) {
+      console.error('Failed to release held seats:', error);
+    }
+    setCreatedBookingId(null);
+    setClientSecret(null);
+    setCharge(null);
+    setPaymentOptions(null);
+  };
+
+  const handleClose = async () => {
+    await releasePendingBooking();
+    onClose();
+  };
+
+  const discountedTotal = (pricing?.totalPrice ?? 0) + addOnsTotal + pickupFee - discountAmount;
+  const voucherAmount = voucher?.valid ? Math.min(voucher.balance, discountedTotal) : 0;
+  const totalAmount = discountedTotal - voucherAmount;
 
   return (
     <div className="fixed inset-0 bg-gray-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4 animate-in fade-in">
@@ -125,7 +355,7 @@ export const BookingModal: React.FC<BookingModalProps> = ({ listing, onClose, pr
             <div className="flex justify-between items-center mb-6">
               <div>
                 <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Book {listing.title}</h2>
-                <p className="text-gray-500 dark:text-gray-400 text-sm">฿{listing.price} / person</p>
+                <p className="text-gray-500 dark:text-gray-400 text-sm">{formatPrice(listing.price, listingCurrency)} / person</p>
               </div>
               <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
                 <X className="w-6 h-6 text-gray-400" />
@@ -136,6 +366,7 @@ export const BookingModal: React.FC<BookingModalProps> = ({ listing, onClose, pr
               listingId={listing.id as Id<"listings">}
               onSelectSlot={handleSlotSelect}
               selectedSlotId={selectedSlot?._id}
+              route={listing.route}
             />
           </div>
         )}
@@ -167,47 +398,413 @@ export const BookingModal: React.FC<BookingModalProps> = ({ listing, onClose, pr
                 </div>
                 <div className="text-teal-600 dark:text-teal-400 font-medium mt-1">
                   {selectedSlot.startTime} - {selectedSlot.endTime}
+                  {listing.route && selectedSlot.segment && ` · ${describeSegment(listing.route, selectedSlot.segment)}`}
                 </div>
                 <div className="text-sm text-gray-500 dark:text-gray-400 mt-2">
                   {selectedSlot.available} of {selectedSlot.capacity} spots remaining
                 </div>
+                {slotPricing.adjustment !== 0 && (
+                  <div className={`text-sm font-medium mt-1 ${slotPricing.adjustment < 0 ? 'text-green-600 dark:text-green-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                    {slotPricing.adjustment > 0 ? '+' : ''}{slotPricing.adjustment}% for this time · {slotPricing.appliedRules.join(', ')}
+                  </div>
+                )}
               </div>
 
               {/* Guest Selection */}
-              <div>
-                <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
-                  Number of Guests
-                </label>
-                <div className="relative">
-                  <select
-                    value={guests}
-                    onChange={e => setGuests(parseInt(e.target.value))}
-                    className="w-full p-4 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white appearance-none focus:ring-2 focus:ring-teal-500 outline-none"
-                  >
-                    {[...Array(Math.min(selectedSlot.available, 10))].map((_, i) => (
-                      <option key={i + 1} value={i + 1}>
-                        {i + 1} {i + 1 === 1 ? 'Guest' : 'Guests'}
-                      </option>
-                    ))}
-                  </select>
-                  <div className="absolute right-4 top-4 pointer-events-none text-gray-500 dark:text-gray-400">
-                    <Users className="w-5 h-5" />
+              {hasTicketTypes ? (
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
+                    Tickets
+                  </label>
+                  <div className="space-y-2">
+                    {ticketTypes.map(ticket => {
+                      const quantity = quantities[ticket.id] || 0;
+                      return (
+                        <div key={ticket.id} className="flex items-center justify-between p-4 rounded-xl border border-gray-200 dark:border-gray-600">
+                          <div>
+                            <div className="font-bold text-gray-900 dark:text-white">{ticket.name}</div>
+                            <div className="text-sm text-gray-500 dark:text-gray-400">
+                              {formatPrice(adjustPrice(ticket.price, slotPricing.adjustment), listingCurrency)}
+                              {ticket.seats > 1 && ` · up to ${ticket.seats} people`}
+                              {ticket.description && ` · ${ticket.description}`}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <button
+                              type="button"
+                              onClick={() => setQuantity(ticket.id, quantity - 1)}
+                              disabled={quantity === 0}
+                              className="p-2 rounded-full border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 disabled:opacity-30"
+                            >
+                              <Minus className="w-4 h-4" />
+                            </button>
+                            <span className="w-6 text-center font-bold text-gray-900 dark:text-white">{quantity}</span>
+                            <button
+                              type="button"
+                              onClick={() => setQuantity(ticket.id, quantity + 1)}
+                              disabled={guests + ticket.seats > selectedSlot.available}
+                              className="p-2 rounded-full border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 disabled:opacity-30"
+                            >
+                              <Plus className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
                   </div>
+                  {onlyFreeTickets && (
+                    <p className="text-sm text-amber-600 dark:text-amber-400 mt-2">
+                      Free tickets must be booked together with a paid ticket.
+                    </p>
+                  )}
                 </div>
-              </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
+                    Number of Guests
+                  </label>
+                  <div className="relative">
+                    <select
+                      value={guests}
+                      onChange={e => setQuantity(STANDARD_TICKET_ID, parseInt(e.target.value))}
+                      className="w-full p-4 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white appearance-none focus:ring-2 focus:ring-teal-500 outline-none"
+                    >
+                      {[...Array(Math.min(selectedSlot.available, 10))].map((_, i) => (
+                        <option key={i + 1} value={i + 1}>
+                          {i + 1} {i + 1 === 1 ? 'Guest' : 'Guests'}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="absolute right-4 top-4 pointer-events-none text-gray-500 dark:text-gray-400">
+                      <Users className="w-5 h-5" />
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Add-ons */}
+              {listingAddOns.length > 0 && (
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
+                    Extras
+                  </label>
+                  <div className="space-y-2">
+                    {listingAddOns.map(addOn => {
+                      const quantity = Math.min(addOnQuantities[addOn.id] || 0, getMaxAddOnQuantity(addOn, guests));
+                      const remaining = addOnRemaining?.[addOn.id] ?? null;
+                      const max = Math.min(getMaxAddOnQuantity(addOn, guests), remaining ?? Infinity);
+                      return (
+                        <div key={addOn.id} className="flex items-center justify-between p-4 rounded-xl border border-gray-200 dark:border-gray-600">
+                          <div>
+                            <div className="font-bold text-gray-900 dark:text-white">{addOn.name}</div>
+                            <div className="text-sm text-gray-500 dark:text-gray-400">
+                              {formatPrice(addOn.price, listingCurrency)} · {ADD_ON_PRICING_LABELS[addOn.pricing].toLowerCase()}
+                              {addOn.description && ` · ${addOn.description}`}
+                              {remaining !== null && (
+                                <span className={remaining === 0 ? ' font-bold text-red-600 dark:text-red-400' : ''}>
+                                  {remaining === 0 ? ' · Sold out' : ` · ${remaining} left`}
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <button
+                              type="button"
+                              onClick={() => setAddOnQuantity(addOn.id, quantity - 1)}
+                              disabled={quantity === 0}
+                              className="p-2 rounded-full border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 disabled:opacity-30"
+                            >
+                              <Minus className="w-4 h-4" />
+                            </button>
+                            <span className="w-6 text-center font-bold text-gray-900 dark:text-white">{quantity}</span>
+                            <button
+                              type="button"
+                              onClick={() => setAddOnQuantity(addOn.id, quantity + 1)}
+                              disabled={quantity >= max}
+                              className="p-2 rounded-full border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 disabled:opacity-30"
+                            >
+                              <Plus className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* Hotel Pickup */}
+              {pickupZones.length > 0 && (
+                <div>
+                  <label className="flex items-center gap-2 text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
+                    <input
+                      type="checkbox"
+                      checked={wantsPickup}
+                      onChange={e => setWantsPickup(e.target.checked)}
+                      className="rounded text-teal-600 focus:ring-teal-500"
+                    />
+                    Pick me up from my accommodation
+                  </label>
+                  {wantsPickup && (
+                    <div className="space-y-2">
+                      <input
+                        type="text"
+                        value={pickupLocation}
+                        onChange={e => setPickupLocation(e.target.value)}
+                        placeholder="Hotel or accommodation name"
+                        className="w-full p-3 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-teal-500 outline-none"
+                      />
+                      <VendorLocationPicker
+                        lat={pickupPin?.latitude}
+                        lng={pickupPin?.longitude}
+                        onChange={(latitude, longitude) => setPickupPin({ latitude, longitude })}
+                        zones={pickupZones}
+                        hint="Click where you're staying"
+                      />
+                      {pickupPin && (pickupZone ? (
+                        <p className="flex items-center gap-2 text-sm text-teal-700 dark:text-teal-300">
+                          <MapPin className="w-4 h-4" />
+                          {pickupZone.name} · pickup around {getPickupTime(selectedSlot.startTime, pickupZone.offsetMinutes)}
+                          {' · '}{pickupZone.fee > 0 ? formatPrice(pickupZone.fee, listingCurrency) : 'Free'}
+                        </p>
+                      ) : (
+                        <p className="flex items-center gap-2 text-sm text-amber-600 dark:text-amber-400">
+                          <AlertCircle className="w-4 h-4" />
+                          This is outside the pickup area - please meet at the meeting point
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Booking Questions */}
+              {answerFields.length > 0 && (
+                <div className="space-y-3">
+                  <label className="block text-sm font-bold text-gray-700 dark:text-gray-300">
+                    A few questions from {listing.vendorName}
+                  </label>
+                  {answerFields.map(({ question, guestNumber }) => {
+                    const key = answerKey(question.id, guestNumber);
+                    const fieldClassName = 'w-full p-3 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-teal-500 outline-none';
+                    return (
+                      <div key={key}>
+                        <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">
+                          {question.label}
+                          {guestNumber && ` · Guest ${guestNumber}`}
+                          {question.required && <span className="text-red-500"> *</span>}
+                        </label>
+                        {question.type === 'select' ? (
+                          <select
+                            value={answerValues[key] || ''}
+                            onChange={e => setAnswerValues({ ...answerValues, [key]: e.target.value })}
+                            className={fieldClassName}
+                          >
+                            <option value="">Choose...</option>
+                            {(question.options || []).map(option => (
+                              <option key={option} value={option}>{option}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <input
+                            type="text"
+                            value={answerValues[key] || ''}
+                            onChange={e => setAnswerValues({ ...answerValues, [key]: e.target.value })}
+                            className={fieldClassName}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Liability Waiver */}
+              {needsWaiver && (
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
+                    Liability Waiver
+                  </label>
+                  <WaiverFields
+                    title={listing.waiver?.title || 'Release of Liability'}
+                    text={listing.waiver?.text}
+                    documentUrl={waiverDocumentUrl}
+                    signerName={signerName}
+                    onSignerNameChange={setSignerName}
+                    onSignatureChange={setSignature}
+                  />
+                  {guests > 1 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                      The rest of your group can sign from the link in your confirmation email.
+                    </p>
+                  )}
+                </div>
+              )}
 
               {/* Price Summary */}
               <div className="bg-teal-50 dark:bg-teal-900/30 p-6 rounded-xl space-y-2">
-                <div className="flex justify-between text-gray-700 dark:text-gray-300">
-                  <span>฿{listing.price} × {guests} {guests === 1 ? 'guest' : 'guests'}</span>
-                  <span>฿{listing.price * guests}</span>
-                </div>
+                {pricing?.lineItems.map(item => (
+                  <div key={item.ticketTypeId} className="flex justify-between text-gray-700 dark:text-gray-300">
+                    <span>{formatPrice(item.unitPrice)} × {item.quantity} {hasTicketTypes ? item.name : item.quantity === 1 ? 'guest' : 'guests'}</span>
+                    <span>{formatPrice(item.unitPrice * item.quantity)}</span>
+                  </div>
+                ))}
+                {addOnItems.map(item => (
+                  <div key={item.addOnId} className="flex justify-between text-gray-700 dark:text-gray-300">
+                    <span>{formatPrice(item.unitPrice)} × {item.quantity} {item.name}</span>
+                    <span>{formatPrice(item.unitPrice * item.quantity)}</span>
+                  </div>
+                ))}
+                {pickupZone && (
+                  <div className="flex justify-between text-gray-700 dark:text-gray-300">
+                    <span>Hotel pickup · {pickupZone.name}</span>
+                    <span>{pickupFee > 0 ? formatPrice(pickupFee) : 'Free'}</span>
+                  </div>
+                )}
+                {promo?.valid && (
+                  <div className="flex justify-between text-teal-700 dark:text-teal-300">
+                    <span>{promo.code} · {promo.description}</span>
+                    <span>−{formatPrice(discountAmount)}</span>
+                  </div>
+                )}
+                {voucher?.valid && (
+                  <div className="flex justify-between text-teal-700 dark:text-teal-300">
+                    <span>Gift voucher {voucher.code}</span>
+                    <span>−{formatPrice(voucherAmount)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-lg font-bold text-gray-900 dark:text-white pt-2 border-t border-teal-200 dark:border-teal-700">
                   <span>Total</span>
-                  <span>฿{totalAmount}</span>
+                  <span>{formatPrice(totalAmount)}</span>
+                </div>
+                {chargeCurrency !== BASE_CURRENCY && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Charged in {chargeCurrency} at today's rate ({formatMoney(totalAmount, BASE_CURRENCY)})
+                  </p>
+                )}
+              </div>
+
+              {/* Promo Code */}
+              <div>
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <Tag className="absolute left-4 top-3.5 w-4 h-4 text-gray-400" />
+                    <input
+                      type="text"
+                      value={promoInput}
+                      onChange={e => setPromoInput(e.target.value)}
+                      placeholder="Promo code"
+                      className="w-full pl-10 pr-4 py-3 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white uppercase focus:ring-2 focus:ring-teal-500 outline-none"
+                    />
+                  </div>
+                  {appliedPromoCode ? (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setAppliedPromoCode(null);
+                        setPromoInput('');
+                      }}
+                      className="px-5 rounded-xl font-bold border-2 border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      Remove
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setAppliedPromoCode(promoInput.trim() || null)}
+                      disabled={!promoInput.trim()}
+                      className="px-5 rounded-xl font-bold bg-gray-900 dark:bg-teal-600 text-white hover:bg-teal-600 dark:hover:bg-teal-500 disabled:opacity-50"
+                    >
+                      Apply
+                    </button>
+                  )}
+                </div>
+                {promo && !promo.valid && (
+                  <p className="text-sm text-red-600 dark:text-red-400 mt-2">{promo.message}</p>
+                )}
+              </div>
+
+              {/* Gift Voucher */}
+              <div>
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <Gift className="absolute left-4 top-3.5 w-4 h-4 text-gray-400" />
+                    <input
+                      type="text"
+                      value={voucherInput}
+                      onChange={e => setVoucherInput(e.target.value)}
+                      placeholder="Gift voucher code"
+                      className="w-full pl-10 pr-4 py-3 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white uppercase focus:ring-2 focus:ring-teal-500 outline-none"
+                    />
+                  </div>
+                  {appliedVoucherCode ? (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setAppliedVoucherCode(null);
+                        setVoucherInput('');
+                      }}
+                      className="px-5 rounded-xl font-bold border-2 border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      Remove
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setAppliedVoucherCode(voucherInput.trim() || null)}
+                      disabled={!voucherInput.trim()}
+                      className="px-5 rounded-xl font-bold bg-gray-900 dark:bg-teal-600 text-white hover:bg-teal-600 dark:hover:bg-teal-500 disabled:opacity-50"
+                    >
+                      Apply
+                    </button>
+                  )}
+                </div>
+                {voucher && !voucher.valid && (
+                  <p className="text-sm text-red-600 dark:text-red-400 mt-2">{voucher.message}</p>
+                )}
+                {voucher?.valid && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                    Balance {formatPrice(voucher.balance)}
+                    {voucher.balance > voucherAmount && ` · ${formatPrice(Math.round((voucher.balance - voucherAmount) * 100) / 100)} left after this booking`}
+                  </p>
+                )}
+              </div>
+
+              {/* Cancellation Policy */}
+              <div className="flex items-start gap-3 text-sm text-gray-600 dark:text-gray-400">
+                <ShieldCheck className="w-5 h-5 text-teal-600 dark:text-teal-400 shrink-0" />
+                <div>
+                  <p className="font-bold text-gray-900 dark:text-white">Cancellation policy</p>
+                  {describeCancellationPolicy(listing.cancellationPolicy).map(line => (
+                    <p key={line}>{line}</p>
+                  ))}
+                  <p>{describeNoShowPolicy(listing.noShowPolicy)}</p>
                 </div>
               </div>
 
+              {isDepositPlan(listing.paymentPlan) && (
+                <div className="flex items-start gap-3 text-sm text-gray-600 dark:text-gray-400">
+                  <Lock className="w-5 h-5 text-teal-600 dark:text-teal-400 shrink-0" />
+                  <div>
+                    <p className="font-bold text-gray-900 dark:text-white">Deposit</p>
+                    <p>{describePaymentPlan(listing.paymentPlan)}.</p>
+                  </div>
+                </div>
+              )}
+
+              {isRequest && (
+                <div className="flex items-start gap-3 text-sm text-gray-600 dark:text-gray-400">
+                  <Clock className="w-5 h-5 text-teal-600 dark:text-teal-400 shrink-0" />
+                  <div>
+                    <p className="font-bold text-gray-900 dark:text-white">Request to book</p>
+                    <p>
+                      The vendor answers within {listing.requestWindowHours ?? DEFAULT_REQUEST_WINDOW_HOURS} hours.
+                      Your card is authorized now and only charged if they accept.
+                    </p>
+                  </div>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex gap-3">
                 <button
@@ -221,7 +818,7 @@ export const BookingModal: React.FC<BookingModalProps> = ({ listing, onClose, pr
                 </button>
                 <button
                   onClick={handleContinueToPayment}
-                  disabled={booking}
+                  disabled={booking || !pricing || !answersComplete || !waiverSigned || !pickupReady || guests > selectedSlot.available}
                   className="flex-1 py-4 rounded-xl bg-teal-600 hover:bg-teal-700 text-white font-bold transition-colors shadow-lg shadow-teal-500/30 flex items-center justify-center gap-2 disabled:opacity-50"
                 >
                   {booking ? (
@@ -229,6 +826,16 @@ export const BookingModal: React.FC<BookingModalProps> = ({ listing, onClose, pr
                       <Loader2 className="animate-spin w-5 h-5" />
                       Processing...
                     </>
+                  ) : isRequest ? (
+                    <>
+                      Request to Book
+                      <Lock className="w-5 h-5" />
+                    </>
+                  ) : totalAmount <= 0 ? (
+                    <>
+                      Confirm Booking
+                      <Gift className="w-5 h-5" />
+                    </>
                   ) : (
                     <>
                       Continue to Payment
@@ -237,6 +844,17 @@ export const BookingModal: React.FC<BookingModalProps> = ({ listing, onClose, pr
                   )}
                 </button>
               </div>
+              {/* The cart doesn't carry extras or pickups, so those bookings are paid here */}
+              {!isRequest && addOnItems.length === 0 && !wantsPickup && (
+                <button
+                  onClick={handleAddToCart}
+                  disabled={booking || !pricing || !answersComplete || guests > selectedSlot.available}
+                  className="w-full py-3 rounded-xl font-bold text-teal-600 dark:text-teal-400 hover:bg-teal-50 dark:hover:bg-teal-900/30 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  <ShoppingCart className="w-5 h-5" />
+                  Add to Cart
+                </button>
+              )}
             </div>
           </div>
         )}
@@ -247,27 +865,63 @@ export const BookingModal: React.FC<BookingModalProps> = ({ listing, onClose, pr
             <div className="flex justify-between items-center mb-8">
               <div>
                 <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Payment</h2>
-                <p className="text-gray-500 dark:text-gray-400 text-sm">Complete your booking</p>
+                <p className="text-gray-500 dark:text-gray-400 text-sm">
+                  {isRequest ? 'Authorize your card to send the request' : 'Complete your booking'}
+                </p>
               </div>
-              <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+              <button onClick={handleClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
                 <X className="w-6 h-6 text-gray-400" />
               </button>
             </div>
 
             <div className="mb-6 bg-gray-50 dark:bg-gray-900 p-4 rounded-xl">
               <div className="flex justify-between items-center">
-                <span className="text-gray-700 dark:text-gray-300">Total Amount</span>
-                <span className="text-2xl font-bold text-gray-900 dark:text-white">฿{totalAmount}</span>
+                <span className="text-gray-700 dark:text-gray-300">
+                  {charge?.balanceAmount ? 'Deposit Due Now' : 'Total Amount'}
+                </span>
+                <span className="text-2xl font-bold text-gray-900 dark:text-white">
+                  {charge
+                    ? formatMoney(charge.presentmentAmount / 100, charge.presentmentCurrency)
+                    : formatPrice(totalAmount)}
+                </span>
               </div>
+              {charge?.balanceAmount && isDepositPlan(listing.paymentPlan) ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                  {formatPrice(charge.balanceAmount / 100)} {describeBalance(listing.paymentPlan)}
+                </p>
+              ) : null}
             </div>
 
+            {seatHold?.status === 'active' && (
+              <div className="mb-6 flex items-center gap-2 text-sm text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/30 p-3 rounded-xl">
+                <Clock className="w-4 h-4 flex-shrink-0" />
+                <span>
+                  Your {guests} {guests === 1 ? 'spot is' : 'spots are'} held until{' '}
+                  {new Date(seatHold.expiresAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}.
+                  Complete payment before then to keep them.
+                </span>
+              </div>
+            )}
+
+            {seatHold && seatHold.status !== 'active' && seatHold.status !== 'converted' && (
+              <div className="mb-6 flex items-center gap-2 text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 p-3 rounded-xl">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>Your seat hold has expired. Please go back and select the time slot again.</span>
+              </div>
+            )}
+
             <Elements stripe={stripePromise} options={paymentOptions}>
               <PaymentForm
-                amount={totalAmount}
+                amount={charge ? charge.presentmentAmount / 100 : totalAmount}
+                currency={charge?.presentmentCurrency}
                 bookingId={createdBookingId!}
+                authorizeOnly={isRequest}
                 onSuccess={handlePaymentSuccess}
                 onError={handlePaymentError}
-                onCancel={() => setStep(2)}
+                onCancel={async () => {
+                  await releasePendingBooking();
+                  setStep(2);
+                }}
               />
             </Elements>
           </div>
@@ -279,9 +933,13 @@ export const BookingModal: React.FC<BookingModalProps> = ({ listing, onClose, pr
             <div className="inline-block p-4 bg-green-100 dark:bg-green-900/30 rounded-full mb-6">
               <CheckCircle className="w-16 h-16 text-green-600 dark:text-green-400" />
             </div>
-            <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-4">Booking Confirmed!</h2>
+            <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-4">
+              {isRequest ? 'Request Sent!' : 'Booking Confirmed!'}
+            </h2>
             <p className="text-gray-600 dark:text-gray-400 mb-2">
-              Your booking for {listing.title} has been confirmed.
+              {isRequest
+                ? `The vendor will answer your request for ${listing.title} soon. Your card is only charged if they accept.`
+                : `Your booking for ${listing.title} has been confirmed.`}
             </p>
             {selectedSlot && (
               <p className="text-gray-600 dark:text-gray-400 mb-8">
@@ -289,6 +947,15 @@ export const BookingModal: React.FC<BookingModalProps> = ({ listing, onClose, pr
               </p>
             )}
             <div className="space-y-3">
+              {needsWaiver && guests > 1 && createdBookingId && (
+                <button
+                  onClick={() => navigate(`/waiver/${createdBookingId}`)}
+                  className="w-full py-4 rounded-xl border-2 border-teal-600 text-teal-700 dark:text-teal-300 hover:bg-teal-50 dark:hover:bg-teal-900/30 font-bold transition-colors flex items-center justify-center gap-2"
+                >
+                  <PenLine className="w-5 h-5" />
+                  Sign the Waiver for Your Group
+                </button>
+              )}
               <button
                 onClick={() => navigate('/customer/bookings')}
                 className="w-full py-4 rounded-xl bg-teal-600 hover:bg-teal-700 text-white font-bold transition-colors"
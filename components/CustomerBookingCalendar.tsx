@@ -11,17 +11,21 @@ import { api } from '../convex/_generated/api';
 import { Id } from '../convex/_generated/dataModel';
 import { ChevronLeft, ChevronRight, Users, Calendar } from 'lucide-react';
 import { DaySessionsModal } from './DaySessionsModal';
+import { SlotPriceTag } from './customer/SlotPriceTag';
+import { Route, describeSegment } from '../convex/lib/routes';
 
 interface CustomerBookingCalendarProps {
   listingId: Id<"listings">;
   onSelectSlot: (slot: any) => void;
   selectedSlotId?: Id<"slots"> | null;
+  route?: Route; // Transportation listings label each slot with its segment
 }
 
 export const CustomerBookingCalendar: React.FC<CustomerBookingCalendarProps> = ({
   listingId,
   onSelectSlot,
   selectedSlotId,
+  route,
 }) => {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [modalOpen, setModalOpen] = useState(false);
@@ -247,7 +251,13 @@ export const CustomerBookingCalendar: React.FC<CustomerBookingCalendarProps> = (
                                   slot.available > 0 ? 'cursor-pointer' : ''
                                 }`}
                               >
-                                <div className="font-medium">{slot.startTime}</div>
+                                <div className="flex items-center justify-center gap-1 font-medium">
+                                  {slot.startTime}
+                                  <SlotPriceTag slot={slot} compact />
+                                </div>
+                                {route && slot.segment && (
+                                  <div className="text-[10px] truncate">{describeSegment(route, slot.segment)}</div>
+                                )}
                                 <div className="flex items-center gap-1 text-[10px] justify-center">
                                   <Users className="w-3 h-3" />
                                   {slot.booked}/{slot.capacity}
@@ -281,6 +291,7 @@ export const CustomerBookingCalendar: React.FC<CustomerBookingCalendarProps> = (
           onSelectSlot={onSelectSlot}
           onClose={handleCloseDayModal}
           selectedSlotId={selectedSlotId}
+          route={route}
         />
       )}
     </div>
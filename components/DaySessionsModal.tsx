@@ -8,6 +8,8 @@
 import React from 'react';
 import { X, Users, Clock } from 'lucide-react';
 import { Id } from '../convex/_generated/dataModel';
+import { SlotPriceTag } from './customer/SlotPriceTag';
+import { Route, describeSegment } from '../convex/lib/routes';
 
 interface DaySessionsModalProps {
   date: Date;
@@ -15,6 +17,7 @@ interface DaySessionsModalProps {
   onSelectSlot: (slot: any) => void;
   onClose: () => void;
   selectedSlotId?: Id<"slots"> | null;
+  route?: Route; // Transportation listings label each session with its segment
 }
 
 export const DaySessionsModal: React.FC<DaySessionsModalProps> = ({
@@ -23,6 +26,7 @@ export const DaySessionsModal: React.FC<DaySessionsModalProps> = ({
   onSelectSlot,
   onClose,
   selectedSlotId,
+  route,
 }) => {
   const getSlotColor = (slot: any) => {
     if (selectedSlotId && slot._id === selectedSlotId) {
@@ -95,6 +99,9 @@ export const DaySessionsModal: React.FC<DaySessionsModalProps> = ({
                     <div className="font-bold text-base">
                       {slot.startTime} - {slot.endTime}
                     </div>
+                    {route && slot.segment && (
+                      <div className="text-sm font-medium">{describeSegment(route, slot.segment)}</div>
+                    )}
                     <div className="flex items-center gap-1.5 text-sm mt-1">
                       <Users className="w-4 h-4" />
                       <span>
@@ -108,6 +115,9 @@ export const DaySessionsModal: React.FC<DaySessionsModalProps> = ({
                         )}
                       </span>
                     </div>
+                    <div className="mt-1">
+                      <SlotPriceTag slot={slot} />
+                    </div>
                   </div>
                 </div>
                 <div className="text-xs font-medium px-3 py-1.5 bg-white/50 dark:bg-gray-900/30 rounded-full">
@@ -0,0 +1,121 @@
+/**
+ * ExchangeRatesPanel Component
+ *
+ * Lets admins set the rate for each supported currency (units per 1 THB)
+ * or import them all from a rates file (JSON or "currency,rate" CSV).
+ */
+
+import React, { useRef, useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { Loader2, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  Currency,
+  BASE_CURRENCY,
+  CURRENCY_LABELS,
+  SUPPORTED_CURRENCIES,
+  parseRatesFile,
+} from '../convex/lib/currency';
+
+export const ExchangeRatesPanel: React.FC = () => {
+  const rates = useQuery(api.exchangeRates.list);
+  const setRate = useMutation(api.exchangeRates.setRate);
+  const importRates = useMutation(api.exchangeRates.importRates);
+  const [drafts, setDrafts] = useState<Partial<Record<Currency, string>>>({});
+  const [saving, setSaving] = useState<Currency | 'import' | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (rates === undefined) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-6 h-6 animate-spin text-teal-600" />
+      </div>
+    );
+  }
+
+  const handleSave = async (currency: Currency) => {
+    setSaving(currency);
+    try {
+      await setRate({ currency, rate: parseFloat(drafts[currency] || '') });
+      setDrafts({ ...drafts, [currency]: undefined });
+      toast.success(`${currency} rate updated`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update rate');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setSaving('import');
+    try {
+      const result = await importRates({ rates: parseRatesFile(await file.text()) });
+      setDrafts({});
+      toast.success(`Imported ${result.imported} exchange rates`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to import rates');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Units of each currency per 1 {BASE_CURRENCY}. Payments settle in {BASE_CURRENCY}.
+        </p>
+        <input ref={fileInputRef} type="file" accept=".json,.csv,.txt" onChange={handleImport} className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={saving !== null}
+          className="px-4 py-2 rounded-lg border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-200 font-bold hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center gap-2 disabled:opacity-50"
+        >
+          {saving === 'import' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          Import file
+        </button>
+      </div>
+
+      <div className="divide-y divide-gray-100 dark:divide-gray-700">
+        {SUPPORTED_CURRENCIES.filter(code => code !== BASE_CURRENCY).map(code => {
+          const row = rates.find((r: any) => r.currency === code);
+          const draft = drafts[code];
+          return (
+            <div key={code} className="flex items-center gap-4 py-3">
+              <div className="flex-1">
+                <div className="font-bold text-gray-900 dark:text-white">{code}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {CURRENCY_LABELS[code]}
+                  {row
+                    ? ` · ${row.source === 'import' ? 'Imported' : 'Set'} ${new Date(row.updatedAt).toLocaleDateString()}`
+                    : ' · No rate - prices shown in THB'}
+                </div>
+              </div>
+              <input
+                type="number"
+                step="any"
+                value={draft ?? row?.rate ?? ''}
+                onChange={(e) => setDrafts({ ...drafts, [code]: e.target.value })}
+                className="w-32 px-3 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                placeholder="0.028"
+              />
+              <button
+                onClick={() => handleSave(code)}
+                disabled={draft === undefined || saving !== null}
+                className="px-4 py-2 rounded-lg bg-teal-600 hover:bg-teal-700 text-white font-bold flex items-center gap-2 disabled:opacity-50"
+              >
+                {saving === code && <Loader2 className="w-4 h-4 animate-spin" />}
+                Save
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
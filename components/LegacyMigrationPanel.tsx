@@ -0,0 +1,97 @@
+/**
+ * LegacyMigrationPanel Component
+ *
+ * Lets admins move bookings from the old date-based flow onto slots: shows
+ * what's left and the conflicts found, with a dry run before migrating.
+ * Hidden once nothing is left to migrate.
+ */
+
+import React, { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { Loader2, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { LegacyConflict, LEGACY_CONFLICT_LABELS } from '../convex/lib/legacySlots';
+
+export const LegacyMigrationPanel: React.FC = () => {
+  const status = useQuery(api.migrations.legacyStatus, {});
+  const migrate = useMutation(api.migrations.migrateLegacyAvailability);
+  const [running, setRunning] = useState(false);
+  const [conflicts, setConflicts] = useState<LegacyConflict[] | null>(null);
+
+  if (!status || (status.remainingBookings === 0 && status.remainingBlocks === 0 && !conflicts)) {
+    return null;
+  }
+
+  const handleRun = async (dryRun: boolean) => {
+    setRunning(true);
+    try {
+      const found: LegacyConflict[] = [];
+      let bookingsMigrated = 0;
+      let slots = 0;
+      let result;
+      do {
+        result = await migrate({ dryRun });
+        found.push(...result.conflicts);
+        bookingsMigrated += result.bookingsMigrated;
+        slots += result.slotsCreated + result.slotsUpdated;
+      } while (!dryRun && !result.done);
+
+      setConflicts(found);
+      toast.success(dryRun
+        ? `Dry run: next batch moves ${bookingsMigrated} bookings onto ${slots} slots`
+        : `Moved ${bookingsMigrated} bookings onto ${slots} slots`);
+    } catch (error: any) {
+      toast.error(error.message || 'Migration failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const shownConflicts = conflicts ?? status.conflicts;
+
+  return (
+    <div className="mt-8 bg-white dark:bg-gray-800 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 overflow-hidden">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Legacy Bookings</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          {status.remainingBookings} bookings and {status.remainingBlocks} availability blocks are still
+          on the old date-based model.
+        </p>
+      </div>
+      <div className="p-6 space-y-4">
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleRun(true)}
+            disabled={running}
+            className="px-4 py-2 rounded-lg border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-200 font-bold hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            Dry run
+          </button>
+          <button
+            onClick={() => handleRun(false)}
+            disabled={running}
+            className="px-4 py-2 rounded-lg bg-teal-600 hover:bg-teal-700 text-white font-bold flex items-center gap-2 disabled:opacity-50"
+          >
+            {running && <Loader2 className="w-4 h-4 animate-spin" />}
+            Migrate to slots
+          </button>
+        </div>
+
+        {shownConflicts.length > 0 && (
+          <ul className="space-y-2 text-sm">
+            {shownConflicts.map((c, i) => (
+              <li key={i} className="flex items-start gap-2 text-gray-700 dark:text-gray-300">
+                <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />
+                <span>
+                  <span className="font-bold">{LEGACY_CONFLICT_LABELS[c.kind]}</span>
+                  {' · '}{c.date} {c.timeSlot.replace('_', ' ')}: {c.message}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
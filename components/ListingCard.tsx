@@ -1,15 +1,22 @@
 
 import React from 'react';
-import { Listing } from '../types';
-import { Star, MapPin, Clock, Heart } from 'lucide-react';
+import { Listing, NextAvailability } from '../types';
+import { Star, MapPin, Clock, Heart, CalendarCheck } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface ListingCardProps {
   listing: Listing;
   onBook: (listing: Listing) => void;
+  nextAvailable?: NextAvailability;
 }
 
-export const ListingCard: React.FC<ListingCardProps> = ({ listing, onBook }) => {
+// Few enough seats left to mention
+const LOW_SEATS = 5;
+
+export const ListingCard: React.FC<ListingCardProps> = ({ listing, onBook, nextAvailable }) => {
+  const { formatPrice } = useCurrency();
+
   return (
     <div className="group relative flex flex-col bg-white dark:bg-gray-800 rounded-2xl overflow-hidden transition-all duration-300 hover:shadow-[0_8px_30px_rgb(0,0,0,0.12)] border border-gray-100 dark:border-gray-700">
       {/* Image Section */}
@@ -55,6 +62,19 @@ export const ListingCard: React.FC<ListingCardProps> = ({ listing, onBook }) =>
           </div>
         </div>
 
+        {nextAvailable && (
+          <div className="flex items-center gap-1.5 text-sm text-gray-500 dark:text-gray-400 mb-3">
+            <CalendarCheck className="w-3.5 h-3.5 text-teal-600 dark:text-teal-400" />
+            Next: {new Date(`${nextAvailable.date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+            {' · '}{nextAvailable.startTime}
+            {nextAvailable.seatsLeft <= LOW_SEATS && (
+              <span className="font-bold text-amber-600 dark:text-amber-400">
+                · {nextAvailable.seatsLeft} left
+              </span>
+            )}
+          </div>
+        )}
+
         <p className="text-sm text-gray-600 dark:text-gray-300 line-clamp-2 mb-4 flex-grow leading-relaxed">
           {listing.description}
         </p>
@@ -63,7 +83,7 @@ export const ListingCard: React.FC<ListingCardProps> = ({ listing, onBook }) =>
           <div className="flex flex-col">
             <span className="text-xs text-gray-400 dark:text-gray-500 font-medium">Starting from</span>
             <div className="flex items-baseline gap-1">
-              <span className="text-xl font-bold text-gray-900 dark:text-white">${listing.price}</span>
+              <span className="text-xl font-bold text-gray-900 dark:text-white">{formatPrice(listing.price, listing.currency)}</span>
             </div>
           </div>
           <button
@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { Menu, X, LogOut, Palmtree, Moon, Sun, Bell } from 'lucide-react';
+import { Menu, X, LogOut, Palmtree, Moon, Sun, Bell, ShoppingCart, Gift } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { Currency, SUPPORTED_CURRENCIES } from '../convex/lib/currency';
 import { useQuery } from 'convex/react';
 import { api } from '../convex/_generated/api';
 
@@ -15,6 +17,7 @@ export const Navbar: React.FC<NavbarProps> = ({ cartCount = 0 }) => {
   const location = useLocation();
   const { user, profile, signOut } = useAuth();
   const { isDarkMode, toggleDarkMode } = useTheme();
+  const { displayCurrency, setDisplayCurrency } = useCurrency();
   const navigate = useNavigate();
   const [scrolled, setScrolled] = useState(false);
 
@@ -71,6 +74,11 @@ export const Navbar: React.FC<NavbarProps> = ({ cartCount = 0 }) => {
           <div className="hidden md:flex items-center space-x-8">
             <Link to="/" className={linkClass('/')}>Explore</Link>
 
+            <Link to="/gift-vouchers" className={`flex items-center gap-1 ${linkClass('/gift-vouchers')}`}>
+              <Gift className="w-4 h-4" />
+              Gift Vouchers
+            </Link>
+
             {user && (
               <Link to="/inbox" className={`flex items-center gap-1 relative ${linkClass('/inbox')}`}>
                 <Bell className="w-4 h-4" />
@@ -91,12 +99,36 @@ export const Navbar: React.FC<NavbarProps> = ({ cartCount = 0 }) => {
               <Link to="/trips" className={linkClass('/trips')}>Trips</Link>
             )}
 
+            {user && (
+              <Link to="/cart" className={`flex items-center gap-1 relative ${linkClass('/cart')}`}>
+                <ShoppingCart className="w-4 h-4" />
+                Cart
+                {cartCount > 0 && (
+                  <span className="absolute -top-1 -right-1 bg-teal-600 text-white text-xs font-bold rounded-full w-5 h-5 flex items-center justify-center">
+                    {cartCount > 9 ? '9+' : cartCount}
+                  </span>
+                )}
+              </Link>
+            )}
+
             {user && profile?.role === 'admin' && (
               <Link to="/admin" className={`flex items-center gap-1 ${linkClass('/admin')}`}>
                 Admin
               </Link>
             )}
 
+            {/* Display Currency */}
+            <select
+              value={displayCurrency}
+              onChange={(e) => setDisplayCurrency(e.target.value as Currency)}
+              className="px-3 py-2 rounded-full text-xs font-semibold bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 border-0 focus:ring-2 focus:ring-teal-500"
+              aria-label="Display currency"
+            >
+              {SUPPORTED_CURRENCIES.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+
             {/* Dark Mode Toggle */}
             <button
               onClick={toggleDarkMode}
@@ -124,6 +156,17 @@ export const Navbar: React.FC<NavbarProps> = ({ cartCount = 0 }) => {
           </div>
 
           <div className="md:hidden flex items-center gap-2">
+            {/* Display Currency (Mobile) */}
+            <select
+              value={displayCurrency}
+              onChange={(e) => setDisplayCurrency(e.target.value as Currency)}
+              className="px-2 py-2 rounded-full text-xs font-semibold bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 border-0 focus:ring-2 focus:ring-teal-500"
+              aria-label="Display currency"
+            >
+              {SUPPORTED_CURRENCIES.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
             {/* Dark Mode Toggle (Mobile) */}
             <button
               onClick={toggleDarkMode}
@@ -144,6 +187,10 @@ export const Navbar: React.FC<NavbarProps> = ({ cartCount = 0 }) => {
         <div className="md:hidden absolute top-full left-0 w-full bg-white dark:bg-gray-900 border-b border-gray-100 dark:border-gray-800 shadow-xl animate-in slide-in-from-top-5">
           <div className="p-4 space-y-2">
             <Link to="/" className="block px-4 py-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 font-medium" onClick={() => setIsMenuOpen(false)}>Explore</Link>
+            <Link to="/gift-vouchers" className="flex items-center gap-2 px-4 py-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 font-medium" onClick={() => setIsMenuOpen(false)}>
+              <Gift className="w-4 h-4" />
+              Gift Vouchers
+            </Link>
             {user && (
               <Link to="/inbox" className="flex items-center gap-2 px-4 py-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 font-medium relative" onClick={() => setIsMenuOpen(false)}>
                 <Bell className="w-4 h-4" />
@@ -157,6 +204,17 @@ export const Navbar: React.FC<NavbarProps> = ({ cartCount = 0 }) => {
             )}
             {user && profile?.role === 'vendor' && <Link to="/vendor" className="block px-4 py-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 font-medium" onClick={() => setIsMenuOpen(false)}>Vendor Dashboard</Link>}
             {user && profile?.role === 'customer' && <Link to="/trips" className="block px-4 py-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 font-medium" onClick={() => setIsMenuOpen(false)}>My Trips</Link>}
+            {user && (
+              <Link to="/cart" className="flex items-center gap-2 px-4 py-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 font-medium" onClick={() => setIsMenuOpen(false)}>
+                <ShoppingCart className="w-4 h-4" />
+                Cart
+                {cartCount > 0 && (
+                  <span className="bg-teal-600 text-white text-xs font-bold rounded-full w-5 h-5 flex items-center justify-center ml-auto">
+                    {cartCount > 9 ? '9+' : cartCount}
+                  </span>
+                )}
+              </Link>
+            )}
             {user ? (
               <button onClick={() => { handleSignOut(); setIsMenuOpen(false); }} className="w-full text-left px-4 py-3 text-red-600 dark:text-red-400 font-medium">Sign Out</button>
             ) : (
@@ -0,0 +1,517 @@
+/**
+ * PackageBookingModal Component
+ *
+ * Books a multi-day package: the customer picks a start date (unless the
+ * package has set dates) and a number of guests, sees which session of each
+ * activity they'd get, answers each activity's booking questions, signs its
+ * waiver and chooses pickup as they would booking it alone, and pays for
+ * all of them at once. Every activity's seats are held together while they pay.
+ */
+
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useAction } from 'convex/react';
+import { FunctionReturnType } from 'convex/server';
+import { Elements } from '@stripe/react-stripe-js';
+import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
+import { getStripe } from '../services/stripeService';
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { BASE_CURRENCY, Currency, convertAmount } from '../convex/lib/currency';
+import { checkBookingAnswers, BookingAnswerInput } from '../convex/lib/bookingQuestions';
+import { findPickupZone, getPickupTime } from '../convex/lib/pickups';
+import { PaymentForm } from './PaymentForm';
+import { ActivePackage } from './PackageCard';
+import { WaiverFields } from './customer/WaiverFields';
+import { VendorLocationPicker } from './maps/VendorLocationPicker';
+import { X, Loader2, Minus, Plus, AlertCircle, CheckCircle, Lock, MapPin } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface PackageBookingModalProps {
+  pkg: ActivePackage;
+  onClose: () => void;
+}
+
+type ItineraryStop = NonNullable<FunctionReturnType<typeof api.packages.getItinerary>>['stops'][number];
+
+// What the customer fills in for one activity
+interface StopDetails {
+  answerValues: Record<string, string>;
+  wantsPickup: boolean;
+  pickupLocation: string;
+  pickupPin: { latitude: number; longitude: number } | null;
+  signerName: string;
+  signature: string | null;
+}
+
+const fieldClassName =
+  'w-full p-3 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-teal-500 outline-none';
+
+const answerKey = (questionId: string, guestNumber?: number) => `${questionId}:${guestNumber ?? ''}`;
+
+/**
+ * The answers to send for a stop, one per question (or per guest)
+ */
+const getStopAnswers = (stop: ItineraryStop, details: StopDetails, guests: number): BookingAnswerInput[] =>
+  stop.bookingQuestions
+    .flatMap(question =>
+      question.perGuest
+        ? Array.from({ length: guests }, (_, i) => ({ question, guestNumber: i + 1 as number | undefined }))
+        : [{ question, guestNumber: undefined }]
+    )
+    .map(({ question, guestNumber }) => ({
+      questionId: question.id,
+      guestNumber,
+      value: details.answerValues[answerKey(question.id, guestNumber)] || '',
+    }))
+    .filter(answer => answer.value.trim());
+
+/**
+ * Whether a stop has everything it needs: required answers, a pickup inside
+ * a zone if one was asked for, and the booker's waiver signature
+ */
+const isStopComplete = (stop: ItineraryStop, details: StopDetails, guests: number): boolean => {
+  try {
+    checkBookingAnswers(stop.bookingQuestions, getStopAnswers(stop, details, guests), guests);
+  } catch {
+    return false;
+  }
+  if (details.wantsPickup && (!details.pickupPin || !findPickupZone(stop.pickupZones, details.pickupPin) || !details.pickupLocation.trim())) {
+    return false;
+  }
+  return !stop.waiver || (!!details.signerName.trim() && !!details.signature);
+};
+
+const tomorrow = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return date.toISOString().split('T')[0];
+};
+
+export const PackageBookingModal: React.FC<PackageBookingModalProps> = ({ pkg, onClose }) => {
+  const navigate = useNavigate();
+  const { user, profile } = useAuth();
+  const { rates, chargeCurrency, formatPrice } = useCurrency();
+  const cancelCheckout = useMutation(api.cart.cancelCheckout);
+  const createCheckoutPaymentIntent = useAction(api.stripe.payments.createCheckoutPaymentIntent);
+  const signWaiverAction = useAction(api.waivers.sign);
+
+  const [startDate, setStartDate] = useState(pkg.startDate || tomorrow());
+  const [guests, setGuests] = useState(1);
+  const [submitting, setSubmitting] = useState(false);
+  const [stripePromise] = useState(() => getStripe());
+  // The amount is what the card is charged, in the customer's currency
+  const [checkout, setCheckout] = useState<{ checkoutId: string; amount: number; currency: Currency } | null>(null);
+  const [paymentOptions, setPaymentOptions] = useState<any>(null);
+  // Per itinerary stop, in component order
+  const [stopDetails, setStopDetails] = useState<Record<number, StopDetails>>({});
+
+  const itinerary = useQuery(api.packages.getItinerary, {
+    packageId: pkg._id,
+    startDate,
+    guests,
+  });
+
+  const emptyDetails: StopDetails = {
+    answerValues: {},
+    wantsPickup: false,
+    pickupLocation: '',
+    pickupPin: null,
+    signerName: profile?.fullName || '',
+    signature: null,
+  };
+  const getDetails = (index: number): StopDetails => stopDetails[index] ?? emptyDetails;
+  const updateDetails = (index: number, changes: Partial<StopDetails>) => {
+    setStopDetails(prev => ({ ...prev, [index]: { ...(prev[index] ?? emptyDetails), ...changes } }));
+  };
+
+  // Pickup fees (in THB) are added to the package price
+  const getPickupFee = (stop: ItineraryStop, details: StopDetails) => {
+    const zone = details.wantsPickup && details.pickupPin ? findPickupZone(stop.pickupZones, details.pickupPin) : null;
+    return zone ? convertAmount(zone.fee, stop.currency ?? BASE_CURRENCY, BASE_CURRENCY, rates) : 0;
+  };
+  const stops = itinerary?.stops ?? [];
+  const pickupFees = stops.reduce((total, stop, index) => total + getPickupFee(stop, getDetails(index)), 0);
+  const detailsComplete = stops.every((stop, index) => isStopComplete(stop, getDetails(index), guests));
+
+  const handleContinueToPayment = async () => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+
+    setSubmitting(true);
+    let checkoutId: Id<"checkouts"> | null = null;
+    try {
+      const result = await createCheckoutPaymentIntent({
+        currency: chargeCurrency,
+        packageBooking: {
+          packageId: pkg._id,
+          startDate,
+          guests,
+          stops: stops.map((stop, index) => {
+            const details = getDetails(index);
+            return {
+              answers: getStopAnswers(stop, details, guests),
+              pickup: details.wantsPickup && details.pickupPin
+                ? { location: details.pickupLocation, ...details.pickupPin }
+                : undefined,
+            };
+          }),
+        },
+      });
+      checkoutId = result.checkoutId;
+
+      // The booker signs each waiver here; the rest of the group signs from the emailed link
+      for (const [index, stop] of stops.entries()) {
+        const details = getDetails(index);
+        if (stop.waiver && details.signature) {
+          await signWaiverAction({
+            bookingId: result.bookingIds[index],
+            guestNumber: 1,
+            signerName: details.signerName,
+            signatureDataUrl: details.signature,
+          });
+        }
+      }
+
+      setCheckout({
+        checkoutId: result.checkoutId,
+        amount: result.presentmentAmount,
+        currency: result.presentmentCurrency,
+      });
+      setPaymentOptions({
+        clientSecret: result.clientSecret,
+        appearance: {
+          theme: 'stripe' as const,
+          variables: {
+            colorPrimary: '#14b8a6',
+            borderRadius: '12px',
+          },
+        },
+      });
+    } catch (error: any) {
+      // Give the seats back if the checkout was created
+      if (checkoutId) {
+        await cancelCheckout({ checkoutId }).catch(() => {});
+      }
+      toast.error(error.message || 'Failed to start checkout');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Release the held seats if the customer leaves the payment step
+  const handleCancelPayment = async () => {
+    if (checkout) {
+      try {
+        await cancelCheckout({ checkoutId: checkout.checkoutId as Id<"checkouts"> });
+      } catch (error) {
+        console.error('Failed to release held seats:', error);
+      }
+    }
+    setCheckout(null);
+    setPaymentOptions(null);
+  };
+
+  const handleClose = async () => {
+    await handleCancelPayment();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4 animate-in fade-in">
+      <div className="bg-white dark:bg-gray-800 rounded-3xl w-full max-w-2xl overflow-hidden shadow-2xl flex flex-col max-h-[90vh] overflow-y-auto">
+        <div className="p-8">
+          <div className="flex justify-between items-center mb-6">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Book {pkg.name}</h2>
+              <p className="text-gray-500 dark:text-gray-400 text-sm">
+                {pkg.durationDays} days · {formatPrice(pkg.price)} / person
+              </p>
+            </div>
+            <button onClick={handleClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+              <X className="w-6 h-6 text-gray-400" />
+            </button>
+          </div>
+
+          {checkout && paymentOptions && stripePromise ? (
+            <>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                Your spots on all {pkg.components.length} activities are held for 15 minutes while you pay.
+              </p>
+              <Elements stripe={stripePromise} options={paymentOptions}>
+                <PaymentForm
+                  amount={checkout.amount / 100}
+                  currency={checkout.currency}
+                  bookingId={checkout.checkoutId}
+                  onSuccess={() => {
+                    toast.success('Payment received. Your package is booked.');
+                    navigate('/trips');
+                  }}
+                  onError={(error) => console.error('Payment error:', error)}
+                  onCancel={handleCancelPayment}
+                />
+              </Elements>
+            </>
+          ) : (
+            <>
+              {pkg.description && (
+                <p className="text-sm text-gray-600 dark:text-gray-300 mb-6">{pkg.description}</p>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Start date</label>
+                  {pkg.fixedDates ? (
+                    <div className="px-4 py-2 rounded-lg bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-white">
+                      {new Date(`${startDate}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                    </div>
+                  ) : (
+                    <input
+                      type="date"
+                      value={startDate}
+                      min={tomorrow()}
+                      onChange={(e) => e.target.value && setStartDate(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-teal-500 dark:bg-gray-700 dark:text-white"
+                    />
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Guests</label>
+                  <div className="flex items-center gap-4">
+                    <button
+                      onClick={() => setGuests(Math.max(1, guests - 1))}
+                      className="p-2 rounded-full border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      <Minus className="w-4 h-4 text-gray-600 dark:text-gray-300" />
+                    </button>
+                    <span className="text-lg font-bold text-gray-900 dark:text-white w-6 text-center">{guests}</span>
+                    <button
+                      onClick={() => setGuests(guests + 1)}
+                      className="p-2 rounded-full border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      <Plus className="w-4 h-4 text-gray-600 dark:text-gray-300" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              <h3 className="font-bold text-gray-900 dark:text-white mb-3">Itinerary</h3>
+              {itinerary === undefined ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="w-6 h-6 animate-spin text-teal-600" />
+                </div>
+              ) : itinerary === null ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">This package is no longer available.</p>
+              ) : (
+                <>
+                  <div className="space-y-2 mb-6">
+                    {itinerary.stops.map((stop, index) => (
+                      <div
+                        key={index}
+                        className="flex items-start gap-3 p-3 rounded-xl bg-gray-50 dark:bg-gray-900"
+                      >
+                        {stop.problem ? (
+                          <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+                        ) : (
+                          <CheckCircle className="w-5 h-5 text-teal-600 dark:text-teal-400 flex-shrink-0 mt-0.5" />
+                        )}
+                        <div className="flex-1">
+                          <div className="font-bold text-gray-900 dark:text-white">
+                            Day {stop.day}: {stop.listingTitle}
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {new Date(`${stop.date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                            {stop.startTime && ` · ${stop.startTime} - ${stop.endTime}`}
+                            {stop.note && ` · ${stop.note}`}
+                          </div>
+                          {stop.problem && (
+                            <div className="text-xs font-bold text-red-600 dark:text-red-400 mt-1">{stop.problem}</div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {itinerary.bookable && itinerary.stops.map((stop, index) => (
+                    <PackageStopFields
+                      key={index}
+                      stop={stop}
+                      guests={guests}
+                      details={getDetails(index)}
+                      onChange={(changes) => updateDetails(index, changes)}
+                    />
+                  ))}
+
+                  <div className="flex items-center justify-between pt-4 border-t border-gray-100 dark:border-gray-700">
+                    <div>
+                      <div className="text-xs text-gray-400 dark:text-gray-500">
+                        Total for {guests} {guests === 1 ? 'guest' : 'guests'}
+                        {pickupFees > 0 && ` incl. ${formatPrice(pickupFees)} pickup`}
+                      </div>
+                      <div className="text-2xl font-bold text-gray-900 dark:text-white">{formatPrice(itinerary.totalPrice + pickupFees)}</div>
+                    </div>
+                    <button
+                      onClick={handleContinueToPayment}
+                      disabled={!itinerary.bookable || !detailsComplete || submitting}
+                      className="px-6 py-3 bg-teal-600 hover:bg-teal-700 text-white font-bold rounded-xl transition disabled:opacity-50 flex items-center gap-2"
+                    >
+                      {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+                      Continue to payment
+                    </button>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Booking questions, hotel pickup and waiver for one activity of the package
+ */
+const PackageStopFields: React.FC<{
+  stop: ItineraryStop;
+  guests: number;
+  details: StopDetails;
+  onChange: (changes: Partial<StopDetails>) => void;
+}> = ({ stop, guests, details, onChange }) => {
+  const { formatPrice } = useCurrency();
+  const waiverDocumentUrl = useQuery(
+    api.files.getFileUrl,
+    stop.waiver?.storageId ? { storageId: stop.waiver.storageId } : "skip"
+  );
+
+  const answerFields = stop.bookingQuestions.flatMap(question =>
+    question.perGuest
+      ? Array.from({ length: guests }, (_, i) => ({ question, guestNumber: i + 1 as number | undefined }))
+      : [{ question, guestNumber: undefined }]
+  );
+  const pickupZone = details.wantsPickup && details.pickupPin
+    ? findPickupZone(stop.pickupZones, details.pickupPin)
+    : null;
+
+  if (answerFields.length === 0 && stop.pickupZones.length === 0 && !stop.waiver) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4 mb-6 p-4 rounded-xl border border-gray-100 dark:border-gray-700">
+      <h4 className="font-bold text-gray-900 dark:text-white">Day {stop.day}: {stop.listingTitle}</h4>
+
+      {/* Hotel Pickup */}
+      {stop.pickupZones.length > 0 && (
+        <div>
+          <label className="flex items-center gap-2 text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
+            <input
+              type="checkbox"
+              checked={details.wantsPickup}
+              onChange={e => onChange({ wantsPickup: e.target.checked })}
+              className="rounded text-teal-600 focus:ring-teal-500"
+            />
+            Pick me up from my accommodation
+          </label>
+          {details.wantsPickup && (
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={details.pickupLocation}
+                onChange={e => onChange({ pickupLocation: e.target.value })}
+                placeholder="Hotel or accommodation name"
+                className={fieldClassName}
+              />
+              <VendorLocationPicker
+                lat={details.pickupPin?.latitude}
+                lng={details.pickupPin?.longitude}
+                onChange={(latitude, longitude) => onChange({ pickupPin: { latitude, longitude } })}
+                zones={stop.pickupZones}
+                hint="Click where you're staying"
+              />
+              {details.pickupPin && (pickupZone ? (
+                <p className="flex items-center gap-2 text-sm text-teal-700 dark:text-teal-300">
+                  <MapPin className="w-4 h-4" />
+                  {pickupZone.name}
+                  {stop.startTime && ` · pickup around ${getPickupTime(stop.startTime, pickupZone.offsetMinutes)}`}
+                  {' · '}{pickupZone.fee > 0 ? formatPrice(pickupZone.fee, stop.currency ?? BASE_CURRENCY) : 'Free'}
+                </p>
+              ) : (
+                <p className="flex items-center gap-2 text-sm text-amber-600 dark:text-amber-400">
+                  <AlertCircle className="w-4 h-4" />
+                  This is outside the pickup area - please meet at the meeting point
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Booking Questions */}
+      {answerFields.length > 0 && (
+        <div className="space-y-3">
+          <label className="block text-sm font-bold text-gray-700 dark:text-gray-300">
+            A few questions from {stop.vendorName}
+          </label>
+          {answerFields.map(({ question, guestNumber }) => {
+            const key = answerKey(question.id, guestNumber);
+            const setAnswer = (value: string) => onChange({ answerValues: { ...details.answerValues, [key]: value } });
+            return (
+              <div key={key}>
+                <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">
+                  {question.label}
+                  {guestNumber && ` · Guest ${guestNumber}`}
+                  {question.required && <span className="text-red-500"> *</span>}
+                </label>
+                {question.type === 'select' ? (
+                  <select
+                    value={details.answerValues[key] || ''}
+                    onChange={e => setAnswer(e.target.value)}
+                    className={fieldClassName}
+                  >
+                    <option value="">Choose...</option>
+                    {(question.options || []).map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    value={details.answerValues[key] || ''}
+                    onChange={e => setAnswer(e.target.value)}
+                    className={fieldClassName}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Liability Waiver */}
+      {stop.waiver && (
+        <div>
+          <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
+            Liability Waiver
+          </label>
+          <WaiverFields
+            title={stop.waiver.title || 'Release of Liability'}
+            text={stop.waiver.text}
+            documentUrl={waiverDocumentUrl}
+            signerName={details.signerName}
+            onSignerNameChange={(signerName) => onChange({ signerName })}
+            onSignatureChange={(signature) => onChange({ signature })}
+          />
+          {guests > 1 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+              The rest of your group can sign from the link in your confirmation email.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+/**
+ * PackageCard Component
+ *
+ * A multi-day package on the Explore page, next to the listing cards:
+ * its activities day by day and the package price.
+ */
+
+import React from 'react';
+import { FunctionReturnType } from 'convex/server';
+import { Package as PackageIcon, CalendarDays, Users } from 'lucide-react';
+import { api } from '../convex/_generated/api';
+import { useCurrency } from '../contexts/CurrencyContext';
+
+// A package on sale, with its activities
+export type ActivePackage = FunctionReturnType<typeof api.packages.listActive>[number];
+
+interface PackageCardProps {
+  pkg: ActivePackage;
+  onBook: (pkg: ActivePackage) => void;
+}
+
+export const PackageCard: React.FC<PackageCardProps> = ({ pkg, onBook }) => {
+  const { formatPrice } = useCurrency();
+  const imageUrl = pkg.imageUrl || pkg.components.find((c) => c.imageUrl)?.imageUrl;
+
+  return (
+    <div className="group relative flex flex-col bg-white dark:bg-gray-800 rounded-2xl overflow-hidden transition-all duration-300 hover:shadow-[0_8px_30px_rgb(0,0,0,0.12)] border border-teal-100 dark:border-teal-900">
+      {/* Image Section */}
+      <div className="relative aspect-[4/3] overflow-hidden">
+        {imageUrl ? (
+          <img
+            src={imageUrl}
+            alt={pkg.name}
+            className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
+          />
+        ) : (
+          <div className="w-full h-full bg-teal-50 dark:bg-teal-900/30 flex items-center justify-center">
+            <PackageIcon className="w-12 h-12 text-teal-600 dark:text-teal-400" />
+          </div>
+        )}
+
+        <div className="absolute top-3 left-3 bg-teal-600 px-3 py-1 rounded-full text-xs font-bold text-white shadow-sm tracking-wide uppercase flex items-center gap-1">
+          <PackageIcon className="w-3 h-3" />
+          {pkg.durationDays}-day package
+        </div>
+      </div>
+
+      {/* Content Section */}
+      <div className="p-5 flex flex-col flex-grow">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white leading-tight group-hover:text-teal-600 dark:group-hover:text-teal-400 transition-colors line-clamp-1 mb-2">
+          {pkg.name}
+        </h3>
+
+        <div className="flex items-center gap-4 text-sm text-gray-500 dark:text-gray-400 mb-3">
+          <div className="flex items-center gap-1.5">
+            <CalendarDays className="w-3.5 h-3.5 text-teal-600 dark:text-teal-400" />
+            {pkg.startDate
+              ? new Date(`${pkg.startDate}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+              : 'Pick your dates'}
+          </div>
+          {pkg.vendorNames.length > 1 && (
+            <div className="flex items-center gap-1.5">
+              <Users className="w-3.5 h-3.5 text-teal-600 dark:text-teal-400" />
+              {pkg.vendorNames.length} operators
+            </div>
+          )}
+        </div>
+
+        <ol className="text-sm text-gray-600 dark:text-gray-300 mb-4 flex-grow space-y-1">
+          {pkg.components.map((c, index) => (
+            <li key={index} className="line-clamp-1">
+              <span className="font-bold text-gray-900 dark:text-white">Day {c.day}:</span> {c.listingTitle}
+            </li>
+          ))}
+        </ol>
+
+        <div className="mt-auto flex items-center justify-between pt-4 border-t border-gray-50 dark:border-gray-700">
+          <div className="flex flex-col">
+            <span className="text-xs text-gray-400 dark:text-gray-500 font-medium">Package price</span>
+            <div className="flex items-baseline gap-1">
+              <span className="text-xl font-bold text-gray-900 dark:text-white">{formatPrice(pkg.price)}</span>
+              <span className="text-xs text-gray-400 dark:text-gray-500">/ person</span>
+            </div>
+          </div>
+          <button
+            onClick={() => onBook(pkg)}
+            className="px-6 py-2.5 bg-gray-900 dark:bg-teal-600 hover:bg-teal-600 dark:hover:bg-teal-700 text-white text-sm font-semibold rounded-xl transition-all duration-300 shadow-sm active:scale-95"
+          >
+            Book
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
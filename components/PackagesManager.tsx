@@ -0,0 +1,363 @@
+/**
+ * PackagesManager Component
+ *
+ * Create and manage multi-day packages. Vendors pass their listings and
+ * bundle them; admins bundle any active listings into platform packages
+ * that span vendors. Each activity takes any session on its day, a
+ * rule's session, or a fixed session (for packages with set dates).
+ */
+
+import React, { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
+import { Loader2, Plus, Package as PackageIcon, Trash2, Edit, X, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { PackageComponent, MAX_PACKAGE_COMPONENTS, MAX_PACKAGE_DAYS } from '../convex/lib/packages';
+import { formatMoney, BASE_CURRENCY } from '../convex/lib/currency';
+
+interface PackagesManagerProps {
+  // Vendor listings to bundle (omit for platform packages of any listing)
+  listings?: { id: string; title: string }[];
+}
+
+const inputClassName =
+  'w-full px-3 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// One activity of the package being edited
+const ComponentRow: React.FC<{
+  component: PackageComponent;
+  listings: { id: string; title: string }[];
+  durationDays: number;
+  onChange: (component: PackageComponent) => void;
+  onRemove: () => void;
+}> = ({ component, listings, durationDays, onChange, onRemove }) => {
+  const listingId = component.listingId as Id<"listings">;
+  const rules = useQuery(api.availability.rules.getByListing, listingId ? { listingId } : "skip");
+  const slots = useQuery(
+    api.availability.slots.getByListing,
+    listingId ? { listingId, startDate: today(), status: 'active' as const } : "skip"
+  );
+
+  const session = component.slotId ? `slot:${component.slotId}` : component.ruleId ? `rule:${component.ruleId}` : '';
+
+  const handleSession = (value: string) => {
+    const [kind, id] = value.split(':');
+    onChange({
+      ...component,
+      ruleId: kind === 'rule' ? (id as Id<"availabilityRules">) : undefined,
+      slotId: kind === 'slot' ? (id as Id<"slots">) : undefined,
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center">
+      <select
+        value={component.day}
+        onChange={(e) => onChange({ ...component, day: parseInt(e.target.value) })}
+        className={`${inputClassName} md:col-span-2`}
+        disabled={!!component.slotId}
+      >
+        {Array.from({ length: durationDays }, (_, i) => i + 1).map((day) => (
+          <option key={day} value={day}>Day {day}</option>
+        ))}
+      </select>
+      <select
+        value={component.listingId}
+        onChange={(e) => onChange({ day: component.day, note: component.note, listingId: e.target.value as Id<"listings"> })}
+        className={`${inputClassName} md:col-span-4`}
+      >
+        <option value="">Choose an activity</option>
+        {listings.map((l) => (
+          <option key={l.id} value={l.id}>{l.title}</option>
+        ))}
+      </select>
+      <select
+        value={session}
+        onChange={(e) => handleSession(e.target.value)}
+        className={`${inputClassName} md:col-span-3`}
+        disabled={!listingId}
+      >
+        <option value="">Any session that day</option>
+        {(rules || []).map((rule: any) => (
+          <option key={rule._id} value={`rule:${rule._id}`}>{rule.name}</option>
+        ))}
+        {(slots || []).slice(0, 50).map((slot: any) => (
+          <option key={slot._id} value={`slot:${slot._id}`}>
+            {slot.date} {slot.startTime}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={component.note || ''}
+        onChange={(e) => onChange({ ...component, note: e.target.value || undefined })}
+        className={`${inputClassName} md:col-span-2`}
+        placeholder="Note"
+      />
+      <button
+        type="button"
+        onClick={onRemove}
+        className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition md:col-span-1 justify-self-center"
+        title="Remove activity"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export const PackagesManager: React.FC<PackagesManagerProps> = ({ listings }) => {
+  const packages = useQuery(api.packages.getManageable);
+  const allListings = useQuery(api.listings.list, listings ? "skip" : {});
+  const createPackage = useMutation(api.packages.create);
+  const updatePackage = useMutation(api.packages.update);
+
+  const listingOptions = listings ?? (allListings || []).map((l: any) => ({ id: l._id, title: l.title }));
+
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<Id<"packages"> | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [imageUrl, setImageUrl] = useState('');
+  const [durationDays, setDurationDays] = useState(2);
+  const [price, setPrice] = useState('');
+  const [components, setComponents] = useState<PackageComponent[]>([]);
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setName('');
+    setDescription('');
+    setImageUrl('');
+    setDurationDays(2);
+    setPrice('');
+    setComponents([]);
+  };
+
+  const handleEdit = (pkg: any) => {
+    setEditingId(pkg._id);
+    setName(pkg.name);
+    setDescription(pkg.description);
+    setImageUrl(pkg.imageUrl || '');
+    setDurationDays(pkg.durationDays);
+    setPrice(String(pkg.price));
+    setComponents(pkg.components.map((c: any) => ({
+      listingId: c.listingId,
+      day: c.day,
+      ruleId: c.ruleId,
+      slotId: c.slotId,
+      note: c.note,
+    })));
+    setShowForm(true);
+  };
+
+  const addComponent = () => {
+    setComponents([...components, { listingId: '' as Id<"listings">, day: Math.min(components.length + 1, durationDays) }]);
+  };
+
+  const updateComponent = (index: number, component: PackageComponent) => {
+    setComponents(components.map((c, i) => (i === index ? component : c)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (components.some((c) => !c.listingId)) {
+      toast.error('Choose an activity for every row');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const details = {
+        name,
+        description,
+        imageUrl,
+        durationDays,
+        price: parseFloat(price) || 0,
+        components,
+      };
+      if (editingId) {
+        await updatePackage({ packageId: editingId, ...details });
+        toast.success('Package updated');
+      } else {
+        await createPackage(details);
+        toast.success('Package created');
+      }
+      resetForm();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save package');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (pkg: any) => {
+    try {
+      await updatePackage({ packageId: pkg._id, active: !pkg.active });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update package');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {listings
+            ? 'Bundle your activities into multi-day packages sold at one price.'
+            : 'Bundle activities from any vendor. Each vendor is paid their share of the package price.'}
+        </p>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition font-bold text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            New package
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-4 p-4 rounded-xl bg-gray-50 dark:bg-gray-900">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+              placeholder="e.g., 3-day Phangan adventure"
+              required
+            />
+            <input
+              type="url"
+              value={imageUrl}
+              onChange={(e) => setImageUrl(e.target.value)}
+              className={inputClassName}
+              placeholder="Image URL (optional)"
+            />
+          </div>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className={inputClassName}
+            rows={2}
+            placeholder="What's included"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-600 dark:text-gray-300">
+              Days
+              <input
+                type="number"
+                min="1"
+                max={MAX_PACKAGE_DAYS}
+                value={durationDays}
+                onChange={(e) => setDurationDays(parseInt(e.target.value) || 1)}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-sm text-gray-600 dark:text-gray-300">
+              Price per person ({BASE_CURRENCY})
+              <input
+                type="number"
+                min="1"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                className={inputClassName}
+                required
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-bold text-gray-700 dark:text-gray-300">Activities</div>
+            {components.map((component, index) => (
+              <ComponentRow
+                key={index}
+                component={component}
+                listings={listingOptions}
+                durationDays={durationDays}
+                onChange={(c) => updateComponent(index, c)}
+                onRemove={() => setComponents(components.filter((_, i) => i !== index))}
+              />
+            ))}
+            {components.length < MAX_PACKAGE_COMPONENTS && (
+              <button
+                type="button"
+                onClick={addComponent}
+                className="flex items-center gap-2 text-sm font-bold text-teal-600 dark:text-teal-400 hover:text-teal-700"
+              >
+                <Plus className="w-4 h-4" />
+                Add activity
+              </button>
+            )}
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-teal-600 dark:bg-teal-500 text-white py-2 px-4 rounded-lg hover:bg-teal-700 dark:hover:bg-teal-600 transition disabled:opacity-50 flex items-center gap-2"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              {editingId ? 'Update' : 'Create'}
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition flex items-center gap-2"
+            >
+              <X className="w-4 h-4" />
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {packages === undefined ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-teal-600" />
+        </div>
+      ) : packages.length === 0 ? (
+        <div className="text-center py-8 text-gray-400 dark:text-gray-500">
+          <PackageIcon className="w-10 h-10 mx-auto mb-2 opacity-30" />
+          <p>No packages yet</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100 dark:divide-gray-700">
+          {packages.map((pkg: any) => (
+            <div key={pkg._id} className="flex items-center gap-4 py-3">
+              <div className="flex-1">
+                <div className="font-bold text-gray-900 dark:text-white">
+                  {pkg.name}
+                  {!pkg.active && <span className="ml-2 text-xs font-normal text-gray-400">(inactive)</span>}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {pkg.durationDays} days · {formatMoney(pkg.price, BASE_CURRENCY)} / person ·{' '}
+                  {pkg.components.map((c: any) => c.listingTitle).join(', ')}
+                </div>
+              </div>
+              <button
+                onClick={() => handleToggle(pkg)}
+                className="text-sm font-bold text-gray-600 dark:text-gray-300 hover:text-teal-600"
+              >
+                {pkg.active ? 'Deactivate' : 'Activate'}
+              </button>
+              <button
+                onClick={() => handleEdit(pkg)}
+                className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition"
+                title="Edit package"
+              >
+                <Edit className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -5,23 +5,28 @@ import {
   useElements
 } from '@stripe/react-stripe-js';
 import { Loader2, CreditCard, Lock } from 'lucide-react';
-import { useMutation } from 'convex/react';
+import { useMutation, useAction } from 'convex/react';
 import { api } from '../convex/_generated/api';
+import { Currency, BASE_CURRENCY, formatMoney } from '../convex/lib/currency';
 
 interface PaymentFormProps {
   amount: number;
+  currency?: Currency; // The currency the card is charged in (THB by default)
   bookingId: string;
   onSuccess: () => void;
   onError: (error: string) => void;
   onCancel: () => void;
+  authorizeOnly?: boolean; // Booking request: the card is charged once the vendor approves
 }
 
 export const PaymentForm: React.FC<PaymentFormProps> = ({
   amount,
+  currency = BASE_CURRENCY,
   bookingId,
   onSuccess,
   onError,
-  onCancel
+  onCancel,
+  authorizeOnly = false
 }) => {
   const stripe = useStripe();
   const elements = useElements();
@@ -29,6 +34,7 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
   const [message, setMessage] = useState<string | null>(null);
 
   const updatePaymentStatusMutation = useMutation(api.stripe.payments.updatePaymentStatus);
+  const confirmAuthorizationAction = useAction(api.bookingRequests.confirmAuthorization);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -75,6 +81,18 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
           // Still call onSuccess since payment went through
         }
 
+        onSuccess();
+      } else if (paymentIntent && paymentIntent.status === 'requires_capture') {
+        // Booking request - card authorized, captured when the vendor approves
+        console.log('✅ Payment authorized:', paymentIntent.id);
+
+        try {
+          await confirmAuthorizationAction({ paymentIntentId: paymentIntent.id });
+        } catch (dbError: any) {
+          console.error('❌ Failed to submit booking request:', dbError);
+          // The webhook submits the request as well
+        }
+
         onSuccess();
       } else {
         // Unexpected state
@@ -101,7 +119,7 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
             <CreditCard className="w-5 h-5" />
             <span className="font-bold">Payment Amount</span>
           </div>
-          <div className="text-2xl font-bold text-teal-900">฿{amount.toFixed(2)}</div>
+          <div className="text-2xl font-bold text-teal-900">{formatMoney(amount, currency)}</div>
         </div>
       </div>
 
@@ -128,6 +146,12 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
         </div>
       </div>
 
+      {authorizeOnly && (
+        <p className="text-sm text-gray-600 text-center">
+          Your card is only charged if the vendor accepts your request.
+        </p>
+      )}
+
       {/* Error Message */}
       {message && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl text-sm">
@@ -170,7 +194,7 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
           ) : (
             <>
               <Lock className="w-4 h-4" />
-              Pay ฿{amount.toFixed(2)}
+              {authorizeOnly ? 'Authorize' : 'Pay'} {formatMoney(amount, currency)}
             </>
           )}
         </button>
@@ -0,0 +1,329 @@
+/**
+ * PromoCodesManager Component
+ *
+ * Create and manage promo codes. Admins manage platform-funded codes that
+ * apply to every listing; vendors pass their listings and create codes
+ * scoped to them, funded from their own payout.
+ */
+
+import React, { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
+import { Loader2, Plus, Tag, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { describePromoDiscount, PromoDiscountType } from '../convex/lib/promoCodes';
+
+interface PromoCodesManagerProps {
+  // Vendor listings the codes can be scoped to (omit for platform codes)
+  listings?: { id: string; title: string }[];
+}
+
+const inputClassName =
+  'w-full px-3 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent';
+
+const optionalNumber = (value: string) => (value ? parseInt(value) : undefined);
+const optionalDate = (value: string) => (value ? new Date(value).getTime() : undefined);
+
+export const PromoCodesManager: React.FC<PromoCodesManagerProps> = ({ listings }) => {
+  const promoCodes = useQuery(api.promoCodes.listMine);
+  const createPromoCode = useMutation(api.promoCodes.create);
+  const setActive = useMutation(api.promoCodes.setActive);
+  const removePromoCode = useMutation(api.promoCodes.remove);
+
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [code, setCode] = useState('');
+  const [description, setDescription] = useState('');
+  const [discountType, setDiscountType] = useState<PromoDiscountType>('percentage');
+  const [discountValue, setDiscountValue] = useState('10');
+  const [listingIds, setListingIds] = useState<string[]>([]);
+  const [minGuests, setMinGuests] = useState('');
+  const [maxUses, setMaxUses] = useState('');
+  const [maxUsesPerCustomer, setMaxUsesPerCustomer] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+
+  const resetForm = () => {
+    setCode('');
+    setDescription('');
+    setDiscountType('percentage');
+    setDiscountValue('10');
+    setListingIds([]);
+    setMinGuests('');
+    setMaxUses('');
+    setMaxUsesPerCustomer('');
+    setStartsAt('');
+    setEndsAt('');
+  };
+
+  const toggleListing = (listingId: string) => {
+    setListingIds(
+      listingIds.includes(listingId)
+        ? listingIds.filter(id => id !== listingId)
+        : [...listingIds, listingId]
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await createPromoCode({
+        code,
+        description: description || undefined,
+        listingIds: listingIds as Id<"listings">[],
+        discountType,
+        discountValue: parseFloat(discountValue) || 0,
+        minGuests: optionalNumber(minGuests),
+        maxUses: optionalNumber(maxUses),
+        maxUsesPerCustomer: optionalNumber(maxUsesPerCustomer),
+        startsAt: optionalDate(startsAt),
+        endsAt: optionalDate(endsAt),
+      });
+      toast.success(`Promo code ${code.toUpperCase()} created`);
+      resetForm();
+      setShowForm(false);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to create promo code');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (id: Id<"promoCodes">) => {
+    try {
+      await removePromoCode({ id });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete promo code');
+    }
+  };
+
+  if (promoCodes === undefined) {
+    return (
+      <div className="text-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-teal-600 mx-auto" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {listings
+            ? 'Discounts on your listings are deducted from your payout.'
+            : 'Platform discounts are paid by the platform; vendors receive their full payout.'}
+        </p>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-teal-600 dark:bg-teal-500 text-white py-2 px-4 rounded-lg hover:bg-teal-700 dark:hover:bg-teal-600 font-bold transition inline-flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            New Promo Code
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="bg-gray-50 dark:bg-gray-700 p-4 rounded-xl border border-gray-200 dark:border-gray-600 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Code</label>
+              <input
+                type="text"
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                className={`${inputClassName} uppercase`}
+                placeholder="e.g., SUNSET15"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Description (optional)</label>
+              <input
+                type="text"
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+                className={inputClassName}
+                placeholder="e.g., Low season special"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Discount</label>
+              <div className="flex gap-2">
+                <select
+                  value={discountType}
+                  onChange={e => setDiscountType(e.target.value as PromoDiscountType)}
+                  className={inputClassName}
+                >
+                  <option value="percentage">Percent off</option>
+                  <option value="fixed">Fixed amount off (฿)</option>
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  value={discountValue}
+                  onChange={e => setDiscountValue(e.target.value)}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Minimum guests (optional)</label>
+              <input
+                type="number"
+                min="1"
+                value={minGuests}
+                onChange={e => setMinGuests(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Total uses (optional)</label>
+              <input
+                type="number"
+                min="1"
+                value={maxUses}
+                onChange={e => setMaxUses(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Uses per customer (optional)</label>
+              <input
+                type="number"
+                min="1"
+                value={maxUsesPerCustomer}
+                onChange={e => setMaxUsesPerCustomer(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Starts (optional)</label>
+              <input
+                type="date"
+                value={startsAt}
+                onChange={e => setStartsAt(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Ends (optional)</label>
+              <input
+                type="date"
+                value={endsAt}
+                onChange={e => setEndsAt(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          {listings && (
+            <div>
+              <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Applies to</label>
+              <div className="flex flex-wrap gap-2">
+                {listings.map(l => (
+                  <button
+                    key={l.id}
+                    type="button"
+                    onClick={() => toggleListing(l.id)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-bold transition ${
+                      listingIds.includes(l.id)
+                        ? 'bg-teal-600 dark:bg-teal-500 text-white'
+                        : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-600'
+                    }`}
+                  >
+                    {l.title}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-3 justify-end">
+            <button
+              type="button"
+              onClick={() => {
+                resetForm();
+                setShowForm(false);
+              }}
+              className="px-4 py-2 rounded-lg font-bold text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || (!!listings && listingIds.length === 0)}
+              className="bg-teal-600 dark:bg-teal-500 text-white py-2 px-6 rounded-lg hover:bg-teal-700 dark:hover:bg-teal-600 font-bold transition inline-flex items-center gap-2 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Create
+            </button>
+          </div>
+        </form>
+      )}
+
+      {promoCodes.length > 0 ? (
+        promoCodes.map(promo => (
+          <div
+            key={promo._id}
+            className="bg-gray-50 dark:bg-gray-700 p-4 rounded-xl border border-gray-200 dark:border-gray-600 flex flex-col md:flex-row justify-between items-start md:items-center gap-4"
+          >
+            <div>
+              <div className="flex items-center gap-2">
+                <Tag className="w-4 h-4 text-teal-600 dark:text-teal-400" />
+                <span className="font-bold text-gray-900 dark:text-white">{promo.code}</span>
+                <span className="text-sm text-gray-500 dark:text-gray-400">{describePromoDiscount(promo)}</span>
+              </div>
+              <div className="flex flex-wrap gap-3 text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {promo.description && <span>{promo.description}</span>}
+                <span>Used {promo.timesUsed}{promo.maxUses ? ` / ${promo.maxUses}` : ''}</span>
+                {promo.minGuests && <span>Min {promo.minGuests} guests</span>}
+                {promo.endsAt && <span>Ends {new Date(promo.endsAt).toLocaleDateString()}</span>}
+                {listings && (
+                  <span>
+                    {promo.listingIds
+                      .map(id => listings.find(l => l.id === id)?.title)
+                      .filter(Boolean)
+                      .join(', ')}
+                  </span>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setActive({ id: promo._id, active: !promo.active })}
+                className={`px-3 py-1 rounded-full text-xs font-bold ${
+                  promo.active
+                    ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400'
+                    : 'bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300'
+                }`}
+              >
+                {promo.active ? 'Active' : 'Inactive'}
+              </button>
+              {promo.timesUsed === 0 && (
+                <button
+                  onClick={() => handleRemove(promo._id)}
+                  className="text-gray-400 hover:text-red-600"
+                  aria-label="Delete promo code"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))
+      ) : (
+        !showForm && (
+          <div className="text-center py-12 text-gray-400 dark:text-gray-500">
+            <Tag className="w-12 h-12 mx-auto mb-4 opacity-30" />
+            <p>No promo codes yet</p>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+/**
+ * RouteSearch Component
+ *
+ * "From / to / date" search for the Transportation category on the Explore
+ * page. Lists the matching departures across every route, earliest first,
+ * and hands the chosen one to the booking modal.
+ */
+
+import React, { useState } from 'react';
+import { useQuery } from 'convex/react';
+import { ArrowRight, Search, Users } from 'lucide-react';
+import { api } from '../convex/_generated/api';
+import { useCurrency } from '../contexts/CurrencyContext';
+
+interface RouteSearchProps {
+  onSelectDeparture: (departure: any) => void; // From api.routes.searchDepartures
+}
+
+const inputClassName =
+  'w-full px-4 py-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white rounded-xl focus:ring-2 focus:ring-teal-500 focus:border-transparent';
+
+export const RouteSearch: React.FC<RouteSearchProps> = ({ onSelectDeparture }) => {
+  const { formatPrice } = useCurrency();
+  const today = new Date().toISOString().split('T')[0];
+
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [date, setDate] = useState(today);
+  const [search, setSearch] = useState<{ from: string; to: string; date: string } | null>(null);
+
+  const stopNames = useQuery(api.routes.getStopNames);
+  const departures = useQuery(api.routes.searchDepartures, search ?? "skip");
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!from.trim() || !to.trim()) return;
+    setSearch({ from, to, date });
+  };
+
+  return (
+    <div className="mb-8">
+      <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
+        <div className="md:col-span-4">
+          <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">From</label>
+          <input
+            type="text"
+            list="route-stop-names"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className={inputClassName}
+            placeholder="e.g., Thong Sala"
+          />
+        </div>
+        <div className="md:col-span-4">
+          <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">To</label>
+          <input
+            type="text"
+            list="route-stop-names"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className={inputClassName}
+            placeholder="e.g., Haad Rin"
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Date</label>
+          <input
+            type="date"
+            min={today}
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!from.trim() || !to.trim()}
+          className="md:col-span-2 py-3 rounded-xl bg-teal-600 hover:bg-teal-700 text-white font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <Search className="w-4 h-4" />
+          Search
+        </button>
+        <datalist id="route-stop-names">
+          {(stopNames || []).map((name: string) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+      </form>
+
+      {search && departures !== undefined && (
+        <div className="mt-4 space-y-2">
+          {departures.length === 0 ? (
+            <p className="text-center py-6 text-gray-400 dark:text-gray-500">
+              No departures from {search.from} to {search.to} on this date.
+            </p>
+          ) : (
+            departures.map((departure: any) => (
+              <div
+                key={departure.slot._id}
+                className="flex items-center justify-between gap-4 p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl"
+              >
+                <div>
+                  <div className="flex items-center gap-2 font-bold text-gray-900 dark:text-white">
+                    {departure.slot.startTime} {departure.fromStop}
+                    <ArrowRight className="w-4 h-4 text-gray-400" />
+                    {departure.slot.endTime} {departure.toStop}
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                    {departure.listingTitle} · {departure.vendorName}
+                    <span className="flex items-center gap-1">
+                      · <Users className="w-3 h-3" /> {departure.slot.available} seats left
+                    </span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className="font-bold text-gray-900 dark:text-white whitespace-nowrap">
+                    {formatPrice(departure.fare, departure.currency)}
+                  </span>
+                  <button
+                    onClick={() => onSelectDeparture(departure)}
+                    className="px-4 py-2 rounded-xl bg-teal-600 hover:bg-teal-700 text-white text-sm font-bold"
+                  >
+                    Book
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
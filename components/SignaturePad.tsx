@@ -0,0 +1,97 @@
+/**
+ * SignaturePad Component
+ *
+ * A canvas to draw a signature with a mouse, finger or stylus.
+ * Reports the drawing as a PNG data URL, or null once cleared.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { Eraser } from 'lucide-react';
+
+interface SignaturePadProps {
+  onChange: (dataUrl: string | null) => void;
+  height?: number;
+}
+
+export const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, height = 160 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const hasInkRef = useRef(false);
+
+  // Match the canvas resolution to its on-screen size
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = canvas.offsetWidth;
+    canvas.height = height;
+
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.lineWidth = 2;
+      context.lineCap = 'round';
+      context.lineJoin = 'round';
+      context.strokeStyle = '#111827';
+    }
+  }, [height]);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!drawingRef.current || !context) return;
+
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+    hasInkRef.current = true;
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    if (hasInkRef.current && canvasRef.current) {
+      onChange(canvasRef.current.toDataURL('image/png'));
+    }
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    hasInkRef.current = false;
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        style={{ height, touchAction: 'none' }}
+        className="w-full bg-white rounded-xl border-2 border-dashed border-gray-300 dark:border-gray-600 cursor-crosshair"
+      />
+      <div className="flex justify-between items-center mt-1 text-xs text-gray-500 dark:text-gray-400">
+        <span>Sign above</span>
+        <button type="button" onClick={handleClear} className="flex items-center gap-1 hover:text-gray-700 dark:hover:text-gray-200">
+          <Eraser className="w-3 h-3" /> Clear
+        </button>
+      </div>
+    </div>
+  );
+};
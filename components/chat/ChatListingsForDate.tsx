@@ -9,6 +9,7 @@
 import React, { useState } from 'react';
 import { Calendar, Clock, Users, ChevronDown, ChevronUp, DollarSign } from 'lucide-react';
 import { ListingsForDateComponentProps } from '../../types';
+import { useCurrency } from '../../contexts/CurrencyContext';
 
 interface ChatListingsForDateProps extends Omit<ListingsForDateComponentProps, 'type'> {
   onSelectSlot: (listingId: string, listingTitle: string, slot: ListingsForDateComponentProps['listings'][0]['slots'][0]) => void;
@@ -21,6 +22,7 @@ export const ChatListingsForDate: React.FC<ChatListingsForDateProps> = ({
   listings,
   onSelectSlot,
 }) => {
+  const { formatPrice } = useCurrency();
   const [expandedListing, setExpandedListing] = useState<string | null>(
     listings.length === 1 ? listings[0].id : null
   );
@@ -96,7 +98,7 @@ export const ChatListingsForDate: React.FC<ChatListingsForDateProps> = ({
                   <div className="flex items-center gap-2 mt-1 flex-wrap">
                     <span className="text-xs text-gray-600 dark:text-gray-400 flex items-center gap-1">
                       <DollarSign className="w-3 h-3" />
-                      {listing.price}
+                      {formatPrice(listing.price, listing.currency)}
                     </span>
                     {listing.duration && (
                       <span className="text-xs text-gray-600 dark:text-gray-400 flex items-center gap-1">
@@ -0,0 +1,117 @@
+/**
+ * BalancePaymentModal Component
+ *
+ * Lets a customer pay the balance of a deposit booking themselves when the
+ * automatic charge to their saved card failed.
+ */
+
+import React, { useState } from 'react';
+import { useAction } from 'convex/react';
+import { Elements } from '@stripe/react-stripe-js';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+import { X, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Booking } from '../../types';
+import { PaymentForm } from '../PaymentForm';
+import { getStripe, formatAmount } from '../../services/stripeService';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { Currency } from '../../convex/lib/currency';
+
+interface BalancePaymentModalProps {
+  booking: Booking;
+  onClose: () => void;
+}
+
+export const BalancePaymentModal: React.FC<BalancePaymentModalProps> = ({ booking, onClose }) => {
+  const [submitting, setSubmitting] = useState(false);
+  const [paymentOptions, setPaymentOptions] = useState<any>(null);
+  // What the card is charged, in the customer's currency
+  const [charge, setCharge] = useState<{ amount: number; currency: Currency } | null>(null);
+  const { chargeCurrency } = useCurrency();
+
+  const [stripePromise] = useState(() => getStripe());
+
+  const createPaymentIntent = useAction(api.stripe.payments.createPaymentIntent);
+
+  const amountDue = booking.depositBalance || 0;
+
+  const handlePay = async () => {
+    setSubmitting(true);
+    try {
+      const paymentResult = await createPaymentIntent({
+        bookingId: booking.id as Id<"bookings">,
+        currency: chargeCurrency,
+      });
+      setCharge({ amount: paymentResult.presentmentAmount, currency: paymentResult.presentmentCurrency });
+
+      setPaymentOptions({
+        clientSecret: paymentResult.clientSecret,
+        appearance: {
+          theme: 'stripe' as const,
+          variables: {
+            colorPrimary: '#14b8a6',
+            borderRadius: '12px',
+          },
+        },
+      });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to initialize payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white">Pay Balance</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {booking.listingTitle} · {booking.date}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="mb-6 bg-gray-50 dark:bg-gray-900 p-4 rounded-xl">
+          <div className="flex justify-between items-center">
+            <span className="text-gray-700 dark:text-gray-300">Balance due</span>
+            <span className="text-2xl font-bold text-gray-900 dark:text-white">{formatAmount(amountDue)}</span>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            We couldn't charge your saved card. Your deposit has been paid.
+          </p>
+        </div>
+
+        {paymentOptions && stripePromise ? (
+          <Elements stripe={stripePromise} options={paymentOptions}>
+            <PaymentForm
+              amount={charge ? charge.amount / 100 : amountDue / 100}
+              currency={charge?.currency}
+              bookingId={booking.id}
+              onSuccess={() => {
+                toast.success('Balance paid. See you there!');
+                onClose();
+              }}
+              onError={(error) => console.error('Payment error:', error)}
+              onCancel={onClose}
+            />
+          </Elements>
+        ) : (
+          <button
+            onClick={handlePay}
+            disabled={submitting}
+            className="w-full py-3 rounded-xl bg-teal-600 hover:bg-teal-700 text-white font-bold transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {submitting && <Loader2 className="animate-spin w-4 h-4" />}
+            Pay {formatAmount(amountDue)}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
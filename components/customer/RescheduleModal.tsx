@@ -0,0 +1,205 @@
+/**
+ * RescheduleModal Component
+ *
+ * Lets a customer move a confirmed booking to another slot of the same listing.
+ * If the new slot costs more, the customer pays the difference here and the
+ * booking moves once it's paid; if it costs less, the difference is refunded
+ * automatically.
+ */
+
+import React, { useState } from 'react';
+import { useMutation, useAction } from 'convex/react';
+import { Elements } from '@stripe/react-stripe-js';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+import { X, Loader2, Calendar } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Booking } from '../../types';
+import { SlotPicker } from './SlotPicker';
+import { PaymentForm } from '../PaymentForm';
+import { getStripe, formatAmount } from '../../services/stripeService';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { Currency } from '../../convex/lib/currency';
+
+interface RescheduleModalProps {
+  booking: Booking;
+  onClose: () => void;
+}
+
+export const RescheduleModal: React.FC<RescheduleModalProps> = ({ booking, onClose }) => {
+  // Bookings with an unpaid balance go straight to payment
+  const [step, setStep] = useState<'pick' | 'pay'>(booking.balanceDue ? 'pay' : 'pick');
+  const [selectedSlot, setSelectedSlot] = useState<any | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [amountDue, setAmountDue] = useState(booking.balanceDue || 0);
+  const [paymentOptions, setPaymentOptions] = useState<any>(null);
+  // What the card is charged, in the customer's currency
+  const [charge, setCharge] = useState<{ amount: number; currency: Currency } | null>(null);
+  const { chargeCurrency } = useCurrency();
+
+  const [stripePromise] = useState(() => getStripe());
+
+  const rescheduleBooking = useMutation(api.bookings.reschedule);
+  const createPaymentIntent = useAction(api.stripe.payments.createPaymentIntent);
+
+  const startTopUpPayment = async () => {
+    const paymentResult = await createPaymentIntent({
+      bookingId: booking.id as Id<"bookings">,
+      currency: chargeCurrency,
+    });
+    setCharge({ amount: paymentResult.presentmentAmount, currency: paymentResult.presentmentCurrency });
+
+    setPaymentOptions({
+      clientSecret: paymentResult.clientSecret,
+      appearance: {
+        theme: 'stripe' as const,
+        variables: {
+          colorPrimary: '#14b8a6',
+          borderRadius: '12px',
+        },
+      },
+    });
+  };
+
+  const handleConfirm = async () => {
+    if (!selectedSlot) return;
+
+    setSubmitting(true);
+    try {
+      const result = await rescheduleBooking({
+        id: booking.id as Id<"bookings">,
+        slotId: selectedSlot._id,
+      });
+
+      if (result.amountDue > 0) {
+        setAmountDue(result.amountDue);
+        await startTopUpPayment();
+        setStep('pay');
+      } else {
+        toast.success(
+          result.refundAmount > 0
+            ? `Booking moved. ${formatAmount(result.refundAmount)} will be refunded.`
+            : 'Booking moved to the new time.'
+        );
+        onClose();
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to reschedule booking');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePayBalance = async () => {
+    setSubmitting(true);
+    try {
+      await startTopUpPayment();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to initialize payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+              {step === 'pick' ? 'Reschedule Booking' : 'Pay Price Difference'}
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {booking.listingTitle} · {booking.guests} {booking.guests === 1 ? 'guest' : 'guests'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {step === 'pick' && (
+          <>
+            <SlotPicker
+              listingId={booking.listingId as Id<"listings">}
+              onSelectSlot={setSelectedSlot}
+              selectedSlotId={selectedSlot?._id}
+            />
+
+            {selectedSlot && (
+              <div className="mt-4 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 bg-teal-50 dark:bg-teal-900/30 p-3 rounded-xl">
+                <Calendar className="w-4 h-4 text-teal-600 dark:text-teal-400" />
+                Move from {booking.date} to {selectedSlot.date} at {selectedSlot.startTime}
+              </div>
+            )}
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={onClose}
+                className="flex-1 py-3 rounded-xl font-bold border-2 border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                Keep Current Time
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={!selectedSlot || submitting}
+                className="flex-1 py-3 rounded-xl bg-teal-600 hover:bg-teal-700 text-white font-bold transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {submitting && <Loader2 className="animate-spin w-4 h-4" />}
+                Confirm New Time
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 'pay' && (
+          <>
+            <div className="mb-6 bg-gray-50 dark:bg-gray-900 p-4 rounded-xl">
+              <div className="flex justify-between items-center">
+                <span className="text-gray-700 dark:text-gray-300">Balance due</span>
+                <span className="text-2xl font-bold text-gray-900 dark:text-white">{formatAmount(amountDue)}</span>
+              </div>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                Your booking moves to the new time once the difference is paid.
+              </p>
+            </div>
+
+            {paymentOptions && stripePromise ? (
+              <Elements stripe={stripePromise} options={paymentOptions}>
+                <PaymentForm
+                  amount={charge ? charge.amount / 100 : amountDue / 100}
+                  currency={charge?.currency}
+                  bookingId={booking.id}
+                  onSuccess={() => {
+                    toast.success('Payment received. Your booking has been moved.');
+                    onClose();
+                  }}
+                  onError={(error) => console.error('Payment error:', error)}
+                  onCancel={onClose}
+                />
+              </Elements>
+            ) : (
+              <button
+                onClick={handlePayBalance}
+                disabled={submitting}
+                className="w-full py-3 rounded-xl bg-teal-600 hover:bg-teal-700 text-white font-bold transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {submitting && <Loader2 className="animate-spin w-4 h-4" />}
+                Pay {formatAmount(amountDue)}
+              </button>
+            )}
+
+            {!paymentOptions && (
+              <button
+                onClick={() => setStep('pick')}
+                className="w-full mt-3 text-sm font-bold text-teal-600 dark:text-teal-400 hover:underline"
+              >
+                Choose a different time
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
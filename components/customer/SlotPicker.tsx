@@ -11,6 +11,7 @@ import { api } from '../../convex/_generated/api';
 import { Id } from '../../convex/_generated/dataModel';
 import { Calendar, Clock, Users, AlertCircle, Bell } from 'lucide-react';
 import { Slot } from '../../types';
+import { SlotPriceTag } from './SlotPriceTag';
 
 interface SlotPickerProps {
   listingId: Id<"listings">;
@@ -252,6 +253,7 @@ export const SlotPicker: React.FC<SlotPickerProps> = ({
                               <Users className="w-4 h-4" />
                               {slot.available} / {slot.capacity} spots
                             </span>
+                            <SlotPriceTag slot={slot} />
                             {deadline !== 'Booking closed' && (
                               <span className="text-xs text-amber-600">{deadline}</span>
                             )}
@@ -343,6 +345,7 @@ export const SlotPicker: React.FC<SlotPickerProps> = ({
                                 {slot.available} / {slot.capacity} available
                               </span>
                             </div>
+                            <SlotPriceTag slot={slot} />
                             {deadline !== 'Booking closed' && (
                               <span className="text-xs text-amber-600">{deadline}</span>
                             )}
@@ -0,0 +1,52 @@
+/**
+ * SlotPriceTag Component
+ *
+ * A slot's from-price after the listing's pricing rules, with a badge
+ * when the rules raise or lower it (hover lists the rules that apply).
+ */
+
+import React from 'react';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { Currency, BASE_CURRENCY } from '../../convex/lib/currency';
+
+interface SlotPriceTagProps {
+  slot: {
+    price?: number;
+    currency?: Currency;
+    priceAdjustment?: number;
+    appliedPricingRules?: string[];
+  };
+  compact?: boolean; // Badge only, for calendar cells
+}
+
+export const SlotPriceTag: React.FC<SlotPriceTagProps> = ({ slot, compact = false }) => {
+  const { formatPrice } = useCurrency();
+
+  // Slots that haven't been priced yet show the listing's price elsewhere
+  if (slot.price === undefined) return null;
+
+  const adjustment = slot.priceAdjustment ?? 0;
+  const badge = adjustment !== 0 && (
+    <span
+      title={slot.appliedPricingRules?.join(', ')}
+      className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${
+        adjustment < 0
+          ? 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300'
+          : 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300'
+      }`}
+    >
+      {adjustment > 0 ? '+' : ''}{adjustment}%
+    </span>
+  );
+
+  if (compact) {
+    return badge || null;
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1.5 text-sm">
+      <span className="font-medium">from {formatPrice(slot.price, slot.currency ?? BASE_CURRENCY)}</span>
+      {badge}
+    </span>
+  );
+};
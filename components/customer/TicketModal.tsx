@@ -0,0 +1,92 @@
+/**
+ * TicketModal Component
+ *
+ * Shows the e-ticket for a confirmed booking as a QR code for the vendor
+ * to scan at check-in, with the code written out for typing in by hand.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useQuery } from 'convex/react';
+import QRCode from 'qrcode';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+import { X, Loader2, CheckCircle } from 'lucide-react';
+import { Booking } from '../../types';
+
+interface TicketModalProps {
+  booking: Booking;
+  onClose: () => void;
+}
+
+export const TicketModal: React.FC<TicketModalProps> = ({ booking, onClose }) => {
+  const ticket = useQuery(api.tickets.getTicket, { bookingId: booking.id as Id<"bookings"> });
+  const [qrCode, setQrCode] = useState<string | null>(null);
+
+  // Drawn in the browser - the ticket code checks guests in, so it isn't
+  // sent to an image service
+  const code = ticket?.code;
+  useEffect(() => {
+    if (!code) return;
+    let cancelled = false;
+    QRCode.toDataURL(code, { width: 240, margin: 2 })
+      .then((url) => !cancelled && setQrCode(url))
+      .catch((error) => console.error('Failed to draw ticket QR code:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl max-w-sm w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white">Your Ticket</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {booking.listingTitle} · {booking.date}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {ticket === undefined ? (
+          <div className="text-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-teal-600 mx-auto" />
+          </div>
+        ) : ticket === null ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 py-8 text-center">
+            Your ticket will appear here once the booking is confirmed.
+          </p>
+        ) : (
+          <div className="text-center">
+            {qrCode ? (
+              <img
+                src={qrCode}
+                alt="Ticket QR code"
+                width={240}
+                height={240}
+                className="mx-auto rounded-xl bg-white p-2"
+              />
+            ) : (
+              <div className="w-[240px] h-[240px] mx-auto flex items-center justify-center">
+                <Loader2 className="w-8 h-8 animate-spin text-teal-600" />
+              </div>
+            )}
+            <p className="text-sm text-gray-600 dark:text-gray-300 mt-4">
+              Show this code when you arrive · {ticket.guests} {ticket.guests === 1 ? 'guest' : 'guests'}
+            </p>
+            <p className="text-xs text-gray-400 dark:text-gray-500 font-mono break-all mt-2">{ticket.code}</p>
+            {ticket.checkedIn > 0 && (
+              <div className="mt-4 flex items-center justify-center gap-2 text-sm font-bold text-green-600 dark:text-green-400">
+                <CheckCircle className="w-4 h-4" />
+                {ticket.checkedIn} of {ticket.guests} checked in
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
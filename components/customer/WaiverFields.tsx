@@ -0,0 +1,60 @@
+/**
+ * WaiverFields Component
+ *
+ * Shows a listing's liability waiver (written text or a link to the
+ * uploaded document) with the typed name and drawn signature to sign it.
+ * Used while booking and on the waiver signing page.
+ */
+
+import React from 'react';
+import { FileText } from 'lucide-react';
+import { SignaturePad } from '../SignaturePad';
+
+interface WaiverFieldsProps {
+  title: string;
+  text?: string;
+  documentUrl?: string | null;
+  signerName: string;
+  onSignerNameChange: (name: string) => void;
+  onSignatureChange: (dataUrl: string | null) => void;
+}
+
+export const WaiverFields: React.FC<WaiverFieldsProps> = ({
+  title,
+  text,
+  documentUrl,
+  signerName,
+  onSignerNameChange,
+  onSignatureChange,
+}) => (
+  <div className="space-y-3">
+    <p className="font-bold text-gray-900 dark:text-white">{title}</p>
+    {text && (
+      <div className="max-h-48 overflow-y-auto whitespace-pre-wrap text-sm text-gray-600 dark:text-gray-300 p-4 rounded-xl border border-gray-200 dark:border-gray-600">
+        {text}
+      </div>
+    )}
+    {documentUrl && (
+      <a
+        href={documentUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-2 text-sm font-bold text-teal-600 dark:text-teal-400 hover:underline"
+      >
+        <FileText className="w-4 h-4" />
+        Read the full waiver (PDF)
+      </a>
+    )}
+    <input
+      type="text"
+      value={signerName}
+      onChange={e => onSignerNameChange(e.target.value)}
+      placeholder="Your full name"
+      className="w-full p-3 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-teal-500 outline-none"
+    />
+    <SignaturePad onChange={onSignatureChange} />
+    <p className="text-xs text-gray-500 dark:text-gray-400">
+      By typing your name and signing you agree to the waiver above.
+    </p>
+  </div>
+);
@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import * as L from 'leaflet';
 import { Star, MapPin, ExternalLink } from 'lucide-react';
 import { Listing } from '../../types';
+import { useCurrency } from '../../contexts/CurrencyContext';
 
 // Custom Icon for Map Pins
 const createCustomIcon = (isActive: boolean = false) => {
@@ -24,6 +25,7 @@ interface ListingMapProps {
 
 export const ListingMap: React.FC<ListingMapProps> = ({ listings, onSelect }) => {
   const navigate = useNavigate();
+  const { displayCurrency, formatPrice } = useCurrency();
   const navigateRef = useRef(navigate);
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
@@ -88,7 +90,7 @@ export const ListingMap: React.FC<ListingMapProps> = ({ listings, onSelect }) =>
                 <span class="text-sm font-semibold text-gray-900">${l.rating}</span>
                 <span class="text-xs text-gray-500">(${l.reviewCount})</span>
               </div>
-              <div class="text-xl font-bold text-teal-600">$${l.price}</div>
+              <div class="text-xl font-bold text-teal-600">${formatPrice(l.price, l.currency)}</div>
             </div>
             <button
               onclick="window.viewListingDetails('${l.id}')"
@@ -147,7 +149,7 @@ export const ListingMap: React.FC<ListingMapProps> = ({ listings, onSelect }) =>
     return () => {
       delete (window as any).viewListingDetails;
     };
-  }, [listings, hoveredListing, selectedListing]);
+  }, [listings, hoveredListing, selectedListing, displayCurrency]);
 
   // Update marker icons when hover state changes
   useEffect(() => {
@@ -219,7 +221,7 @@ export const ListingMap: React.FC<ListingMapProps> = ({ listings, onSelect }) =>
                       <span className="text-xs text-gray-500 dark:text-gray-400">({listing.reviewCount})</span>
                     </div>
                     <div className="text-sm font-bold text-teal-600 dark:text-teal-400">
-                      ${listing.price}
+                      {formatPrice(listing.price, listing.currency)}
                     </div>
                   </div>
                 </div>
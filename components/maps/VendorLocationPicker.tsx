@@ -16,12 +16,28 @@ interface VendorLocationPickerProps {
   lat?: number;
   lng?: number;
   onChange: (lat: number, lng: number) => void;
+  // Areas drawn around the pin, e.g. pickup zones
+  zones?: { name: string; latitude: number; longitude: number; radiusKm: number }[];
+  hint?: string;
 }
 
-export const VendorLocationPicker: React.FC<VendorLocationPickerProps> = ({ lat, lng, onChange }) => {
+export const VendorLocationPicker: React.FC<VendorLocationPickerProps> = ({
+  lat,
+  lng,
+  onChange,
+  zones,
+  hint = 'Click to set location',
+}) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const markerRef = useRef<L.Marker | null>(null);
+  const zonesLayerRef = useRef<L.LayerGroup | null>(null);
+  const onChangeRef = useRef(onChange);
+
+  // The click handler is bound once; always call the latest onChange
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
 
   useEffect(() => {
     if (!mapContainerRef.current) return;
@@ -37,7 +53,7 @@ export const VendorLocationPicker: React.FC<VendorLocationPickerProps> = ({ lat,
 
       mapInstanceRef.current.on('click', (e) => {
         const { lat, lng } = e.latlng;
-        onChange(lat, lng);
+        onChangeRef.current(lat, lng);
         updateMarker(lat, lng);
       });
     }
@@ -61,11 +77,28 @@ export const VendorLocationPicker: React.FC<VendorLocationPickerProps> = ({ lat,
 
   }, [lat, lng]);
 
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    if (zonesLayerRef.current) map.removeLayer(zonesLayerRef.current);
+    zonesLayerRef.current = L.layerGroup(
+      (zones || []).map((zone) =>
+        L.circle([zone.latitude, zone.longitude], {
+          radius: zone.radiusKm * 1000,
+          color: '#0d9488',
+          weight: 2,
+          fillOpacity: 0.1,
+        }).bindTooltip(zone.name)
+      )
+    ).addTo(map);
+  }, [zones]);
+
   return (
     <div className="relative w-full h-[300px] rounded-xl overflow-hidden border border-gray-200 shadow-sm">
       <div ref={mapContainerRef} className="w-full h-full" />
       <div className="absolute top-2 right-2 bg-white/90 backdrop-blur px-3 py-1 text-xs font-bold rounded-full shadow-sm z-[1000]">
-        Click to set location
+        {hint}
       </div>
     </div>
   );
@@ -49,6 +49,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       email: convexProfile.email,
       fullName: convexProfile.fullName || 'Traveler',
       role: convexProfile.role as 'customer' | 'vendor' | 'admin',
+      displayCurrency: convexProfile.displayCurrency,
     });
     setLoading(false);
   }, [convexProfile]);
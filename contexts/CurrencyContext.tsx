@@ -0,0 +1,90 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { useAuth } from './AuthContext';
+import {
+  Currency,
+  ExchangeRates,
+  BASE_CURRENCY,
+  convertAmount,
+  formatMoney,
+  isCurrency,
+} from '../convex/lib/currency';
+
+interface CurrencyContextType {
+  displayCurrency: Currency;
+  // Currency checkout charges in: the display currency once it has a rate
+  chargeCurrency: Currency;
+  rates: ExchangeRates;
+  setDisplayCurrency: (currency: Currency) => void;
+  convertPrice: (amount: number, from?: Currency) => number;
+  formatPrice: (amount: number, from?: Currency) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export const CurrencyProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { profile } = useAuth();
+  const rateRows = useQuery(api.exchangeRates.list);
+  const updateProfile = useMutation(api.profiles.update);
+
+  const [displayCurrency, setCurrency] = useState<Currency>(() => {
+    // Check localStorage for saved preference
+    const saved = localStorage.getItem('displayCurrency');
+    return saved && isCurrency(saved) ? saved : BASE_CURRENCY;
+  });
+
+  // Signed-in customers take the currency saved on their profile
+  useEffect(() => {
+    if (profile?.displayCurrency) {
+      setCurrency(profile.displayCurrency);
+      localStorage.setItem('displayCurrency', profile.displayCurrency);
+    }
+  }, [profile?.displayCurrency]);
+
+  const rates = useMemo(() => {
+    const map: ExchangeRates = {};
+    for (const row of rateRows || []) {
+      map[row.currency as Currency] = row.rate;
+    }
+    return map;
+  }, [rateRows]);
+
+  const setDisplayCurrency = (currency: Currency) => {
+    setCurrency(currency);
+    localStorage.setItem('displayCurrency', currency);
+    if (profile) {
+      updateProfile({ displayCurrency: currency }).catch((error) =>
+        console.error('Failed to save display currency:', error)
+      );
+    }
+  };
+
+  const hasRate = (currency: Currency) => currency === BASE_CURRENCY || rates[currency] !== undefined;
+  const chargeCurrency = hasRate(displayCurrency) ? displayCurrency : BASE_CURRENCY;
+
+  // Amounts without a rate to convert with are shown as they are
+  const convertPrice = (amount: number, from: Currency = BASE_CURRENCY) =>
+    hasRate(from) ? convertAmount(amount, from, chargeCurrency, rates) : amount;
+
+  const formatPrice = (amount: number, from: Currency = BASE_CURRENCY) =>
+    hasRate(from)
+      ? formatMoney(convertAmount(amount, from, chargeCurrency, rates), chargeCurrency)
+      : formatMoney(amount, from);
+
+  return (
+    <CurrencyContext.Provider
+      value={{ displayCurrency, chargeCurrency, rates, setDisplayCurrency, convertPrice, formatPrice }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
+
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
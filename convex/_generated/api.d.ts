@@ -8,35 +8,56 @@
  * @module
  */
 
+import type * as addOns from "../addOns.js";
 import type * as admin from "../admin.js";
 import type * as ai_gemini from "../ai/gemini.js";
+import type * as attendance from "../attendance.js";
 import type * as auth from "../auth.js";
+import type * as availability_holds from "../availability/holds.js";
+import type * as availability_pricing from "../availability/pricing.js";
+import type * as availability_resources from "../availability/resources.js";
 import type * as availability_rules from "../availability/rules.js";
 import type * as availability_slots from "../availability/slots.js";
+import type * as availability_summaries from "../availability/summaries.js";
 import type * as availability_waitlist from "../availability/waitlist.js";
+import type * as bookingRequests from "../bookingRequests.js";
 import type * as bookings from "../bookings.js";
+import type * as cart from "../cart.js";
 import type * as cron_jobs from "../cron/jobs.js";
 import type * as crons from "../crons.js";
+import type * as deposits from "../deposits.js";
 import type * as dev_createAdmin from "../dev/createAdmin.js";
 import type * as dev_debugAuth from "../dev/debugAuth.js";
 import type * as dev_getRecentBookings from "../dev/getRecentBookings.js";
 import type * as dev_signupAdmin from "../dev/signupAdmin.js";
 import type * as dev_testNotifications from "../dev/testNotifications.js";
 import type * as dev_updatePassword from "../dev/updatePassword.js";
+import type * as exchangeRates from "../exchangeRates.js";
 import type * as files from "../files.js";
 import type * as fixOrphanedUsers from "../fixOrphanedUsers.js";
+import type * as giftVouchers from "../giftVouchers.js";
 import type * as http from "../http.js";
 import type * as lib_auth from "../lib/auth.js";
 import type * as listings from "../listings.js";
 import type * as messages from "../messages.js";
+import type * as migrations from "../migrations.js";
 import type * as notifications_email from "../notifications/email.js";
 import type * as notifications_inApp from "../notifications/inApp.js";
+import type * as notifications_reminders from "../notifications/reminders.js";
+import type * as notifications_ticketQr from "../notifications/ticketQr.js";
+import type * as packages from "../packages.js";
+import type * as pickups from "../pickups.js";
 import type * as profiles from "../profiles.js";
+import type * as promoCodes from "../promoCodes.js";
 import type * as reviews from "../reviews.js";
+import type * as routes from "../routes.js";
 import type * as seedData from "../seedData.js";
 import type * as stripe_connect from "../stripe/connect.js";
 import type * as stripe_payments from "../stripe/payments.js";
+import type * as stripe_refunds from "../stripe/refunds.js";
 import type * as stripe_webhooks from "../stripe/webhooks.js";
+import type * as tickets from "../tickets.js";
+import type * as waivers from "../waivers.js";
 
 import type {
   ApiFromModules,
@@ -45,35 +66,56 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  addOns: typeof addOns;
   admin: typeof admin;
   "ai/gemini": typeof ai_gemini;
+  attendance: typeof attendance;
   auth: typeof auth;
+  "availability/holds": typeof availability_holds;
+  "availability/pricing": typeof availability_pricing;
+  "availability/resources": typeof availability_resources;
   "availability/rules": typeof availability_rules;
   "availability/slots": typeof availability_slots;
+  "availability/summaries": typeof availability_summaries;
   "availability/waitlist": typeof availability_waitlist;
+  bookingRequests: typeof bookingRequests;
   bookings: typeof bookings;
+  cart: typeof cart;
   "cron/jobs": typeof cron_jobs;
   crons: typeof crons;
+  deposits: typeof deposits;
   "dev/createAdmin": typeof dev_createAdmin;
   "dev/debugAuth": typeof dev_debugAuth;
   "dev/getRecentBookings": typeof dev_getRecentBookings;
   "dev/signupAdmin": typeof dev_signupAdmin;
   "dev/testNotifications": typeof dev_testNotifications;
   "dev/updatePassword": typeof dev_updatePassword;
+  exchangeRates: typeof exchangeRates;
   files: typeof files;
   fixOrphanedUsers: typeof fixOrphanedUsers;
+  giftVouchers: typeof giftVouchers;
   http: typeof http;
   "lib/auth": typeof lib_auth;
   listings: typeof listings;
   messages: typeof messages;
+  migrations: typeof migrations;
   "notifications/email": typeof notifications_email;
   "notifications/inApp": typeof notifications_inApp;
+  "notifications/reminders": typeof notifications_reminders;
+  "notifications/ticketQr": typeof notifications_ticketQr;
+  packages: typeof packages;
+  pickups: typeof pickups;
   profiles: typeof profiles;
+  promoCodes: typeof promoCodes;
   reviews: typeof reviews;
+  routes: typeof routes;
   seedData: typeof seedData;
   "stripe/connect": typeof stripe_connect;
   "stripe/payments": typeof stripe_payments;
+  "stripe/refunds": typeof stripe_refunds;
   "stripe/webhooks": typeof stripe_webhooks;
+  tickets: typeof tickets;
+  waivers: typeof waivers;
 }>;
 
 /**
@@ -0,0 +1,124 @@
+/**
+ * Add-ons Queries and Helpers
+ *
+ * Bookings carry the add-ons bought with them (see lib/addOns.ts). Add-ons
+ * with an inventory are counted per session across the slot's pending and
+ * confirmed bookings, so five GoPros can't be rented six times.
+ */
+
+import { v } from "convex/values";
+import { query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { AddOnItem, AddOnSelection, priceAddOns, getAddOnsTotal } from "./lib/addOns";
+import { BASE_CURRENCY, convertAmount } from "./lib/currency";
+import { getExchangeRates } from "./exchangeRates";
+
+// ============================================
+// ADD-ON HELPERS
+// ============================================
+
+/**
+ * Units of each add-on taken by a slot's live bookings
+ */
+async function getAddOnUsage(
+  ctx: QueryCtx,
+  slotId: Id<"slots">,
+  excludeBookingId?: Id<"bookings">
+): Promise<Map<string, number>> {
+  const bookings = await ctx.db
+    .query("bookings")
+    .withIndex("by_slot", (q) => q.eq("slotId", slotId))
+    .collect();
+
+  const usage = new Map<string, number>();
+  for (const booking of bookings) {
+    if (booking._id === excludeBookingId) continue;
+    if (booking.status === "cancelled") continue;
+    for (const item of booking.addOns || []) {
+      usage.set(item.addOnId, (usage.get(item.addOnId) || 0) + item.quantity);
+    }
+  }
+  return usage;
+}
+
+/**
+ * Price add-ons for a booking in THB
+ */
+export async function priceAddOnsInBase(
+  ctx: QueryCtx,
+  listing: Doc<"listings">,
+  selections: AddOnSelection[],
+  guests: number
+): Promise<{ items: AddOnItem[]; totalPrice: number }> {
+  const priced = priceAddOns(listing.addOns || [], selections, guests);
+
+  const currency = listing.currency ?? BASE_CURRENCY;
+  if (currency === BASE_CURRENCY || priced.items.length === 0) {
+    return priced;
+  }
+
+  const rates = await getExchangeRates(ctx);
+  const items = priced.items.map((item) => ({
+    ...item,
+    unitPrice: convertAmount(item.unitPrice, currency, BASE_CURRENCY, rates),
+  }));
+  return { items, totalPrice: getAddOnsTotal(items) };
+}
+
+/**
+ * Throws if a slot doesn't have enough units left of the add-ons
+ */
+export async function checkAddOnInventory(
+  ctx: QueryCtx,
+  listing: Doc<"listings">,
+  slotId: Id<"slots">,
+  items: AddOnItem[],
+  excludeBookingId?: Id<"bookings">
+): Promise<void> {
+  const limited = items.filter((item) =>
+    listing.addOns?.find((a) => a.id === item.addOnId)?.inventory !== undefined
+  );
+  if (limited.length === 0) return;
+
+  const usage = await getAddOnUsage(ctx, slotId, excludeBookingId);
+  for (const item of limited) {
+    const addOn = listing.addOns!.find((a) => a.id === item.addOnId)!;
+    const remaining = Math.max(0, addOn.inventory! - (usage.get(item.addOnId) || 0));
+    if (item.quantity > remaining) {
+      throw new Error(
+        remaining === 0
+          ? `${addOn.name} is sold out for this time slot`
+          : `Only ${remaining} ${addOn.name} left for this time slot`
+      );
+    }
+  }
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Units left per add-on for a slot (null = unlimited)
+ */
+export const getRemaining = query({
+  args: {
+    slotId: v.id("slots"),
+  },
+  handler: async (ctx, args) => {
+    const slot = await ctx.db.get(args.slotId);
+    if (!slot) return {};
+
+    const listing = await ctx.db.get(slot.listingId);
+    if (!listing?.addOns?.length) return {};
+
+    const usage = await getAddOnUsage(ctx, args.slotId);
+    const remaining: Record<string, number | null> = {};
+    for (const addOn of listing.addOns) {
+      remaining[addOn.id] = addOn.inventory === undefined
+        ? null
+        : Math.max(0, addOn.inventory - (usage.get(addOn.id) || 0));
+    }
+    return remaining;
+  },
+});
@@ -10,8 +10,9 @@
 import { action } from "../_generated/server";
 import { v } from "convex/values";
 import { GoogleGenAI } from "@google/genai";
-import { api } from "../_generated/api";
+import { api, internal } from "../_generated/api";
 import { Id } from "../_generated/dataModel";
+import type { DayAvailability } from "../availability/summaries";
 
 // Helper function to intelligently filter relevant listings based on query
 const getRelevantListings = (
@@ -22,6 +23,7 @@ const getRelevantListings = (
     location: string;
     category: string;
     price: number;
+    currency?: string;
     duration: string;
     maxCapacity: number;
     operatingDays: string[];
@@ -69,6 +71,7 @@ export const chat = action({
         location: v.string(),
         category: v.string(),
         price: v.number(),
+        currency: v.optional(v.string()),
         duration: v.string(),
         maxCapacity: v.number(),
         operatingDays: v.array(v.string()),
@@ -81,7 +84,6 @@ export const chat = action({
         text: v.string(),
       })
     ),
-    availabilityData: v.any(), // Record<string, Record<string, { booked: number; capacity: number; available: number }>>
   },
   handler: async (ctx, args) => {
     const apiKey = process.env.GEMINI_API_KEY;
@@ -96,21 +98,27 @@ export const chat = action({
       const relevantListings = getRelevantListings(args.userQuery, args.listings);
 
       // Build availability summary for relevant listings only
-      const availabilitySummary: Record<string, string[]> = {};
-      const availabilityData = args.availabilityData || {};
+      const availabilityData: Record<string, Record<string, DayAvailability>> = await ctx.runQuery(
+        internal.availability.summaries.getForListings,
+        { listingIds: relevantListings.map((l) => l.id) }
+      );
+      const availabilitySummary: Record<string, Array<{ date: string; from: string; seatsLeft: number; price: number }>> = {};
 
       relevantListings.forEach((listing) => {
         if (availabilityData[listing.id]) {
-          const dates = Object.entries(availabilityData[listing.id])
-            .filter(
-              ([_, data]: [string, any]) => data && data.available > 0
-            )
-            .map(([date]) => date)
-            .sort()
-            .slice(0, 10); // Only include first 10 available dates to save tokens
-
-          if (dates.length > 0) {
-            availabilitySummary[listing.id] = dates;
+          const days = Object.entries(availabilityData[listing.id])
+            .filter(([_, data]) => data.available > 0 && data.earliestStartTime)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .slice(0, 10) // Only include first 10 available dates to save tokens
+            .map(([date, data]) => ({
+              date,
+              from: data.earliestStartTime!,
+              seatsLeft: data.available,
+              price: data.price,
+            }));
+
+          if (days.length > 0) {
+            availabilitySummary[listing.id] = days;
           }
         }
       });
@@ -122,11 +130,12 @@ export const chat = action({
           location: l.location,
           category: l.category,
           price: l.price,
+          currency: l.currency || "THB",
           duration: l.duration,
           maxCapacity: l.maxCapacity,
           operatingDays: l.operatingDays,
           description: l.description.substring(0, 100), // Trim descriptions to save tokens
-          nextAvailableDates: availabilitySummary[l.id] || [], // Include available dates
+          nextAvailable: availabilitySummary[l.id] || [], // Include available dates
         }))
       );
 
@@ -145,11 +154,12 @@ YOUR PERSONALITY:
 - Remember previous messages in the conversation to handle follow-up questions naturally
 
 AVAILABILITY INFO:
-- Each activity has "operatingDays" (which days it runs), "maxCapacity" (max group size), and "nextAvailableDates" (next 30 days of available dates)
-- The "nextAvailableDates" array shows dates in YYYY-MM-DD format that have availability
-- When asked about availability, mention specific dates from the nextAvailableDates array
+- Each activity has "operatingDays" (which days it runs), "maxCapacity" (max group size), and "nextAvailable" (bookable days in the next 30 days)
+- Each "nextAvailable" entry has the date (YYYY-MM-DD), the earliest start time still open ("from"), seats left that day and the from-price
+- Prices are in the activity's "currency" (฿ for THB) - quote them in that currency
+- When asked about availability, mention specific dates and times from the nextAvailable array, and warn when only a few seats are left
 - If someone asks about dates beyond 30 days out, tell them to check the listing page directly
-- If nextAvailableDates is empty, the activity is fully booked for the next 30 days
+- If nextAvailable is empty, the activity is fully booked for the next 30 days
 
 INTERACTIVE COMPONENTS:
 Today's date is ${new Date().toISOString().split('T')[0]}.
@@ -190,7 +200,7 @@ IMPORTANT DATE HANDLING:
 EXAMPLES:
 
 User: "looking for yoga"
-You: "Check out Sunrise Yoga on Secret Beach! $350 and it's at dawn with amazing views"
+You: "Check out Sunrise Yoga on Secret Beach! ฿350 and it's at dawn with amazing views"
 
 User: "what yoga classes do you have this Monday"
 You: {"message": "Here are the yoga options for Monday! Tap any to see times:", "showListingsForDate": {"date": "2024-12-02", "category": "Wellness", "listingIds": ["id1", "id2"]}}
@@ -359,6 +369,7 @@ Keep it real and conversational. No bullet points or formal lists.`;
                       id: listingId,
                       title: listing.title,
                       price: listing.price,
+                      currency: listing.currency,
                       imageUrl: listing.imageUrl || '',
                       category: listing.category,
                       duration: listing.duration,
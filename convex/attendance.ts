@@ -0,0 +1,215 @@
+/**
+ * Attendance and No-Shows
+ *
+ * Vendors record from the slot roster whether each booking attended, didn't
+ * show up or came with fewer guests. The listing's no-show policy decides
+ * what is refunded, customers' no-shows are counted on their profile for
+ * vendors to see, and the outcomes feed the vendor's attendance report.
+ */
+
+import { v } from "convex/values";
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { getCurrentUserId, isAdmin } from "./lib/auth";
+import { getActivityStartTime } from "./lib/cancellationPolicy";
+import {
+  attendanceOutcomeValidator,
+  getAttendedGuests,
+  getNoShowRefund,
+  validateAttendance,
+} from "./lib/attendance";
+import { getPaidPayments, scheduleRefund } from "./stripe/refunds";
+
+// ============================================
+// ATTENDANCE HELPERS
+// ============================================
+
+/**
+ * No-shows on each customer's profile
+ */
+export async function getNoShowCounts(ctx: QueryCtx, customerIds: string[]) {
+  const counts = new Map<string, number>();
+  for (const customerId of new Set(customerIds)) {
+    const profile = await ctx.db
+      .query("profiles")
+      .withIndex("by_userId", (q) => q.eq("userId", customerId))
+      .unique();
+    counts.set(customerId, profile?.noShowCount || 0);
+  }
+  return counts;
+}
+
+/**
+ * Keep the customer's no-show count in step with a changed outcome
+ */
+async function updateNoShowCount(ctx: MutationCtx, customerId: string, change: number) {
+  const profile = await ctx.db
+    .query("profiles")
+    .withIndex("by_userId", (q) => q.eq("userId", customerId))
+    .unique();
+  if (!profile) {
+    return;
+  }
+
+  await ctx.db.patch(profile._id, {
+    noShowCount: Math.max(0, (profile.noShowCount || 0) + change),
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Whether a booking's activity has started, so attendance can be recorded
+ */
+async function hasStarted(ctx: QueryCtx, booking: Doc<"bookings">) {
+  const slot = booking.slotId ? await ctx.db.get(booking.slotId) : null;
+  return getActivityStartTime(slot?.date || booking.bookingDate, slot?.startTime) <= Date.now();
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Attendance report for the current vendor: outcomes, guests and no-show
+ * refunds per listing, plus bookings still waiting for an outcome
+ */
+export const vendorReport = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const bookings = await ctx.db
+      .query("bookings")
+      .withIndex("by_vendor", (q) => q.eq("vendorId", userId))
+      .collect();
+
+    const emptyRow = () => ({
+      marked: 0,
+      attended: 0,
+      partial: 0,
+      noShows: 0,
+      bookedGuests: 0,
+      attendedGuests: 0,
+      noShowRefunds: 0, // Cents
+    });
+
+    const totals = { ...emptyRow(), unmarked: 0 };
+    const byListing = new Map<string, ReturnType<typeof emptyRow> & { listingId: string; listingTitle: string }>();
+
+    for (const booking of bookings) {
+      if (!booking.attendance) {
+        if (booking.status === "completed") {
+          totals.unmarked++;
+        }
+        continue;
+      }
+
+      let row = byListing.get(booking.listingId);
+      if (!row) {
+        row = { ...emptyRow(), listingId: booking.listingId, listingTitle: booking.listingTitle };
+        byListing.set(booking.listingId, row);
+      }
+
+      for (const target of [row, totals]) {
+        target.marked++;
+        if (booking.attendance === "attended") target.attended++;
+        if (booking.attendance === "partial") target.partial++;
+        if (booking.attendance === "no_show") target.noShows++;
+        target.bookedGuests += booking.guests;
+        target.attendedGuests += booking.attendedGuests ?? 0;
+        target.noShowRefunds += booking.noShowRefundAmount || 0;
+      }
+    }
+
+    const withRate = <T extends { marked: number; noShows: number }>(row: T) => ({
+      ...row,
+      noShowRate: row.marked > 0 ? Math.round((row.noShows / row.marked) * 100) : 0,
+    });
+
+    return {
+      totals: withRate(totals),
+      listings: Array.from(byListing.values())
+        .map(withRate)
+        .sort((a, b) => b.marked - a.marked),
+    };
+  },
+});
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Record whether a booking attended, was a no-show or came with fewer guests
+ * The listing's no-show policy refunds missing guests; changing the outcome
+ * later only ever refunds more, never claws a refund back.
+ * Vendor (if owns listing) or Admin
+ */
+export const markAttendance = mutation({
+  args: {
+    bookingId: v.id("bookings"),
+    outcome: attendanceOutcomeValidator,
+    attendedGuests: v.optional(v.number()), // Required for "partial"
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+    const adminUser = await isAdmin(ctx);
+
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    if (booking.vendorId !== userId && !adminUser) {
+      throw new Error("Unauthorized: Only the vendor or admin can record attendance");
+    }
+
+    if (booking.status !== "confirmed" && booking.status !== "completed") {
+      throw new Error("Attendance can only be recorded for confirmed bookings");
+    }
+
+    if (!(await hasStarted(ctx, booking))) {
+      throw new Error("Attendance can be recorded once the activity has started");
+    }
+
+    const attendedGuests = getAttendedGuests(args.outcome, booking.guests, args.attendedGuests);
+    validateAttendance(args.outcome, attendedGuests, booking.guests);
+
+    const wasNoShow = booking.attendance === "no_show";
+    const isNoShow = args.outcome === "no_show";
+    if (wasNoShow !== isNoShow) {
+      await updateNoShowCount(ctx, booking.customerId, isNoShow ? 1 : -1);
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.bookingId, {
+      attendance: args.outcome,
+      attendedGuests,
+      attendanceMarkedAt: now,
+      attendanceMarkedBy: userId,
+      updatedAt: now,
+    });
+
+    // Refund missing guests under the listing's no-show policy
+    const listing = await ctx.db.get(booking.listingId);
+    const payments = await getPaidPayments(ctx, args.bookingId);
+    // Money already given back (e.g. after a cheaper reschedule) isn't refunded twice
+    const amountPaid = payments.reduce((total, p) => total + p.amount - p.refundAmount, 0);
+    const owed = getNoShowRefund(listing?.noShowPolicy, booking.guests, attendedGuests, amountPaid);
+    const alreadyRefunded = booking.noShowRefundAmount || 0;
+
+    let refundAmount = 0;
+    if (owed > alreadyRefunded) {
+      refundAmount = await scheduleRefund(ctx, args.bookingId, {
+        amount: owed - alreadyRefunded,
+      });
+      if (refundAmount > 0) {
+        await ctx.db.patch(args.bookingId, {
+          noShowRefundAmount: alreadyRefunded + refundAmount,
+        });
+      }
+    }
+
+    return { success: true, attendedGuests, refundAmount };
+  },
+});
@@ -0,0 +1,421 @@
+/**
+ * Seat Holds
+ *
+ * Time-limited seat reservations for pending slot bookings.
+ * A hold decrements slot availability as soon as a booking is created, is
+ * converted into a confirmed seat when payment succeeds, and is released
+ * (returning the seats) when payment fails, the booking is cancelled, or
+ * the hold expires.
+ */
+
+import { v } from "convex/values";
+import { query, internalMutation, MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import { getCurrentUserId, isAdmin } from "../lib/auth";
+import { restoreVoucherRedemptions } from "../giftVouchers";
+import { refreshDaySummary } from "./summaries";
+import { checkResources, getResourceLimit } from "./resources";
+
+// How long seats stay reserved while the customer completes payment
+export const HOLD_DURATION_MS = 15 * 60 * 1000; // 15 minutes
+
+// ============================================
+// HOLD HELPERS (used inside other mutations)
+// ============================================
+
+/**
+ * Reserve seats on a slot for a pending booking.
+ * Throws if the slot or its shared resources no longer have enough availability.
+ */
+export async function placeHold(
+  ctx: MutationCtx,
+  args: {
+    slot: Doc<"slots">;
+    bookingId: Id<"bookings">;
+    customerId: string;
+    guests: number;
+  }
+): Promise<{ holdId: Id<"slotHolds">; expiresAt: number }> {
+  const { slot } = args;
+
+  if (slot.available < args.guests) {
+    throw new Error(`Only ${slot.available} spots remaining for this time slot`);
+  }
+  await checkResources(ctx, slot, args.guests);
+
+  const now = Date.now();
+  const expiresAt = now + HOLD_DURATION_MS;
+
+  await ctx.db.patch(slot._id, {
+    booked: slot.booked + args.guests,
+    available: slot.available - args.guests,
+    updatedAt: now,
+  });
+  await refreshDaySummary(ctx, slot.listingId, slot.date);
+
+  const holdId = await ctx.db.insert("slotHolds", {
+    slotId: slot._id,
+    bookingId: args.bookingId,
+    listingId: slot.listingId,
+    customerId: args.customerId,
+    guests: args.guests,
+    status: "active",
+    expiresAt,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return { holdId, expiresAt };
+}
+
+/**
+ * Convert a booking's hold into a confirmed seat after payment succeeds.
+ * If the hold already lapsed, the seats are re-reserved when they're still
+ * free; if they've been resold the payment can't be honoured and
+ * `confirmed` is false - the caller refunds it (refundLatePayment).
+ * Safe to call more than once (webhook and client confirmation both call it).
+ */
+export async function confirmHold(
+  ctx: MutationCtx,
+  bookingId: Id<"bookings">
+): Promise<{ confirmed: boolean }> {
+  const hold = await ctx.db
+    .query("slotHolds")
+    .withIndex("by_booking", (q) => q.eq("bookingId", bookingId))
+    .unique();
+
+  // Bookings made before seat holds existed keep the seats they have
+  if (!hold || hold.status === "converted") {
+    return { confirmed: true };
+  }
+
+  const now = Date.now();
+
+  if (hold.status !== "active") {
+    // Payment arrived after the hold was released - take the seats back
+    const slot = await ctx.db.get(hold.slotId);
+    if (!slot || slot.status !== "active" || slot.available < hold.guests) {
+      return { confirmed: false };
+    }
+    const resourceLimit = await getResourceLimit(ctx, slot);
+    if (resourceLimit !== null && resourceLimit < hold.guests) {
+      return { confirmed: false };
+    }
+
+    await ctx.db.patch(slot._id, {
+      booked: slot.booked + hold.guests,
+      available: slot.available - hold.guests,
+      updatedAt: now,
+    });
+    await refreshDaySummary(ctx, slot.listingId, slot.date);
+  }
+
+  await ctx.db.patch(hold._id, {
+    status: "converted",
+    updatedAt: now,
+  });
+
+  return { confirmed: true };
+}
+
+/**
+ * Release a booking's hold and return its seats to the slot.
+ * Applies to active holds and confirmed (converted) seats alike, so it is
+ * also used when a paid booking is cancelled. Notifies the waitlist when
+ * seats free up. A booking that was never paid also gets back any gift
+ * voucher balance it reserved (paid bookings are credited by scheduleRefund).
+ */
+export async function releaseHold(
+  ctx: MutationCtx,
+  bookingId: Id<"bookings">,
+  status: "released" | "expired" = "released"
+): Promise<{ released: boolean; guests: number }> {
+  const booking = await ctx.db.get(bookingId);
+  if (booking && (booking.paymentStatus === "pending" || booking.paymentStatus === "failed")) {
+    await restoreVoucherRedemptions(ctx, bookingId);
+  }
+
+  const hold = await ctx.db
+    .query("slotHolds")
+    .withIndex("by_booking", (q) => q.eq("bookingId", bookingId))
+    .unique();
+
+  if (!hold || (hold.status !== "active" && hold.status !== "converted")) {
+    return { released: false, guests: 0 };
+  }
+
+  const now = Date.now();
+
+  await ctx.db.patch(hold._id, {
+    status,
+    releasedAt: now,
+    updatedAt: now,
+  });
+
+  const slot = await ctx.db.get(hold.slotId);
+  if (slot) {
+    await ctx.db.patch(slot._id, {
+      booked: Math.max(0, slot.booked - hold.guests),
+      available: Math.min(slot.capacity, slot.available + hold.guests),
+      updatedAt: now,
+    });
+    await refreshDaySummary(ctx, slot.listingId, slot.date);
+
+    // Give the freed seats to the next person on the waitlist
+    if (slot.status === "active") {
+      await ctx.scheduler.runAfter(0, internal.availability.waitlist.notifyNext, {
+        slotId: slot._id,
+      });
+    }
+  }
+
+  return { released: true, guests: hold.guests };
+}
+
+/**
+ * Keep a booking's active hold until a later time, e.g. while a booking
+ * request waits for the vendor.
+ */
+export async function extendHold(
+  ctx: MutationCtx,
+  bookingId: Id<"bookings">,
+  expiresAt: number
+): Promise<void> {
+  const hold = await ctx.db
+    .query("slotHolds")
+    .withIndex("by_booking", (q) => q.eq("bookingId", bookingId))
+    .unique();
+
+  if (hold && hold.status === "active" && hold.expiresAt < expiresAt) {
+    await ctx.db.patch(hold._id, {
+      expiresAt,
+      updatedAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * Move a booking's seats to another slot.
+ * Reserves the seats on the new slot before returning them to the old one,
+ * so a failed move leaves the booking untouched. Bookings made before seat
+ * holds existed get a converted hold on the new slot, and their seats are
+ * returned to the slot they're booked on.
+ */
+export async function moveHold(
+  ctx: MutationCtx,
+  args: {
+    bookingId: Id<"bookings">;
+    customerId: string;
+    guests: number;
+    toSlot: Doc<"slots">;
+  }
+): Promise<void> {
+  const { toSlot } = args;
+
+  if (toSlot.available < args.guests) {
+    throw new Error(`Only ${toSlot.available} spots remaining for this time slot`);
+  }
+  await checkResources(ctx, toSlot, args.guests);
+
+  const now = Date.now();
+
+  await ctx.db.patch(toSlot._id, {
+    booked: toSlot.booked + args.guests,
+    available: toSlot.available - args.guests,
+    updatedAt: now,
+  });
+  await refreshDaySummary(ctx, toSlot.listingId, toSlot.date);
+
+  const hold = await ctx.db
+    .query("slotHolds")
+    .withIndex("by_booking", (q) => q.eq("bookingId", args.bookingId))
+    .unique();
+
+  let fromSlot: Doc<"slots"> | null;
+  let fromGuests: number;
+
+  if (!hold) {
+    // The booking's seats are counted on its current slot without a hold
+    const booking = await ctx.db.get(args.bookingId);
+    fromSlot = booking?.slotId && booking.slotId !== toSlot._id
+      ? await ctx.db.get(booking.slotId)
+      : null;
+    fromGuests = booking?.guests ?? 0;
+
+    await ctx.db.insert("slotHolds", {
+      slotId: toSlot._id,
+      bookingId: args.bookingId,
+      listingId: toSlot.listingId,
+      customerId: args.customerId,
+      guests: args.guests,
+      status: "converted",
+      expiresAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+  } else {
+    fromSlot = hold.status === "active" || hold.status === "converted"
+      ? await ctx.db.get(hold.slotId)
+      : null;
+    fromGuests = hold.guests;
+
+    await ctx.db.patch(hold._id, {
+      slotId: toSlot._id,
+      listingId: toSlot.listingId,
+      guests: args.guests,
+      status: hold.status === "active" ? "active" : "converted",
+      updatedAt: now,
+    });
+  }
+
+  if (fromSlot) {
+    await ctx.db.patch(fromSlot._id, {
+      booked: Math.max(0, fromSlot.booked - fromGuests),
+      available: Math.min(fromSlot.capacity, fromSlot.available + fromGuests),
+      updatedAt: now,
+    });
+    await refreshDaySummary(ctx, fromSlot.listingId, fromSlot.date);
+
+    if (fromSlot.status === "active") {
+      await ctx.scheduler.runAfter(0, internal.availability.waitlist.notifyNext, {
+        slotId: fromSlot._id,
+      });
+    }
+  }
+}
+
+// ============================================
+// RELEASE EXPIRED HOLDS (internal)
+// ============================================
+
+/**
+ * Called by cron job to release holds whose payment window has passed.
+ * The pending booking is cancelled, its payment intent is cancelled and
+ * its seats go back on sale.
+ */
+export const releaseExpired = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    const expiredHolds = await ctx.db
+      .query("slotHolds")
+      .withIndex("by_status_and_expiry", (q) =>
+        q.eq("status", "active").lt("expiresAt", now)
+      )
+      .collect();
+
+    let released = 0;
+
+    for (const hold of expiredHolds) {
+      const booking = await ctx.db.get(hold.bookingId);
+
+      // Booking was paid in the meantime - the hold just missed conversion
+      if (booking && booking.paymentStatus === "paid") {
+        await confirmHold(ctx, hold.bookingId);
+        continue;
+      }
+
+      // Authorized booking requests are expired by bookingRequests, which
+      // also releases the card authorization
+      if (booking && booking.approvalStatus === "requested" && booking.requestExpiresAt !== undefined) {
+        continue;
+      }
+
+      await releaseHold(ctx, hold.bookingId, "expired");
+
+      if (booking && booking.status === "pending") {
+        await ctx.db.patch(booking._id, {
+          status: "cancelled",
+          updatedAt: now,
+        });
+      }
+
+      // Close the payment so the customer can't pay for seats that are back on sale
+      const paymentIntentIds = new Set<string>();
+      const payments = await ctx.db
+        .query("payments")
+        .withIndex("by_booking", (q) => q.eq("bookingId", hold.bookingId))
+        .collect();
+      for (const payment of payments) {
+        if (payment.status === "pending" && payment.paymentIntentId) {
+          paymentIntentIds.add(payment.paymentIntentId);
+        }
+      }
+      for (const paymentIntentId of paymentIntentIds) {
+        await ctx.scheduler.runAfter(0, internal.stripe.payments.cancelPaymentAuthorization, {
+          paymentIntentId,
+        });
+      }
+
+      released++;
+    }
+
+    return { released };
+  },
+});
+
+// ============================================
+// RELEASE FAILED-PAYMENT HOLDS (internal)
+// ============================================
+
+/**
+ * Called by cron job to release holds whose booking payment failed
+ * but whose hold was not released at the time (e.g. missed webhook).
+ */
+export const releaseFailedPayments = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const activeHolds = await ctx.db
+      .query("slotHolds")
+      .withIndex("by_status_and_expiry", (q) => q.eq("status", "active"))
+      .collect();
+
+    let released = 0;
+
+    for (const hold of activeHolds) {
+      const booking = await ctx.db.get(hold.bookingId);
+      if (!booking || booking.paymentStatus === "failed" || booking.status === "cancelled") {
+        await releaseHold(ctx, hold.bookingId, "released");
+        released++;
+      }
+    }
+
+    return { released };
+  },
+});
+
+// ============================================
+// GET HOLD FOR BOOKING
+// ============================================
+
+/**
+ * The seat hold of a booking
+ * Customer, vendor, or admin
+ */
+export const getByBooking = query({
+  args: {
+    bookingId: v.id("bookings"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    if (
+      booking.customerId !== userId &&
+      booking.vendorId !== userId &&
+      !(await isAdmin(ctx))
+    ) {
+      throw new Error("Unauthorized: You cannot view this booking");
+    }
+
+    return await ctx.db
+      .query("slotHolds")
+      .withIndex("by_booking", (q) => q.eq("bookingId", args.bookingId))
+      .unique();
+  },
+});
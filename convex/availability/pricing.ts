@@ -0,0 +1,54 @@
+/**
+ * Slot Pricing
+ *
+ * Each slot stores its price after the listing's pricing rules, so slot
+ * pickers and calendars can show it without re-running the rules. Prices
+ * are recomputed whenever a slot's day summary is refreshed (seats, status
+ * or listing changes) and by a cron as last-minute windows open; bookings
+ * always reprice the slot before charging.
+ */
+
+import { MutationCtx } from "../_generated/server";
+import { Doc } from "../_generated/dataModel";
+import { getSlotTicketTypes } from "../lib/routes";
+import { getFromPrice } from "../lib/ticketTypes";
+import { SlotPricing, getSlotPricing, adjustPrice } from "../lib/pricingRules";
+
+// ============================================
+// PRICING HELPERS
+// ============================================
+
+/**
+ * Recompute a slot's price from its listing's rules and store it if it changed
+ * Returns the adjustment to apply to each ticket type.
+ */
+export async function repriceSlot(
+  ctx: MutationCtx,
+  listing: Doc<"listings">,
+  slot: Doc<"slots">,
+  now: number = Date.now()
+): Promise<SlotPricing> {
+  const pricing = getSlotPricing(listing.pricingRules, slot, now);
+  const price = adjustPrice(
+    getFromPrice(getSlotTicketTypes(listing, slot)),
+    pricing.adjustment
+  );
+
+  const changed =
+    slot.price !== price ||
+    slot.currency !== listing.currency ||
+    (slot.priceAdjustment ?? 0) !== pricing.adjustment ||
+    (slot.appliedPricingRules ?? []).join("\n") !== pricing.appliedRules.join("\n");
+
+  if (changed) {
+    await ctx.db.patch(slot._id, {
+      price,
+      currency: listing.currency,
+      priceAdjustment: pricing.adjustment,
+      appliedPricingRules: pricing.appliedRules,
+      updatedAt: now,
+    });
+  }
+
+  return pricing;
+}
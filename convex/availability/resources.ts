@@ -0,0 +1,393 @@
+/**
+ * Shared Resources
+ *
+ * Vendors register the boats, guides, rooms and equipment pools their
+ * listings share and attach them to availability rules. Slots copy their
+ * rule's resources, and seats are only sold while every resource a slot
+ * needs is free (see lib/resources.ts), so one boat can't be booked for
+ * two trips at once.
+ *
+ * Route segments of a transportation departure share one vehicle the same
+ * way: a segment only sells the seats its legs have left (see lib/routes.ts).
+ * The segments of one departure don't compete with each other for its
+ * resources.
+ */
+
+import { v } from "convex/values";
+import { query, mutation, QueryCtx, MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { getCurrentUserId, getCurrentUserIdOrNull, requireVendor, requireAdmin } from "../lib/auth";
+import {
+  resourceTypeValidator,
+  getResourceSeats,
+  validateResource,
+  isExclusiveResource,
+} from "../lib/resources";
+import { getDepartureSeats, isSameDeparture } from "../lib/routes";
+import { refreshListingSummaries } from "./summaries";
+
+// ============================================
+// RESOURCE HELPERS
+// ============================================
+
+/**
+ * Slots on a date that use a resource
+ */
+async function getSharingSlots(
+  ctx: QueryCtx,
+  resourceId: Id<"resources">,
+  date: string
+): Promise<Doc<"slots">[]> {
+  const links = await ctx.db
+    .query("slotResources")
+    .withIndex("by_resource_and_date", (q) => q.eq("resourceId", resourceId).eq("date", date))
+    .collect();
+  const slots = await Promise.all(links.map((link) => ctx.db.get(link.slotId)));
+  return slots.filter((s): s is Doc<"slots"> => s !== null);
+}
+
+/**
+ * Point a slot's resource links at its current resources
+ * Call whenever a slot is inserted with, or patched to, new resourceIds.
+ */
+export async function setSlotResources(
+  ctx: MutationCtx,
+  slot: Pick<Doc<"slots">, "_id" | "date" | "resourceIds">
+): Promise<void> {
+  await clearSlotResources(ctx, slot._id);
+  for (const resourceId of slot.resourceIds || []) {
+    await ctx.db.insert("slotResources", { slotId: slot._id, resourceId, date: slot.date });
+  }
+}
+
+/**
+ * Remove a slot's resource links (before the slot is deleted)
+ */
+export async function clearSlotResources(ctx: MutationCtx, slotId: Id<"slots">): Promise<void> {
+  const links = await ctx.db
+    .query("slotResources")
+    .withIndex("by_slot", (q) => q.eq("slotId", slotId))
+    .collect();
+  for (const link of links) {
+    await ctx.db.delete(link._id);
+  }
+}
+
+/**
+ * Seats the rest of its departure leaves a route segment slot, or null if
+ * the slot isn't a route segment
+ */
+export async function getDepartureLimit(
+  ctx: QueryCtx,
+  slot: Pick<Doc<"slots">, "_id" | "listingId" | "date" | "capacity" | "booked" | "status" | "segment">
+): Promise<number | null> {
+  if (!slot.segment) {
+    return null;
+  }
+
+  const listing = await ctx.db.get(slot.listingId);
+  if (!listing?.route) {
+    return null;
+  }
+
+  const departureSlots = await ctx.db
+    .query("slots")
+    .withIndex("by_listing_and_date", (q) => q.eq("listingId", slot.listingId).eq("date", slot.date))
+    .collect();
+  return getDepartureSeats(listing.route, { ...slot, segment: slot.segment }, departureSlots);
+}
+
+/**
+ * Seats a slot's resources (and departure, for route segments) still
+ * allow, or null if nothing else limits it
+ */
+export async function getResourceLimit(
+  ctx: QueryCtx,
+  slot: Pick<
+    Doc<"slots">,
+    "_id" | "listingId" | "date" | "startTime" | "endTime" | "capacity" | "booked" | "status" | "resourceIds" | "segment"
+  >
+): Promise<number | null> {
+  let limit = (await getDepartureLimit(ctx, slot)) ?? Infinity;
+  for (const resourceId of slot.resourceIds || []) {
+    const resource = await ctx.db.get(resourceId);
+    if (!resource) continue;
+    const sharing = (await getSharingSlots(ctx, resourceId, slot.date))
+      .filter((other) => !isSameDeparture(slot, other));
+    limit = Math.min(limit, getResourceSeats(resource, slot, sharing));
+  }
+  return limit === Infinity ? null : limit;
+}
+
+/**
+ * Throws if a slot's resources can't take more guests
+ */
+export async function checkResources(
+  ctx: QueryCtx,
+  slot: Doc<"slots">,
+  guests: number
+): Promise<void> {
+  const departureSeats = await getDepartureLimit(ctx, slot);
+  if (departureSeats !== null && departureSeats < guests) {
+    throw new Error(`Only ${departureSeats} seats left on this departure`);
+  }
+
+  for (const resourceId of slot.resourceIds || []) {
+    const resource = await ctx.db.get(resourceId);
+    if (!resource) continue;
+
+    const sharing = (await getSharingSlots(ctx, resourceId, slot.date))
+      .filter((other) => !isSameDeparture(slot, other));
+    const seats = getResourceSeats(resource, slot, sharing);
+    if (seats >= guests) continue;
+
+    if (seats === 0 && isExclusiveResource(resource.type)) {
+      throw new Error(`${resource.name} is already booked for another activity at this time`);
+    }
+    throw new Error(`Only ${seats} spots remaining for this time slot`);
+  }
+}
+
+/**
+ * The first resource that a new slot couldn't use, if any
+ */
+export async function findResourceConflict(
+  ctx: QueryCtx,
+  resourceIds: Id<"resources">[],
+  slot: { date: string; startTime: string; endTime: string }
+): Promise<Doc<"resources"> | null> {
+  for (const resourceId of resourceIds) {
+    const resource = await ctx.db.get(resourceId);
+    if (!resource) continue;
+
+    const sharing = await getSharingSlots(ctx, resourceId, slot.date);
+    const seats = getResourceSeats(
+      resource,
+      { ...slot, _id: "", booked: 0, status: "active" },
+      sharing
+    );
+    if (seats === 0) {
+      return resource;
+    }
+  }
+  return null;
+}
+
+/**
+ * Other listings whose slots share resources with these slots on their day
+ */
+export async function getSharingListingIds(
+  ctx: QueryCtx,
+  slots: Doc<"slots">[]
+): Promise<Id<"listings">[]> {
+  const listingIds = new Set<Id<"listings">>();
+  for (const slot of slots) {
+    for (const resourceId of slot.resourceIds || []) {
+      for (const other of await getSharingSlots(ctx, resourceId, slot.date)) {
+        if (other.listingId !== slot.listingId) {
+          listingIds.add(other.listingId);
+        }
+      }
+    }
+  }
+  return [...listingIds];
+}
+
+/**
+ * Throws unless every resource belongs to the vendor
+ */
+export async function checkResourceOwnership(
+  ctx: QueryCtx,
+  resourceIds: Id<"resources">[],
+  vendorId: string
+): Promise<void> {
+  for (const resourceId of resourceIds) {
+    const resource = await ctx.db.get(resourceId);
+    if (!resource || resource.vendorId !== vendorId) {
+      throw new Error("Resource not found");
+    }
+  }
+}
+
+/**
+ * Refresh the summaries of every listing whose rules use a resource
+ */
+async function refreshResourceListings(ctx: MutationCtx, resourceId: Id<"resources">) {
+  const resource = await ctx.db.get(resourceId);
+  if (!resource) return;
+
+  const rules = await ctx.db
+    .query("availabilityRules")
+    .withIndex("by_vendor", (q) => q.eq("vendorId", resource.vendorId))
+    .collect();
+  const listingIds = new Set(
+    rules.filter((r) => r.resourceIds?.includes(resourceId)).map((r) => r.listingId)
+  );
+  for (const listingId of listingIds) {
+    await refreshListingSummaries(ctx, listingId);
+  }
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * The current vendor's resources
+ */
+export const getMine = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getCurrentUserIdOrNull(ctx);
+    if (!userId) return [];
+
+    const resources = await ctx.db
+      .query("resources")
+      .withIndex("by_vendor", (q) => q.eq("vendorId", userId))
+      .collect();
+    return resources.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Register a resource
+ * Vendor only
+ */
+export const create = mutation({
+  args: {
+    name: v.string(),
+    type: resourceTypeValidator,
+    capacity: v.number(),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+    await requireVendor(ctx);
+
+    validateResource(args);
+
+    const now = Date.now();
+    return await ctx.db.insert("resources", {
+      vendorId: userId,
+      name: args.name.trim(),
+      type: args.type,
+      capacity: args.capacity,
+      notes: args.notes?.trim() || undefined,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Update a resource; availability changes reach every listing using it
+ * Vendor only (own resources)
+ */
+export const update = mutation({
+  args: {
+    resourceId: v.id("resources"),
+    name: v.optional(v.string()),
+    type: v.optional(resourceTypeValidator),
+    capacity: v.optional(v.number()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+    await requireVendor(ctx);
+
+    const resource = await ctx.db.get(args.resourceId);
+    if (!resource || resource.vendorId !== userId) {
+      throw new Error("Resource not found");
+    }
+
+    const updated = {
+      name: args.name?.trim() ?? resource.name,
+      type: args.type ?? resource.type,
+      capacity: args.capacity ?? resource.capacity,
+      notes: args.notes !== undefined ? args.notes.trim() || undefined : resource.notes,
+    };
+    validateResource(updated);
+
+    await ctx.db.patch(args.resourceId, { ...updated, updatedAt: Date.now() });
+
+    if (updated.type !== resource.type || updated.capacity !== resource.capacity) {
+      await refreshResourceListings(ctx, args.resourceId);
+    }
+
+    return args.resourceId;
+  },
+});
+
+/**
+ * Delete a resource that no availability rule uses
+ * Vendor only (own resources)
+ */
+export const remove = mutation({
+  args: {
+    resourceId: v.id("resources"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+    await requireVendor(ctx);
+
+    const resource = await ctx.db.get(args.resourceId);
+    if (!resource || resource.vendorId !== userId) {
+      throw new Error("Resource not found");
+    }
+
+    const rules = await ctx.db
+      .query("availabilityRules")
+      .withIndex("by_vendor", (q) => q.eq("vendorId", userId))
+      .collect();
+    const using = rules.filter((r) => r.resourceIds?.includes(args.resourceId));
+    if (using.length > 0) {
+      throw new Error(
+        `${resource.name} is used by ${using.map((r) => r.name).join(", ")} - remove it from those rules first`
+      );
+    }
+
+    await ctx.db.delete(args.resourceId);
+
+    return { success: true };
+  },
+});
+
+// ============================================
+// MIGRATION
+// ============================================
+
+/**
+ * Link the next batch of upcoming slots to their resources
+ * Slots created before slotResources existed aren't found by resource
+ * until this runs; call it with the returned cursor until `done`.
+ * Admin only
+ */
+export const backfillSlotResources = mutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const today = new Date().toISOString().split('T')[0];
+    const page = await ctx.db
+      .query("slots")
+      .withIndex("by_date", (q) => q.gte("date", today))
+      .paginate({ cursor: args.cursor ?? null, numItems: args.batchSize ?? 100 });
+
+    let linked = 0;
+    for (const slot of page.page) {
+      if (slot.resourceIds?.length) {
+        await setSlotResources(ctx, slot);
+        linked++;
+      }
+    }
+
+    return { linked, cursor: page.continueCursor, done: page.isDone };
+  },
+});
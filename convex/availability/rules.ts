@@ -9,6 +9,8 @@ import { v } from "convex/values";
 import { mutation, query } from "../_generated/server";
 import { Doc, Id } from "../_generated/dataModel";
 import { getCurrentUserId, requireVendor } from "../lib/auth";
+import { refreshDaySummary } from "./summaries";
+import { checkResourceOwnership, setSlotResources, clearSlotResources } from "./resources";
 
 // ============================================
 // CREATE AVAILABILITY RULE
@@ -36,6 +38,7 @@ export const create = mutation({
     oneTimeDuration: v.optional(v.number()),
     // Capacity and settings
     capacity: v.number(),
+    resourceIds: v.optional(v.array(v.id("resources"))),
     bookingDeadlineHours: v.number(),
     generateDaysInAdvance: v.union(v.number(), v.literal("indefinite")),
     active: v.boolean(),
@@ -69,6 +72,10 @@ export const create = mutation({
       }
     }
 
+    if (args.resourceIds) {
+      await checkResourceOwnership(ctx, args.resourceIds, userId);
+    }
+
     const now = Date.now();
 
     // Create the availability rule
@@ -82,6 +89,7 @@ export const create = mutation({
       oneTimeStartTime: args.oneTimeStartTime,
       oneTimeDuration: args.oneTimeDuration,
       capacity: args.capacity,
+      resourceIds: args.resourceIds,
       bookingDeadlineHours: args.bookingDeadlineHours,
       generateDaysInAdvance: args.generateDaysInAdvance,
       active: args.active,
@@ -116,6 +124,7 @@ export const update = mutation({
     oneTimeStartTime: v.optional(v.string()),
     oneTimeDuration: v.optional(v.number()),
     capacity: v.optional(v.number()),
+    resourceIds: v.optional(v.array(v.id("resources"))),
     bookingDeadlineHours: v.optional(v.number()),
     generateDaysInAdvance: v.optional(v.union(v.number(), v.literal("indefinite"))),
     active: v.optional(v.boolean()),
@@ -134,6 +143,10 @@ export const update = mutation({
       throw new Error("You can only update your own rules");
     }
 
+    if (args.resourceIds) {
+      await checkResourceOwnership(ctx, args.resourceIds, userId);
+    }
+
     // Build update object with only provided fields
     const updates: Partial<Doc<"availabilityRules">> = {
       updatedAt: Date.now(),
@@ -145,12 +158,33 @@ export const update = mutation({
     if (args.oneTimeStartTime !== undefined) updates.oneTimeStartTime = args.oneTimeStartTime;
     if (args.oneTimeDuration !== undefined) updates.oneTimeDuration = args.oneTimeDuration;
     if (args.capacity !== undefined) updates.capacity = args.capacity;
+    if (args.resourceIds !== undefined) updates.resourceIds = args.resourceIds;
     if (args.bookingDeadlineHours !== undefined) updates.bookingDeadlineHours = args.bookingDeadlineHours;
     if (args.generateDaysInAdvance !== undefined) updates.generateDaysInAdvance = args.generateDaysInAdvance;
     if (args.active !== undefined) updates.active = args.active;
 
     await ctx.db.patch(args.ruleId, updates);
 
+    // Upcoming slots from this rule need the new resources too
+    if (args.resourceIds !== undefined) {
+      const today = new Date().toISOString().split('T')[0];
+      const slots = await ctx.db
+        .query("slots")
+        .withIndex("by_listing_and_date", (q) => q.eq("listingId", rule.listingId).gte("date", today))
+        .filter((q) => q.eq(q.field("ruleId"), args.ruleId))
+        .collect();
+
+      const dates = new Set<string>();
+      for (const slot of slots) {
+        await ctx.db.patch(slot._id, { resourceIds: args.resourceIds, updatedAt: Date.now() });
+        await setSlotResources(ctx, { ...slot, resourceIds: args.resourceIds });
+        dates.add(slot.date);
+      }
+      for (const date of dates) {
+        await refreshDaySummary(ctx, rule.listingId, date);
+      }
+    }
+
     return args.ruleId;
   },
 });
@@ -190,7 +224,9 @@ export const remove = mutation({
     for (const slot of slots) {
       // Only delete future slots with no bookings
       if (slot.date >= today && slot.booked === 0) {
+        await clearSlotResources(ctx, slot._id);
         await ctx.db.delete(slot._id);
+        await refreshDaySummary(ctx, slot.listingId, slot.date);
       }
     }
 
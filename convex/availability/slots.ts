@@ -6,10 +6,88 @@
  */
 
 import { v } from "convex/values";
-import { mutation, query, internalMutation } from "../_generated/server";
+import { mutation, query, internalMutation, MutationCtx } from "../_generated/server";
 import { Doc, Id } from "../_generated/dataModel";
 import { internal, api } from "../_generated/api";
 import { getCurrentUserId, requireVendor } from "../lib/auth";
+import { releaseHold } from "./holds";
+import { refreshDaySummary } from "./summaries";
+import { getResourceLimit, findResourceConflict, setSlotResources } from "./resources";
+import { scheduleRefund } from "../stripe/refunds";
+import { Route, hasRoute, getSegmentTimes } from "../lib/routes";
+
+// ============================================
+// ROUTE DEPARTURES
+// ============================================
+
+/**
+ * Insert the slots of one timetabled departure, one per fare segment
+ * Segments that already exist are kept; the whole departure is skipped
+ * if one of the rule's shared resources is committed elsewhere.
+ */
+async function generateDepartureSlots(
+  ctx: MutationCtx,
+  rule: Doc<"availabilityRules">,
+  route: Route,
+  date: string,
+  departureTime: string
+): Promise<{ slotIds: Id<"slots">[]; conflict: string | null }> {
+  const existing = (await ctx.db
+    .query("slots")
+    .withIndex("by_listing_and_date", (q) => q.eq("listingId", rule.listingId).eq("date", date))
+    .collect())
+    .filter((s) => s.segment?.departureTime === departureTime);
+
+  // A departure already running keeps its resources; new ones must find them free
+  if (existing.length === 0 && rule.resourceIds?.length) {
+    const journey = getSegmentTimes(
+      route,
+      { fromStopId: route.stops[0].id, toStopId: route.stops[route.stops.length - 1].id },
+      departureTime
+    );
+    const conflict = await findResourceConflict(ctx, rule.resourceIds, { date, ...journey });
+    if (conflict) {
+      return { slotIds: [], conflict: conflict.name };
+    }
+  }
+
+  const slotIds: Id<"slots">[] = [];
+  for (const fare of route.fares) {
+    const exists = existing.some((s) =>
+      s.segment?.fromStopId === fare.fromStopId && s.segment.toStopId === fare.toStopId
+    );
+    if (exists) continue;
+
+    const { startTime, endTime } = getSegmentTimes(route, fare, departureTime);
+    const slotDateTime = new Date(`${date}T${startTime}:00`);
+    const now = Date.now();
+
+    const slotId = await ctx.db.insert("slots", {
+      listingId: rule.listingId,
+      vendorId: rule.vendorId,
+      ruleId: rule._id,
+      date,
+      startTime,
+      endTime,
+      capacity: rule.capacity,
+      booked: 0,
+      available: rule.capacity,
+      status: "active",
+      bookingDeadline: slotDateTime.getTime() - (rule.bookingDeadlineHours * 60 * 60 * 1000),
+      resourceIds: rule.resourceIds,
+      segment: { fromStopId: fare.fromStopId, toStopId: fare.toStopId, departureTime },
+      createdAt: now,
+      updatedAt: now,
+    });
+    await setSlotResources(ctx, { _id: slotId, date, resourceIds: rule.resourceIds });
+    slotIds.push(slotId);
+  }
+
+  if (slotIds.length > 0) {
+    await refreshDaySummary(ctx, rule.listingId, date);
+  }
+  return { slotIds, conflict: null };
+}
 
 // ============================================
 // GENERATE SLOTS FROM RULE
@@ -17,7 +95,9 @@ import { getCurrentUserId, requireVendor } from "../lib/auth";
 
 /**
  * Generate slots from an availability rule for a date range
- * Called by cron job or manually by vendor
+ * Called by cron job or manually by vendor. Times when one of the rule's
+ * shared resources is already committed to another slot are skipped.
+ * On route listings each departure generates a slot per fare segment.
  */
 export const generateFromRule = internalMutation({
   args: {
@@ -32,6 +112,10 @@ export const generateFromRule = internalMutation({
     }
 
     const slotsGenerated: Id<"slots">[] = [];
+    const conflicts: Array<{ date: string; startTime: string; resource: string }> = [];
+
+    const listing = await ctx.db.get(rule.listingId);
+    const route = listing && hasRoute(listing) ? listing.route : null;
 
     if (rule.ruleType === "recurring" && rule.pattern) {
       // Generate recurring slots
@@ -58,7 +142,14 @@ export const generateFromRule = internalMutation({
           shouldGenerate = daysOfWeek.includes(dayOfMonth);
         }
 
-        if (shouldGenerate) {
+        if (shouldGenerate && route) {
+          // Timetabled departure: one slot per fare segment
+          const departure = await generateDepartureSlots(ctx, rule, route, dateString, startTime);
+          slotsGenerated.push(...departure.slotIds);
+          if (departure.conflict) {
+            conflicts.push({ date: dateString, startTime, resource: departure.conflict });
+          }
+        } else if (shouldGenerate) {
           // Check if slot already exists
           const existing = await ctx.db
             .query("slots")
@@ -78,6 +169,16 @@ export const generateFromRule = internalMutation({
             const endMins = endMinutes % 60;
             const endTime = `${String(endHours).padStart(2, '0')}:${String(endMins).padStart(2, '0')}`;
 
+            // Skip times a shared resource is already committed elsewhere
+            const conflict = rule.resourceIds?.length
+              ? await findResourceConflict(ctx, rule.resourceIds, { date: dateString, startTime, endTime })
+              : null;
+            if (conflict) {
+              conflicts.push({ date: dateString, startTime, resource: conflict.name });
+              current.setDate(current.getDate() + 1);
+              continue;
+            }
+
             // Calculate booking deadline timestamp
             const slotDateTime = new Date(`${dateString}T${startTime}:00`);
             const bookingDeadline = slotDateTime.getTime() - (rule.bookingDeadlineHours * 60 * 60 * 1000);
@@ -96,11 +197,14 @@ export const generateFromRule = internalMutation({
               available: rule.capacity,
               status: "active",
               bookingDeadline,
+              resourceIds: rule.resourceIds,
               createdAt: now,
               updatedAt: now,
             });
+            await setSlotResources(ctx, { _id: slotId, date: dateString, resourceIds: rule.resourceIds });
 
             slotsGenerated.push(slotId);
+            await refreshDaySummary(ctx, rule.listingId, dateString);
           }
         }
 
@@ -113,6 +217,14 @@ export const generateFromRule = internalMutation({
         throw new Error("One-time rule missing required fields");
       }
 
+      if (route) {
+        const departure = await generateDepartureSlots(ctx, rule, route, rule.oneTimeDate, rule.oneTimeStartTime);
+        if (departure.conflict) {
+          conflicts.push({ date: rule.oneTimeDate, startTime: rule.oneTimeStartTime, resource: departure.conflict });
+        }
+        return { generated: departure.slotIds.length, slotIds: departure.slotIds, conflicts };
+      }
+
       // Check if slot already exists
       const existing = await ctx.db
         .query("slots")
@@ -132,6 +244,19 @@ export const generateFromRule = internalMutation({
         const endMins = endMinutes % 60;
         const endTime = `${String(endHours).padStart(2, '0')}:${String(endMins).padStart(2, '0')}`;
 
+        // Skip the slot if a shared resource is already committed elsewhere
+        const conflict = rule.resourceIds?.length
+          ? await findResourceConflict(ctx, rule.resourceIds, {
+              date: rule.oneTimeDate,
+              startTime: rule.oneTimeStartTime,
+              endTime,
+            })
+          : null;
+        if (conflict) {
+          conflicts.push({ date: rule.oneTimeDate, startTime: rule.oneTimeStartTime, resource: conflict.name });
+          return { generated: 0, slotIds: [], conflicts };
+        }
+
         // Calculate booking deadline timestamp
         const slotDateTime = new Date(`${rule.oneTimeDate}T${rule.oneTimeStartTime}:00`);
         const bookingDeadline = slotDateTime.getTime() - (rule.bookingDeadlineHours * 60 * 60 * 1000);
@@ -150,15 +275,22 @@ export const generateFromRule = internalMutation({
           available: rule.capacity,
           status: "active",
           bookingDeadline,
+          resourceIds: rule.resourceIds,
           createdAt: now,
           updatedAt: now,
         });
+        await setSlotResources(ctx, { _id: slotId, date: rule.oneTimeDate, resourceIds: rule.resourceIds });
 
         slotsGenerated.push(slotId);
+        await refreshDaySummary(ctx, rule.listingId, rule.oneTimeDate);
       }
     }
 
-    return { generated: slotsGenerated.length, slotIds: slotsGenerated };
+    if (conflicts.length > 0) {
+      console.warn(`[Slots] Skipped ${conflicts.length} slots of rule ${args.ruleId}: shared resources in use`);
+    }
+
+    return { generated: slotsGenerated.length, slotIds: slotsGenerated, conflicts };
   },
 });
 
@@ -287,6 +419,8 @@ export const createManual = mutation({
       updatedAt: now,
     });
 
+    await refreshDaySummary(ctx, args.listingId, args.date);
+
     return slotId;
   },
 });
@@ -322,6 +456,7 @@ export const block = mutation({
       status: "blocked",
       updatedAt: Date.now(),
     });
+    await refreshDaySummary(ctx, slot.listingId, slot.date);
 
     return { success: true };
   },
@@ -357,6 +492,7 @@ export const unblock = mutation({
       status: "active",
       updatedAt: Date.now(),
     });
+    await refreshDaySummary(ctx, slot.listingId, slot.date);
 
     return { success: true };
   },
@@ -418,7 +554,10 @@ export const cancel = mutation({
       throw new Error("Listing not found");
     }
 
-    // Cancel each booking and send notifications
+    let refundsScheduled = 0;
+    let refundTotal = 0;
+
+    // Cancel each booking, refund it in full and send notifications
     for (const booking of bookings) {
       await ctx.db.patch(booking._id, {
         status: "cancelled",
@@ -426,9 +565,18 @@ export const cancel = mutation({
         cancelledBy: userId,
         cancellationReason: args.reason,
         cancellationMessage: args.message,
+        refundPercent: 100,
         updatedAt: Date.now(),
       });
 
+      await releaseHold(ctx, booking._id);
+
+      const refundAmount = await scheduleRefund(ctx, booking._id);
+      if (refundAmount > 0) {
+        refundsScheduled++;
+        refundTotal += refundAmount;
+      }
+
       // Send in-app notification
       await ctx.scheduler.runAfter(0, internal.notifications.inApp.notifyBookingCancelled, {
         userId: booking.customerId,
@@ -451,13 +599,15 @@ export const cancel = mutation({
         reason: args.reason,
         vendorMessage: args.message,
       });
-
-      // TODO: Trigger refund via Stripe (will implement when integrating with payments)
     }
 
+    await refreshDaySummary(ctx, slot.listingId, slot.date);
+
     return {
       success: true,
       bookingsCancelled: bookings.length,
+      refundsScheduled,
+      refundTotal, // Cents
     };
   },
 });
@@ -503,7 +653,17 @@ export const getByListing = query({
       return a.startTime.localeCompare(b.startTime);
     });
 
-    return slots;
+    // Shared resources in use by other slots limit what's left
+    const bookable = [];
+    for (const slot of slots) {
+      const resourceLimit = await getResourceLimit(ctx, slot);
+      const available = resourceLimit === null ? slot.available : Math.min(slot.available, resourceLimit);
+      if (available > 0) {
+        bookable.push({ ...slot, available });
+      }
+    }
+
+    return bookable;
   },
 });
 
@@ -585,6 +745,7 @@ export const decrementAvailability = internalMutation({
       available: slot.available - args.amount,
       updatedAt: Date.now(),
     });
+    await refreshDaySummary(ctx, slot.listingId, slot.date);
 
     return { success: true };
   },
@@ -610,6 +771,7 @@ export const incrementAvailability = internalMutation({
       available: Math.min(slot.capacity, slot.available + args.amount),
       updatedAt: Date.now(),
     });
+    await refreshDaySummary(ctx, slot.listingId, slot.date);
 
     return { success: true };
   },
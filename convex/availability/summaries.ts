@@ -0,0 +1,250 @@
+/**
+ * Availability Summaries
+ *
+ * A per-listing, per-day digest of its active slots, kept up to date
+ * whenever slots or seat holds change so search and chat can read
+ * availability without scanning slots or bookings. Booking deadlines pass
+ * with time, so each summary stores its slots' openings and the readers
+ * work out what is still bookable at read time.
+ */
+
+import { v } from "convex/values";
+import { internalQuery, mutation, QueryCtx, MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { requireAdmin } from "../lib/auth";
+import { getSlotTicketTypes } from "../lib/routes";
+import { getFromPrice } from "../lib/ticketTypes";
+import { adjustPrice } from "../lib/pricingRules";
+import { Currency, BASE_CURRENCY } from "../lib/currency";
+import { repriceSlot } from "./pricing";
+import { getResourceLimit, getSharingListingIds } from "./resources";
+
+export interface DayAvailability {
+  booked: number;
+  capacity: number;
+  available: number;                  // Seats left in slots still taking bookings
+  earliestStartTime: string | null;   // First slot still taking bookings
+  price: number;                      // From-price per ticket, after pricing rules
+  currency: Currency;                 // The listing's currency
+}
+
+// ============================================
+// SUMMARY HELPERS
+// ============================================
+
+/**
+ * Recompute a listing's summary for one day from its slots, repricing them first
+ * Call after any change to a slot's status or seats. Listings sharing
+ * resources with the day's slots are refreshed too, since seats sold here
+ * can take the resource away from them.
+ */
+export async function refreshDaySummary(
+  ctx: MutationCtx,
+  listingId: Id<"listings">,
+  date: string
+): Promise<void> {
+  await writeDaySummary(ctx, listingId, date);
+
+  const daySlots = await ctx.db
+    .query("slots")
+    .withIndex("by_listing_and_date", (q) => q.eq("listingId", listingId).eq("date", date))
+    .collect();
+  for (const sharingListingId of await getSharingListingIds(ctx, daySlots)) {
+    await writeDaySummary(ctx, sharingListingId, date);
+  }
+}
+
+/**
+ * Recompute one listing's summary for one day
+ */
+async function writeDaySummary(
+  ctx: MutationCtx,
+  listingId: Id<"listings">,
+  date: string
+): Promise<void> {
+  const existing = await ctx.db
+    .query("availabilitySummaries")
+    .withIndex("by_listing_and_date", (q) => q.eq("listingId", listingId).eq("date", date))
+    .unique();
+
+  const listing = await ctx.db.get(listingId);
+  const slots = (await ctx.db
+    .query("slots")
+    .withIndex("by_listing_and_date", (q) => q.eq("listingId", listingId).eq("date", date))
+    .collect())
+    .filter((s) => s.status === "active")
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+  // Days without active slots aren't bookable
+  if (!listing || slots.length === 0) {
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+    return;
+  }
+
+  // Occupancy rules depend on seats, so slots are repriced with every refresh
+  // (route segments each sell at their own fare)
+  const prices: number[] = [];
+  for (const slot of slots) {
+    const { adjustment } = await repriceSlot(ctx, listing, slot);
+    prices.push(adjustPrice(getFromPrice(getSlotTicketTypes(listing, slot)), adjustment));
+  }
+
+  // Shared resources in use elsewhere limit what's left to sell
+  const openings = [];
+  for (const slot of slots) {
+    const resourceLimit = await getResourceLimit(ctx, slot);
+    openings.push({
+      startTime: slot.startTime,
+      available: resourceLimit === null ? slot.available : Math.min(slot.available, resourceLimit),
+      bookingDeadline: slot.bookingDeadline,
+    });
+  }
+
+  const summary = {
+    listingId,
+    date,
+    openings,
+    capacity: slots.reduce((sum, s) => sum + s.capacity, 0),
+    booked: slots.reduce((sum, s) => sum + s.booked, 0),
+    price: Math.min(...prices),
+    currency: listing.currency,
+    updatedAt: Date.now(),
+  };
+
+  if (existing) {
+    await ctx.db.patch(existing._id, summary);
+  } else {
+    await ctx.db.insert("availabilitySummaries", summary);
+  }
+}
+
+/**
+ * Refresh every upcoming day of a listing, e.g. after its prices, currency or pricing rules change
+ */
+export async function refreshListingSummaries(
+  ctx: MutationCtx,
+  listingId: Id<"listings">
+): Promise<number> {
+  const today = new Date().toISOString().split("T")[0];
+
+  const slots = await ctx.db
+    .query("slots")
+    .withIndex("by_listing_and_date", (q) => q.eq("listingId", listingId).gte("date", today))
+    .collect();
+  const summaries = await ctx.db
+    .query("availabilitySummaries")
+    .withIndex("by_listing_and_date", (q) => q.eq("listingId", listingId).gte("date", today))
+    .collect();
+
+  const dates = new Set([...slots.map((s) => s.date), ...summaries.map((s) => s.date)]);
+  for (const date of dates) {
+    await refreshDaySummary(ctx, listingId, date);
+  }
+  return dates.size;
+}
+
+/**
+ * What a summary still has on sale at a moment in time
+ */
+function toDayAvailability(summary: Doc<"availabilitySummaries">, now: number): DayAvailability {
+  const open = summary.openings.filter((o) => o.bookingDeadline > now && o.available > 0);
+  return {
+    booked: summary.booked,
+    capacity: summary.capacity,
+    available: open.reduce((sum, o) => sum + o.available, 0),
+    earliestStartTime: open[0]?.startTime ?? null,
+    price: summary.price,
+    currency: summary.currency ?? BASE_CURRENCY,
+  };
+}
+
+/**
+ * Availability by listing and date for the next `days` days
+ */
+export async function readAvailability(
+  ctx: QueryCtx,
+  days: number,
+  listingIds?: Id<"listings">[]
+): Promise<Record<string, Record<string, DayAvailability>>> {
+  const now = Date.now();
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(start.getDate() + days - 1);
+  const startDate = start.toISOString().split("T")[0];
+  const endDate = end.toISOString().split("T")[0];
+
+  let summaries: Doc<"availabilitySummaries">[] = [];
+  if (listingIds) {
+    for (const listingId of listingIds) {
+      summaries.push(...(await ctx.db
+        .query("availabilitySummaries")
+        .withIndex("by_listing_and_date", (q) =>
+          q.eq("listingId", listingId).gte("date", startDate).lte("date", endDate)
+        )
+        .collect()));
+    }
+  } else {
+    summaries = await ctx.db
+      .query("availabilitySummaries")
+      .withIndex("by_date", (q) => q.gte("date", startDate).lte("date", endDate))
+      .collect();
+  }
+
+  const availability: Record<string, Record<string, DayAvailability>> = {};
+  for (const summary of summaries) {
+    const listingDays = availability[summary.listingId] || (availability[summary.listingId] = {});
+    listingDays[summary.date] = toDayAvailability(summary, now);
+  }
+  return availability;
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Availability for specific listings (used by the AI chat)
+ */
+export const getForListings = internalQuery({
+  args: {
+    listingIds: v.array(v.string()),
+    days: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const listingIds = args.listingIds
+      .map((id) => ctx.db.normalizeId("listings", id))
+      .filter((id): id is Id<"listings"> => id !== null);
+    return await readAvailability(ctx, args.days ?? 30, listingIds);
+  },
+});
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Rebuild summaries from slots, for one listing or all of them
+ * Admin only
+ */
+export const rebuild = mutation({
+  args: {
+    listingId: v.optional(v.id("listings")),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const listingIds = args.listingId
+      ? [args.listingId]
+      : (await ctx.db.query("listings").collect()).map((l) => l._id);
+
+    let days = 0;
+    for (const listingId of listingIds) {
+      days += await refreshListingSummaries(ctx, listingId);
+    }
+
+    return { listings: listingIds.length, days };
+  },
+});
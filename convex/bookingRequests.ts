@@ -0,0 +1,505 @@
+/**
+ * Booking Requests
+ *
+ * Request-to-book flow for listings in "request" mode. Once the customer's
+ * card is authorized the vendor has the listing's approval window to approve
+ * (the payment is captured and the booking confirmed by the payment webhook)
+ * or decline (the authorization is cancelled and the seats released).
+ * Requests nobody answers in time are declined by a cron job.
+ */
+
+import { v } from "convex/values";
+import {
+  query,
+  mutation,
+  internalQuery,
+  internalMutation,
+  action,
+  MutationCtx,
+} from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getCurrentUserId, isAdmin } from "./lib/auth";
+import { extendHold, releaseHold, HOLD_DURATION_MS } from "./availability/holds";
+import { getActivityStartTime } from "./lib/cancellationPolicy";
+import { getRequestExpiry } from "./lib/bookingRequests";
+import Stripe from "stripe";
+
+const MAX_DECLINE_REASON_LENGTH = 500;
+
+// ============================================
+// REQUEST HELPERS
+// ============================================
+
+async function getProfile(ctx: MutationCtx, userId: string) {
+  return await ctx.db
+    .query("profiles")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .unique();
+}
+
+async function getPendingPayment(ctx: MutationCtx, bookingId: Id<"bookings">) {
+  const payments = await ctx.db
+    .query("payments")
+    .withIndex("by_booking", (q) => q.eq("bookingId", bookingId))
+    .collect();
+  return payments.find((p) => p.status === "pending" && p.paymentIntentId) || null;
+}
+
+/**
+ * Load a booking request the current user (its vendor or an admin) can answer
+ */
+async function getRequestToAnswer(ctx: MutationCtx, bookingId: Id<"bookings">) {
+  const userId = await getCurrentUserId(ctx);
+
+  const booking = await ctx.db.get(bookingId);
+  if (!booking) {
+    throw new Error("Booking not found");
+  }
+
+  if (booking.vendorId !== userId && !(await isAdmin(ctx))) {
+    throw new Error("Unauthorized: Only the vendor can answer this request");
+  }
+
+  if (booking.approvalStatus !== "requested" || booking.status !== "pending") {
+    throw new Error("This request has already been answered");
+  }
+
+  if (booking.requestExpiresAt === undefined) {
+    throw new Error("The customer hasn't completed payment for this request yet");
+  }
+
+  return { booking, userId };
+}
+
+/**
+ * Start the vendor's approval window once a request's card payment is
+ * authorized: keep the seats held until the request expires and ask the
+ * vendor to respond. Safe to call more than once (webhook and client
+ * confirmation both call it).
+ */
+export async function submitRequest(ctx: MutationCtx, paymentIntentId: string) {
+  const payment = await ctx.db
+    .query("payments")
+    .withIndex("by_paymentIntent", (q) => q.eq("paymentIntentId", paymentIntentId))
+    .unique();
+  if (!payment) {
+    console.error(`Payment not found for intent ${paymentIntentId}`);
+    return;
+  }
+
+  const booking = await ctx.db.get(payment.bookingId);
+  if (
+    !booking ||
+    booking.approvalStatus !== "requested" ||
+    booking.requestExpiresAt !== undefined ||
+    booking.status !== "pending"
+  ) {
+    return;
+  }
+
+  const listing = await ctx.db.get(booking.listingId);
+  if (!listing) {
+    console.error(`Listing not found for booking ${booking._id}`);
+    return;
+  }
+
+  const slot = booking.slotId ? await ctx.db.get(booking.slotId) : null;
+  const activityStart = getActivityStartTime(booking.bookingDate, slot?.startTime);
+  const requestExpiresAt = getRequestExpiry(listing, activityStart);
+
+  await ctx.db.patch(booking._id, {
+    requestExpiresAt,
+    updatedAt: Date.now(),
+  });
+
+  await extendHold(ctx, booking._id, requestExpiresAt);
+
+  const slotTime = slot?.startTime || "";
+
+  await ctx.scheduler.runAfter(0, internal.notifications.inApp.notifyBookingRequest, {
+    vendorId: booking.vendorId,
+    customerName: booking.customerName,
+    listingTitle: listing.title,
+    slotDate: booking.bookingDate,
+    slotTime,
+    guests: booking.guests,
+    expiresAt: requestExpiresAt,
+    listingId: listing._id,
+    bookingId: booking._id,
+  });
+
+  const vendorProfile = await getProfile(ctx, booking.vendorId);
+  if (vendorProfile?.email) {
+    await ctx.scheduler.runAfter(0, internal.notifications.email.sendBookingRequest, {
+      to: vendorProfile.email,
+      vendorName: vendorProfile.fullName || "Vendor",
+      customerName: booking.customerName,
+      listingTitle: listing.title,
+      slotDate: booking.bookingDate,
+      slotTime,
+      guests: booking.guests,
+      totalPrice: payment.amount,
+      expiresAt: requestExpiresAt,
+    });
+  }
+
+  console.log(`Booking request ${booking._id} submitted, expires ${new Date(requestExpiresAt).toISOString()}`);
+}
+
+/**
+ * Turn down a request: cancel the booking, return its seats and release
+ * the card authorization, then tell the customer (and the vendor, when the
+ * request expired unanswered)
+ */
+async function closeRequest(
+  ctx: MutationCtx,
+  booking: Doc<"bookings">,
+  outcome: "declined" | "expired",
+  options: { cancelledBy?: string; reason?: string } = {}
+) {
+  const now = Date.now();
+
+  await ctx.db.patch(booking._id, {
+    status: "cancelled",
+    approvalStatus: outcome,
+    respondedAt: outcome === "declined" ? now : undefined,
+    declineReason: options.reason,
+    cancelledAt: now,
+    cancelledBy: options.cancelledBy,
+    updatedAt: now,
+  });
+
+  // Return the held seats (and any gift voucher balance)
+  await releaseHold(ctx, booking._id);
+
+  await cancelAuthorization(
+    ctx,
+    booking._id,
+    outcome === "declined" ? "Declined by vendor" : "Request expired"
+  );
+
+  const listing = await ctx.db.get(booking.listingId);
+  if (!listing) {
+    return;
+  }
+
+  const slot = booking.slotId ? await ctx.db.get(booking.slotId) : null;
+  const slotTime = slot?.startTime || "";
+
+  await ctx.scheduler.runAfter(0, internal.notifications.inApp.notifyBookingRequestDeclined, {
+    userId: booking.customerId,
+    listingTitle: listing.title,
+    slotDate: booking.bookingDate,
+    expired: outcome === "expired",
+    listingId: listing._id,
+    bookingId: booking._id,
+  });
+
+  await ctx.scheduler.runAfter(0, internal.notifications.email.sendBookingRequestDeclined, {
+    to: booking.customerEmail,
+    customerName: booking.customerName,
+    listingTitle: listing.title,
+    slotDate: booking.bookingDate,
+    slotTime,
+    expired: outcome === "expired",
+    reason: options.reason,
+  });
+
+  if (outcome === "expired") {
+    await ctx.scheduler.runAfter(0, internal.notifications.inApp.notifyBookingRequestExpired, {
+      vendorId: booking.vendorId,
+      customerName: booking.customerName,
+      listingTitle: listing.title,
+      slotDate: booking.bookingDate,
+      listingId: listing._id,
+      bookingId: booking._id,
+    });
+
+    const vendorProfile = await getProfile(ctx, booking.vendorId);
+    if (vendorProfile?.email) {
+      await ctx.scheduler.runAfter(0, internal.notifications.email.sendBookingRequestExpired, {
+        to: vendorProfile.email,
+        vendorName: vendorProfile.fullName || "Vendor",
+        customerName: booking.customerName,
+        listingTitle: listing.title,
+        slotDate: booking.bookingDate,
+        slotTime,
+        guests: booking.guests,
+      });
+    }
+  }
+}
+
+/**
+ * Mark a request's payment as not taken and release the authorization in Stripe
+ */
+async function cancelAuthorization(
+  ctx: MutationCtx,
+  bookingId: Id<"bookings">,
+  errorMessage: string
+) {
+  const payment = await getPendingPayment(ctx, bookingId);
+  if (!payment) {
+    return;
+  }
+
+  await ctx.db.patch(payment._id, {
+    status: "failed",
+    errorMessage,
+    updatedAt: Date.now(),
+  });
+
+  await ctx.scheduler.runAfter(0, internal.stripe.payments.cancelPaymentAuthorization, {
+    paymentIntentId: payment.paymentIntentId!,
+  });
+}
+
+/**
+ * Release the card authorization of a request the customer cancelled
+ * while it waited for the vendor
+ */
+export async function withdrawRequest(ctx: MutationCtx, booking: Doc<"bookings">) {
+  if (booking.approvalStatus !== "requested") {
+    return;
+  }
+
+  await ctx.db.patch(booking._id, {
+    approvalStatus: "withdrawn",
+    updatedAt: Date.now(),
+  });
+
+  await cancelAuthorization(ctx, booking._id, "Withdrawn by customer");
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Booking requests waiting for the current vendor, soonest deadline first
+ */
+export const getForVendor = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const bookings = await ctx.db
+      .query("bookings")
+      .withIndex("by_vendor", (q) => q.eq("vendorId", userId))
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("approvalStatus"), "requested"),
+          q.eq(q.field("status"), "pending"),
+          q.neq(q.field("requestExpiresAt"), undefined)
+        )
+      )
+      .collect();
+
+    const requests = await Promise.all(
+      bookings.map(async (booking) => {
+        const slot = booking.slotId ? await ctx.db.get(booking.slotId) : null;
+        return {
+          ...booking,
+          requestExpiresAt: booking.requestExpiresAt!,
+          startTime: slot?.startTime,
+        };
+      })
+    );
+
+    return requests.sort((a, b) => a.requestExpiresAt - b.requestExpiresAt);
+  },
+});
+
+/**
+ * A customer's payment for a booking request
+ * Customer (if owns) - used by confirmAuthorization
+ */
+export const getCustomerPayment = internalQuery({
+  args: { paymentIntentId: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const payment = await ctx.db
+      .query("payments")
+      .withIndex("by_paymentIntent", (q) => q.eq("paymentIntentId", args.paymentIntentId))
+      .unique();
+
+    if (!payment || payment.customerId !== userId) {
+      throw new Error("Unauthorized: You can only update your own payments");
+    }
+
+    return payment;
+  },
+});
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Approve a booking request and capture its payment
+ * Vendor (if owns) or Admin
+ * The booking is confirmed when Stripe reports the captured payment
+ */
+export const approve = mutation({
+  args: { bookingId: v.id("bookings") },
+  handler: async (ctx, args) => {
+    const { booking } = await getRequestToAnswer(ctx, args.bookingId);
+
+    const now = Date.now();
+    if (booking.requestExpiresAt! <= now) {
+      throw new Error("This request has expired");
+    }
+
+    const payment = await getPendingPayment(ctx, args.bookingId);
+    if (!payment) {
+      throw new Error("No authorized payment found for this request");
+    }
+
+    await ctx.db.patch(args.bookingId, {
+      approvalStatus: "approved",
+      respondedAt: now,
+      updatedAt: now,
+    });
+
+    // Keep the seats until the captured payment confirms the booking
+    await extendHold(ctx, args.bookingId, now + HOLD_DURATION_MS);
+
+    await ctx.scheduler.runAfter(0, internal.stripe.payments.captureBookingRequest, {
+      bookingId: args.bookingId,
+      paymentIntentId: payment.paymentIntentId!,
+    });
+
+    return args.bookingId;
+  },
+});
+
+/**
+ * Decline a booking request; the customer is not charged
+ * Vendor (if owns) or Admin
+ */
+export const decline = mutation({
+  args: {
+    bookingId: v.id("bookings"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { booking, userId } = await getRequestToAnswer(ctx, args.bookingId);
+
+    const reason = args.reason?.trim() || undefined;
+    if (reason && reason.length > MAX_DECLINE_REASON_LENGTH) {
+      throw new Error(`Message must be ${MAX_DECLINE_REASON_LENGTH} characters or fewer`);
+    }
+
+    await closeRequest(ctx, booking, "declined", { cancelledBy: userId, reason });
+
+    return args.bookingId;
+  },
+});
+
+// ============================================
+// INTERNAL MUTATIONS
+// ============================================
+
+/**
+ * Called when capturing an approved request's payment fails (e.g. the
+ * authorization lapsed). The booking is cancelled and the customer told.
+ */
+export const handleCaptureFailed = internalMutation({
+  args: {
+    bookingId: v.id("bookings"),
+    errorMessage: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking || booking.status !== "pending") {
+      return;
+    }
+
+    await closeRequest(ctx, booking, "declined", {
+      reason: "We couldn't take the payment for this booking. Please try booking again.",
+    });
+
+    console.error(`Capture failed for booking request ${args.bookingId}: ${args.errorMessage}`);
+  },
+});
+
+/**
+ * Submit a request whose card authorization confirmAuthorization checked
+ */
+export const recordAuthorization = internalMutation({
+  args: { paymentIntentId: v.string() },
+  handler: async (ctx, args) => {
+    await submitRequest(ctx, args.paymentIntentId);
+  },
+});
+
+/**
+ * Called by cron job to decline requests the vendor didn't answer in time
+ */
+export const expireRequests = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    const expired = await ctx.db
+      .query("bookings")
+      .withIndex("by_approval_and_expiry", (q) =>
+        q.eq("approvalStatus", "requested").gt("requestExpiresAt", 0).lt("requestExpiresAt", now)
+      )
+      .collect();
+
+    let declined = 0;
+
+    for (const booking of expired) {
+      if (booking.status !== "pending") {
+        continue;
+      }
+
+      await closeRequest(ctx, booking, "expired");
+      declined++;
+    }
+
+    return { declined };
+  },
+});
+
+// ============================================
+// ACTIONS
+// ============================================
+
+/**
+ * Record that the customer's card was authorized for a request
+ * Customer - called after confirming the payment; the
+ * payment_intent.amount_capturable_updated webhook does the same.
+ * The authorization is checked with Stripe before the seats are held
+ * for the vendor's approval window.
+ */
+export const confirmAuthorization = action({
+  args: { paymentIntentId: v.string() },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const payment = await ctx.runQuery(internal.bookingRequests.getCustomerPayment, {
+      paymentIntentId: args.paymentIntentId,
+    });
+
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+      apiVersion: "2024-11-20.acacia",
+    });
+
+    // Stripe holds the amount in the currency the customer is charged in
+    const paymentIntent = await stripe.paymentIntents.retrieve(args.paymentIntentId);
+    if (
+      paymentIntent.status !== "requires_capture" ||
+      paymentIntent.amount_capturable !== (payment.presentmentAmount ?? payment.amount)
+    ) {
+      throw new Error("Your card hasn't been authorized for this request");
+    }
+
+    await ctx.runMutation(internal.bookingRequests.recordAuthorization, {
+      paymentIntentId: args.paymentIntentId,
+    });
+
+    return { success: true };
+  },
+});
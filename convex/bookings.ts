@@ -5,13 +5,231 @@
  */
 
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
 import {
   getCurrentUserId,
   requireUserProfile,
   isAdmin,
   isVendor,
 } from "./lib/auth";
+import { placeHold, releaseHold, moveHold } from "./availability/holds";
+import { getPaidPayments, scheduleRefund } from "./stripe/refunds";
+import { getVoucherRedeemed } from "./giftVouchers";
+import {
+  calculateRefund,
+  describeCancellationPolicy,
+  getActivityStartTime,
+} from "./lib/cancellationPolicy";
+import {
+  priceTickets,
+  ticketSelectionValidator,
+} from "./lib/ticketTypes";
+import { bookingAnswerInputValidator, checkBookingAnswers } from "./lib/bookingQuestions";
+import { requiresApproval } from "./lib/bookingRequests";
+import { withdrawRequest } from "./bookingRequests";
+import { completeBooking } from "./reviews";
+import { moveDepositBalance } from "./deposits";
+import { getNoShowCounts } from "./attendance";
+import { readAvailability } from "./availability/summaries";
+import { checkResources, getResourceLimit } from "./availability/resources";
+import { getExchangeRates, toBasePricing } from "./exchangeRates";
+import { repriceSlot } from "./availability/pricing";
+import { adjustPrice, applyPriceAdjustment } from "./lib/pricingRules";
+import { BASE_CURRENCY, convertAmount } from "./lib/currency";
+import { addOnSelectionValidator, getAddOnsTotal } from "./lib/addOns";
+import { priceAddOnsInBase, checkAddOnInventory } from "./addOns";
+import { pickupRequestValidator } from "./lib/pickups";
+import { resolvePickup, movePickup } from "./pickups";
+import { getSlotTicketTypes } from "./lib/routes";
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Work out the refund owed when a booking is cancelled
+ * Customers get the listing's cancellation policy; vendor/admin cancellations refund in full
+ */
+async function computeCancellationRefund(
+  ctx: QueryCtx,
+  booking: Doc<"bookings">,
+  byCustomer: boolean
+) {
+  const listing = await ctx.db.get(booking.listingId);
+  const slot = booking.slotId ? await ctx.db.get(booking.slotId) : null;
+  const activityStart = getActivityStartTime(
+    slot?.date || booking.bookingDate,
+    slot?.startTime
+  );
+
+  const payments = await getPaidPayments(ctx, booking._id);
+
+  // Gift voucher balance spent on a paid booking counts as paid
+  const voucherPaid = booking.paymentStatus === "paid"
+    ? Math.round((booking.voucherAmount || 0) * 100)
+    : 0;
+  const voucherRefundable = booking.paymentStatus === "paid"
+    ? Math.round((await getVoucherRedeemed(ctx, booking._id)) * 100)
+    : 0;
+
+  const amountPaid = payments.reduce((total, p) => total + p.amount, voucherPaid);
+  const refundable = payments.reduce(
+    (total, p) => total + Math.max(0, p.amount - p.refundAmount),
+    voucherRefundable
+  );
+
+  const policyRefund = calculateRefund(
+    listing?.cancellationPolicy,
+    activityStart,
+    amountPaid
+  );
+
+  const refundPercent = byCustomer ? policyRefund.refundPercent : 100;
+  const refundAmount = byCustomer
+    ? Math.min(policyRefund.refundAmount, refundable)
+    : refundable;
+
+  return {
+    amountPaid,
+    refundPercent,
+    refundAmount,
+    hoursBeforeStart: policyRefund.hoursBeforeStart,
+    policyLines: describeCancellationPolicy(listing?.cancellationPolicy),
+  };
+}
+
+/**
+ * Move a booking's seats and price to another slot of its listing and let
+ * the vendor know. Throws if the slot no longer has the seats.
+ */
+async function moveBooking(
+  ctx: MutationCtx,
+  booking: Doc<"bookings">,
+  listing: Doc<"listings">,
+  newSlot: Doc<"slots">,
+  totalPrice: number
+) {
+  const oldSlot = booking.slotId ? await ctx.db.get(booking.slotId) : null;
+
+  // Reserve seats on the new slot and free the old ones
+  await moveHold(ctx, {
+    bookingId: booking._id,
+    customerId: booking.customerId,
+    guests: booking.guests,
+    toSlot: newSlot,
+  });
+
+  const now = Date.now();
+
+  await ctx.db.patch(booking._id, {
+    slotId: newSlot._id,
+    bookingDate: newSlot.date,
+    totalPrice,
+    pickup: booking.pickup && movePickup(booking.pickup, listing, newSlot),
+    rescheduledAt: now,
+    pendingReschedule: undefined,
+    balanceDue: undefined,
+    updatedAt: now,
+  });
+
+  // Let the vendor know
+  const vendorProfile = await ctx.db
+    .query("profiles")
+    .withIndex("by_userId", (q) => q.eq("userId", booking.vendorId))
+    .unique();
+
+  const notification = {
+    customerName: booking.customerName,
+    listingTitle: listing.title,
+    oldDate: oldSlot?.date || booking.bookingDate,
+    oldTime: oldSlot?.startTime || "",
+    newDate: newSlot.date,
+    newTime: newSlot.startTime,
+    guests: booking.guests,
+  };
+
+  await ctx.scheduler.runAfter(0, internal.notifications.inApp.notifyBookingRescheduled, {
+    ...notification,
+    vendorId: booking.vendorId,
+    listingId: booking.listingId,
+    bookingId: booking._id,
+  });
+
+  if (vendorProfile?.email) {
+    await ctx.scheduler.runAfter(0, internal.notifications.email.sendBookingRescheduled, {
+      ...notification,
+      to: vendorProfile.email,
+      vendorName: vendorProfile.fullName || "Vendor",
+      bookingId: booking._id,
+    });
+  }
+}
+
+/**
+ * Cancel the unpaid top-up payment intents of a booking's pending move
+ */
+async function cancelTopUpPayments(ctx: MutationCtx, booking: Doc<"bookings">) {
+  if (booking.balanceDue === undefined) {
+    return;
+  }
+
+  const payments = await ctx.db
+    .query("payments")
+    .withIndex("by_booking", (q) => q.eq("bookingId", booking._id))
+    .filter((q) => q.eq(q.field("status"), "pending"))
+    .collect();
+
+  for (const payment of payments) {
+    if (!payment.paymentIntentId) continue;
+    await ctx.db.patch(payment._id, { status: "failed", updatedAt: Date.now() });
+    await ctx.scheduler.runAfter(0, internal.stripe.payments.cancelPaymentAuthorization, {
+      paymentIntentId: payment.paymentIntentId,
+    });
+  }
+}
+
+/**
+ * Finish a move that was waiting for its price difference once the top-up
+ * is paid. If the slot filled up or closed in the meantime the booking
+ * stays where it was and the top-up is refunded.
+ */
+export async function completeReschedule(ctx: MutationCtx, payment: Doc<"payments">) {
+  const booking = await ctx.db.get(payment.bookingId);
+  if (!booking) {
+    return;
+  }
+
+  // A balance from a move made before moves waited for payment
+  const pending = booking.pendingReschedule;
+  if (!pending) {
+    await ctx.db.patch(booking._id, { balanceDue: undefined, updatedAt: Date.now() });
+    return;
+  }
+
+  const listing = await ctx.db.get(booking.listingId);
+  const newSlot = await ctx.db.get(pending.slotId);
+  const resourceLimit = newSlot ? await getResourceLimit(ctx, newSlot) : null;
+  if (
+    !listing ||
+    !newSlot ||
+    newSlot.status !== "active" ||
+    Date.now() > newSlot.bookingDeadline ||
+    newSlot.available < booking.guests ||
+    (resourceLimit !== null && resourceLimit < booking.guests)
+  ) {
+    await ctx.db.patch(booking._id, {
+      pendingReschedule: undefined,
+      balanceDue: undefined,
+      updatedAt: Date.now(),
+    });
+    await scheduleRefund(ctx, booking._id, { paymentId: payment._id });
+    return;
+  }
+
+  await moveBooking(ctx, booking, listing, newSlot, pending.totalPrice);
+}
 
 // ============================================
 // QUERIES (Read Operations)
@@ -43,11 +261,19 @@ export const vendorBookings = query({
   handler: async (ctx) => {
     const userId = await getCurrentUserId(ctx);
 
-    return await ctx.db
+    const bookings = await ctx.db
       .query("bookings")
       .withIndex("by_vendor", (q) => q.eq("vendorId", userId))
       .order("desc")
       .collect();
+
+    // Vendors see how often each customer has failed to show up
+    const noShows = await getNoShowCounts(ctx, bookings.map((b) => b.customerId));
+
+    return bookings.map((booking) => ({
+      ...booking,
+      customerNoShows: noShows.get(booking.customerId) || 0,
+    }));
   },
 });
 
@@ -80,84 +306,52 @@ export const getByListing = query({
   },
 });
 
-/**
- * Get bookings for a specific date (for availability checking)
- * Public - needed for showing availability to customers
- */
-export const getByListingAndDate = query({
-  args: {
-    listingId: v.id("listings"),
-    date: v.string(),
-  },
-  handler: async (ctx, args) => {
-    return await ctx.db
-      .query("bookings")
-      .withIndex("by_listing_and_date", (q) =>
-        q.eq("listingId", args.listingId).eq("bookingDate", args.date)
-      )
-      .collect();
-  },
-});
-
 /**
  * Get availability summary for next 30 days for all listings
- * Public - used by AI chatbot to answer availability questions
+ * Read from the maintained per-day summaries: seats left, earliest open
+ * time and from-price
+ * Public - used by search and the AI chatbot
  */
 export const getAvailabilityNext30Days = query({
   args: {},
   handler: async (ctx) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0); // Start of today
-    const thirtyDaysFromNow = new Date(today);
-    thirtyDaysFromNow.setDate(today.getDate() + 30);
-
-    // Get all bookings in the next 30 days
-    const allBookings = await ctx.db.query("bookings").collect();
-
-    // Filter bookings within next 30 days
-    const upcomingBookings = allBookings.filter(booking => {
-      const bookingDate = new Date(booking.bookingDate);
-      return bookingDate >= today && bookingDate <= thirtyDaysFromNow;
-    });
-
-    // Get all listings to check capacity
-    const listings = await ctx.db.query("listings").collect();
-    const listingMap = new Map(listings.map(l => [l._id, l]));
-
-    // Initialize availability map with ALL dates for ALL listings as available
-    const availabilityMap: Record<string, Record<string, { booked: number; capacity: number; available: number }>> = {};
-
-    // Pre-populate all listings with all dates in next 30 days as fully available
-    listings.forEach(listing => {
-      availabilityMap[listing._id] = {};
+    return await readAvailability(ctx, 30);
+  },
+});
 
-      // Generate all dates in the next 30 days
-      for (let i = 0; i < 30; i++) {
-        const date = new Date(today);
-        date.setDate(today.getDate() + i);
-        const dateStr = date.toISOString().split('T')[0]; // YYYY-MM-DD
+/**
+ * Preview the refund a cancellation would produce right now
+ * Customer (if owns) or Vendor (if owns listing) or Admin
+ */
+export const getCancellationQuote = query({
+  args: { id: v.id("bookings") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+    const adminUser = await isAdmin(ctx);
 
-        availabilityMap[listing._id][dateStr] = {
-          booked: 0,
-          capacity: listing.maxCapacity,
-          available: listing.maxCapacity
-        };
-      }
-    });
+    const booking = await ctx.db.get(args.id);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
 
-    // Now subtract bookings from availability
-    upcomingBookings.forEach(booking => {
-      const listing = listingMap.get(booking.listingId);
-      if (!listing) return;
+    if (
+      booking.customerId !== userId &&
+      booking.vendorId !== userId &&
+      !adminUser
+    ) {
+      throw new Error("Unauthorized: You cannot view this booking");
+    }
 
-      if (availabilityMap[booking.listingId] && availabilityMap[booking.listingId][booking.bookingDate]) {
-        availabilityMap[booking.listingId][booking.bookingDate].booked += booking.guests;
-        availabilityMap[booking.listingId][booking.bookingDate].available =
-          listing.maxCapacity - availabilityMap[booking.listingId][booking.bookingDate].booked;
-      }
-    });
+    const byCustomer = booking.customerId === userId && !adminUser;
+    const quote = await computeCancellationRefund(ctx, booking, byCustomer);
 
-    return availabilityMap;
+    return {
+      amountPaid: quote.amountPaid,
+      refundPercent: quote.refundPercent,
+      refundAmount: quote.refundAmount,
+      hoursBeforeStart: quote.hoursBeforeStart,
+      policyLines: quote.policyLines,
+    };
   },
 });
 
@@ -194,83 +388,23 @@ export const get = query({
 // MUTATIONS (Write Operations)
 // ============================================
 
-/**
- * Create a new booking
- * Authenticated users only
- */
-export const create = mutation({
-  args: {
-    listingId: v.id("listings"),
-    bookingDate: v.string(),
-    guests: v.number(),
-    totalPrice: v.number(),
-    timeSlot: v.optional(
-      v.union(
-        v.literal("morning"),
-        v.literal("afternoon"),
-        v.literal("evening"),
-        v.literal("full_day")
-      )
-    ),
-  },
-  handler: async (ctx, args) => {
-    const profile = await requireUserProfile(ctx);
-    const userId = await getCurrentUserId(ctx);
-
-    // Get the listing
-    const listing = await ctx.db.get(args.listingId);
-    if (!listing) {
-      throw new Error("Listing not found");
-    }
-
-    // Check availability (basic check - can be enhanced)
-    const existingBookings = await ctx.db
-      .query("bookings")
-      .withIndex("by_listing_and_date", (q) =>
-        q.eq("listingId", args.listingId).eq("bookingDate", args.bookingDate)
-      )
-      .collect();
-
-    const totalGuests = existingBookings.reduce(
-      (sum, booking) => sum + booking.guests,
-      0
-    );
-
-    if (totalGuests + args.guests > listing.maxCapacity) {
-      throw new Error("Not enough availability for this date");
-    }
-
-    // Create the booking
-    const bookingId = await ctx.db.insert("bookings", {
-      listingId: args.listingId,
-      listingTitle: listing.title,
-      customerId: userId,
-      customerName: profile.fullName || profile.email,
-      customerEmail: profile.email,
-      vendorId: listing.vendorId || "",
-      bookingDate: args.bookingDate,
-      guests: args.guests,
-      totalPrice: args.totalPrice,
-      status: "pending",
-      timeSlot: args.timeSlot || "full_day",
-      paymentStatus: "pending",
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-    });
-
-    return bookingId;
-  },
-});
-
 /**
  * Create a new booking from a specific slot
- * This is the new booking flow using the availability system
+ * Places a time-limited seat hold until payment completes
  * Authenticated users only
  */
 export const createSlotBooking = mutation({
   args: {
     slotId: v.id("slots"),
-    guests: v.number(),
+    // Tickets per ticket type; `guests` alone books standard tickets
+    tickets: v.optional(v.array(ticketSelectionValidator)),
+    guests: v.optional(v.number()),
+    // Answers to the listing's booking questions
+    answers: v.optional(v.array(bookingAnswerInputValidator)),
+    // Extras bought with the tickets
+    addOns: v.optional(v.array(addOnSelectionValidator)),
+    // Where to collect the group (listings with pickup zones)
+    pickup: v.optional(pickupRequestValidator),
   },
   handler: async (ctx, args) => {
     const profile = await requireUserProfile(ctx);
@@ -287,11 +421,6 @@ export const createSlotBooking = mutation({
       throw new Error("This time slot is no longer available");
     }
 
-    // Check if enough availability
-    if (slot.available < args.guests) {
-      throw new Error(`Only ${slot.available} spots remaining for this time slot`);
-    }
-
     // Check booking deadline
     if (Date.now() > slot.bookingDeadline) {
       throw new Error("Booking deadline has passed for this time slot");
@@ -303,8 +432,30 @@ export const createSlotBooking = mutation({
       throw new Error("Listing not found");
     }
 
-    // Calculate total price
-    const totalPrice = listing.price * args.guests;
+    // Price the tickets server-side at the slot's current rules, in THB
+    const ticketTypes = getSlotTicketTypes(listing, slot);
+    const { adjustment } = await repriceSlot(ctx, listing, slot);
+    const { lineItems, totalPrice, seats } = await toBasePricing(ctx, listing, applyPriceAdjustment(
+      priceTickets(
+        ticketTypes,
+        args.tickets || [{ ticketTypeId: ticketTypes[0].id, quantity: args.guests || 0 }]
+      ),
+      adjustment
+    ));
+
+    // Check if enough availability
+    if (slot.available < seats) {
+      throw new Error(`Only ${slot.available} spots remaining for this time slot`);
+    }
+
+    const answers = checkBookingAnswers(listing.bookingQuestions || [], args.answers || [], seats);
+
+    // Extras at their listed prices, within what's left for this session
+    const addOns = await priceAddOnsInBase(ctx, listing, args.addOns || [], seats);
+    await checkAddOnInventory(ctx, listing, args.slotId, addOns.items);
+
+    // Pickup fee and time for the customer's zone
+    const pickup = args.pickup ? await resolvePickup(ctx, listing, slot, args.pickup) : undefined;
 
     // Create the booking
     const bookingId = await ctx.db.insert("bookings", {
@@ -316,15 +467,28 @@ export const createSlotBooking = mutation({
       vendorId: slot.vendorId,
       slotId: args.slotId, // Link to the slot
       bookingDate: slot.date,
-      guests: args.guests,
-      totalPrice,
+      guests: seats,
+      totalPrice: totalPrice + addOns.totalPrice + (pickup?.fee ?? 0),
+      lineItems,
+      addOns: addOns.items.length > 0 ? addOns.items : undefined,
+      pickup,
+      answers,
       status: "pending",
       timeSlot: "full_day", // Keep for backward compatibility
       paymentStatus: "pending",
+      approvalStatus: requiresApproval(listing) ? "requested" : undefined,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     });
 
+    // Reserve the seats while the customer pays
+    await placeHold(ctx, {
+      slot,
+      bookingId,
+      customerId: userId,
+      guests: seats,
+    });
+
     return bookingId;
   },
 });
@@ -362,6 +526,16 @@ export const updateStatus = mutation({
       updatedAt: Date.now(),
     });
 
+    // Return held or confirmed seats to the slot
+    if (args.status === "cancelled") {
+      await releaseHold(ctx, args.id);
+    }
+
+    // Invite the customer to review
+    if (args.status === "completed" && booking.status !== "completed") {
+      await completeBooking(ctx, booking);
+    }
+
     return args.id;
   },
 });
@@ -369,6 +543,8 @@ export const updateStatus = mutation({
 /**
  * Cancel a booking
  * Customer (if owns) or Vendor (if owns listing) or Admin
+ * Paid bookings are refunded through Stripe: customers per the listing's
+ * cancellation policy, vendor/admin cancellations in full
  */
 export const cancel = mutation({
   args: { id: v.id("bookings") },
@@ -390,12 +566,190 @@ export const cancel = mutation({
       throw new Error("Unauthorized: You cannot cancel this booking");
     }
 
+    if (booking.status === "cancelled") {
+      throw new Error("This booking is already cancelled");
+    }
+    if (booking.status === "completed") {
+      throw new Error("Completed bookings cannot be cancelled");
+    }
+
+    const byCustomer = booking.customerId === userId && !adminUser;
+    const { amountPaid, refundPercent, refundAmount } =
+      await computeCancellationRefund(ctx, booking, byCustomer);
+
+    const now = Date.now();
+
     await ctx.db.patch(args.id, {
       status: "cancelled",
-      updatedAt: Date.now(),
+      cancelledAt: now,
+      cancelledBy: userId,
+      cancellationReason: byCustomer ? "customer_request" : "other",
+      refundPercent: amountPaid > 0 ? refundPercent : undefined,
+      refundAmount: amountPaid > 0 ? refundAmount : undefined,
+      updatedAt: now,
     });
 
-    return args.id;
+    // Return held or confirmed seats to the slot
+    await releaseHold(ctx, args.id);
+
+    // Release the card authorization of a request still waiting for the vendor
+    await withdrawRequest(ctx, booking);
+
+    // Issue the refund through Stripe
+    if (refundAmount > 0) {
+      await scheduleRefund(ctx, args.id, {
+        amount: refundAmount,
+        reason: byCustomer ? "requested_by_customer" : undefined,
+      });
+    }
+
+    return {
+      bookingId: args.id,
+      refundPercent,
+      refundAmount,
+    };
+  },
+});
+
+/**
+ * Move a confirmed booking to another slot of the same listing
+ * Customer (if owns)
+ * Seats move between slots in the same transaction. A lower price is refunded;
+ * a higher price is returned as amountDue (cents), and the booking only moves
+ * once the customer has paid it (completeReschedule).
+ */
+export const reschedule = mutation({
+  args: {
+    id: v.id("bookings"),
+    slotId: v.id("slots"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const booking = await ctx.db.get(args.id);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    if (booking.customerId !== userId) {
+      throw new Error("Unauthorized: You can only reschedule your own bookings");
+    }
+
+    if (booking.status !== "confirmed") {
+      throw new Error("Only confirmed bookings can be rescheduled");
+    }
+
+    if (!booking.slotId) {
+      throw new Error("This booking is not linked to a time slot");
+    }
+
+    if (booking.slotId === args.slotId) {
+      throw new Error("Your booking is already in this time slot");
+    }
+
+    if (booking.packageBookingId) {
+      throw new Error("Activities in a package can't be rescheduled on their own");
+    }
+
+    const oldSlot = await ctx.db.get(booking.slotId);
+    if (oldSlot && getActivityStartTime(oldSlot.date, oldSlot.startTime) <= Date.now()) {
+      throw new Error("This activity has already started");
+    }
+
+    const newSlot = await ctx.db.get(args.slotId);
+    if (!newSlot || newSlot.listingId !== booking.listingId) {
+      throw new Error("Time slot not found for this activity");
+    }
+
+    if (newSlot.status !== "active") {
+      throw new Error("This time slot is no longer available");
+    }
+
+    if (Date.now() > newSlot.bookingDeadline) {
+      throw new Error("Booking deadline has passed for this time slot");
+    }
+
+    const listing = await ctx.db.get(booking.listingId);
+    if (!listing) {
+      throw new Error("Listing not found");
+    }
+
+    // The new slot's pricing rules apply as they stand before the move
+    const { adjustment } = await repriceSlot(ctx, listing, newSlot);
+
+    // Extras with an inventory must be free on the new slot too
+    await checkAddOnInventory(ctx, listing, newSlot._id, booking.addOns || [], booking._id);
+
+    // Reprice the same tickets at the listing's current prices (rules and rates);
+    // extras and pickup keep the price they were bought at
+    const ticketsPrice = booking.lineItems && booking.lineItems.length > 0
+      ? (await toBasePricing(ctx, listing, applyPriceAdjustment(
+          priceTickets(
+            getSlotTicketTypes(listing, newSlot),
+            booking.lineItems.map((item) => ({
+              ticketTypeId: item.ticketTypeId,
+              quantity: item.quantity,
+            }))
+          ),
+          adjustment
+        ))).totalPrice
+      : convertAmount(
+          adjustPrice(listing.price, adjustment) * booking.guests,
+          listing.currency ?? BASE_CURRENCY,
+          BASE_CURRENCY,
+          await getExchangeRates(ctx)
+        );
+    const totalPrice = ticketsPrice + getAddOnsTotal(booking.addOns || []) + (booking.pickup?.fee ?? 0);
+    // An unpaid deposit balance moves with the booking and absorbs the difference
+    const startShiftMs =
+      getActivityStartTime(newSlot.date, newSlot.startTime) -
+      getActivityStartTime(oldSlot?.date || booking.bookingDate, oldSlot?.startTime);
+    const depositDifference = await moveDepositBalance(
+      ctx,
+      booking,
+      startShiftMs,
+      Math.round((totalPrice - booking.totalPrice) * 100) // Cents
+    );
+
+    // A balance still owed from an earlier move (before moves waited for it) is
+    // added on; a move waiting for payment is replaced by this one
+    const priceDifference = depositDifference + (booking.pendingReschedule ? 0 : booking.balanceDue ?? 0);
+
+    // A top-up from an earlier pending move mustn't be paid any more
+    await cancelTopUpPayments(ctx, booking);
+
+    // A higher price is paid before the booking moves
+    if (priceDifference > 0) {
+      if (newSlot.available < booking.guests) {
+        throw new Error(`Only ${newSlot.available} spots remaining for this time slot`);
+      }
+      await checkResources(ctx, newSlot, booking.guests);
+
+      await ctx.db.patch(args.id, {
+        pendingReschedule: { slotId: args.slotId, totalPrice },
+        balanceDue: priceDifference,
+        updatedAt: Date.now(),
+      });
+
+      return { bookingId: args.id, amountDue: priceDifference, refundAmount: 0 };
+    }
+
+    await moveBooking(ctx, booking, listing, newSlot, totalPrice);
+
+    // Refund the difference if the new slot is cheaper
+    let refundAmount = 0;
+    if (priceDifference < 0) {
+      refundAmount = await scheduleRefund(ctx, args.id, {
+        amount: -priceDifference,
+        reason: "requested_by_customer",
+      });
+    }
+
+    return {
+      bookingId: args.id,
+      amountDue: 0,
+      refundAmount,
+    };
   },
 });
 
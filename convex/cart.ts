@@ -0,0 +1,688 @@
+/**
+ * Cart & Checkout
+ *
+ * A persistent per-user cart of slot bookings across listings and vendors.
+ * Checkout re-validates every item, turns the cart into pending bookings with
+ * seat holds and pays for all of them with one Stripe payment. Once the payment
+ * succeeds, each vendor's share is transferred to their Connect account.
+ */
+
+import { v } from "convex/values";
+import {
+  query,
+  mutation,
+  internalQuery,
+  internalMutation,
+  QueryCtx,
+  MutationCtx,
+} from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import {
+  getCurrentUserId,
+  getCurrentUserIdOrNull,
+  requireUserProfile,
+} from "./lib/auth";
+import { confirmHold, placeHold, releaseHold } from "./availability/holds";
+import { refundLatePayment } from "./stripe/refunds";
+import { getResourceLimit } from "./availability/resources";
+import {
+  priceTickets,
+  ticketSelectionValidator,
+  TicketSelection,
+} from "./lib/ticketTypes";
+import {
+  bookingAnswerInputValidator,
+  checkBookingAnswers,
+  BookingAnswerInput,
+} from "./lib/bookingQuestions";
+import { requiresApproval } from "./lib/bookingRequests";
+import { toBasePricing } from "./exchangeRates";
+import { getSlotPricing, applyPriceAdjustment } from "./lib/pricingRules";
+import { requestWaiverSignatures } from "./waivers";
+import { settlePackageBooking } from "./packages";
+import { getSlotTicketTypes } from "./lib/routes";
+
+// ============================================
+// CART HELPERS
+// ============================================
+
+/**
+ * Check a cart item can still be booked and price it
+ * Returns the reason it cannot be booked instead of throwing
+ */
+async function validateCartItem(
+  ctx: QueryCtx,
+  item: { slotId: Id<"slots">; tickets: TicketSelection[]; answers?: BookingAnswerInput[] }
+) {
+  const slot = await ctx.db.get(item.slotId);
+  const listing = slot ? await ctx.db.get(slot.listingId) : null;
+  if (!slot || !listing) {
+    return { slot, listing, problem: "This activity is no longer available" };
+  }
+
+  if (slot.status !== "active") {
+    return { slot, listing, problem: "This time slot is no longer available" };
+  }
+
+  if (Date.now() > slot.bookingDeadline) {
+    return { slot, listing, problem: "Booking deadline has passed for this time slot" };
+  }
+
+  // Requests are authorized per booking, which a shared cart payment can't do
+  if (requiresApproval(listing)) {
+    return { slot, listing, problem: "This activity needs the vendor's approval - request it from the activity page" };
+  }
+
+  let pricing;
+  try {
+    pricing = await toBasePricing(ctx, listing, applyPriceAdjustment(
+      priceTickets(getSlotTicketTypes(listing, slot), item.tickets),
+      getSlotPricing(listing.pricingRules, slot).adjustment
+    ));
+  } catch (error: any) {
+    return { slot, listing, problem: error.message as string };
+  }
+
+  let answers;
+  try {
+    answers = checkBookingAnswers(listing.bookingQuestions || [], item.answers || [], pricing.seats);
+  } catch (error: any) {
+    return { slot, listing, pricing, problem: error.message as string };
+  }
+
+  // Shared resources in use elsewhere can leave fewer seats than the slot has
+  const resourceLimit = await getResourceLimit(ctx, slot);
+  const available = resourceLimit === null ? slot.available : Math.min(slot.available, resourceLimit);
+  if (available < pricing.seats) {
+    return {
+      slot,
+      listing,
+      pricing,
+      problem: `Only ${available} spots remaining for this time slot`,
+    };
+  }
+
+  return { slot, listing, pricing, answers, problem: null };
+}
+
+/**
+ * Send booking confirmation and new sale notifications for a paid booking
+ */
+export async function notifyBookingPaid(
+  ctx: MutationCtx,
+  booking: Doc<"bookings">,
+  payment: Doc<"payments">
+) {
+  const listing = await ctx.db.get(booking.listingId);
+  if (!listing) {
+    return;
+  }
+
+  const customerProfile = await ctx.db
+    .query("profiles")
+    .withIndex("by_userId", (q) => q.eq("userId", booking.customerId))
+    .unique();
+  const vendorProfile = await ctx.db
+    .query("profiles")
+    .withIndex("by_userId", (q) => q.eq("userId", listing.vendorId))
+    .unique();
+  const slot = booking.slotId ? await ctx.db.get(booking.slotId) : null;
+
+  const customerName = customerProfile?.fullName || "Customer";
+  const slotDate = slot?.date || booking.bookingDate || "";
+  const slotTime = slot?.startTime || "";
+  const platformFee = payment.applicationFeeAmount || 0;
+
+  await ctx.scheduler.runAfter(0, internal.notifications.inApp.notifyBookingConfirmed, {
+    userId: booking.customerId,
+    listingTitle: listing.title,
+    slotDate,
+    slotTime,
+    listingId: listing._id,
+    bookingId: booking._id,
+  });
+
+  await ctx.scheduler.runAfter(0, internal.notifications.email.sendBookingConfirmed, {
+    to: customerProfile?.email || "",
+    customerName,
+    listingTitle: listing.title,
+    slotDate,
+    slotTime,
+    guests: booking.guests,
+    addOns: booking.addOns,
+    totalPrice: payment.amount,
+    bookingId: booking._id,
+  });
+
+  // Ask the rest of the group to sign the waiver
+  await requestWaiverSignatures(ctx, booking);
+
+  await ctx.scheduler.runAfter(0, internal.notifications.inApp.notifyNewSale, {
+    vendorId: listing.vendorId,
+    customerName,
+    listingTitle: listing.title,
+    slotDate,
+    slotTime,
+    guests: booking.guests,
+    totalAmount: payment.amount,
+    listingId: listing._id,
+    bookingId: booking._id,
+  });
+
+  await ctx.scheduler.runAfter(0, internal.notifications.email.sendNewSale, {
+    to: vendorProfile?.email || "",
+    vendorName: vendorProfile?.fullName || "Vendor",
+    customerName,
+    listingTitle: listing.title,
+    slotDate,
+    slotTime,
+    guests: booking.guests,
+    addOns: booking.addOns,
+    totalPrice: payment.amount,
+    vendorEarnings: payment.vendorPayoutAmount ?? payment.amount - platformFee,
+    platformFee,
+    bookingId: booking._id,
+  });
+}
+
+/**
+ * Apply the outcome of a checkout's payment to all of its bookings.
+ * Safe to call more than once. Success only comes from the
+ * payment_intent.succeeded webhook; the client can report a failure.
+ */
+export async function settleCheckout(
+  ctx: MutationCtx,
+  checkout: Doc<"checkouts">,
+  result: {
+    status: "succeeded" | "failed";
+    chargeId?: string;
+    paymentMethod?: string;
+    errorMessage?: string;
+  }
+) {
+  if (checkout.status !== "pending") {
+    return;
+  }
+
+  const now = Date.now();
+
+  await ctx.db.patch(checkout._id, {
+    status: result.status,
+    chargeId: result.chargeId,
+    updatedAt: now,
+  });
+
+  const payments = await ctx.db
+    .query("payments")
+    .withIndex("by_checkout", (q) => q.eq("checkoutId", checkout._id))
+    .collect();
+
+  for (const payment of payments) {
+    await ctx.db.patch(payment._id, {
+      status: result.status,
+      chargeId: result.chargeId,
+      paymentMethod: result.paymentMethod,
+      errorMessage: result.errorMessage,
+      updatedAt: now,
+    });
+
+    if (result.status === "succeeded") {
+      // Paid after the customer cancelled - refund it rather than bring the booking back
+      if ((await ctx.db.get(payment.bookingId))?.status === "cancelled") {
+        await refundLatePayment(ctx, payment.bookingId);
+        continue;
+      }
+
+      await ctx.db.patch(payment.bookingId, {
+        status: "confirmed",
+        paymentStatus: "paid",
+        updatedAt: now,
+      });
+
+      // Convert the seat hold into a confirmed seat
+      const { confirmed } = await confirmHold(ctx, payment.bookingId);
+      if (!confirmed) {
+        await refundLatePayment(ctx, payment.bookingId);
+        continue;
+      }
+
+      const booking = await ctx.db.get(payment.bookingId);
+      if (booking) {
+        await notifyBookingPaid(ctx, booking, payment);
+      }
+    } else {
+      await ctx.db.patch(payment.bookingId, {
+        status: "cancelled",
+        paymentStatus: "failed",
+        updatedAt: now,
+      });
+
+      // Return the held seats to the slot
+      await releaseHold(ctx, payment.bookingId);
+    }
+  }
+
+  if (checkout.packageBookingId) {
+    await settlePackageBooking(ctx, checkout.packageBookingId, result.status);
+  }
+
+  if (result.status === "succeeded") {
+    // The cart has been bought - empty it (package checkouts don't come from the cart)
+    if (!checkout.packageBookingId) {
+      const bookings = await Promise.all(checkout.bookingIds.map((id) => ctx.db.get(id)));
+      const slotIds = new Set(bookings.map((b) => b?.slotId));
+      const cartItems = await ctx.db
+        .query("cartItems")
+        .withIndex("by_user", (q) => q.eq("userId", checkout.customerId))
+        .collect();
+      for (const item of cartItems) {
+        if (slotIds.has(item.slotId)) {
+          await ctx.db.delete(item._id);
+        }
+      }
+    }
+
+    // Pay each vendor their share of the charge
+    await ctx.scheduler.runAfter(0, internal.stripe.payments.transferCheckoutFunds, {
+      checkoutId: checkout._id,
+    });
+  }
+
+  console.log(`Checkout ${checkout._id} ${result.status}: ${payments.length} bookings`);
+}
+
+/**
+ * Cancel an unpaid checkout's bookings and give their seats back
+ * The cart is left untouched so the customer can try again
+ */
+async function releaseCheckout(ctx: MutationCtx, checkout: Doc<"checkouts">) {
+  await settleCheckout(ctx, checkout, {
+    status: "failed",
+    errorMessage: "Checkout abandoned",
+  });
+
+  // Bookings without a payment record yet
+  for (const bookingId of checkout.bookingIds) {
+    const booking = await ctx.db.get(bookingId);
+    if (booking && booking.status === "pending") {
+      await ctx.db.patch(bookingId, {
+        status: "cancelled",
+        paymentStatus: "failed",
+        updatedAt: Date.now(),
+      });
+      await releaseHold(ctx, bookingId);
+    }
+  }
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Get the current user's cart with live pricing and availability
+ */
+export const get = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getCurrentUserIdOrNull(ctx);
+    if (!userId) {
+      return { items: [], totalPrice: 0, hasProblems: false };
+    }
+
+    const cartItems = await ctx.db
+      .query("cartItems")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const items = await Promise.all(
+      cartItems.map(async (item) => {
+        const { slot, listing, pricing, problem } = await validateCartItem(ctx, item);
+
+        let imageUrl = listing?.imageUrl;
+        if (listing?.imageStorageId) {
+          imageUrl = (await ctx.storage.getUrl(listing.imageStorageId)) || undefined;
+        }
+
+        return {
+          _id: item._id,
+          slotId: item.slotId,
+          listingId: item.listingId,
+          listingTitle: listing?.title || "Unavailable activity",
+          imageUrl: imageUrl || "",
+          date: slot?.date,
+          startTime: slot?.startTime,
+          tickets: item.tickets,
+          lineItems: pricing?.lineItems || [],
+          totalPrice: pricing?.totalPrice || 0,
+          seats: pricing?.seats || 0,
+          problem,
+        };
+      })
+    );
+
+    return {
+      items,
+      totalPrice: items
+        .filter((item) => !item.problem)
+        .reduce((total, item) => total + item.totalPrice, 0),
+      hasProblems: items.some((item) => item.problem),
+    };
+  },
+});
+
+/**
+ * Number of items in the current user's cart (for the navbar badge)
+ */
+export const count = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getCurrentUserIdOrNull(ctx);
+    if (!userId) {
+      return 0;
+    }
+
+    const cartItems = await ctx.db
+      .query("cartItems")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    return cartItems.length;
+  },
+});
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Add tickets for a slot to the cart
+ * Replaces the tickets if the slot is already in the cart
+ */
+export const add = mutation({
+  args: {
+    slotId: v.id("slots"),
+    tickets: v.array(ticketSelectionValidator),
+    answers: v.optional(v.array(bookingAnswerInputValidator)),
+  },
+  handler: async (ctx, args) => {
+    await requireUserProfile(ctx);
+    const userId = await getCurrentUserId(ctx);
+
+    const { slot, problem } = await validateCartItem(ctx, args);
+    if (problem || !slot) {
+      throw new Error(problem || "Time slot not found");
+    }
+
+    const now = Date.now();
+
+    const existing = await ctx.db
+      .query("cartItems")
+      .withIndex("by_user_and_slot", (q) =>
+        q.eq("userId", userId).eq("slotId", args.slotId)
+      )
+      .unique();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        tickets: args.tickets,
+        answers: args.answers,
+        updatedAt: now,
+      });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("cartItems", {
+      userId,
+      slotId: slot._id,
+      listingId: slot.listingId,
+      vendorId: slot.vendorId,
+      tickets: args.tickets,
+      answers: args.answers,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Remove an item from the cart
+ */
+export const remove = mutation({
+  args: { id: v.id("cartItems") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const item = await ctx.db.get(args.id);
+    if (!item) {
+      throw new Error("Cart item not found");
+    }
+
+    if (item.userId !== userId) {
+      throw new Error("Unauthorized: You can only change your own cart");
+    }
+
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * Empty the current user's cart
+ */
+export const clear = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const cartItems = await ctx.db
+      .query("cartItems")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    for (const item of cartItems) {
+      await ctx.db.delete(item._id);
+    }
+  },
+});
+
+/**
+ * Leave the payment step of a checkout without paying
+ * Releases the held seats; the cart keeps its items
+ */
+export const cancelCheckout = mutation({
+  args: { checkoutId: v.id("checkouts") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const checkout = await ctx.db.get(args.checkoutId);
+    if (!checkout) {
+      throw new Error("Checkout not found");
+    }
+
+    if (checkout.customerId !== userId) {
+      throw new Error("Unauthorized: You can only cancel your own checkout");
+    }
+
+    if (checkout.status !== "pending") {
+      return;
+    }
+
+    await releaseCheckout(ctx, checkout);
+  },
+});
+
+// ============================================
+// CHECKOUT (internal, driven by createCheckoutPaymentIntent)
+// ============================================
+
+/**
+ * Turn the current user's cart into pending bookings with seat holds
+ * Throws listing every item that can no longer be booked
+ */
+export const createCheckout = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const profile = await requireUserProfile(ctx);
+    const userId = await getCurrentUserId(ctx);
+
+    const cartItems = await ctx.db
+      .query("cartItems")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    if (cartItems.length === 0) {
+      throw new Error("Your cart is empty");
+    }
+
+    // Re-validate everything before reserving anything
+    const validated = [];
+    const problems: string[] = [];
+    for (const item of cartItems) {
+      const result = await validateCartItem(ctx, item);
+      if (result.problem || !result.slot || !result.listing || !result.pricing || !result.answers) {
+        problems.push(`${result.listing?.title || "Activity"}: ${result.problem}`);
+        continue;
+      }
+
+      const vendorProfile = await ctx.db
+        .query("profiles")
+        .withIndex("by_userId", (q) => q.eq("userId", result.slot!.vendorId))
+        .unique();
+      if (!vendorProfile?.stripeConnectAccountId || !vendorProfile.onboardingComplete) {
+        problems.push(`${result.listing.title}: Vendor payment setup is incomplete`);
+        continue;
+      }
+
+      validated.push({
+        slot: result.slot,
+        listing: result.listing,
+        pricing: result.pricing,
+        answers: result.answers,
+        stripeAccountId: vendorProfile.stripeConnectAccountId,
+      });
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Some items in your cart can no longer be booked. ${problems.join("; ")}`);
+    }
+
+    const now = Date.now();
+    const items = [];
+
+    for (const { slot, listing, pricing, answers, stripeAccountId } of validated) {
+      const bookingId = await ctx.db.insert("bookings", {
+        listingId: slot.listingId,
+        listingTitle: listing.title,
+        customerId: userId,
+        customerName: profile.fullName || profile.email,
+        customerEmail: profile.email,
+        vendorId: slot.vendorId,
+        slotId: slot._id,
+        bookingDate: slot.date,
+        guests: pricing.seats,
+        totalPrice: pricing.totalPrice,
+        lineItems: pricing.lineItems,
+        answers,
+        status: "pending",
+        timeSlot: "full_day", // Keep for backward compatibility
+        paymentStatus: "pending",
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      // Reserve the seats while the customer pays
+      await placeHold(ctx, {
+        slot,
+        bookingId,
+        customerId: userId,
+        guests: pricing.seats,
+      });
+
+      items.push({
+        bookingId,
+        vendorId: slot.vendorId,
+        stripeAccountId,
+        amount: Math.round(pricing.totalPrice * 100), // Amount in cents
+      });
+    }
+
+    const amount = items.reduce((total, item) => total + item.amount, 0);
+
+    const checkoutId = await ctx.db.insert("checkouts", {
+      customerId: userId,
+      bookingIds: items.map((item) => item.bookingId),
+      amount,
+      currency: "thb",
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return { checkoutId, customerId: userId, amount, items };
+  },
+});
+
+/**
+ * Link the Stripe payment intent to a checkout
+ */
+export const attachPaymentIntent = internalMutation({
+  args: {
+    checkoutId: v.id("checkouts"),
+    paymentIntentId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.checkoutId, {
+      paymentIntentId: args.paymentIntentId,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Cancel a checkout whose payment could not be started
+ */
+export const abandonCheckout = internalMutation({
+  args: { checkoutId: v.id("checkouts") },
+  handler: async (ctx, args) => {
+    const checkout = await ctx.db.get(args.checkoutId);
+    if (checkout) {
+      await releaseCheckout(ctx, checkout);
+    }
+  },
+});
+
+/**
+ * Payments of a checkout with the vendor accounts their share goes to
+ */
+export const getCheckoutTransfers = internalQuery({
+  args: { checkoutId: v.id("checkouts") },
+  handler: async (ctx, args) => {
+    const payments = await ctx.db
+      .query("payments")
+      .withIndex("by_checkout", (q) => q.eq("checkoutId", args.checkoutId))
+      .collect();
+
+    return await Promise.all(
+      payments.map(async (payment) => {
+        const vendorProfile = await ctx.db
+          .query("profiles")
+          .withIndex("by_userId", (q) => q.eq("userId", payment.vendorId))
+          .unique();
+
+        return {
+          paymentId: payment._id,
+          bookingId: payment.bookingId,
+          status: payment.status,
+          amount: payment.amount,
+          refundAmount: payment.refundAmount,
+          vendorPayoutAmount: payment.vendorPayoutAmount || 0,
+          chargeId: payment.chargeId,
+          transferId: payment.transferId,
+          transferAttempts: payment.transferAttempts || 0,
+          destination: vendorProfile?.stripeConnectAccountId,
+        };
+      })
+    );
+  },
+});
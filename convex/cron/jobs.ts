@@ -6,6 +6,9 @@
 
 import { internalMutation } from "../_generated/server";
 import { internal } from "../_generated/api";
+import { completeBooking } from "../reviews";
+import { refreshDaySummary } from "../availability/summaries";
+import { getSlotPricing } from "../lib/pricingRules";
 
 // ============================================
 // GENERATE SLOTS DAILY
@@ -107,6 +110,42 @@ export const processWaitlistExpiry = internalMutation({
   },
 });
 
+// ============================================
+// RELEASE EXPIRED SEAT HOLDS
+// ============================================
+
+export const releaseExpiredHolds = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    console.log("[Cron] Starting seat hold release");
+
+    // Release holds whose payment window has passed
+    const expiredResult = await ctx.runMutation(
+      internal.availability.holds.releaseExpired,
+      {}
+    );
+
+    console.log(`[Cron] Released ${expiredResult.released} expired holds`);
+
+    // Release holds left behind by failed payments
+    const failedResult = await ctx.runMutation(
+      internal.availability.holds.releaseFailedPayments,
+      {}
+    );
+
+    console.log(`[Cron] Released ${failedResult.released} failed-payment holds`);
+
+    // Waitlist notifications are scheduled by the hold release itself
+    console.log("[Cron] Completed seat hold release");
+
+    return {
+      success: true,
+      expiredReleased: expiredResult.released,
+      failedReleased: failedResult.released,
+    };
+  },
+});
+
 // ============================================
 // MARK PAST SLOTS AS COMPLETED
 // ============================================
@@ -139,7 +178,19 @@ export const markPastSlotsCompleted = internalMutation({
           status: "completed",
           updatedAt: now,
         });
+        await refreshDaySummary(ctx, slot.listingId, slot.date);
         markedCount++;
+
+        // Complete the slot's bookings and invite guests to review
+        const bookings = await ctx.db
+          .query("bookings")
+          .withIndex("by_slot", (q) => q.eq("slotId", slot._id))
+          .filter((q) => q.eq(q.field("status"), "confirmed"))
+          .collect();
+
+        for (const booking of bookings) {
+          await completeBooking(ctx, booking);
+        }
       } catch (error) {
         console.error(`[Cron] Error marking slot ${slot._id} as completed:`, error);
       }
@@ -155,43 +206,152 @@ export const markPastSlotsCompleted = internalMutation({
 });
 
 // ============================================
-// SEND BOOKING REMINDERS (Optional - Future)
+// EXPIRE GIFT VOUCHERS
 // ============================================
 
-/**
- * Send 24-hour reminders for upcoming bookings
- * TODO: Implement when needed
- */
-export const sendBookingReminders = internalMutation({
+export const expireGiftVouchers = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    console.log("[Cron] Starting gift voucher expiry");
+
+    const result = await ctx.runMutation(
+      internal.giftVouchers.expireVouchers,
+      {}
+    );
+
+    console.log(`[Cron] Expired ${result.expired} gift vouchers`);
+
+    return {
+      success: true,
+      expired: result.expired,
+    };
+  },
+});
+
+// ============================================
+// EXPIRE BOOKING REQUESTS
+// ============================================
+
+export const expireBookingRequests = internalMutation({
   args: {},
   handler: async (ctx) => {
+    console.log("[Cron] Starting booking request expiry");
+
+    const result = await ctx.runMutation(
+      internal.bookingRequests.expireRequests,
+      {}
+    );
+
+    console.log(`[Cron] Declined ${result.declined} expired booking requests`);
+
+    return {
+      success: true,
+      declined: result.declined,
+    };
+  },
+});
+
+// ============================================
+// SEND BOOKING REMINDERS
+// ============================================
+
+export const sendBookingReminders = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<{ success: boolean; remindersCount: number }> => {
     console.log("[Cron] Starting booking reminders");
 
-    const now = Date.now();
-    const tomorrow = new Date(now + 24 * 60 * 60 * 1000);
-    const tomorrowString = tomorrow.toISOString().split('T')[0];
-
-    // Find all confirmed bookings for tomorrow
-    const upcomingBookings = await ctx.db
-      .query("bookings")
-      .withIndex("by_date", (q) => q.eq("bookingDate", tomorrowString))
-      .filter((q) => q.eq(q.field("status"), "confirmed"))
-      .collect();
+    const result = await ctx.runMutation(
+      internal.notifications.reminders.sendDueReminders,
+      {}
+    );
+
+    console.log(`[Cron] Sent ${result.sent} booking reminders`);
+
+    return {
+      success: true,
+      remindersCount: result.sent,
+    };
+  },
+});
+
+// ============================================
+// CHARGE DEPOSIT BALANCES
+// ============================================
 
-    console.log(`[Cron] Found ${upcomingBookings.length} bookings for tomorrow`);
+export const chargeDepositBalances = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<{ success: boolean; chargedCount: number }> => {
+    console.log("[Cron] Starting deposit balance charges");
+
+    const result = await ctx.runMutation(
+      internal.deposits.chargeDueBalances,
+      {}
+    );
+
+    console.log(`[Cron] Charging ${result.charged} deposit balances`);
+
+    return {
+      success: true,
+      chargedCount: result.charged,
+    };
+  },
+});
+
+// ============================================
+// REPRICE LAST-MINUTE SLOTS
+// ============================================
+
+export const repriceLastMinuteSlots = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    console.log("[Cron] Starting last-minute repricing");
+
+    const now = Date.now();
+    const today = new Date(now).toISOString().split('T')[0];
+    const listings = (await ctx.db.query("listings").collect()).filter((listing) =>
+      (listing.pricingRules || []).some((rule) => rule.kind === "last_minute")
+    );
 
-    // TODO: Send reminder notifications
-    // For each booking:
-    // 1. Get slot details
-    // 2. Get listing details
-    // 3. Send in-app notification
-    // 4. Send email reminder
+    let repricedCount = 0;
+
+    for (const listing of listings) {
+      // Only slots that a last-minute window could reach
+      const maxHours = Math.max(
+        ...listing.pricingRules!
+          .filter((rule) => rule.kind === "last_minute")
+          .map((rule) => rule.hoursBefore || 0)
+      );
+      const end = new Date(now);
+      end.setDate(end.getDate() + Math.ceil(maxHours / 24) + 1);
+      const endDate = end.toISOString().split('T')[0];
+
+      const slots = await ctx.db
+        .query("slots")
+        .withIndex("by_listing_and_date", (q) =>
+          q.eq("listingId", listing._id).gte("date", today).lte("date", endDate)
+        )
+        .filter((q) => q.eq(q.field("status"), "active"))
+        .collect();
+
+      // Refreshing a day reprices its slots and its from-price
+      const dates = new Set<string>();
+      for (const slot of slots) {
+        const { adjustment } = getSlotPricing(listing.pricingRules, slot, now);
+        if (adjustment !== (slot.priceAdjustment ?? 0)) {
+          dates.add(slot.date);
+          repricedCount++;
+        }
+      }
+      for (const date of dates) {
+        await refreshDaySummary(ctx, listing._id, date);
+      }
+    }
 
-    console.log("[Cron] Booking reminders completed (not yet implemented)");
+    console.log(`[Cron] Repriced ${repricedCount} slots`);
 
     return {
       success: true,
-      remindersCount: 0, // Will update when implemented
+      repricedCount,
     };
   },
 });
@@ -4,7 +4,13 @@
  * Scheduled background tasks for:
  * - Generating slots from availability rules
  * - Processing waitlist notifications
+ * - Releasing expired seat holds
  * - Marking past slots as completed
+ * - Expiring gift vouchers
+ * - Declining booking requests vendors didn't answer
+ * - Sending booking reminders
+ * - Charging deposit balances to saved cards
+ * - Repricing slots as last-minute pricing windows open
  */
 
 import { cronJobs } from "convex/server";
@@ -40,6 +46,20 @@ crons.hourly(
   internal.cron.jobs.processWaitlistExpiry
 );
 
+// ============================================
+// RELEASE EXPIRED SEAT HOLDS
+// ============================================
+
+/**
+ * Run every 5 minutes to release seat holds whose payment window
+ * has passed (or whose payment failed) and put the seats back on sale
+ */
+crons.interval(
+  "release expired seat holds",
+  { minutes: 5 },
+  internal.cron.jobs.releaseExpiredHolds
+);
+
 // ============================================
 // MARK PAST SLOTS AS COMPLETED
 // ============================================
@@ -54,17 +74,73 @@ crons.hourly(
 );
 
 // ============================================
-// BOOKING REMINDERS (Optional - for future)
+// EXPIRE GIFT VOUCHERS
+// ============================================
+
+/**
+ * Run every day at 1:00 AM Thailand time (UTC+7 = 18:00 UTC previous day)
+ * Expires vouchers past their expiry date and writes off the balance
+ */
+crons.daily(
+  "expire gift vouchers",
+  { hourUTC: 18, minuteUTC: 0 }, // 1:00 AM Bangkok time
+  internal.cron.jobs.expireGiftVouchers
+);
+
+// ============================================
+// EXPIRE BOOKING REQUESTS
+// ============================================
+
+/**
+ * Run every 5 minutes to decline booking requests whose approval window
+ * has passed, release the card authorization and notify both sides
+ */
+crons.interval(
+  "expire booking requests",
+  { minutes: 5 },
+  internal.cron.jobs.expireBookingRequests
+);
+
+// ============================================
+// SEND BOOKING REMINDERS
+// ============================================
+
+/**
+ * Run every 15 minutes to send the reminders that have come due
+ * on each listing's reminder schedule (24 and 2 hours before by default)
+ */
+crons.interval(
+  "send booking reminders",
+  { minutes: 15 },
+  internal.cron.jobs.sendBookingReminders
+);
+
+// ============================================
+// CHARGE DEPOSIT BALANCES
 // ============================================
 
 /**
- * Run twice daily to send 24-hour reminders
- * TODO: Implement booking reminder notifications
+ * Run every hour to charge the balances of deposit bookings
+ * that have come due to the cards saved with their deposits
  */
-// crons.daily(
-//   "send booking reminders",
-//   { hourUTC: 2, minuteUTC: 0 }, // 9:00 AM Bangkok time
-//   internal.cron.jobs.sendBookingReminders
-// );
+crons.hourly(
+  "charge deposit balances",
+  { minuteUTC: 30 },
+  internal.cron.jobs.chargeDepositBalances
+);
+
+// ============================================
+// REPRICE LAST-MINUTE SLOTS
+// ============================================
+
+/**
+ * Run every 15 minutes to apply last-minute pricing rules
+ * to slots whose start has come within the rule's window
+ */
+crons.interval(
+  "reprice last-minute slots",
+  { minutes: 15 },
+  internal.cron.jobs.repriceLastMinuteSlots
+);
 
 export default crons;
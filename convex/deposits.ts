@@ -0,0 +1,430 @@
+/**
+ * Deposits and Balance Payments
+ *
+ * Bookings for listings with a deposit payment plan pay a deposit up front
+ * (see createPaymentIntent) and the balance later. Card balances are charged
+ * off-session from the saved card by a cron job once they fall due; if that
+ * fails the customer is asked to pay it themselves. Venue balances are
+ * marked collected by the vendor. Every charge is its own payment record
+ * with its own share of the commission.
+ */
+
+import { v } from "convex/values";
+import {
+  mutation,
+  internalQuery,
+  internalMutation,
+  MutationCtx,
+} from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getCurrentUserId, isAdmin } from "./lib/auth";
+import { getActivityStartTime } from "./lib/cancellationPolicy";
+import {
+  balanceCollectionValidator,
+  getBalanceDueAt,
+  isDepositPlan,
+  PaymentPlan,
+} from "./lib/paymentPlans";
+import { currencyValidator, toPresentmentCents } from "./lib/currency";
+
+// ============================================
+// BALANCE HELPERS
+// ============================================
+
+/**
+ * Record the outcome of a balance payment on its booking.
+ * A failed automatic charge asks the customer to pay the balance themselves
+ * (only once - failed retries by the customer don't notify again).
+ */
+export async function settleBalancePayment(
+  ctx: MutationCtx,
+  bookingId: Id<"bookings">,
+  outcome: "succeeded" | "failed",
+  errorMessage?: string
+) {
+  const booking = await ctx.db.get(bookingId);
+  if (!booking || booking.depositBalance === undefined) {
+    return;
+  }
+
+  if (outcome === "succeeded") {
+    if (booking.depositBalanceStatus !== "paid") {
+      await ctx.db.patch(bookingId, {
+        depositBalanceStatus: "paid",
+        depositBalanceError: undefined,
+        updatedAt: Date.now(),
+      });
+    }
+    return;
+  }
+
+  if (booking.depositBalanceStatus === "failed" || booking.depositBalanceStatus === "paid") {
+    return;
+  }
+
+  await ctx.db.patch(bookingId, {
+    depositBalanceStatus: "failed",
+    depositBalanceError: errorMessage,
+    updatedAt: Date.now(),
+  });
+
+  const listing = await ctx.db.get(booking.listingId);
+  if (!listing || booking.status !== "confirmed") {
+    return;
+  }
+
+  await ctx.scheduler.runAfter(0, internal.notifications.inApp.notifyBalancePaymentFailed, {
+    userId: booking.customerId,
+    listingTitle: listing.title,
+    slotDate: booking.bookingDate,
+    amount: booking.depositBalance,
+    listingId: listing._id,
+    bookingId: booking._id,
+  });
+
+  await ctx.scheduler.runAfter(0, internal.notifications.email.sendBalancePaymentFailed, {
+    to: booking.customerEmail,
+    customerName: booking.customerName,
+    listingTitle: listing.title,
+    slotDate: booking.bookingDate,
+    amount: booking.depositBalance,
+  });
+}
+
+/**
+ * Move an unpaid balance with a rescheduled booking: the due date shifts
+ * with the activity and the price difference is added to the balance.
+ * Returns the part of the price difference the balance couldn't absorb
+ * (negative = to refund), or the whole difference if nothing is owed.
+ */
+export async function moveDepositBalance(
+  ctx: MutationCtx,
+  booking: Doc<"bookings">,
+  startShiftMs: number,
+  priceDifference: number
+): Promise<number> {
+  const status = booking.depositBalanceStatus;
+  if (
+    !booking.depositBalance ||
+    (status !== "scheduled" && status !== "failed" && status !== "due_at_venue")
+  ) {
+    return priceDifference;
+  }
+
+  const balance = booking.depositBalance + priceDifference;
+  const feeRate = (booking.depositBalanceFee || 0) / booking.depositBalance;
+
+  if (balance <= 0) {
+    // The new price is covered by the deposit
+    await ctx.db.patch(booking._id, {
+      depositBalance: undefined,
+      depositBalanceFee: undefined,
+      depositBalanceDueAt: undefined,
+      depositBalanceCollection: undefined,
+      depositBalanceStatus: undefined,
+      depositBalanceError: undefined,
+    });
+    return balance;
+  }
+
+  await ctx.db.patch(booking._id, {
+    depositBalance: balance,
+    depositBalanceFee: Math.round(balance * feeRate),
+    depositBalanceDueAt: (booking.depositBalanceDueAt || 0) + startShiftMs,
+  });
+  return 0;
+}
+
+// ============================================
+// INTERNAL QUERIES
+// ============================================
+
+/**
+ * A booking's deposit plan and when its balance would be due,
+ * or null if the listing is paid in full
+ */
+export const getDepositTerms = internalQuery({
+  args: { bookingId: v.id("bookings") },
+  handler: async (ctx, args): Promise<{ plan: PaymentPlan; balanceDueAt: number } | null> => {
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking) {
+      return null;
+    }
+
+    const listing = await ctx.db.get(booking.listingId);
+    if (!listing || !isDepositPlan(listing.paymentPlan)) {
+      return null;
+    }
+
+    const slot = booking.slotId ? await ctx.db.get(booking.slotId) : null;
+    const activityStart = getActivityStartTime(booking.bookingDate, slot?.startTime);
+
+    return {
+      plan: listing.paymentPlan,
+      balanceDueAt: getBalanceDueAt(listing.paymentPlan, activityStart),
+    };
+  },
+});
+
+/**
+ * What to charge for a booking's balance, and to which card and vendor
+ */
+export const getBalanceCharge = internalQuery({
+  args: { bookingId: v.id("bookings") },
+  handler: async (ctx, args) => {
+    const booking = await ctx.db.get(args.bookingId);
+    if (
+      !booking ||
+      booking.depositBalanceStatus !== "processing" ||
+      !booking.depositBalance ||
+      !booking.stripeCustomerId
+    ) {
+      return null;
+    }
+
+    const vendorProfile = await ctx.db
+      .query("profiles")
+      .withIndex("by_userId", (q) => q.eq("userId", booking.vendorId))
+      .unique();
+    if (!vendorProfile?.stripeConnectAccountId) {
+      return null;
+    }
+
+    // The card the deposit was paid with
+    const deposit = await ctx.db
+      .query("payments")
+      .withIndex("by_booking", (q) => q.eq("bookingId", booking._id))
+      .filter((q) => q.and(q.eq(q.field("kind"), "deposit"), q.eq(q.field("status"), "succeeded")))
+      .first();
+
+    return {
+      amount: booking.depositBalance,
+      applicationFeeAmount: booking.depositBalanceFee || 0,
+      stripeCustomerId: booking.stripeCustomerId,
+      paymentMethod: deposit?.paymentMethod,
+      destination: vendorProfile.stripeConnectAccountId,
+      customerId: booking.customerId,
+      vendorId: booking.vendorId,
+      presentmentCurrency: deposit?.presentmentCurrency,
+      exchangeRate: deposit?.exchangeRate,
+    };
+  },
+});
+
+// ============================================
+// INTERNAL MUTATIONS
+// ============================================
+
+/**
+ * Save (or clear) the balance a booking will owe after its deposit
+ * Called when the deposit payment intent is created
+ */
+export const recordDepositPlan = internalMutation({
+  args: {
+    bookingId: v.id("bookings"),
+    balance: v.optional(v.object({
+      amount: v.number(),                 // Cents
+      applicationFeeAmount: v.number(),   // Cents
+      dueAt: v.number(),
+      collection: balanceCollectionValidator,
+      stripeCustomerId: v.optional(v.string()),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const balance = args.balance;
+
+    await ctx.db.patch(args.bookingId, {
+      depositBalance: balance?.amount,
+      depositBalanceFee: balance?.applicationFeeAmount,
+      depositBalanceDueAt: balance?.dueAt,
+      depositBalanceCollection: balance?.collection,
+      depositBalanceStatus: balance
+        ? balance.collection === "venue" ? "due_at_venue" : "scheduled"
+        : undefined,
+      depositBalanceError: undefined,
+      stripeCustomerId: balance?.stripeCustomerId,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Record an automatic balance charge (see chargeDepositBalance)
+ */
+export const recordBalanceCharge = internalMutation({
+  args: {
+    bookingId: v.id("bookings"),
+    succeeded: v.boolean(),
+    paymentIntentId: v.optional(v.string()),
+    chargeId: v.optional(v.string()),
+    paymentMethod: v.optional(v.string()),
+    errorMessage: v.optional(v.string()),
+    presentmentCurrency: v.optional(currencyValidator),
+    exchangeRate: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking || !booking.depositBalance) {
+      return { success: false };
+    }
+
+    const paymentIntentId = args.paymentIntentId;
+    const existing = paymentIntentId
+      ? await ctx.db
+          .query("payments")
+          .withIndex("by_paymentIntent", (q) => q.eq("paymentIntentId", paymentIntentId))
+          .unique()
+      : null;
+
+    if (paymentIntentId && !existing) {
+      const applicationFeeAmount = booking.depositBalanceFee || 0;
+      await ctx.db.insert("payments", {
+        bookingId: booking._id,
+        customerId: booking.customerId,
+        vendorId: booking.vendorId,
+        amount: booking.depositBalance,
+        currency: "thb",
+        kind: "balance",
+        status: args.succeeded ? "succeeded" : "failed",
+        paymentIntentId,
+        chargeId: args.chargeId,
+        paymentMethod: args.paymentMethod,
+        applicationFeeAmount,
+        vendorPayoutAmount: booking.depositBalance - applicationFeeAmount,
+        errorMessage: args.errorMessage,
+        ...(args.presentmentCurrency && args.exchangeRate
+          ? {
+              presentmentAmount: toPresentmentCents(booking.depositBalance, args.exchangeRate),
+              presentmentCurrency: args.presentmentCurrency,
+              exchangeRate: args.exchangeRate,
+            }
+          : {}),
+        refundAmount: 0,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+    }
+
+    await settleBalancePayment(
+      ctx,
+      booking._id,
+      args.succeeded ? "succeeded" : "failed",
+      args.errorMessage
+    );
+
+    return { success: true };
+  },
+});
+
+/**
+ * Start charging every card balance that has fallen due
+ * Called by cron
+ */
+export const chargeDueBalances = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    const due = await ctx.db
+      .query("bookings")
+      .withIndex("by_deposit_balance", (q) =>
+        q.eq("depositBalanceStatus", "scheduled").lte("depositBalanceDueAt", now)
+      )
+      .collect();
+
+    let charged = 0;
+
+    for (const booking of due) {
+      // Requests still waiting for the vendor are charged once approved
+      if (booking.status === "pending") {
+        continue;
+      }
+
+      // Nothing to collect for cancelled bookings
+      if (booking.status !== "confirmed") {
+        await ctx.db.patch(booking._id, {
+          depositBalanceStatus: undefined,
+          updatedAt: now,
+        });
+        continue;
+      }
+
+      await ctx.db.patch(booking._id, {
+        depositBalanceStatus: "processing",
+        updatedAt: now,
+      });
+
+      await ctx.scheduler.runAfter(0, internal.stripe.payments.chargeDepositBalance, {
+        bookingId: booking._id,
+      });
+      charged++;
+    }
+
+    return { charged };
+  },
+});
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Mark a booking's balance as paid in person at the venue
+ * Vendor (if owns listing) or Admin. Records the payment with the platform
+ * commission owed on it.
+ */
+export const markBalanceCollected = mutation({
+  args: { bookingId: v.id("bookings") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+    const adminUser = await isAdmin(ctx);
+
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    if (booking.vendorId !== userId && !adminUser) {
+      throw new Error("Unauthorized: Only the vendor or admin can record balance payments");
+    }
+
+    if (
+      !booking.depositBalance ||
+      (booking.depositBalanceStatus !== "due_at_venue" && booking.depositBalanceStatus !== "failed")
+    ) {
+      throw new Error("This booking has no balance to collect");
+    }
+
+    if (booking.status !== "confirmed" && booking.status !== "completed") {
+      throw new Error("Only confirmed bookings can be paid");
+    }
+
+    const now = Date.now();
+    const applicationFeeAmount = booking.depositBalanceFee || 0;
+
+    await ctx.db.insert("payments", {
+      bookingId: booking._id,
+      customerId: booking.customerId,
+      vendorId: booking.vendorId,
+      amount: booking.depositBalance,
+      currency: "thb",
+      kind: "balance",
+      status: "succeeded",
+      paymentMethod: "venue",
+      applicationFeeAmount,
+      vendorPayoutAmount: booking.depositBalance - applicationFeeAmount,
+      refundAmount: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.db.patch(booking._id, {
+      depositBalanceStatus: "collected",
+      depositBalanceError: undefined,
+      updatedAt: now,
+    });
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,162 @@
+/**
+ * Exchange Rates Queries and Mutations
+ *
+ * Admins keep one rate per supported currency (units per 1 THB), set by hand
+ * or imported from a rates file. Listings priced in another currency are
+ * converted to THB when booked, and customers paying in their display
+ * currency are charged at the rate current when the payment is created.
+ */
+
+import { v } from "convex/values";
+import { query, mutation, internalQuery, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { requireAdmin } from "./lib/auth";
+import { LineItem } from "./lib/ticketTypes";
+import {
+  Currency,
+  ExchangeRates,
+  BASE_CURRENCY,
+  currencyValidator,
+  convertAmount,
+  getRate,
+  validateRate,
+} from "./lib/currency";
+
+// ============================================
+// EXCHANGE RATE HELPERS
+// ============================================
+
+/**
+ * All stored rates, keyed by currency
+ */
+export async function getExchangeRates(ctx: QueryCtx): Promise<ExchangeRates> {
+  const rows = await ctx.db.query("exchangeRates").collect();
+
+  const rates: ExchangeRates = {};
+  for (const row of rows) {
+    rates[row.currency] = row.rate;
+  }
+  return rates;
+}
+
+/**
+ * Convert priced tickets from the listing's currency to THB
+ */
+export async function toBasePricing<T extends { lineItems: LineItem[]; totalPrice: number }>(
+  ctx: QueryCtx,
+  listing: Doc<"listings">,
+  pricing: T
+): Promise<T> {
+  const currency = listing.currency ?? BASE_CURRENCY;
+  if (currency === BASE_CURRENCY) {
+    return pricing;
+  }
+
+  const rates = await getExchangeRates(ctx);
+  const lineItems = pricing.lineItems.map((item) => ({
+    ...item,
+    unitPrice: convertAmount(item.unitPrice, currency, BASE_CURRENCY, rates),
+  }));
+
+  return {
+    ...pricing,
+    lineItems,
+    totalPrice: lineItems.reduce((total, item) => total + item.unitPrice * item.quantity, 0),
+  };
+}
+
+/**
+ * Insert or update the rate for one currency
+ */
+async function saveRate(
+  ctx: MutationCtx,
+  rate: { currency: Currency; rate: number },
+  source: "manual" | "import",
+  updatedBy: string
+) {
+  validateRate(rate.currency, rate.rate);
+  if (rate.currency === BASE_CURRENCY) return;
+
+  const existing = await ctx.db
+    .query("exchangeRates")
+    .withIndex("by_currency", (q) => q.eq("currency", rate.currency))
+    .unique();
+
+  const fields = { rate: rate.rate, source, updatedBy, updatedAt: Date.now() };
+  if (existing) {
+    await ctx.db.patch(existing._id, fields);
+  } else {
+    await ctx.db.insert("exchangeRates", { currency: rate.currency, ...fields });
+  }
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Current rates for display conversion
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db.query("exchangeRates").collect();
+  },
+});
+
+/**
+ * Rate to charge a payment in a currency at (used by payment actions)
+ */
+export const getPresentmentRate = internalQuery({
+  args: {
+    currency: currencyValidator,
+  },
+  handler: async (ctx, args): Promise<number> => {
+    return getRate(await getExchangeRates(ctx), args.currency);
+  },
+});
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Set the rate for one currency
+ * Admin only
+ */
+export const setRate = mutation({
+  args: {
+    currency: currencyValidator,
+    rate: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+    await saveRate(ctx, args, "manual", admin.userId);
+  },
+});
+
+/**
+ * Replace rates from an imported file (parsed with parseRatesFile)
+ * Admin only
+ */
+export const importRates = mutation({
+  args: {
+    rates: v.array(v.object({
+      currency: currencyValidator,
+      rate: v.number(),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
+    // Validate everything before writing anything
+    for (const rate of args.rates) {
+      validateRate(rate.currency, rate.rate);
+    }
+    for (const rate of args.rates) {
+      await saveRate(ctx, rate, "import", admin.userId);
+    }
+
+    return { imported: args.rates.length };
+  },
+});
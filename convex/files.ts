@@ -1,9 +1,10 @@
 /**
  * File Storage Module
- * Handles image and video uploads for listings and profiles
+ * Handles image and video uploads for listings and profiles,
+ * and documents generated by the platform (signed waivers)
  */
 
-import { mutation, query } from "./_generated/server";
+import { mutation, query, ActionCtx } from "./_generated/server";
 import { v } from "convex/values";
 import { getCurrentUserId } from "./lib/auth";
 
@@ -21,6 +22,18 @@ export const generateUploadUrl = mutation({
   },
 });
 
+/**
+ * Store a document generated on the server (e.g. a signed waiver snapshot)
+ * Returns the storage ID to keep with the record it belongs to
+ */
+export async function storeDocument(
+  ctx: ActionCtx,
+  content: string,
+  contentType: string
+) {
+  return await ctx.storage.store(new Blob([content], { type: contentType }));
+}
+
 /**
  * Get a public URL for a stored file
  */
@@ -0,0 +1,468 @@
+/**
+ * Gift Vouchers
+ *
+ * THB-denominated vouchers bought through Stripe and emailed to a recipient.
+ * The balance can be redeemed against any slot booking, partially and
+ * repeatedly, until it runs out or expires. Every change to a balance is
+ * written to the voucher ledger (issue, redeem, refund, expire).
+ *
+ * A voucher is redeemed when the booking's payment intent is created. If that
+ * booking is never paid the redemption is given back when its hold is
+ * released; cancelling a paid booking credits the voucher before the card.
+ */
+
+import { v } from "convex/values";
+import {
+  query,
+  internalMutation,
+  QueryCtx,
+  MutationCtx,
+} from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getCurrentUserId, requireUserProfile } from "./lib/auth";
+
+// Purchase limits in THB
+export const MIN_VOUCHER_AMOUNT = 500;
+export const MAX_VOUCHER_AMOUNT = 50000;
+
+// Vouchers can be used for a year after they are issued
+export const VOUCHER_VALIDITY_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Unambiguous characters for voucher codes (no 0/O, 1/I/L)
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+const roundTHB = (amount: number) => Math.round(amount * 100) / 100;
+
+// ============================================
+// VOUCHER HELPERS (used inside other mutations)
+// ============================================
+
+/**
+ * Codes are matched case-insensitively and stored upper case
+ */
+function normalizeVoucherCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Generate a code that isn't in use yet, e.g. GIFT-7KQ2-M9XD
+ */
+async function generateVoucherCode(ctx: QueryCtx): Promise<string> {
+  const block = () =>
+    Array.from(
+      { length: 4 },
+      () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]
+    ).join("");
+
+  for (;;) {
+    const code = `GIFT-${block()}-${block()}`;
+    const existing = await ctx.db
+      .query("giftVouchers")
+      .withIndex("by_code", (q) => q.eq("code", code))
+      .first();
+    if (!existing) {
+      return code;
+    }
+  }
+}
+
+/**
+ * Look up a code and check its balance can be spent
+ * Returns the reason it cannot be used instead of throwing
+ */
+async function checkVoucher(
+  ctx: QueryCtx,
+  code: string
+): Promise<{ voucher: Doc<"giftVouchers">; problem: null } | { voucher: null; problem: string }> {
+  const voucher = await ctx.db
+    .query("giftVouchers")
+    .withIndex("by_code", (q) => q.eq("code", normalizeVoucherCode(code)))
+    .unique();
+
+  if (!voucher || voucher.status === "pending" || voucher.status === "failed") {
+    return { voucher: null, problem: "This gift voucher code is not valid" };
+  }
+
+  if (
+    voucher.status === "expired" ||
+    (voucher.expiresAt !== undefined && Date.now() > voucher.expiresAt)
+  ) {
+    return { voucher: null, problem: "This gift voucher has expired" };
+  }
+
+  if (voucher.balance <= 0) {
+    return { voucher: null, problem: "This gift voucher has no balance left" };
+  }
+
+  return { voucher, problem: null };
+}
+
+/**
+ * Change a voucher's balance and record it in the ledger
+ */
+async function recordLedgerEntry(
+  ctx: MutationCtx,
+  voucher: Doc<"giftVouchers">,
+  entry: {
+    type: "issue" | "redeem" | "refund" | "expire";
+    amount: number; // THB, negative to debit
+    bookingId?: Id<"bookings">;
+  }
+) {
+  const balanceAfter = roundTHB(voucher.balance + entry.amount);
+  const now = Date.now();
+
+  await ctx.db.patch(voucher._id, {
+    balance: balanceAfter,
+    updatedAt: now,
+  });
+
+  await ctx.db.insert("voucherLedger", {
+    voucherId: voucher._id,
+    type: entry.type,
+    amount: roundTHB(entry.amount),
+    balanceAfter,
+    bookingId: entry.bookingId,
+    createdAt: now,
+  });
+
+  return balanceAfter;
+}
+
+/**
+ * Voucher balance spent on a booking in THB, per voucher, net of anything given back
+ */
+async function getRedemptionsByVoucher(ctx: QueryCtx, bookingId: Id<"bookings">) {
+  const entries = await ctx.db
+    .query("voucherLedger")
+    .withIndex("by_booking", (q) => q.eq("bookingId", bookingId))
+    .collect();
+
+  const byVoucher = new Map<Id<"giftVouchers">, number>();
+  for (const entry of entries) {
+    byVoucher.set(entry.voucherId, (byVoucher.get(entry.voucherId) || 0) - entry.amount);
+  }
+
+  return byVoucher;
+}
+
+/**
+ * Voucher balance a booking still holds in THB (redeemed minus refunded)
+ */
+export async function getVoucherRedeemed(ctx: QueryCtx, bookingId: Id<"bookings">) {
+  const byVoucher = await getRedemptionsByVoucher(ctx, bookingId);
+
+  let total = 0;
+  for (const amount of byVoucher.values()) {
+    total += Math.max(0, amount);
+  }
+  return roundTHB(total);
+}
+
+/**
+ * Give voucher balance spent on a booking back to the voucher(s)
+ * Restores everything when no amount (THB) is given. Returns the THB restored.
+ */
+export async function restoreVoucherRedemptions(
+  ctx: MutationCtx,
+  bookingId: Id<"bookings">,
+  amount?: number
+): Promise<number> {
+  const byVoucher = await getRedemptionsByVoucher(ctx, bookingId);
+
+  let remaining = amount ?? Infinity;
+  let restored = 0;
+  for (const [voucherId, redeemed] of byVoucher) {
+    const credit = roundTHB(Math.min(redeemed, remaining));
+    if (credit <= 0) continue;
+
+    const voucher = await ctx.db.get(voucherId);
+    if (!voucher) continue;
+
+    await recordLedgerEntry(ctx, voucher, {
+      type: "refund",
+      amount: credit,
+      bookingId,
+    });
+
+    restored += credit;
+    remaining -= credit;
+    if (remaining <= 0) break;
+  }
+
+  return roundTHB(restored);
+}
+
+/**
+ * Issue or fail a purchased voucher once its payment settles
+ * Idempotent: only acts while the voucher is awaiting payment
+ */
+export async function settleVoucherPurchase(
+  ctx: MutationCtx,
+  voucher: Doc<"giftVouchers">,
+  result: {
+    status: "succeeded" | "failed";
+    chargeId?: string;
+  }
+) {
+  if (voucher.status !== "pending") {
+    return;
+  }
+
+  const now = Date.now();
+
+  if (result.status === "failed") {
+    await ctx.db.patch(voucher._id, {
+      status: "failed",
+      updatedAt: now,
+    });
+    return;
+  }
+
+  const expiresAt = now + VOUCHER_VALIDITY_MS;
+
+  await ctx.db.patch(voucher._id, {
+    status: "active",
+    chargeId: result.chargeId,
+    expiresAt,
+    updatedAt: now,
+  });
+
+  await recordLedgerEntry(ctx, voucher, {
+    type: "issue",
+    amount: voucher.amount,
+  });
+
+  await ctx.scheduler.runAfter(0, internal.notifications.email.sendGiftVoucher, {
+    to: voucher.recipientEmail,
+    recipientName: voucher.recipientName,
+    purchaserName: voucher.purchaserName,
+    code: voucher.code,
+    amount: voucher.amount,
+    message: voucher.message,
+    expiresAt,
+  });
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Check a voucher code and its remaining balance
+ * Used to preview the voucher in the booking flow and on the gift voucher page
+ */
+export const check = query({
+  args: { code: v.string() },
+  handler: async (ctx, args) => {
+    const { voucher, problem } = await checkVoucher(ctx, args.code);
+
+    if (!voucher) {
+      return { valid: false as const, message: problem };
+    }
+
+    return {
+      valid: true as const,
+      code: voucher.code,
+      balance: voucher.balance,
+      expiresAt: voucher.expiresAt,
+    };
+  },
+});
+
+/**
+ * Vouchers the current user has bought, with their ledger
+ */
+export const myVouchers = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const vouchers = await ctx.db
+      .query("giftVouchers")
+      .withIndex("by_purchaser", (q) => q.eq("purchaserId", userId))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      vouchers
+        .filter((voucher) => voucher.status !== "pending" && voucher.status !== "failed")
+        .map(async (voucher) => ({
+          ...voucher,
+          ledger: await ctx.db
+            .query("voucherLedger")
+            .withIndex("by_voucher", (q) => q.eq("voucherId", voucher._id))
+            .collect(),
+        }))
+    );
+  },
+});
+
+// ============================================
+// INTERNAL MUTATIONS
+// ============================================
+
+/**
+ * Create a voucher awaiting payment
+ * Called from createVoucherPaymentIntent before the payment intent is created
+ */
+export const createPurchase = internalMutation({
+  args: {
+    amount: v.number(), // THB
+    recipientName: v.string(),
+    recipientEmail: v.string(),
+    message: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const profile = await requireUserProfile(ctx);
+
+    if (
+      !Number.isInteger(args.amount) ||
+      args.amount < MIN_VOUCHER_AMOUNT ||
+      args.amount > MAX_VOUCHER_AMOUNT
+    ) {
+      throw new Error(
+        `Gift vouchers must be a whole amount between ฿${MIN_VOUCHER_AMOUNT} and ฿${MAX_VOUCHER_AMOUNT.toLocaleString()}`
+      );
+    }
+
+    const recipientName = args.recipientName.trim();
+    const recipientEmail = args.recipientEmail.trim().toLowerCase();
+    if (!recipientName || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipientEmail)) {
+      throw new Error("Enter the recipient's name and a valid email address");
+    }
+
+    const now = Date.now();
+
+    const voucherId = await ctx.db.insert("giftVouchers", {
+      code: await generateVoucherCode(ctx),
+      amount: args.amount,
+      balance: 0, // Credited when the payment succeeds
+      currency: "thb",
+      purchaserId: profile.userId,
+      purchaserName: profile.fullName || "Someone",
+      recipientName,
+      recipientEmail,
+      message: args.message?.trim() || undefined,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return { voucherId, purchaserId: profile.userId };
+  },
+});
+
+/**
+ * Store the Stripe payment intent for a voucher purchase
+ */
+export const attachPaymentIntent = internalMutation({
+  args: {
+    voucherId: v.id("giftVouchers"),
+    paymentIntentId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.voucherId, {
+      paymentIntentId: args.paymentIntentId,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Apply (or clear) a gift voucher on a booking before it is paid
+ * Any balance the booking already holds is given back first, then up to
+ * amountDue (THB) is redeemed. Called from createPaymentIntent.
+ */
+export const applyToBooking = internalMutation({
+  args: {
+    bookingId: v.id("bookings"),
+    code: v.optional(v.string()),
+    amountDue: v.number(), // THB
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    if (booking.customerId !== userId) {
+      throw new Error("Unauthorized: You can only apply vouchers to your own bookings");
+    }
+
+    if (booking.paymentStatus === "paid") {
+      throw new Error("Gift vouchers cannot be added after payment");
+    }
+
+    // A retried payment starts again from the full voucher balance
+    await restoreVoucherRedemptions(ctx, args.bookingId);
+
+    if (!args.code) {
+      await ctx.db.patch(args.bookingId, {
+        voucherCode: undefined,
+        voucherAmount: undefined,
+        updatedAt: Date.now(),
+      });
+      return { voucherAmount: 0 };
+    }
+
+    const { voucher, problem } = await checkVoucher(ctx, args.code);
+    if (!voucher) {
+      throw new Error(problem);
+    }
+
+    const voucherAmount = roundTHB(Math.min(voucher.balance, args.amountDue));
+    if (voucherAmount > 0) {
+      await recordLedgerEntry(ctx, voucher, {
+        type: "redeem",
+        amount: -voucherAmount,
+        bookingId: args.bookingId,
+      });
+    }
+
+    await ctx.db.patch(args.bookingId, {
+      voucherCode: voucher.code,
+      voucherAmount,
+      updatedAt: Date.now(),
+    });
+
+    return { voucherAmount };
+  },
+});
+
+/**
+ * Expire vouchers past their expiry date and write off the remaining balance
+ * Called by the daily cron job
+ */
+export const expireVouchers = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    const vouchers = await ctx.db
+      .query("giftVouchers")
+      .withIndex("by_status_and_expiry", (q) =>
+        q.eq("status", "active").lt("expiresAt", now)
+      )
+      .collect();
+
+    for (const voucher of vouchers) {
+      if (voucher.balance > 0) {
+        await recordLedgerEntry(ctx, voucher, {
+          type: "expire",
+          amount: -voucher.balance,
+        });
+      }
+
+      await ctx.db.patch(voucher._id, {
+        status: "expired",
+        updatedAt: now,
+      });
+    }
+
+    return { expired: vouchers.length };
+  },
+});
@@ -62,6 +62,14 @@ http.route({
           break;
         }
 
+        case "payment_intent.amount_capturable_updated": {
+          const paymentIntent = event.data.object;
+          await ctx.runMutation(internal.stripe.webhooks.handlePaymentAuthorized, {
+            paymentIntentId: paymentIntent.id,
+          });
+          break;
+        }
+
         case "payment_intent.payment_failed": {
           const paymentIntent = event.data.object;
           await ctx.runMutation(internal.stripe.webhooks.handlePaymentFailed, {
@@ -90,13 +98,16 @@ http.route({
         // ============================================
         case "charge.refunded": {
           const charge = event.data.object;
-          const refund = charge.refunds?.data[0];
-          if (refund) {
-            await ctx.runMutation(internal.stripe.webhooks.handleRefund, {
-              paymentIntentId: charge.payment_intent as string,
-              refundAmount: refund.amount,
-            });
-          }
+          // A charge can be refunded more than once - pass every refund
+          // (the event doesn't include them) and let handleRefund skip
+          // the ones it has already recorded
+          const refunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+          await ctx.runMutation(internal.stripe.webhooks.handleRefund, {
+            paymentIntentId: charge.payment_intent as string,
+            refunds: refunds.data
+              .filter((refund) => refund.status !== "failed" && refund.status !== "canceled")
+              .map((refund) => ({ id: refund.id, amount: refund.amount })),
+          });
           break;
         }
 
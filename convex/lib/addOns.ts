@@ -0,0 +1,148 @@
+/**
+ * Add-ons & Extras
+ *
+ * Extras a listing sells alongside its tickets: GoPro rental, lunch, hotel
+ * transfers... An add-on is priced per guest (the customer picks how many,
+ * up to the number of guests) or per booking (one for the whole group).
+ * Add-ons with an inventory only have that many units per session.
+ *
+ * Add-ons are priced in the listing's currency and aren't affected by
+ * pricing rules. Bookings keep a snapshot of what was bought, in THB.
+ */
+
+import { v, Infer } from "convex/values";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const addOnPricingValidator = v.union(
+  v.literal("per_guest"),     // Up to one per guest
+  v.literal("per_booking")    // One for the whole booking
+);
+
+export const addOnValidator = v.object({
+  id: v.string(),                       // Stable key referenced by bookings
+  name: v.string(),                     // "GoPro rental", "Thai lunch", "Hotel transfer"
+  description: v.optional(v.string()),
+  price: v.number(),                    // Price per unit in the listing's currency
+  pricing: addOnPricingValidator,
+  inventory: v.optional(v.number()),    // Units available per session (unlimited if unset)
+});
+
+export const addOnSelectionValidator = v.object({
+  addOnId: v.string(),
+  quantity: v.number(),
+});
+
+// Snapshot of what was bought, stored on the booking
+export const addOnItemValidator = v.object({
+  addOnId: v.string(),
+  name: v.string(),
+  quantity: v.number(),
+  unitPrice: v.number(),                // THB per unit at time of booking
+});
+
+export type AddOnPricing = Infer<typeof addOnPricingValidator>;
+export type AddOn = Infer<typeof addOnValidator>;
+export type AddOnSelection = Infer<typeof addOnSelectionValidator>;
+export type AddOnItem = Infer<typeof addOnItemValidator>;
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const ADD_ON_PRICING_LABELS: Record<AddOnPricing, string> = {
+  per_guest: "Per guest",
+  per_booking: "Per booking",
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Throws if add-ons are incomplete or ambiguous
+ */
+export function validateAddOns(addOns: AddOn[]) {
+  const ids = new Set<string>();
+  for (const addOn of addOns) {
+    if (!addOn.id.trim() || !addOn.name.trim()) {
+      throw new Error("Add-ons need an id and a name");
+    }
+    if (ids.has(addOn.id)) {
+      throw new Error(`Duplicate add-on: ${addOn.id}`);
+    }
+    if (addOn.price < 0) {
+      throw new Error(`Price for ${addOn.name} cannot be negative`);
+    }
+    if (addOn.inventory !== undefined && (!Number.isInteger(addOn.inventory) || addOn.inventory < 0)) {
+      throw new Error(`Inventory for ${addOn.name} must be a whole number`);
+    }
+    ids.add(addOn.id);
+  }
+}
+
+/**
+ * Most units of an add-on one booking can take
+ */
+export function getMaxAddOnQuantity(addOn: AddOn, guests: number): number {
+  return addOn.pricing === "per_booking" ? 1 : guests;
+}
+
+/**
+ * Price an add-on selection against a listing's add-ons
+ * Returns booking items and the total in the listing's currency
+ */
+export function priceAddOns(
+  addOns: AddOn[],
+  selections: AddOnSelection[],
+  guests: number
+): { items: AddOnItem[]; totalPrice: number } {
+  const items: AddOnItem[] = [];
+
+  for (const selection of selections) {
+    if (selection.quantity === 0) continue;
+    if (!Number.isInteger(selection.quantity) || selection.quantity < 0) {
+      throw new Error("Add-on quantities must be whole numbers");
+    }
+
+    const addOn = addOns.find((a) => a.id === selection.addOnId);
+    if (!addOn) {
+      throw new Error("This add-on is no longer available");
+    }
+    if (selection.quantity > getMaxAddOnQuantity(addOn, guests)) {
+      throw new Error(
+        addOn.pricing === "per_booking"
+          ? `${addOn.name} is one per booking`
+          : `You can add at most ${guests} ${addOn.name}`
+      );
+    }
+
+    items.push({
+      addOnId: addOn.id,
+      name: addOn.name,
+      quantity: selection.quantity,
+      unitPrice: addOn.price,
+    });
+  }
+
+  return {
+    items,
+    totalPrice: getAddOnsTotal(items),
+  };
+}
+
+/**
+ * What a booking's add-ons cost
+ */
+export function getAddOnsTotal(items: AddOnItem[]): number {
+  return items.reduce((total, item) => total + item.unitPrice * item.quantity, 0);
+}
+
+/**
+ * One-line summary of a booking's add-ons: "2 × GoPro rental, 1 × Hotel transfer"
+ */
+export function describeAddOns(items: AddOnItem[]): string {
+  return items.map((item) => `${item.quantity} × ${item.name}`).join(", ");
+}
@@ -0,0 +1,131 @@
+/**
+ * Attendance and No-Shows
+ *
+ * After a slot starts, vendors record whether each booking attended, didn't
+ * show up, or came with fewer guests than booked. A listing's no-show policy
+ * decides how much of the payment is refunded for guests who didn't come.
+ */
+
+import { v, Infer } from "convex/values";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const attendanceOutcomeValidator = v.union(
+  v.literal("attended"),   // Every guest came
+  v.literal("no_show"),    // Nobody came
+  v.literal("partial")     // Some of the guests came
+);
+
+export type AttendanceOutcome = Infer<typeof attendanceOutcomeValidator>;
+
+export const noShowPolicyValidator = v.object({
+  noShowRefundPercent: v.number(),   // Refunded when nobody shows up (0-100)
+  partialRefundPercent: v.number(),  // Refunded for each missing guest (0-100)
+});
+
+export type NoShowPolicy = Infer<typeof noShowPolicyValidator>;
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+// No-shows forfeit their payment unless the vendor says otherwise
+export const DEFAULT_NO_SHOW_POLICY: NoShowPolicy = {
+  noShowRefundPercent: 0,
+  partialRefundPercent: 0,
+};
+
+export const NO_SHOW_REFUND_OPTIONS = [0, 25, 50, 100];
+
+export const ATTENDANCE_LABELS: Record<AttendanceOutcome, string> = {
+  attended: "Attended",
+  no_show: "No-show",
+  partial: "Partial",
+};
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Throws if a no-show policy is out of range
+ */
+export function validateNoShowPolicy(policy: NoShowPolicy) {
+  for (const percent of [policy.noShowRefundPercent, policy.partialRefundPercent]) {
+    if (!Number.isInteger(percent) || percent < 0 || percent > 100) {
+      throw new Error("No-show refunds must be between 0 and 100%");
+    }
+  }
+}
+
+/**
+ * Throws if the guests who came don't fit the outcome
+ */
+export function validateAttendance(outcome: AttendanceOutcome, attendedGuests: number, guests: number) {
+  if (!Number.isInteger(attendedGuests) || attendedGuests < 0 || attendedGuests > guests) {
+    throw new Error(`Between 0 and ${guests} guests can attend this booking`);
+  }
+  if (outcome === "partial" && (attendedGuests === 0 || attendedGuests === guests)) {
+    throw new Error("A partial no-show needs some, but not all, guests to attend");
+  }
+}
+
+// ============================================
+// OUTCOMES
+// ============================================
+
+/**
+ * Guests who came for an outcome (partial needs the vendor's count)
+ */
+export function getAttendedGuests(outcome: AttendanceOutcome, guests: number, partialGuests?: number): number {
+  if (outcome === "attended") return guests;
+  if (outcome === "no_show") return 0;
+  return partialGuests ?? 0;
+}
+
+/**
+ * Outcome suggested by the check-ins on a booking
+ */
+export function suggestOutcome(guests: number, checkedIn: number): AttendanceOutcome {
+  if (checkedIn <= 0) return "no_show";
+  if (checkedIn >= guests) return "attended";
+  return "partial";
+}
+
+/**
+ * Refund owed under a listing's no-show policy
+ * @param amountPaid Amount paid for the booking in cents
+ * @returns Refund in cents
+ */
+export function getNoShowRefund(
+  policy: NoShowPolicy | undefined,
+  guests: number,
+  attendedGuests: number,
+  amountPaid: number
+): number {
+  const { noShowRefundPercent, partialRefundPercent } = policy ?? DEFAULT_NO_SHOW_POLICY;
+  if (guests <= 0 || attendedGuests >= guests) {
+    return 0;
+  }
+  if (attendedGuests <= 0) {
+    return Math.round(amountPaid * (noShowRefundPercent / 100));
+  }
+  const missingShare = (guests - attendedGuests) / guests;
+  return Math.round(amountPaid * missingShare * (partialRefundPercent / 100));
+}
+
+/**
+ * Human-readable summary of a policy (used in the listing form and booking modal)
+ */
+export function describeNoShowPolicy(policy: NoShowPolicy | undefined): string {
+  const { noShowRefundPercent, partialRefundPercent } = policy ?? DEFAULT_NO_SHOW_POLICY;
+  const noShow = noShowRefundPercent > 0
+    ? `No-shows are refunded ${noShowRefundPercent}%`
+    : "No-shows are not refunded";
+  const partial = partialRefundPercent > 0
+    ? `missing guests ${partialRefundPercent}% of their share`
+    : "missing guests are not refunded";
+  return `${noShow}; ${partial}.`;
+}
@@ -0,0 +1,120 @@
+/**
+ * Booking Questions
+ *
+ * Vendors can ask for information at booking time: the hotel for pickup,
+ * dietary needs, swimming ability, shoe size for rentals. A question is
+ * either free text or a choice from a list, and is asked once per booking
+ * or once for every guest.
+ *
+ * Answers are stored on the booking with the question label copied in, so
+ * later edits to the listing's questions don't change what was answered.
+ */
+
+import { v, Infer } from "convex/values";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const bookingQuestionValidator = v.object({
+  id: v.string(),                       // Stable key referenced by answers
+  label: v.string(),                    // "Hotel for pickup", "Shoe size"
+  type: v.union(v.literal("text"), v.literal("select")),
+  options: v.optional(v.array(v.string())), // Choices for select questions
+  perGuest: v.boolean(),                // Asked once for every guest
+  required: v.boolean(),
+});
+
+export const bookingAnswerInputValidator = v.object({
+  questionId: v.string(),
+  guestNumber: v.optional(v.number()),  // 1-based, per-guest questions only
+  value: v.string(),
+});
+
+// Snapshot of an answer, stored on the booking
+export const bookingAnswerValidator = v.object({
+  questionId: v.string(),
+  label: v.string(),                    // Question label at time of booking
+  guestNumber: v.optional(v.number()),
+  value: v.string(),
+});
+
+export type BookingQuestion = Infer<typeof bookingQuestionValidator>;
+export type BookingAnswerInput = Infer<typeof bookingAnswerInputValidator>;
+export type BookingAnswer = Infer<typeof bookingAnswerValidator>;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Throws if questions are incomplete or ambiguous
+ */
+export function validateBookingQuestions(questions: BookingQuestion[]) {
+  const ids = new Set<string>();
+  for (const question of questions) {
+    if (!question.id.trim() || !question.label.trim()) {
+      throw new Error("Booking questions need an id and a question");
+    }
+    if (ids.has(question.id)) {
+      throw new Error(`Duplicate booking question: ${question.id}`);
+    }
+    if (question.type === "select" && (!question.options || question.options.filter((o) => o.trim()).length < 2)) {
+      throw new Error(`"${question.label}" needs at least two choices`);
+    }
+    ids.add(question.id);
+  }
+}
+
+/**
+ * Check answers against a listing's questions for a booking of `guests` guests
+ * Returns the answers to store on the booking, in question order
+ */
+export function checkBookingAnswers(
+  questions: BookingQuestion[],
+  answers: BookingAnswerInput[],
+  guests: number
+): BookingAnswer[] {
+  const checked: BookingAnswer[] = [];
+
+  for (const question of questions) {
+    const guestNumbers = question.perGuest
+      ? Array.from({ length: guests }, (_, i) => i + 1)
+      : [undefined];
+
+    for (const guestNumber of guestNumbers) {
+      const answer = answers.find(
+        (a) => a.questionId === question.id && a.guestNumber === guestNumber
+      );
+      const value = answer?.value.trim() || "";
+
+      if (!value) {
+        if (question.required) {
+          throw new Error(
+            guestNumber
+              ? `Please answer "${question.label}" for guest ${guestNumber}`
+              : `Please answer "${question.label}"`
+          );
+        }
+        continue;
+      }
+
+      if (question.type === "select" && !question.options?.includes(value)) {
+        throw new Error(`"${value}" is not a choice for "${question.label}"`);
+      }
+
+      checked.push({ questionId: question.id, label: question.label, guestNumber, value });
+    }
+  }
+
+  return checked;
+}
+
+/**
+ * One-line answer, e.g. "Shoe size (guest 2): 42"
+ */
+export function formatBookingAnswer(answer: BookingAnswer): string {
+  return answer.guestNumber
+    ? `${answer.label} (guest ${answer.guestNumber}): ${answer.value}`
+    : `${answer.label}: ${answer.value}`;
+}
@@ -0,0 +1,72 @@
+/**
+ * Request to Book
+ *
+ * A listing in "request" mode doesn't confirm bookings straight away.
+ * The customer's card is authorized (not charged) and the vendor has a
+ * window of hours to approve or decline the request; the payment is
+ * captured on approval and released otherwise.
+ */
+
+import { v, Infer } from "convex/values";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const bookingModeValidator = v.union(
+  v.literal("instant"),   // Paid bookings are confirmed right away
+  v.literal("request")    // The vendor approves each booking
+);
+
+export type BookingMode = Infer<typeof bookingModeValidator>;
+
+export const approvalStatusValidator = v.union(
+  v.literal("requested"),  // Waiting for the vendor
+  v.literal("approved"),   // Payment captured (or being captured)
+  v.literal("declined"),   // Declined by the vendor
+  v.literal("expired"),    // The vendor didn't answer in time
+  v.literal("withdrawn")   // Cancelled by the customer while waiting
+);
+
+export type ApprovalStatus = Infer<typeof approvalStatusValidator>;
+
+// ============================================
+// APPROVAL WINDOW
+// ============================================
+
+export const DEFAULT_REQUEST_WINDOW_HOURS = 24;
+
+// Card authorizations lapse after about 7 days, so requests must be
+// answered well before that
+export const MAX_REQUEST_WINDOW_HOURS = 72;
+
+export const REQUEST_WINDOW_OPTIONS = [2, 6, 12, 24, 48, 72];
+
+/**
+ * Whether bookings for a listing need the vendor's approval
+ */
+export function requiresApproval(listing: { bookingMode?: BookingMode }): boolean {
+  return listing.bookingMode === "request";
+}
+
+/**
+ * Throws if an approval window is out of range
+ */
+export function validateRequestWindow(hours: number) {
+  if (!Number.isInteger(hours) || hours < 1 || hours > MAX_REQUEST_WINDOW_HOURS) {
+    throw new Error(`Approval window must be between 1 and ${MAX_REQUEST_WINDOW_HOURS} hours`);
+  }
+}
+
+/**
+ * When a request submitted now expires: after the listing's approval
+ * window, but never later than the activity start
+ */
+export function getRequestExpiry(
+  listing: { requestWindowHours?: number },
+  activityStart: number,
+  now: number = Date.now()
+): number {
+  const hours = listing.requestWindowHours ?? DEFAULT_REQUEST_WINDOW_HOURS;
+  return Math.min(now + hours * 60 * 60 * 1000, activityStart);
+}
@@ -0,0 +1,160 @@
+/**
+ * Cancellation Policy Engine
+ *
+ * Per-listing cancellation policies and refund calculation.
+ * A policy is a list of tiers: cancelling at least `minHoursBefore` hours
+ * before the activity starts refunds `refundPercent` of the amount paid.
+ * The first matching tier (highest `minHoursBefore`) wins; no match = no refund.
+ */
+
+import { v, Infer } from "convex/values";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const cancellationPolicyValidator = v.object({
+  name: v.union(
+    v.literal("flexible"),
+    v.literal("moderate"),
+    v.literal("strict"),
+    v.literal("non_refundable"),
+    v.literal("custom")
+  ),
+  tiers: v.array(v.object({
+    minHoursBefore: v.number(),      // Cancel at least this many hours before start
+    refundPercent: v.number(),       // 0-100
+  })),
+});
+
+export type CancellationPolicy = Infer<typeof cancellationPolicyValidator>;
+export type CancellationPolicyName = CancellationPolicy["name"];
+
+// ============================================
+// PRESETS
+// ============================================
+
+export const CANCELLATION_POLICY_PRESETS: Record<
+  Exclude<CancellationPolicyName, "custom">,
+  CancellationPolicy
+> = {
+  flexible: {
+    name: "flexible",
+    tiers: [{ minHoursBefore: 24, refundPercent: 100 }],
+  },
+  moderate: {
+    name: "moderate",
+    tiers: [
+      { minHoursBefore: 48, refundPercent: 100 },
+      { minHoursBefore: 24, refundPercent: 50 },
+    ],
+  },
+  strict: {
+    name: "strict",
+    tiers: [{ minHoursBefore: 7 * 24, refundPercent: 50 }],
+  },
+  non_refundable: {
+    name: "non_refundable",
+    tiers: [],
+  },
+};
+
+// Listings without a policy keep the platform's original promise (free cancellation 24h)
+export const DEFAULT_CANCELLATION_POLICY = CANCELLATION_POLICY_PRESETS.flexible;
+
+export const CANCELLATION_POLICY_LABELS: Record<CancellationPolicyName, string> = {
+  flexible: "Flexible",
+  moderate: "Moderate",
+  strict: "Strict",
+  non_refundable: "Non-refundable",
+  custom: "Custom",
+};
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Throws if a policy has out-of-range or duplicate tiers
+ */
+export function validateCancellationPolicy(policy: CancellationPolicy) {
+  const seen = new Set<number>();
+  for (const tier of policy.tiers) {
+    if (tier.minHoursBefore < 0) {
+      throw new Error("Cancellation tier hours must be zero or more");
+    }
+    if (tier.refundPercent < 0 || tier.refundPercent > 100) {
+      throw new Error("Cancellation refund percent must be between 0 and 100");
+    }
+    if (seen.has(tier.minHoursBefore)) {
+      throw new Error("Cancellation tiers must have distinct hour thresholds");
+    }
+    seen.add(tier.minHoursBefore);
+  }
+}
+
+// ============================================
+// REFUND CALCULATION
+// ============================================
+
+/**
+ * Start of an activity as a Unix timestamp
+ * Uses the slot start time when available, otherwise start of the booking date
+ */
+export function getActivityStartTime(date: string, startTime?: string): number {
+  return new Date(`${date}T${startTime || "00:00"}:00`).getTime();
+}
+
+/**
+ * Calculate the refund owed for a cancellation
+ * @param amountPaid Amount paid in cents
+ */
+export function calculateRefund(
+  policy: CancellationPolicy | undefined,
+  activityStart: number,
+  amountPaid: number,
+  cancelledAt: number = Date.now()
+): { refundPercent: number; refundAmount: number; hoursBeforeStart: number } {
+  const effectivePolicy = policy || DEFAULT_CANCELLATION_POLICY;
+  const hoursBeforeStart = (activityStart - cancelledAt) / (60 * 60 * 1000);
+
+  const tiers = [...effectivePolicy.tiers].sort(
+    (a, b) => b.minHoursBefore - a.minHoursBefore
+  );
+  const tier = tiers.find((t) => hoursBeforeStart >= t.minHoursBefore);
+
+  const refundPercent = tier ? tier.refundPercent : 0;
+  const refundAmount = Math.round(amountPaid * (refundPercent / 100));
+
+  return { refundPercent, refundAmount, hoursBeforeStart };
+}
+
+/**
+ * Human-readable lines describing a policy
+ * e.g. ["Full refund if cancelled 48+ hours before", "50% refund if cancelled 24+ hours before", "No refund after that"]
+ */
+export function describeCancellationPolicy(policy: CancellationPolicy | undefined): string[] {
+  const effectivePolicy = policy || DEFAULT_CANCELLATION_POLICY;
+
+  if (effectivePolicy.tiers.length === 0) {
+    return ["Non-refundable"];
+  }
+
+  const formatHours = (hours: number) =>
+    hours >= 48 && hours % 24 === 0 ? `${hours / 24} days` : `${hours} hours`;
+
+  const lines = [...effectivePolicy.tiers]
+    .sort((a, b) => b.minHoursBefore - a.minHoursBefore)
+    .map((tier) => {
+      const refund = tier.refundPercent === 100 ? "Full refund" : `${tier.refundPercent}% refund`;
+      return tier.minHoursBefore === 0
+        ? `${refund} until the activity starts`
+        : `${refund} if cancelled ${formatHours(tier.minHoursBefore)}+ before`;
+    });
+
+  if (effectivePolicy.tiers.every((t) => t.minHoursBefore > 0)) {
+    lines.push("No refund after that");
+  }
+
+  return lines;
+}
@@ -0,0 +1,184 @@
+/**
+ * Currencies and Exchange Rates
+ *
+ * The platform settles in THB: booking totals, payouts, vouchers and
+ * refunds are all kept in THB. Listings may be priced in another currency
+ * (converted to THB when booked), and customers can browse and pay in
+ * their own currency. Rates are stored as units of a currency per 1 THB.
+ */
+
+import { v, Infer } from "convex/values";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const currencyValidator = v.union(
+  v.literal("THB"),
+  v.literal("USD"),
+  v.literal("EUR"),
+  v.literal("GBP"),
+  v.literal("AUD")
+);
+
+export type Currency = Infer<typeof currencyValidator>;
+
+// Units of each currency per 1 THB
+export type ExchangeRates = Partial<Record<Currency, number>>;
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const BASE_CURRENCY: Currency = "THB";
+
+export const SUPPORTED_CURRENCIES: Currency[] = ["THB", "USD", "EUR", "GBP", "AUD"];
+
+export const CURRENCY_LABELS: Record<Currency, string> = {
+  THB: "Thai Baht",
+  USD: "US Dollar",
+  EUR: "Euro",
+  GBP: "British Pound",
+  AUD: "Australian Dollar",
+};
+
+const CURRENCY_SYMBOLS: Partial<Record<Currency, string>> = {
+  THB: "฿",
+};
+
+// ============================================
+// VALIDATION
+// ============================================
+
+export function isCurrency(code: string): code is Currency {
+  return (SUPPORTED_CURRENCIES as string[]).includes(code);
+}
+
+/**
+ * Throws if a rate can't be used for conversion
+ */
+export function validateRate(currency: Currency, rate: number) {
+  if (currency === BASE_CURRENCY && rate !== 1) {
+    throw new Error(`${BASE_CURRENCY} is the base currency and always has a rate of 1`);
+  }
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new Error(`The ${currency} rate must be a positive number`);
+  }
+}
+
+/**
+ * Parse an exchange rate file: a JSON object of rates per 1 THB (optionally
+ * under a "rates" key, as rate APIs export them) or CSV lines of
+ * "currency,rate". Unsupported currencies are skipped; bad rates throw.
+ */
+export function parseRatesFile(text: string): Array<{ currency: Currency; rate: number }> {
+  let entries: Array<[string, unknown]>;
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{")) {
+    const parsed = JSON.parse(trimmed);
+    entries = Object.entries(parsed.rates ?? parsed);
+  } else {
+    entries = trimmed
+      .split(/\r?\n/)
+      .map((line) => line.split(",").map((cell) => cell.trim()))
+      .filter((cells) => cells.length >= 2 && !/^currency$/i.test(cells[0]))
+      .map((cells) => [cells[0], cells[1]]);
+  }
+
+  const rates: Array<{ currency: Currency; rate: number }> = [];
+  for (const [code, value] of entries) {
+    const currency = code.toUpperCase();
+    if (!isCurrency(currency) || currency === BASE_CURRENCY) continue;
+
+    const rate = Number(value);
+    validateRate(currency, rate);
+    rates.push({ currency, rate });
+  }
+
+  if (rates.length === 0) {
+    throw new Error("No supported currencies found in the file");
+  }
+  return rates;
+}
+
+// ============================================
+// CONVERSION
+// ============================================
+
+/**
+ * Units of a currency per 1 THB; throws if no rate is set
+ */
+export function getRate(rates: ExchangeRates, currency: Currency): number {
+  if (currency === BASE_CURRENCY) return 1;
+  const rate = rates[currency];
+  if (!rate) {
+    throw new Error(`No exchange rate set for ${currency}`);
+  }
+  return rate;
+}
+
+/**
+ * Convert an amount between currencies, rounded to 2 decimals
+ */
+export function convertAmount(
+  amount: number,
+  from: Currency,
+  to: Currency,
+  rates: ExchangeRates
+): number {
+  if (from === to) return amount;
+  const converted = (amount / getRate(rates, from)) * getRate(rates, to);
+  return Math.round(converted * 100) / 100;
+}
+
+/**
+ * Settlement cents (THB) in the presentment currency at a rate
+ */
+export function toPresentmentCents(settlementCents: number, exchangeRate: number): number {
+  return Math.round(settlementCents * exchangeRate);
+}
+
+/**
+ * Presentment cents back in settlement cents (THB) for a payment; a refund
+ * of everything charged maps back to exactly the settled amount
+ */
+export function toSettlementCents(
+  payment: { amount: number; presentmentAmount?: number; exchangeRate?: number },
+  presentmentCents: number
+): number {
+  if (!payment.exchangeRate || payment.presentmentAmount === undefined) {
+    return presentmentCents;
+  }
+  if (presentmentCents >= payment.presentmentAmount) {
+    return payment.amount;
+  }
+  return Math.round(presentmentCents / payment.exchangeRate);
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+
+/**
+ * Format an amount (in whole units, not cents) for display
+ */
+export function formatMoney(amount: number, currency: Currency): string {
+  const decimals = Number.isInteger(amount) ? 0 : 2;
+  const number = amount.toLocaleString("en-US", {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: 2,
+  });
+
+  const symbol = CURRENCY_SYMBOLS[currency];
+  if (symbol) {
+    return `${symbol}${number}`;
+  }
+
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
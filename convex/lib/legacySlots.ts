@@ -0,0 +1,94 @@
+/**
+ * Legacy Time Slots
+ *
+ * Before the slot model, bookings were made for a date plus a coarse
+ * `timeSlot` (morning, afternoon, evening or full day) and checked against
+ * the listing's maxCapacity and the `availabilityBlocks` table. The legacy
+ * migration turns each listing/date/timeSlot into a real slot at the times
+ * below and reports anything that doesn't fit cleanly.
+ */
+
+import { v, Infer } from "convex/values";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const legacyTimeSlotValidator = v.union(
+  v.literal("morning"),
+  v.literal("afternoon"),
+  v.literal("evening"),
+  v.literal("full_day")
+);
+
+export type LegacyTimeSlot = Infer<typeof legacyTimeSlotValidator>;
+
+export type LegacyConflictKind =
+  | "overbooked"       // More guests than the capacity they were booked against
+  | "overlap"          // Overlaps another slot on the same day
+  | "block_mismatch"   // The block's booked count disagrees with its bookings
+  | "missing_listing"; // The listing was deleted
+
+export interface LegacyConflict {
+  kind: LegacyConflictKind;
+  listingId: string;
+  date: string;
+  timeSlot: LegacyTimeSlot;
+  message: string;
+}
+
+// ============================================
+// SLOT TIMES
+// ============================================
+
+export const LEGACY_SLOT_TIMES: Record<LegacyTimeSlot, { startTime: string; endTime: string }> = {
+  morning: { startTime: "08:00", endTime: "12:00" },
+  afternoon: { startTime: "13:00", endTime: "17:00" },
+  evening: { startTime: "18:00", endTime: "21:00" },
+  full_day: { startTime: "08:00", endTime: "17:00" },
+};
+
+export const LEGACY_CONFLICT_LABELS: Record<LegacyConflictKind, string> = {
+  overbooked: "Overbooked",
+  overlap: "Overlapping slots",
+  block_mismatch: "Block count mismatch",
+  missing_listing: "Listing deleted",
+};
+
+/**
+ * Whether two "HH:MM" time ranges on the same day overlap
+ */
+export function timesOverlap(
+  a: { startTime: string; endTime: string },
+  b: { startTime: string; endTime: string }
+): boolean {
+  return a.startTime < b.endTime && b.startTime < a.endTime;
+}
+
+/**
+ * Capacity a legacy slot was booked against: the block's spots when the
+ * vendor set one up, otherwise the listing's maximum
+ */
+export function getLegacyCapacity(
+  maxCapacity: number,
+  block?: { availableSpots: number; bookedSpots: number } | null
+): number {
+  if (!block) {
+    return maxCapacity;
+  }
+  return block.availableSpots + block.bookedSpots;
+}
+
+/**
+ * Status for a migrated slot: past days are completed, and a block with no
+ * spots left open was the vendor closing the day
+ */
+export function getMigratedSlotStatus(
+  date: string,
+  today: string,
+  capacity: number
+): "active" | "blocked" | "completed" {
+  if (date < today) return "completed";
+  if (capacity <= 0) return "blocked";
+  return "active";
+}
@@ -0,0 +1,128 @@
+/**
+ * Packages
+ *
+ * Bundles of activities sold together at a package price, like a
+ * "3-day Phangan adventure". Each component is a listing on a day of the
+ * package, either a fixed slot or whichever slot an availability rule has
+ * on that day. The package price is split between the component bookings
+ * in proportion to what they would cost on their own, so every vendor is
+ * paid (and charged commission) on their share.
+ */
+
+import { v, Infer } from "convex/values";
+import { bookingAnswerInputValidator } from "./bookingQuestions";
+import { pickupRequestValidator } from "./pickups";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const packageComponentValidator = v.object({
+  listingId: v.id("listings"),
+  day: v.number(),                                  // 1 = the package's first day
+  ruleId: v.optional(v.id("availabilityRules")),    // Take this rule's slot on the day
+  slotId: v.optional(v.id("slots")),                // Or a fixed slot (fixed-date packages)
+  note: v.optional(v.string()),                     // "Lunch included", "Pickup 8am"
+});
+
+export type PackageComponent = Infer<typeof packageComponentValidator>;
+
+// What the customer fills in for one activity, in component order
+export const packageStopInputValidator = v.object({
+  answers: v.optional(v.array(bookingAnswerInputValidator)), // The listing's booking questions
+  pickup: v.optional(pickupRequestValidator),                // Hotel pickup, if offered
+});
+
+export type PackageStopInput = Infer<typeof packageStopInputValidator>;
+
+export const packageBookingStatusValidator = v.union(
+  v.literal("pending"),      // Seats held, awaiting payment
+  v.literal("confirmed"),    // Paid
+  v.literal("cancelled")     // Payment failed or abandoned
+);
+
+export type PackageBookingStatus = Infer<typeof packageBookingStatusValidator>;
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const MAX_PACKAGE_COMPONENTS = 10;
+export const MAX_PACKAGE_DAYS = 14;
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Throws if a package's details or components are incomplete
+ */
+export function validatePackage(pkg: {
+  name: string;
+  price: number;
+  durationDays: number;
+  components: PackageComponent[];
+}) {
+  if (!pkg.name.trim()) {
+    throw new Error("Package name is required");
+  }
+  if (!Number.isFinite(pkg.price) || pkg.price <= 0) {
+    throw new Error("Package price must be more than 0");
+  }
+  if (!Number.isInteger(pkg.durationDays) || pkg.durationDays < 1 || pkg.durationDays > MAX_PACKAGE_DAYS) {
+    throw new Error(`A package lasts between 1 and ${MAX_PACKAGE_DAYS} days`);
+  }
+  if (pkg.components.length < 2) {
+    throw new Error("A package needs at least two activities");
+  }
+  if (pkg.components.length > MAX_PACKAGE_COMPONENTS) {
+    throw new Error(`A package can have at most ${MAX_PACKAGE_COMPONENTS} activities`);
+  }
+  for (const component of pkg.components) {
+    if (!Number.isInteger(component.day) || component.day < 1 || component.day > pkg.durationDays) {
+      throw new Error(`Every activity needs a day between 1 and ${pkg.durationDays}`);
+    }
+  }
+}
+
+/**
+ * Whether every component is a fixed slot (the package has set dates)
+ */
+export function hasFixedDates(components: PackageComponent[]): boolean {
+  return components.every((component) => !!component.slotId);
+}
+
+// ============================================
+// ITINERARY & PRICING
+// ============================================
+
+/**
+ * The date (YYYY-MM-DD) of a package day, counting from its start date
+ */
+export function getPackageDayDate(startDate: string, day: number): string {
+  const date = new Date(`${startDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + day - 1);
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Split a total (THB) between components in proportion to their weights
+ * (what each would cost on its own). Shares are rounded to satang and the
+ * last share absorbs the rounding so they add up to the total exactly.
+ */
+export function splitPackagePrice(total: number, weights: number[]): number[] {
+  const totalCents = Math.round(total * 100);
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let allocated = 0;
+  return weights.map((weight, index) => {
+    if (index === weights.length - 1) {
+      return (totalCents - allocated) / 100;
+    }
+    const share = weightSum > 0
+      ? Math.round((totalCents * weight) / weightSum)
+      : Math.round(totalCents / weights.length);
+    allocated += share;
+    return share / 100;
+  });
+}
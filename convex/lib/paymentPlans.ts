@@ -0,0 +1,161 @@
+/**
+ * Payment Plans
+ *
+ * A listing's payment plan decides how much of a booking is charged up
+ * front. "full" charges everything at booking; a deposit plan charges a
+ * fixed amount or a percentage up front and the balance later - either
+ * automatically from the saved card a set number of days before the
+ * activity, or in person at the venue.
+ */
+
+import { v, Infer } from "convex/values";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const balanceCollectionValidator = v.union(
+  v.literal("card"),    // Charged automatically from the saved card
+  v.literal("venue")    // Paid in person at the activity
+);
+
+export type BalanceCollection = Infer<typeof balanceCollectionValidator>;
+
+export const paymentPlanValidator = v.object({
+  type: v.union(
+    v.literal("full"),
+    v.literal("fixed_deposit"),
+    v.literal("percent_deposit")
+  ),
+  depositAmount: v.optional(v.number()),    // THB per booking (fixed_deposit)
+  depositPercent: v.optional(v.number()),   // 1-99 (percent_deposit)
+  balanceDueDays: v.optional(v.number()),   // Days before the activity the card is charged
+  balanceCollection: v.optional(balanceCollectionValidator),
+});
+
+export type PaymentPlan = Infer<typeof paymentPlanValidator>;
+export type PaymentPlanType = PaymentPlan["type"];
+
+export const depositBalanceStatusValidator = v.union(
+  v.literal("scheduled"),     // Card is charged on the due date
+  v.literal("processing"),    // Charge in progress
+  v.literal("paid"),          // Charged (automatically or by the customer)
+  v.literal("failed"),        // Automatic charge failed - the customer pays it
+  v.literal("due_at_venue"),  // Paid in person at the activity
+  v.literal("collected")      // Collected at the venue by the vendor
+);
+
+export type DepositBalanceStatus = Infer<typeof depositBalanceStatusValidator>;
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const FULL_PAYMENT_PLAN: PaymentPlan = { type: "full" };
+
+export const DEFAULT_BALANCE_DUE_DAYS = 7;
+export const MAX_BALANCE_DUE_DAYS = 60;
+
+export const PAYMENT_PLAN_LABELS: Record<PaymentPlanType, string> = {
+  full: "Pay in Full",
+  fixed_deposit: "Fixed Deposit",
+  percent_deposit: "Percentage Deposit",
+};
+
+/**
+ * Whether a plan leaves a balance to pay after booking
+ */
+export function isDepositPlan(plan: PaymentPlan | undefined): plan is PaymentPlan {
+  return !!plan && plan.type !== "full";
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Throws if a payment plan is incomplete or out of range
+ */
+export function validatePaymentPlan(plan: PaymentPlan) {
+  if (plan.type === "fixed_deposit" && !(plan.depositAmount && plan.depositAmount > 0)) {
+    throw new Error("Fixed deposits need an amount greater than zero");
+  }
+  if (
+    plan.type === "percent_deposit" &&
+    !(plan.depositPercent && plan.depositPercent >= 1 && plan.depositPercent <= 99)
+  ) {
+    throw new Error("Deposit percentage must be between 1 and 99");
+  }
+  if (
+    plan.balanceDueDays !== undefined &&
+    (!Number.isInteger(plan.balanceDueDays) || plan.balanceDueDays < 0 || plan.balanceDueDays > MAX_BALANCE_DUE_DAYS)
+  ) {
+    throw new Error(`Balance must be due between 0 and ${MAX_BALANCE_DUE_DAYS} days before the activity`);
+  }
+}
+
+// ============================================
+// DEPOSIT CALCULATION
+// ============================================
+
+/**
+ * Deposit charged at booking for an amount due
+ * @param amountDue Amount to pay in cents
+ * @returns Deposit in cents (the whole amount for "full" plans)
+ */
+export function getDepositAmount(plan: PaymentPlan | undefined, amountDue: number): number {
+  if (!isDepositPlan(plan)) {
+    return amountDue;
+  }
+  const deposit = plan.type === "fixed_deposit"
+    ? Math.round((plan.depositAmount || 0) * 100)
+    : Math.round(amountDue * ((plan.depositPercent || 0) / 100));
+  return Math.min(Math.max(deposit, 0), amountDue);
+}
+
+/**
+ * When the balance is charged to the saved card (or paid, at the venue)
+ */
+export function getBalanceDueAt(plan: PaymentPlan, activityStart: number): number {
+  if (plan.balanceCollection === "venue") {
+    return activityStart;
+  }
+  const days = plan.balanceDueDays ?? DEFAULT_BALANCE_DUE_DAYS;
+  return activityStart - days * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Platform commission on the balance, in proportion to its share of the
+ * amount charged. The rest of the commission is taken from the deposit.
+ */
+export function getBalanceCommission(
+  applicationFeeAmount: number,
+  amount: number,
+  balanceAmount: number
+): number {
+  return amount > 0 ? Math.round(applicationFeeAmount * (balanceAmount / amount)) : 0;
+}
+
+/**
+ * When and how the balance of a deposit plan is paid
+ */
+export function describeBalance(plan: PaymentPlan): string {
+  if (plan.balanceCollection === "venue") {
+    return "balance paid at the venue";
+  }
+  const days = plan.balanceDueDays ?? DEFAULT_BALANCE_DUE_DAYS;
+  return `balance charged to your card ${days} day${days === 1 ? "" : "s"} before the activity`;
+}
+
+/**
+ * Human-readable summary of a plan (used in the listing form and booking modal)
+ */
+export function describePaymentPlan(plan: PaymentPlan | undefined): string {
+  if (!isDepositPlan(plan)) {
+    return "Paid in full at booking";
+  }
+  const deposit = plan.type === "fixed_deposit"
+    ? `฿${plan.depositAmount} deposit`
+    : `${plan.depositPercent}% deposit`;
+  return `${deposit} at booking, ${describeBalance(plan)}`;
+}
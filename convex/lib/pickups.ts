@@ -0,0 +1,146 @@
+/**
+ * Hotel Pickup Zones
+ *
+ * Listings that collect guests from their accommodation define pickup zones
+ * on the map: a centre and radius, a pickup fee per booking and how long
+ * before the activity starts the pickup happens in that zone. Customers
+ * drop a pin on where they're staying, and the first zone (in the vendor's
+ * route order) that covers it decides the fee and the pickup time.
+ *
+ * Pickup fees are in the listing's currency; bookings keep a snapshot of
+ * the pickup, with the fee in THB.
+ */
+
+import { v, Infer } from "convex/values";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const pickupZoneValidator = v.object({
+  id: v.string(),                 // Stable key referenced by bookings
+  name: v.string(),               // "Haad Rin", "Thong Sala"
+  latitude: v.number(),           // Zone centre
+  longitude: v.number(),
+  radiusKm: v.number(),
+  fee: v.number(),                // Per booking in the listing's currency (0 = free)
+  offsetMinutes: v.number(),      // Pickup this long before the activity starts
+});
+
+// What the customer enters at booking
+export const pickupRequestValidator = v.object({
+  location: v.string(),           // Hotel or accommodation name / address
+  latitude: v.number(),
+  longitude: v.number(),
+});
+
+// Snapshot stored on the booking
+export const pickupValidator = v.object({
+  zoneId: v.string(),
+  zoneName: v.string(),
+  location: v.string(),
+  latitude: v.number(),
+  longitude: v.number(),
+  fee: v.number(),                // THB at time of booking (included in totalPrice)
+  pickupTime: v.string(),         // HH:MM on the activity date
+});
+
+export type PickupZone = Infer<typeof pickupZoneValidator>;
+export type PickupRequest = Infer<typeof pickupRequestValidator>;
+export type Pickup = Infer<typeof pickupValidator>;
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const DEFAULT_PICKUP_RADIUS_KM = 3;
+export const DEFAULT_PICKUP_OFFSET_MINUTES = 30;
+export const MAX_PICKUP_OFFSET_MINUTES = 240;
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Throws if pickup zones are incomplete or out of range
+ */
+export function validatePickupZones(zones: PickupZone[]) {
+  const ids = new Set<string>();
+  for (const zone of zones) {
+    if (!zone.id.trim() || !zone.name.trim()) {
+      throw new Error("Pickup zones need an id and a name");
+    }
+    if (ids.has(zone.id)) {
+      throw new Error(`Duplicate pickup zone: ${zone.id}`);
+    }
+    if (Math.abs(zone.latitude) > 90 || Math.abs(zone.longitude) > 180) {
+      throw new Error(`Choose a location on the map for ${zone.name}`);
+    }
+    if (!(zone.radiusKm > 0)) {
+      throw new Error(`The radius of ${zone.name} must be more than 0 km`);
+    }
+    if (zone.fee < 0) {
+      throw new Error(`Pickup fee for ${zone.name} cannot be negative`);
+    }
+    if (!Number.isInteger(zone.offsetMinutes) || zone.offsetMinutes < 0 || zone.offsetMinutes > MAX_PICKUP_OFFSET_MINUTES) {
+      throw new Error(`Pickup in ${zone.name} must be 0-${MAX_PICKUP_OFFSET_MINUTES} minutes before the start`);
+    }
+    ids.add(zone.id);
+  }
+}
+
+// ============================================
+// ZONES & TIMES
+// ============================================
+
+/**
+ * Distance in km between two points (haversine)
+ */
+export function distanceKm(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * The first zone (in route order) that covers a location, if any
+ */
+export function findPickupZone(
+  zones: PickupZone[],
+  location: { latitude: number; longitude: number }
+): PickupZone | null {
+  return zones.find((zone) => distanceKm(zone, location) <= zone.radiusKm) ?? null;
+}
+
+/**
+ * Pickup time (HH:MM) for an activity starting at startTime
+ * Times before midnight wrap to the previous evening.
+ */
+export function getPickupTime(startTime: string, offsetMinutes: number): string {
+  const [hours, minutes] = startTime.split(":").map(Number);
+  const total = (((hours * 60 + minutes - offsetMinutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Order pickups for the run sheet: by zone in the vendor's route order,
+ * then by pickup time. Pickups in zones since removed go last.
+ */
+export function sortPickupRun<T extends { pickup: Pickup }>(stops: T[], zones: PickupZone[]): T[] {
+  const zoneOrder = (zoneId: string) => {
+    const index = zones.findIndex((zone) => zone.id === zoneId);
+    return index === -1 ? zones.length : index;
+  };
+  return [...stops].sort(
+    (a, b) =>
+      zoneOrder(a.pickup.zoneId) - zoneOrder(b.pickup.zoneId) ||
+      a.pickup.pickupTime.localeCompare(b.pickup.pickupTime)
+  );
+}
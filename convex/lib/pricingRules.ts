@@ -0,0 +1,222 @@
+/**
+ * Dynamic Pricing Rules
+ *
+ * Vendors can raise or lower a listing's prices for particular slots: on
+ * peak dates (Full Moon weekends, high season), on certain weekdays, once a
+ * slot is filling up, or in the last hours before it starts. Every rule that
+ * matches a slot applies and their percentages add up; the result is applied
+ * to each ticket type's price.
+ */
+
+import { v, Infer } from "convex/values";
+import { getActivityStartTime } from "./cancellationPolicy";
+import { LineItem } from "./ticketTypes";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const pricingRuleKindValidator = v.union(
+  v.literal("date_range"),   // Slots between two dates
+  v.literal("weekdays"),     // Slots on certain days of the week
+  v.literal("occupancy"),    // Slots at least some % booked
+  v.literal("last_minute")   // Slots starting within some hours
+);
+
+export type PricingRuleKind = Infer<typeof pricingRuleKindValidator>;
+
+export const pricingRuleValidator = v.object({
+  id: v.string(),
+  name: v.string(),                           // "Full Moon weekend"
+  kind: pricingRuleKindValidator,
+  adjustmentPercent: v.number(),              // +25 charges 25% more, -20 takes 20% off
+  startDate: v.optional(v.string()),          // date_range: YYYY-MM-DD, inclusive
+  endDate: v.optional(v.string()),            // date_range: YYYY-MM-DD, inclusive
+  weekdays: v.optional(v.array(v.number())),  // weekdays: 0 = Sunday ... 6 = Saturday
+  minOccupancyPercent: v.optional(v.number()),// occupancy: applies from this % booked
+  hoursBefore: v.optional(v.number()),        // last_minute: applies within this many hours of the start
+});
+
+export type PricingRule = Infer<typeof pricingRuleValidator>;
+
+export interface SlotPricing {
+  adjustment: number;       // Total % applied to ticket prices
+  appliedRules: string[];   // Names of the rules that matched
+}
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const MAX_PRICING_RULES = 10;
+
+// Rules can't take more than this off, together or alone
+export const MAX_DISCOUNT_PERCENT = 90;
+
+export const PRICING_RULE_LABELS: Record<PricingRuleKind, string> = {
+  date_range: "Dates",
+  weekdays: "Weekdays",
+  occupancy: "Occupancy",
+  last_minute: "Last minute",
+};
+
+export const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Throws if any pricing rule is incomplete or out of range
+ */
+export function validatePricingRules(rules: PricingRule[]) {
+  if (rules.length > MAX_PRICING_RULES) {
+    throw new Error(`A listing can have at most ${MAX_PRICING_RULES} pricing rules`);
+  }
+
+  const ids = new Set<string>();
+  for (const rule of rules) {
+    if (!rule.name.trim()) {
+      throw new Error("Every pricing rule needs a name");
+    }
+    if (ids.has(rule.id)) {
+      throw new Error("Pricing rule IDs must be unique");
+    }
+    ids.add(rule.id);
+
+    if (
+      !Number.isFinite(rule.adjustmentPercent) ||
+      rule.adjustmentPercent === 0 ||
+      rule.adjustmentPercent < -MAX_DISCOUNT_PERCENT ||
+      rule.adjustmentPercent > 500
+    ) {
+      throw new Error(`"${rule.name}" needs an adjustment between -${MAX_DISCOUNT_PERCENT}% and +500%`);
+    }
+
+    switch (rule.kind) {
+      case "date_range":
+        if (!rule.startDate || !rule.endDate || rule.endDate < rule.startDate) {
+          throw new Error(`"${rule.name}" needs a start date on or before its end date`);
+        }
+        break;
+      case "weekdays":
+        if (
+          !rule.weekdays ||
+          rule.weekdays.length === 0 ||
+          rule.weekdays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)
+        ) {
+          throw new Error(`"${rule.name}" needs at least one weekday`);
+        }
+        break;
+      case "occupancy":
+        if (
+          rule.minOccupancyPercent === undefined ||
+          rule.minOccupancyPercent <= 0 ||
+          rule.minOccupancyPercent > 100
+        ) {
+          throw new Error(`"${rule.name}" needs an occupancy between 1 and 100%`);
+        }
+        break;
+      case "last_minute":
+        if (rule.hoursBefore === undefined || rule.hoursBefore <= 0) {
+          throw new Error(`"${rule.name}" needs a number of hours before the start`);
+        }
+        break;
+    }
+  }
+}
+
+// ============================================
+// PRICING
+// ============================================
+
+/**
+ * Whether a rule matches a slot at a moment in time
+ */
+export function ruleApplies(
+  rule: PricingRule,
+  slot: { date: string; startTime: string; booked: number; capacity: number },
+  now: number
+): boolean {
+  switch (rule.kind) {
+    case "date_range":
+      return slot.date >= rule.startDate! && slot.date <= rule.endDate!;
+    case "weekdays":
+      return rule.weekdays!.includes(new Date(`${slot.date}T00:00:00`).getDay());
+    case "occupancy":
+      return slot.capacity > 0 && (slot.booked / slot.capacity) * 100 >= rule.minOccupancyPercent!;
+    case "last_minute": {
+      const untilStart = getActivityStartTime(slot.date, slot.startTime) - now;
+      return untilStart > 0 && untilStart <= rule.hoursBefore! * 60 * 60 * 1000;
+    }
+  }
+}
+
+/**
+ * The adjustment a listing's rules give a slot right now
+ */
+export function getSlotPricing(
+  rules: PricingRule[] | undefined,
+  slot: { date: string; startTime: string; booked: number; capacity: number },
+  now: number = Date.now()
+): SlotPricing {
+  const matching = (rules || []).filter((rule) => ruleApplies(rule, slot, now));
+  const total = matching.reduce((sum, rule) => sum + rule.adjustmentPercent, 0);
+
+  return {
+    adjustment: Math.max(-MAX_DISCOUNT_PERCENT, total),
+    appliedRules: matching.map((rule) => rule.name),
+  };
+}
+
+/**
+ * A price after an adjustment, rounded to 2 decimals
+ */
+export function adjustPrice(price: number, adjustment: number): number {
+  return Math.round(price * (1 + adjustment / 100) * 100) / 100;
+}
+
+/**
+ * Apply a slot's adjustment to priced tickets (see priceTickets)
+ */
+export function applyPriceAdjustment<T extends { lineItems: LineItem[]; totalPrice: number }>(
+  pricing: T,
+  adjustment: number
+): T {
+  if (!adjustment) {
+    return pricing;
+  }
+
+  const lineItems = pricing.lineItems.map((item) => ({
+    ...item,
+    unitPrice: adjustPrice(item.unitPrice, adjustment),
+  }));
+
+  return {
+    ...pricing,
+    lineItems,
+    totalPrice: lineItems.reduce((total, item) => total + item.unitPrice * item.quantity, 0),
+  };
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+
+/**
+ * Human-readable summary, e.g. "-20% · within 6h of the start"
+ */
+export function describePricingRule(rule: PricingRule): string {
+  const adjustment = `${rule.adjustmentPercent > 0 ? "+" : ""}${rule.adjustmentPercent}%`;
+
+  switch (rule.kind) {
+    case "date_range":
+      return `${adjustment} · ${rule.startDate} to ${rule.endDate}`;
+    case "weekdays":
+      return `${adjustment} · ${(rule.weekdays || []).map((day) => WEEKDAY_NAMES[day]).join(", ")}`;
+    case "occupancy":
+      return `${adjustment} · once ${rule.minOccupancyPercent}% booked`;
+    case "last_minute":
+      return `${adjustment} · within ${rule.hoursBefore}h of the start`;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Promo Codes
+ *
+ * Discount codes are either platform-funded (created by admins, the platform
+ * absorbs the discount and the vendor is paid as if the full price was charged)
+ * or vendor-funded (created by a vendor for their own listings, the vendor
+ * absorbs the discount and commission is taken on the discounted price).
+ */
+
+import { v } from "convex/values";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const promoDiscountTypeValidator = v.union(
+  v.literal("percentage"),
+  v.literal("fixed")
+);
+
+export const promoFundedByValidator = v.union(
+  v.literal("platform"),
+  v.literal("vendor")
+);
+
+export type PromoDiscountType = "percentage" | "fixed";
+export type PromoFundedBy = "platform" | "vendor";
+
+export interface PromoCodeRules {
+  discountType: PromoDiscountType;
+  discountValue: number;               // Percent off, or THB off
+  minGuests?: number;
+  maxUses?: number;
+  maxUsesPerCustomer?: number;
+  startsAt?: number;                   // Unix timestamp
+  endsAt?: number;                     // Unix timestamp
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Codes are matched case-insensitively and stored upper case
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Throws if a promo code definition is invalid
+ */
+export function validatePromoCodeRules(code: string, rules: PromoCodeRules) {
+  if (!/^[A-Z0-9_-]{3,32}$/.test(normalizePromoCode(code))) {
+    throw new Error("Promo codes must be 3-32 letters, numbers, dashes or underscores");
+  }
+  if (rules.discountValue <= 0) {
+    throw new Error("Discount must be greater than zero");
+  }
+  if (rules.discountType === "percentage" && rules.discountValue >= 100) {
+    throw new Error("Percentage discounts must be less than 100%");
+  }
+  for (const limit of [rules.minGuests, rules.maxUses, rules.maxUsesPerCustomer]) {
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      throw new Error("Guest and usage limits must be whole numbers of at least 1");
+    }
+  }
+  if (rules.startsAt !== undefined && rules.endsAt !== undefined && rules.endsAt <= rules.startsAt) {
+    throw new Error("Promo code must end after it starts");
+  }
+}
+
+/**
+ * Discount in THB for a booking subtotal in THB, never more than the subtotal
+ */
+export function calculateDiscount(
+  rules: Pick<PromoCodeRules, "discountType" | "discountValue">,
+  subtotal: number
+): number {
+  const discount =
+    rules.discountType === "percentage"
+      ? Math.round(subtotal * rules.discountValue) / 100
+      : rules.discountValue;
+
+  return Math.min(discount, subtotal);
+}
+
+/**
+ * Short human readable discount, e.g. "15% off" or "฿200 off"
+ */
+export function describePromoDiscount(
+  rules: Pick<PromoCodeRules, "discountType" | "discountValue">
+): string {
+  return rules.discountType === "percentage"
+    ? `${rules.discountValue}% off`
+    : `฿${rules.discountValue} off`;
+}
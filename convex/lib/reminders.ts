@@ -0,0 +1,89 @@
+/**
+ * Booking Reminders
+ *
+ * Customers are reminded of a confirmed booking a set number of hours before
+ * the activity starts (by default 24 hours and 2 hours before). Vendors can
+ * change the schedule per listing and add a note and meeting point that go
+ * out with every reminder.
+ */
+
+// ============================================
+// SCHEDULE
+// ============================================
+
+export const DEFAULT_REMINDER_OFFSETS_HOURS = [24, 2];
+
+export const MAX_REMINDERS = 3;
+export const MAX_REMINDER_OFFSET_HOURS = 7 * 24;
+export const MAX_REMINDER_NOTE_LENGTH = 1000;
+
+export const REMINDER_OFFSET_OPTIONS = [72, 48, 24, 12, 6, 2, 1];
+
+export interface ReminderSettings {
+  reminderOffsetsHours: number[];
+  reminderNote?: string;
+  meetingPoint?: string;
+}
+
+/**
+ * Hours before the activity that reminders go out for a listing, latest first
+ */
+export function getReminderOffsets(listing: { reminderOffsetsHours?: number[] }): number[] {
+  return [...(listing.reminderOffsetsHours ?? DEFAULT_REMINDER_OFFSETS_HOURS)].sort((a, b) => b - a);
+}
+
+/**
+ * Throws if a reminder schedule is invalid. An empty schedule turns reminders off.
+ */
+export function validateReminderOffsets(offsets: number[]) {
+  if (offsets.length > MAX_REMINDERS) {
+    throw new Error(`A listing can have at most ${MAX_REMINDERS} reminders`);
+  }
+  for (const hours of offsets) {
+    if (!Number.isInteger(hours) || hours < 1 || hours > MAX_REMINDER_OFFSET_HOURS) {
+      throw new Error(`Reminders must be between 1 and ${MAX_REMINDER_OFFSET_HOURS} hours before the activity`);
+    }
+  }
+  if (new Set(offsets).size !== offsets.length) {
+    throw new Error("Each reminder must be at a different time");
+  }
+}
+
+/**
+ * Throws if a pre-activity note is too long
+ */
+export function validateReminderNote(note: string) {
+  if (note.length > MAX_REMINDER_NOTE_LENGTH) {
+    throw new Error(`Reminder note must be ${MAX_REMINDER_NOTE_LENGTH} characters or fewer`);
+  }
+}
+
+/**
+ * "24 hours" / "2 days" style label for a reminder offset
+ */
+export function formatReminderOffset(hours: number): string {
+  if (hours >= 24 && hours % 24 === 0) {
+    const days = hours / 24;
+    return `${days} day${days === 1 ? "" : "s"}`;
+  }
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+}
+
+// ============================================
+// MEETING POINT
+// ============================================
+
+/**
+ * Google Maps link for a listing's meeting point
+ * Uses the coordinates when set, otherwise searches for the address
+ */
+export function getMapUrl(place: {
+  latitude?: number;
+  longitude?: number;
+  address: string;
+}): string {
+  if (place.latitude !== undefined && place.longitude !== undefined) {
+    return `https://www.google.com/maps/search/?api=1&query=${place.latitude},${place.longitude}`;
+  }
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(place.address)}`;
+}
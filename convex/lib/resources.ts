@@ -0,0 +1,117 @@
+/**
+ * Shared Resources
+ *
+ * Boats, guides, rooms and equipment pools a vendor uses across listings.
+ * Availability rules name the resources their slots need, and seats are
+ * only sold while every resource can take them:
+ * - A boat, guide or room serves one slot at a time. Once an overlapping
+ *   slot that uses it has a booking, it's taken for the others.
+ * - An equipment pool is shared: overlapping slots that use it can't
+ *   book more than its units between them.
+ * Either way a resource's capacity caps the seats of the slots it serves.
+ */
+
+import { v, Infer } from "convex/values";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const resourceTypeValidator = v.union(
+  v.literal("boat"),
+  v.literal("guide"),
+  v.literal("room"),
+  v.literal("equipment")
+);
+
+export type ResourceType = Infer<typeof resourceTypeValidator>;
+
+// What slot checks need from a slot
+export interface ResourceSlot {
+  _id: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  booked: number;
+  status: string;
+}
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const RESOURCE_TYPE_LABELS: Record<ResourceType, string> = {
+  boat: "Boat",
+  guide: "Guide",
+  room: "Room",
+  equipment: "Equipment pool",
+};
+
+// What capacity means for each type, for the vendor form
+export const RESOURCE_CAPACITY_LABELS: Record<ResourceType, string> = {
+  boat: "Passengers",
+  guide: "Guests per guide",
+  room: "People",
+  equipment: "Units",
+};
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Whether a resource serves only one slot at a time
+ */
+export function isExclusiveResource(type: ResourceType): boolean {
+  return type !== "equipment";
+}
+
+/**
+ * Throws if a resource's details are missing or out of range
+ */
+export function validateResource(resource: { name: string; capacity: number }) {
+  if (!resource.name.trim()) {
+    throw new Error("Resource name is required");
+  }
+  if (!Number.isInteger(resource.capacity) || resource.capacity < 1) {
+    throw new Error("Resource capacity must be a whole number of at least 1");
+  }
+}
+
+// ============================================
+// CONFLICTS
+// ============================================
+
+/**
+ * Whether two slots on the same day overlap in time ("HH:MM" times)
+ */
+export function slotsOverlap(
+  a: { date: string; startTime: string; endTime: string },
+  b: { date: string; startTime: string; endTime: string }
+): boolean {
+  return a.date === b.date && a.startTime < b.endTime && b.startTime < a.endTime;
+}
+
+/**
+ * Seats a resource can still give a slot, given the other active slots
+ * that use the resource (overlap is checked here)
+ */
+export function getResourceSeats(
+  resource: { type: ResourceType; capacity: number },
+  slot: ResourceSlot,
+  sharingSlots: ResourceSlot[]
+): number {
+  const overlapping = sharingSlots.filter(
+    (other) => other._id !== slot._id && other.status === "active" && slotsOverlap(slot, other)
+  );
+
+  if (isExclusiveResource(resource.type)) {
+    if (overlapping.some((other) => other.booked > 0)) {
+      return 0;
+    }
+    return Math.max(0, resource.capacity - slot.booked);
+  }
+
+  const inUse = overlapping.reduce((sum, other) => sum + other.booked, slot.booked);
+  return Math.max(0, resource.capacity - inUse);
+}
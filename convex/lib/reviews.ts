@@ -0,0 +1,84 @@
+/**
+ * Verified Reviews
+ *
+ * Reviews are written for a completed booking, so every review comes from
+ * a guest who took part. After a slot is closed each guest is invited to
+ * review by a signed link that works without signing in, e.g.
+ * "/review/k57abc...x9?token=3f9a0c1e2b4d5f6a7b8c9d0e".
+ */
+
+import { sign } from "./tickets";
+
+// ============================================
+// ELIGIBILITY
+// ============================================
+
+// Guests can review for this many days after the activity
+export const REVIEW_WINDOW_DAYS = 60;
+
+export const MAX_REVIEW_COMMENT_LENGTH = 2000;
+
+export type ReviewEligibility =
+  | "eligible"     // Completed and not reviewed yet
+  | "reviewed"     // Already reviewed
+  | "upcoming"     // Not completed yet
+  | "expired"      // Review window has passed
+  | "ineligible";  // Cancelled or never confirmed
+
+/**
+ * Whether a booking can be reviewed now
+ */
+export function getReviewEligibility(
+  booking: { status: string; attendance?: string; completedAt?: number; updatedAt: number },
+  hasReview: boolean,
+  now: number = Date.now()
+): ReviewEligibility {
+  if (hasReview) {
+    return "reviewed";
+  }
+  if (booking.status === "confirmed") {
+    return "upcoming";
+  }
+  // Only guests who came can review
+  if (booking.status !== "completed" || booking.attendance === "no_show") {
+    return "ineligible";
+  }
+
+  const completedAt = booking.completedAt ?? booking.updatedAt;
+  return now > completedAt + REVIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000 ? "expired" : "eligible";
+}
+
+/**
+ * Throws if a rating or comment is invalid
+ */
+export function validateReview(rating: number, comment: string) {
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new Error("Rating must be between 1 and 5");
+  }
+  if (comment.length > MAX_REVIEW_COMMENT_LENGTH) {
+    throw new Error(`Review must be ${MAX_REVIEW_COMMENT_LENGTH} characters or fewer`);
+  }
+}
+
+// ============================================
+// REVIEW LINKS
+// ============================================
+
+/**
+ * Signed review token for a booking. Signed under a different prefix than
+ * ticket codes, so a ticket code can't be used to post a review.
+ */
+export async function createReviewToken(bookingId: string, secret: string): Promise<string> {
+  return await sign(`review:${bookingId}`, secret);
+}
+
+/**
+ * Whether a review token was issued for the booking
+ */
+export async function isValidReviewToken(
+  bookingId: string,
+  token: string,
+  secret: string
+): Promise<boolean> {
+  return (await createReviewToken(bookingId, secret)) === token.trim().toLowerCase();
+}
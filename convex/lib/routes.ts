@@ -0,0 +1,248 @@
+/**
+ * Transportation Routes
+ *
+ * Taxis, longtails and ferries run a route rather than an activity at one
+ * place: an ordered list of stops, each reached some minutes after the
+ * departure from the first stop, and a fare for every origin/destination
+ * pair the vendor sells. Availability rules on a route listing are its
+ * timetable - each departure generates one slot per fare segment, and the
+ * segments of a departure share the vehicle's seats leg by leg.
+ *
+ * Fares are in the listing's currency and are the price of a standard
+ * ticket; ticket types are priced relative to the listing's base price
+ * (a child ticket at half the base price pays half the fare).
+ */
+
+import { v, Infer } from "convex/values";
+import { TicketType, getTicketTypes } from "./ticketTypes";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const routeStopValidator = v.object({
+  id: v.string(),                 // Stable key referenced by fares and slots
+  name: v.string(),               // "Thong Sala Pier", "Haad Rin"
+  offsetMinutes: v.number(),      // Minutes after the departure from the first stop
+});
+
+export const routeFareValidator = v.object({
+  fromStopId: v.string(),
+  toStopId: v.string(),
+  price: v.number(),              // Per standard ticket in the listing's currency
+});
+
+export const routeValidator = v.object({
+  stops: v.array(routeStopValidator),   // In travel order
+  fares: v.array(routeFareValidator),   // The segments on sale
+});
+
+// The segment a slot sells, stored on the slot
+export const routeSegmentValidator = v.object({
+  fromStopId: v.string(),
+  toStopId: v.string(),
+  departureTime: v.string(),      // HH:MM from the first stop - groups a departure's segments
+});
+
+export type RouteStop = Infer<typeof routeStopValidator>;
+export type RouteFare = Infer<typeof routeFareValidator>;
+export type Route = Infer<typeof routeValidator>;
+export type RouteSegment = Infer<typeof routeSegmentValidator>;
+
+// What seat checks need from a slot
+export interface DepartureSlot {
+  _id: string;
+  capacity: number;
+  booked: number;
+  status: string;
+  segment?: RouteSegment;
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Whether a listing runs a route (an empty route removes it)
+ */
+export function hasRoute(listing: { route?: Route }): listing is { route: Route } {
+  return !!listing.route && listing.route.stops.length > 0;
+}
+
+/**
+ * Throws if a route's stops or fares are incomplete or out of order
+ */
+export function validateRoute(route: Route) {
+  if (route.stops.length < 2) {
+    throw new Error("A route needs at least two stops");
+  }
+
+  const ids = new Set<string>();
+  route.stops.forEach((stop, index) => {
+    if (!stop.id.trim() || !stop.name.trim()) {
+      throw new Error("Route stops need an id and a name");
+    }
+    if (ids.has(stop.id)) {
+      throw new Error(`Duplicate route stop: ${stop.id}`);
+    }
+    if (!Number.isInteger(stop.offsetMinutes) || stop.offsetMinutes < 0) {
+      throw new Error(`Minutes to ${stop.name} must be a whole number`);
+    }
+    if (index === 0 && stop.offsetMinutes !== 0) {
+      throw new Error("The first stop is the departure - its minutes must be 0");
+    }
+    if (index > 0 && stop.offsetMinutes <= route.stops[index - 1].offsetMinutes) {
+      throw new Error(`${stop.name} must be reached after ${route.stops[index - 1].name}`);
+    }
+    ids.add(stop.id);
+  });
+
+  if (route.fares.length === 0) {
+    throw new Error("Add a fare for at least one segment of the route");
+  }
+
+  const segments = new Set<string>();
+  for (const fare of route.fares) {
+    const from = getStopIndex(route, fare.fromStopId);
+    const to = getStopIndex(route, fare.toStopId);
+    if (from === -1 || to === -1) {
+      throw new Error("Fares must be between stops on the route");
+    }
+    if (from >= to) {
+      throw new Error(`Fares must go forward along the route (${route.stops[from].name} → ${route.stops[to].name})`);
+    }
+    const key = `${fare.fromStopId}:${fare.toStopId}`;
+    if (segments.has(key)) {
+      throw new Error(`Duplicate fare for ${route.stops[from].name} → ${route.stops[to].name}`);
+    }
+    if (fare.price < 0) {
+      throw new Error(`Fare for ${route.stops[from].name} → ${route.stops[to].name} cannot be negative`);
+    }
+    segments.add(key);
+  }
+}
+
+// ============================================
+// STOPS & FARES
+// ============================================
+
+/**
+ * Position of a stop along the route (-1 if it's not on it)
+ */
+export function getStopIndex(route: Route, stopId: string): number {
+  return route.stops.findIndex((stop) => stop.id === stopId);
+}
+
+/**
+ * The fare for a segment, or null if it isn't sold
+ */
+export function getFare(route: Route, fromStopId: string, toStopId: string): RouteFare | null {
+  return route.fares.find((f) => f.fromStopId === fromStopId && f.toStopId === toStopId) ?? null;
+}
+
+/**
+ * "Thong Sala Pier → Haad Rin"
+ */
+export function describeSegment(route: Route, segment: { fromStopId: string; toStopId: string }): string {
+  const name = (stopId: string) => route.stops.find((s) => s.id === stopId)?.name ?? "Removed stop";
+  return `${name(segment.fromStopId)} → ${name(segment.toStopId)}`;
+}
+
+/**
+ * Whether a stop matches what a customer typed ("haad rin" finds "Haad Rin Pier")
+ */
+export function matchesStop(stop: RouteStop, search: string): boolean {
+  return stop.name.toLowerCase().includes(search.trim().toLowerCase());
+}
+
+/**
+ * Departure and arrival times (HH:MM) of a segment on a departure
+ */
+export function getSegmentTimes(
+  route: Route,
+  segment: { fromStopId: string; toStopId: string },
+  departureTime: string
+): { startTime: string; endTime: string } {
+  const offset = (stopId: string) => route.stops.find((s) => s.id === stopId)?.offsetMinutes ?? 0;
+  const [hours, minutes] = departureTime.split(":").map(Number);
+  const toTime = (total: number) =>
+    `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+  const departure = hours * 60 + minutes;
+  return {
+    startTime: toTime(departure + offset(segment.fromStopId)),
+    endTime: toTime(departure + offset(segment.toStopId)),
+  };
+}
+
+/**
+ * Ticket types for a slot: route segments sell at their fare, other slots
+ * at the listing's prices
+ */
+export function getSlotTicketTypes(
+  listing: { price: number; ticketTypes?: TicketType[]; route?: Route },
+  slot: { segment?: RouteSegment }
+): TicketType[] {
+  const ticketTypes = getTicketTypes(listing);
+  const fare = slot.segment && listing.route
+    ? getFare(listing.route, slot.segment.fromStopId, slot.segment.toStopId)
+    : null;
+  if (!fare) {
+    return ticketTypes;
+  }
+
+  return ticketTypes.map((ticket) => ({
+    ...ticket,
+    price: listing.price > 0
+      ? Math.round((fare.price * ticket.price) / listing.price * 100) / 100
+      : fare.price,
+  }));
+}
+
+// ============================================
+// SEATS
+// ============================================
+
+/**
+ * Whether two slots sell segments of the same departure
+ */
+export function isSameDeparture(
+  a: { listingId?: string; date: string; segment?: RouteSegment },
+  b: { listingId?: string; date: string; segment?: RouteSegment }
+): boolean {
+  return !!a.segment && !!b.segment &&
+    a.listingId === b.listingId &&
+    a.date === b.date &&
+    a.segment.departureTime === b.segment.departureTime;
+}
+
+/**
+ * Seats a segment slot can still sell: the vehicle's capacity less the
+ * busiest leg it covers, counting the other segments of the same departure
+ */
+export function getDepartureSeats(
+  route: Route,
+  slot: DepartureSlot & { segment: RouteSegment },
+  departureSlots: DepartureSlot[]
+): number {
+  const from = getStopIndex(route, slot.segment.fromStopId);
+  const to = getStopIndex(route, slot.segment.toStopId);
+  if (from === -1 || to === -1) {
+    return Math.max(0, slot.capacity - slot.booked);
+  }
+
+  let busiest = 0;
+  for (let leg = from; leg < to; leg++) {
+    const onBoard = departureSlots
+      .filter((other) =>
+        other._id !== slot._id &&
+        other.status !== "cancelled" &&
+        other.segment?.departureTime === slot.segment.departureTime &&
+        getStopIndex(route, other.segment.fromStopId) <= leg &&
+        leg < getStopIndex(route, other.segment.toStopId)
+      )
+      .reduce((sum, other) => sum + other.booked, 0);
+    busiest = Math.max(busiest, onBoard);
+  }
+
+  return Math.max(0, slot.capacity - slot.booked - busiest);
+}
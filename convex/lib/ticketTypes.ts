@@ -0,0 +1,152 @@
+/**
+ * Ticket Types & Tiered Pricing
+ *
+ * A listing can sell several ticket types (adult, child, senior, local resident,
+ * private group...). Each ticket type has its own price and a capacity weight:
+ * the number of slot seats one ticket takes up. A private group flat rate is
+ * simply a ticket with `seats` equal to the group size.
+ *
+ * Listings without ticket types sell a single "Guest" ticket at `listing.price`.
+ */
+
+import { v, Infer } from "convex/values";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const ticketTypeValidator = v.object({
+  id: v.string(),                       // Stable key referenced by bookings
+  name: v.string(),                     // "Adult", "Child (4-12)", "Private group"
+  description: v.optional(v.string()),
+  price: v.number(),                    // Price per ticket in the listing's currency
+  seats: v.number(),                    // Slot seats taken per ticket (capacity weight)
+});
+
+export const ticketSelectionValidator = v.object({
+  ticketTypeId: v.string(),
+  quantity: v.number(),
+});
+
+// Snapshot of what was bought, stored on the booking
+export const lineItemValidator = v.object({
+  ticketTypeId: v.string(),
+  name: v.string(),
+  quantity: v.number(),
+  unitPrice: v.number(),                // Per ticket at time of booking - the listing's currency
+                                        // from priceTickets, THB once stored (toBasePricing)
+  seats: v.number(),                    // Seats per ticket
+});
+
+export type TicketType = Infer<typeof ticketTypeValidator>;
+export type TicketSelection = Infer<typeof ticketSelectionValidator>;
+export type LineItem = Infer<typeof lineItemValidator>;
+
+export const STANDARD_TICKET_ID = "standard";
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Ticket types a listing sells, falling back to a single ticket at the base price
+ */
+export function getTicketTypes(listing: {
+  price: number;
+  ticketTypes?: TicketType[];
+}): TicketType[] {
+  if (listing.ticketTypes && listing.ticketTypes.length > 0) {
+    return listing.ticketTypes;
+  }
+  return [{ id: STANDARD_TICKET_ID, name: "Guest", price: listing.price, seats: 1 }];
+}
+
+/**
+ * The "from" price shown for ticket types: the cheapest paid ticket, so a
+ * free infant ticket doesn't make everything look free
+ */
+export function getFromPrice(ticketTypes: TicketType[]): number {
+  const paid = ticketTypes.map((t) => t.price).filter((price) => price > 0);
+  return paid.length > 0 ? Math.min(...paid) : 0;
+}
+
+/**
+ * Throws if ticket types are incomplete or ambiguous
+ */
+export function validateTicketTypes(ticketTypes: TicketType[]) {
+  const ids = new Set<string>();
+  for (const ticket of ticketTypes) {
+    if (!ticket.id.trim() || !ticket.name.trim()) {
+      throw new Error("Ticket types need an id and a name");
+    }
+    if (ids.has(ticket.id)) {
+      throw new Error(`Duplicate ticket type: ${ticket.id}`);
+    }
+    if (!Number.isFinite(ticket.price)) {
+      throw new Error(`Ticket price for ${ticket.name} must be a number`);
+    }
+    if (ticket.price < 0) {
+      throw new Error(`Ticket price for ${ticket.name} cannot be negative`);
+    }
+    if (!Number.isInteger(ticket.seats) || ticket.seats < 1) {
+      throw new Error(`Ticket ${ticket.name} must take at least one seat`);
+    }
+    ids.add(ticket.id);
+  }
+
+  // A booking of free tickets only would leave nothing to charge
+  if (ticketTypes.length > 0 && ticketTypes.every((ticket) => ticket.price === 0)) {
+    throw new Error("At least one ticket type needs a price");
+  }
+}
+
+/**
+ * Price a ticket selection against a listing's ticket types
+ * Returns booking line items, the total in the listing's currency and the
+ * seats required (see toBasePricing for converting to THB)
+ */
+export function priceTickets(
+  ticketTypes: TicketType[],
+  selections: TicketSelection[]
+): { lineItems: LineItem[]; totalPrice: number; seats: number } {
+  const lineItems: LineItem[] = [];
+
+  for (const selection of selections) {
+    if (selection.quantity === 0) continue;
+    if (!Number.isInteger(selection.quantity) || selection.quantity < 0) {
+      throw new Error("Ticket quantities must be whole numbers");
+    }
+
+    const ticket = ticketTypes.find((t) => t.id === selection.ticketTypeId);
+    if (!ticket) {
+      throw new Error("This ticket type is no longer available");
+    }
+    if (!Number.isFinite(ticket.price) || ticket.price < 0) {
+      throw new Error(`${ticket.name} tickets aren't priced correctly - please contact the vendor`);
+    }
+
+    lineItems.push({
+      ticketTypeId: ticket.id,
+      name: ticket.name,
+      quantity: selection.quantity,
+      unitPrice: ticket.price,
+      seats: ticket.seats,
+    });
+  }
+
+  if (lineItems.length === 0) {
+    throw new Error("Please select at least one ticket");
+  }
+
+  // Card payments can't be for nothing - free tickets come with a paid one
+  const totalPrice = lineItems.reduce((total, item) => total + item.unitPrice * item.quantity, 0);
+  if (totalPrice <= 0) {
+    throw new Error("Free tickets must be booked together with a paid ticket");
+  }
+
+  return {
+    lineItems,
+    totalPrice,
+    seats: lineItems.reduce((total, item) => total + item.seats * item.quantity, 0),
+  };
+}
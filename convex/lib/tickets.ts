@@ -0,0 +1,54 @@
+/**
+ * E-Tickets
+ *
+ * A ticket code is the booking ID plus an HMAC signature, e.g.
+ * "k57abc...x9.3f9a0c1e2b4d5f6a7b8c9d0e". The signature stops anyone from
+ * guessing a valid code from a booking ID; the secret never leaves the server.
+ */
+
+// Hex characters of the HMAC-SHA256 signature kept in the code (96 bits)
+const SIGNATURE_LENGTH = 24;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Truncated hex HMAC-SHA256 of some data (also signs review links)
+ */
+export async function sign(data: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(data));
+
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .slice(0, SIGNATURE_LENGTH);
+}
+
+/**
+ * Signed ticket code for a booking
+ */
+export async function createTicketCode(bookingId: string, secret: string): Promise<string> {
+  return `${bookingId}.${await sign(bookingId, secret)}`;
+}
+
+/**
+ * Booking ID from a ticket code, or null if the code is malformed or the
+ * signature doesn't match
+ */
+export async function readTicketCode(code: string, secret: string): Promise<string | null> {
+  const [bookingId, signature, ...rest] = code.trim().split(".");
+  if (!bookingId || !signature || rest.length > 0) {
+    return null;
+  }
+
+  return (await sign(bookingId, secret)) === signature.toLowerCase() ? bookingId : null;
+}
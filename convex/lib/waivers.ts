@@ -0,0 +1,53 @@
+/**
+ * Liability Waivers
+ *
+ * A listing can require every guest to sign a waiver before the activity.
+ * The vendor either writes the waiver text or uploads a document (PDF);
+ * guests sign with their typed name and a drawn signature.
+ */
+
+import { v, Infer } from "convex/values";
+
+// ============================================
+// VALIDATORS & TYPES
+// ============================================
+
+export const waiverValidator = v.object({
+  title: v.optional(v.string()),          // "Diving Release of Liability"
+  text: v.optional(v.string()),           // Waiver written by the vendor
+  storageId: v.optional(v.id("_storage")), // Uploaded waiver document
+});
+
+export type Waiver = Infer<typeof waiverValidator>;
+
+// Largest drawn signature accepted, as a PNG data URL
+export const MAX_SIGNATURE_LENGTH = 200_000;
+
+// A drawn signature: a base64-encoded PNG and nothing else
+const SIGNATURE_PATTERN = /^data:image\/png;base64,[A-Za-z0-9+/]+={0,2}$/;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Whether a listing asks guests to sign a waiver
+ */
+export function hasWaiver(listing: { waiver?: Waiver }): boolean {
+  return !!(listing.waiver?.text?.trim() || listing.waiver?.storageId);
+}
+
+/**
+ * Throws if a signature is missing, too large or not a base64 PNG data URL
+ */
+export function validateSignature(signerName: string, signatureDataUrl: string) {
+  if (!signerName.trim()) {
+    throw new Error("Please type your full name to sign");
+  }
+  if (signatureDataUrl.length > MAX_SIGNATURE_LENGTH) {
+    throw new Error("Signature image is too large");
+  }
+  if (!SIGNATURE_PATTERN.test(signatureDataUrl)) {
+    throw new Error("Please draw your signature");
+  }
+}
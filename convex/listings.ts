@@ -12,6 +12,23 @@ import {
   requireVendor,
   isAdmin,
 } from "./lib/auth";
+import {
+  cancellationPolicyValidator,
+  validateCancellationPolicy,
+} from "./lib/cancellationPolicy";
+import { ticketTypeValidator, validateTicketTypes } from "./lib/ticketTypes";
+import { addOnValidator, validateAddOns } from "./lib/addOns";
+import { pickupZoneValidator, validatePickupZones } from "./lib/pickups";
+import { routeValidator, validateRoute, hasRoute } from "./lib/routes";
+import { bookingQuestionValidator, validateBookingQuestions } from "./lib/bookingQuestions";
+import { waiverValidator, hasWaiver } from "./lib/waivers";
+import { bookingModeValidator, validateRequestWindow } from "./lib/bookingRequests";
+import { validateReminderOffsets, validateReminderNote } from "./lib/reminders";
+import { paymentPlanValidator, validatePaymentPlan } from "./lib/paymentPlans";
+import { noShowPolicyValidator, validateNoShowPolicy } from "./lib/attendance";
+import { currencyValidator } from "./lib/currency";
+import { pricingRuleValidator, validatePricingRules } from "./lib/pricingRules";
+import { refreshListingSummaries } from "./availability/summaries";
 
 // ============================================
 // QUERIES (Read Operations)
@@ -208,6 +225,7 @@ export const create = mutation({
     description: v.string(),
     location: v.string(),
     price: v.number(),
+    currency: v.optional(currencyValidator), // THB when unset
     // Support both legacy URLs and new storage IDs
     imageUrl: v.optional(v.string()),
     imageStorageId: v.optional(v.id("_storage")),
@@ -230,18 +248,74 @@ export const create = mutation({
     galleryStorageIds: v.optional(v.array(v.id("_storage"))),
     videoUrl: v.optional(v.string()),
     videoStorageId: v.optional(v.id("_storage")),
+    cancellationPolicy: v.optional(cancellationPolicyValidator),
+    ticketTypes: v.optional(v.array(ticketTypeValidator)),
+    addOns: v.optional(v.array(addOnValidator)),
+    pickupZones: v.optional(v.array(pickupZoneValidator)),
+    route: v.optional(routeValidator),
+    bookingQuestions: v.optional(v.array(bookingQuestionValidator)),
+    waiver: v.optional(waiverValidator),
+    bookingMode: v.optional(bookingModeValidator),
+    requestWindowHours: v.optional(v.number()),
+    reminderOffsetsHours: v.optional(v.array(v.number())),
+    reminderNote: v.optional(v.string()),
+    meetingPoint: v.optional(v.string()),
+    paymentPlan: v.optional(paymentPlanValidator),
+    noShowPolicy: v.optional(noShowPolicyValidator),
+    pricingRules: v.optional(v.array(pricingRuleValidator)),
   },
   handler: async (ctx, args) => {
     // Require vendor role
     const profile = await requireVendor(ctx);
     const userId = await getCurrentUserId(ctx);
 
+    if (args.cancellationPolicy) {
+      validateCancellationPolicy(args.cancellationPolicy);
+    }
+    if (args.ticketTypes) {
+      validateTicketTypes(args.ticketTypes);
+    }
+    if (args.addOns) {
+      validateAddOns(args.addOns);
+    }
+    if (args.pickupZones) {
+      validatePickupZones(args.pickupZones);
+    }
+    if (hasRoute(args)) {
+      if (args.category !== "Transportation") {
+        throw new Error("Only transportation listings can run a route");
+      }
+      validateRoute(args.route);
+    }
+    if (args.bookingQuestions) {
+      validateBookingQuestions(args.bookingQuestions);
+    }
+    if (args.requestWindowHours !== undefined) {
+      validateRequestWindow(args.requestWindowHours);
+    }
+    if (args.reminderOffsetsHours) {
+      validateReminderOffsets(args.reminderOffsetsHours);
+    }
+    if (args.reminderNote) {
+      validateReminderNote(args.reminderNote);
+    }
+    if (args.paymentPlan) {
+      validatePaymentPlan(args.paymentPlan);
+    }
+    if (args.noShowPolicy) {
+      validateNoShowPolicy(args.noShowPolicy);
+    }
+    if (args.pricingRules) {
+      validatePricingRules(args.pricingRules);
+    }
+
     // Create the listing
     const listingId = await ctx.db.insert("listings", {
       title: args.title,
       description: args.description,
       location: args.location,
       price: args.price,
+      currency: args.currency,
       rating: 0,
       reviewCount: 0,
       imageUrl: args.imageUrl,
@@ -258,6 +332,21 @@ export const create = mutation({
       galleryStorageIds: args.galleryStorageIds,
       videoUrl: args.videoUrl,
       videoStorageId: args.videoStorageId,
+      cancellationPolicy: args.cancellationPolicy,
+      ticketTypes: args.ticketTypes,
+      addOns: args.addOns,
+      pickupZones: args.pickupZones,
+      route: hasRoute(args) ? args.route : undefined,
+      bookingQuestions: args.bookingQuestions,
+      waiver: hasWaiver(args) ? args.waiver : undefined,
+      bookingMode: args.bookingMode,
+      requestWindowHours: args.requestWindowHours,
+      reminderOffsetsHours: args.reminderOffsetsHours,
+      reminderNote: args.reminderNote?.trim() || undefined,
+      meetingPoint: args.meetingPoint?.trim() || undefined,
+      paymentPlan: args.paymentPlan,
+      noShowPolicy: args.noShowPolicy,
+      pricingRules: args.pricingRules,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     });
@@ -277,6 +366,7 @@ export const update = mutation({
     description: v.optional(v.string()),
     location: v.optional(v.string()),
     price: v.optional(v.number()),
+    currency: v.optional(currencyValidator),
     imageUrl: v.optional(v.string()),
     imageStorageId: v.optional(v.id("_storage")),
     category: v.optional(
@@ -300,6 +390,21 @@ export const update = mutation({
     galleryStorageIds: v.optional(v.array(v.id("_storage"))),
     videoUrl: v.optional(v.string()),
     videoStorageId: v.optional(v.id("_storage")),
+    cancellationPolicy: v.optional(cancellationPolicyValidator),
+    ticketTypes: v.optional(v.array(ticketTypeValidator)),
+    addOns: v.optional(v.array(addOnValidator)),
+    pickupZones: v.optional(v.array(pickupZoneValidator)),
+    route: v.optional(routeValidator),
+    bookingQuestions: v.optional(v.array(bookingQuestionValidator)),
+    waiver: v.optional(waiverValidator),
+    bookingMode: v.optional(bookingModeValidator),
+    requestWindowHours: v.optional(v.number()),
+    reminderOffsetsHours: v.optional(v.array(v.number())),
+    reminderNote: v.optional(v.string()),
+    meetingPoint: v.optional(v.string()),
+    paymentPlan: v.optional(paymentPlanValidator),
+    noShowPolicy: v.optional(noShowPolicyValidator),
+    pricingRules: v.optional(v.array(pricingRuleValidator)),
   },
   handler: async (ctx, args) => {
     const userId = await getCurrentUserId(ctx);
@@ -326,6 +431,7 @@ export const update = mutation({
     if (args.description !== undefined) updates.description = args.description;
     if (args.location !== undefined) updates.location = args.location;
     if (args.price !== undefined) updates.price = args.price;
+    if (args.currency !== undefined) updates.currency = args.currency;
     if (args.imageUrl !== undefined) updates.imageUrl = args.imageUrl;
     if (args.imageStorageId !== undefined) updates.imageStorageId = args.imageStorageId;
     if (args.category !== undefined) updates.category = args.category;
@@ -339,9 +445,82 @@ export const update = mutation({
     if (args.galleryStorageIds !== undefined) updates.galleryStorageIds = args.galleryStorageIds;
     if (args.videoUrl !== undefined) updates.videoUrl = args.videoUrl;
     if (args.videoStorageId !== undefined) updates.videoStorageId = args.videoStorageId;
+    if (args.cancellationPolicy !== undefined) {
+      validateCancellationPolicy(args.cancellationPolicy);
+      updates.cancellationPolicy = args.cancellationPolicy;
+    }
+    if (args.ticketTypes !== undefined) {
+      validateTicketTypes(args.ticketTypes);
+      updates.ticketTypes = args.ticketTypes;
+    }
+    if (args.addOns !== undefined) {
+      validateAddOns(args.addOns);
+      updates.addOns = args.addOns;
+    }
+    if (args.pickupZones !== undefined) {
+      validatePickupZones(args.pickupZones);
+      updates.pickupZones = args.pickupZones;
+    }
+    if (args.route !== undefined) {
+      // An empty route removes it
+      if (hasRoute(args)) {
+        if ((args.category ?? listing.category) !== "Transportation") {
+          throw new Error("Only transportation listings can run a route");
+        }
+        validateRoute(args.route);
+      }
+      updates.route = hasRoute(args) ? args.route : undefined;
+    }
+    if (args.bookingQuestions !== undefined) {
+      validateBookingQuestions(args.bookingQuestions);
+      updates.bookingQuestions = args.bookingQuestions;
+    }
+    if (args.waiver !== undefined) {
+      // An empty waiver removes it
+      updates.waiver = hasWaiver(args) ? args.waiver : undefined;
+    }
+    if (args.bookingMode !== undefined) updates.bookingMode = args.bookingMode;
+    if (args.requestWindowHours !== undefined) {
+      validateRequestWindow(args.requestWindowHours);
+      updates.requestWindowHours = args.requestWindowHours;
+    }
+    if (args.reminderOffsetsHours !== undefined) {
+      validateReminderOffsets(args.reminderOffsetsHours);
+      updates.reminderOffsetsHours = args.reminderOffsetsHours;
+    }
+    if (args.reminderNote !== undefined) {
+      // An empty note removes it
+      validateReminderNote(args.reminderNote);
+      updates.reminderNote = args.reminderNote.trim() || undefined;
+    }
+    if (args.meetingPoint !== undefined) {
+      updates.meetingPoint = args.meetingPoint.trim() || undefined;
+    }
+    if (args.paymentPlan !== undefined) {
+      validatePaymentPlan(args.paymentPlan);
+      updates.paymentPlan = args.paymentPlan;
+    }
+    if (args.noShowPolicy !== undefined) {
+      validateNoShowPolicy(args.noShowPolicy);
+      updates.noShowPolicy = args.noShowPolicy;
+    }
+    if (args.pricingRules !== undefined) {
+      validatePricingRules(args.pricingRules);
+      updates.pricingRules = args.pricingRules;
+    }
 
     await ctx.db.patch(args.id, updates);
 
+    // Slots and search summaries carry the from-price and its currency
+    if (
+      args.price !== undefined ||
+      args.currency !== undefined ||
+      args.ticketTypes !== undefined ||
+      args.pricingRules !== undefined
+    ) {
+      await refreshListingSummaries(ctx, args.id);
+    }
+
     return args.id;
   },
 });
@@ -369,6 +548,7 @@ export const remove = mutation({
 
     // Delete the listing
     await ctx.db.delete(args.id);
+    await refreshListingSummaries(ctx, args.id);
 
     return { success: true };
   },
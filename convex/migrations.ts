@@ -0,0 +1,320 @@
+/**
+ * Legacy Availability Migration
+ *
+ * Converts bookings from the old date-based flow, and the vendor's
+ * `availabilityBlocks`, onto real `slots` rows so seat counts live in one
+ * place. Each listing/date/timeSlot becomes a slot (or joins the slot already
+ * at that time), its bookings get `slotId` backfilled and the block is
+ * removed. Anything that doesn't fit cleanly is reported as a conflict and
+ * migrated anyway, so the run always finishes.
+ *
+ * Admins run it in batches until `done` (optionally as a dry run first).
+ */
+
+import { v } from "convex/values";
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireAdmin } from "./lib/auth";
+import { refreshDaySummary } from "./availability/summaries";
+import {
+  LegacyConflict,
+  LegacyTimeSlot,
+  LEGACY_SLOT_TIMES,
+  getLegacyCapacity,
+  getMigratedSlotStatus,
+  timesOverlap,
+} from "./lib/legacySlots";
+
+const DEFAULT_BATCH_SIZE = 50;
+
+// Statuses that take seats
+const SEAT_STATUSES = ["pending", "confirmed", "completed"];
+
+interface LegacyGroup {
+  listingId: Id<"listings">;
+  date: string;
+  timeSlot: LegacyTimeSlot;
+}
+
+interface LegacyPlan extends LegacyGroup {
+  listing: Doc<"listings"> | null;
+  vendorId: string;
+  bookings: Doc<"bookings">[];
+  block: Doc<"availabilityBlocks"> | null;
+  existingSlot: Doc<"slots"> | null;
+  booked: number;
+  capacity: number;
+  conflicts: LegacyConflict[];
+}
+
+// ============================================
+// PLANNING HELPERS
+// ============================================
+
+/**
+ * The next listing/date/timeSlot groups still on the legacy model
+ */
+async function getLegacyGroups(ctx: QueryCtx, batchSize: number): Promise<LegacyGroup[]> {
+  const bookings = await ctx.db
+    .query("bookings")
+    .withIndex("by_slot", (q) => q.eq("slotId", undefined))
+    .take(batchSize);
+  const blocks = await ctx.db.query("availabilityBlocks").take(batchSize);
+
+  const groups = new Map<string, LegacyGroup>();
+  for (const item of [
+    ...bookings.map((b) => ({ listingId: b.listingId, date: b.bookingDate, timeSlot: b.timeSlot })),
+    ...blocks.map((b) => ({ listingId: b.listingId, date: b.date, timeSlot: b.timeSlot })),
+  ]) {
+    groups.set(`${item.listingId}:${item.date}:${item.timeSlot}`, item);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Work out the slot a legacy group becomes and what conflicts it has
+ */
+async function planGroup(ctx: QueryCtx, group: LegacyGroup): Promise<LegacyPlan> {
+  const { listingId, date, timeSlot } = group;
+  const times = LEGACY_SLOT_TIMES[timeSlot];
+  const conflicts: LegacyConflict[] = [];
+  const conflict = (kind: LegacyConflict["kind"], message: string) =>
+    conflicts.push({ kind, listingId, date, timeSlot, message });
+
+  const listing = await ctx.db.get(listingId);
+
+  const dayBookings = await ctx.db
+    .query("bookings")
+    .withIndex("by_listing_and_date", (q) => q.eq("listingId", listingId).eq("bookingDate", date))
+    .collect();
+  const bookings = dayBookings.filter((b) => !b.slotId && b.timeSlot === timeSlot);
+
+  const block = await ctx.db
+    .query("availabilityBlocks")
+    .withIndex("by_listing_date_slot", (q) =>
+      q.eq("listingId", listingId).eq("date", date).eq("timeSlot", timeSlot)
+    )
+    .first();
+
+  const daySlots = await ctx.db
+    .query("slots")
+    .withIndex("by_listing_and_date", (q) => q.eq("listingId", listingId).eq("date", date))
+    .collect();
+  const existingSlot = daySlots.find((s) => s.startTime === times.startTime) || null;
+
+  const booked = bookings
+    .filter((b) => SEAT_STATUSES.includes(b.status))
+    .reduce((sum, b) => sum + b.guests, 0);
+
+  if (!listing) {
+    conflict("missing_listing", `Listing was deleted; ${bookings.length} booking(s) moved to a closed slot`);
+  }
+
+  // Overlaps with other slots, or other legacy bookings the same day
+  const otherTimeSlots = new Set(
+    dayBookings.filter((b) => !b.slotId && b.timeSlot !== timeSlot).map((b) => b.timeSlot)
+  );
+  const overlapping = [
+    ...daySlots
+      .filter((s) => s._id !== existingSlot?._id && s.status !== "cancelled" && timesOverlap(s, times))
+      .map((s) => `${s.startTime}-${s.endTime}`),
+    ...Array.from(otherTimeSlots)
+      .filter((other) => timesOverlap(LEGACY_SLOT_TIMES[other], times))
+      .map((other) => other.replace("_", " ")),
+  ];
+  if (overlapping.length > 0) {
+    conflict("overlap", `${times.startTime}-${times.endTime} overlaps ${overlapping.join(", ")}`);
+  }
+
+  if (block && block.bookedSpots !== booked) {
+    conflict("block_mismatch", `Block recorded ${block.bookedSpots} booked, bookings add up to ${booked}`);
+  }
+
+  let capacity = existingSlot
+    ? existingSlot.capacity
+    : getLegacyCapacity(listing?.maxCapacity ?? booked, block);
+  const totalBooked = booked + (existingSlot?.booked || 0);
+  if (totalBooked > capacity) {
+    conflict("overbooked", `${totalBooked} guests booked against a capacity of ${capacity}`);
+    capacity = totalBooked;
+  }
+
+  return {
+    ...group,
+    listing,
+    vendorId: listing?.vendorId || bookings[0]?.vendorId || "",
+    bookings,
+    block,
+    existingSlot,
+    booked,
+    capacity,
+    conflicts,
+  };
+}
+
+/**
+ * Create or update the slot for a planned group, backfill its bookings and
+ * remove the legacy block
+ */
+async function applyPlan(ctx: MutationCtx, plan: LegacyPlan): Promise<Id<"slots">> {
+  const now = Date.now();
+  const { startTime, endTime } = LEGACY_SLOT_TIMES[plan.timeSlot];
+
+  let slotId: Id<"slots">;
+  if (plan.existingSlot) {
+    slotId = plan.existingSlot._id;
+    const booked = plan.existingSlot.booked + plan.booked;
+    await ctx.db.patch(slotId, {
+      capacity: plan.capacity,
+      booked,
+      available: plan.capacity - booked,
+      updatedAt: now,
+    });
+  } else {
+    const today = new Date().toISOString().split("T")[0];
+    const originalCapacity = plan.listing
+      ? getLegacyCapacity(plan.listing.maxCapacity, plan.block)
+      : 0;
+
+    slotId = await ctx.db.insert("slots", {
+      listingId: plan.listingId,
+      vendorId: plan.vendorId,
+      // No ruleId - migrated from a legacy booking date
+      date: plan.date,
+      startTime,
+      endTime,
+      capacity: plan.capacity,
+      booked: plan.booked,
+      available: plan.capacity - plan.booked,
+      status: getMigratedSlotStatus(plan.date, today, originalCapacity),
+      bookingDeadline: new Date(`${plan.date}T${startTime}:00`).getTime(),
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  for (const booking of plan.bookings) {
+    await ctx.db.patch(booking._id, { slotId, updatedAt: now });
+
+    // Cancelling or rescheduling gives seats back through the booking's hold
+    if (SEAT_STATUSES.includes(booking.status)) {
+      await ctx.db.insert("slotHolds", {
+        slotId,
+        bookingId: booking._id,
+        listingId: plan.listingId,
+        customerId: booking.customerId,
+        guests: booking.guests,
+        status: "converted",
+        expiresAt: now,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  }
+
+  if (plan.block) {
+    await ctx.db.delete(plan.block._id);
+  }
+
+  await refreshDaySummary(ctx, plan.listingId, plan.date);
+
+  return slotId;
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * What's left on the legacy model and the conflicts migrating it would report
+ * Admin only
+ */
+export const legacyStatus = query({
+  args: {
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const remainingBookings = await ctx.db
+      .query("bookings")
+      .withIndex("by_slot", (q) => q.eq("slotId", undefined))
+      .collect();
+    const remainingBlocks = await ctx.db.query("availabilityBlocks").collect();
+
+    const groups = await getLegacyGroups(ctx, args.batchSize ?? DEFAULT_BATCH_SIZE);
+    const conflicts: LegacyConflict[] = [];
+    for (const group of groups) {
+      conflicts.push(...(await planGroup(ctx, group)).conflicts);
+    }
+
+    return {
+      remainingBookings: remainingBookings.length,
+      remainingBlocks: remainingBlocks.length,
+      conflicts,
+    };
+  },
+});
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Migrate the next batch of legacy bookings and blocks onto slots
+ * Run repeatedly until `done`; `dryRun` reports without writing.
+ * Admin only
+ */
+export const migrateLegacyAvailability = mutation({
+  args: {
+    dryRun: v.optional(v.boolean()),
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const groups = await getLegacyGroups(ctx, args.batchSize ?? DEFAULT_BATCH_SIZE);
+
+    let slotsCreated = 0;
+    let slotsUpdated = 0;
+    let bookingsMigrated = 0;
+    let blocksRemoved = 0;
+    const conflicts: LegacyConflict[] = [];
+
+    for (const group of groups) {
+      const plan = await planGroup(ctx, group);
+      conflicts.push(...plan.conflicts);
+
+      if (!args.dryRun) {
+        await applyPlan(ctx, plan);
+      }
+
+      if (plan.existingSlot) {
+        slotsUpdated++;
+      } else {
+        slotsCreated++;
+      }
+      bookingsMigrated += plan.bookings.length;
+      if (plan.block) {
+        blocksRemoved++;
+      }
+    }
+
+    console.log(
+      `${args.dryRun ? "[dry run] " : ""}Migrated ${bookingsMigrated} legacy bookings onto ` +
+      `${slotsCreated} new and ${slotsUpdated} existing slots, ${conflicts.length} conflicts`
+    );
+
+    return {
+      dryRun: !!args.dryRun,
+      slotsCreated,
+      slotsUpdated,
+      bookingsMigrated,
+      blocksRemoved,
+      conflicts,
+      done: args.dryRun
+        ? groups.length === 0
+        : (await getLegacyGroups(ctx, 1)).length === 0,
+    };
+  },
+});
@@ -5,8 +5,12 @@
  */
 
 import { internalAction } from "../_generated/server";
+import { internal } from "../_generated/api";
 import { v } from "convex/values";
 import { Resend } from "resend";
+import { getTicketCode } from "../tickets";
+import { getReviewToken } from "../reviews";
+import { addOnItemValidator, describeAddOns } from "../lib/addOns";
 
 // ============================================
 // EMAIL CONFIGURATION
@@ -25,6 +29,7 @@ async function sendEmailHelper(args: {
   subject: string;
   htmlBody: string;
   textBody?: string;
+  attachments?: { filename: string; content: string; contentId?: string }[]; // contentId: inline, shown via "cid:"
 }) {
   console.log(`[Email] Sending to ${args.to}: ${args.subject}`);
 
@@ -35,6 +40,7 @@ async function sendEmailHelper(args: {
       subject: args.subject,
       html: args.htmlBody,
       text: args.textBody,
+      attachments: args.attachments,
     });
 
     if (error) {
@@ -305,6 +311,7 @@ export const sendBookingConfirmed = internalAction({
     slotDate: v.string(),
     slotTime: v.string(),
     guests: v.number(),
+    addOns: v.optional(v.array(addOnItemValidator)),
     totalPrice: v.number(),
     bookingId: v.string(),
   },
@@ -318,6 +325,24 @@ export const sendBookingConfirmed = internalAction({
 
     const bookingUrl = `${FRONTEND_URL}/bookings/${args.bookingId}`;
 
+    // The confirmation still goes out if the ticket can't be signed
+    let ticketCode: string | null = null;
+    try {
+      ticketCode = await getTicketCode(args.bookingId);
+    } catch (error) {
+      console.error("Failed to create ticket code:", error);
+    }
+
+    // The QR code is attached inline - ticket codes never go to an image service
+    let ticketQrPng: string | null = null;
+    if (ticketCode) {
+      try {
+        ticketQrPng = await ctx.runAction(internal.notifications.ticketQr.renderTicketQr, { code: ticketCode });
+      } catch (error) {
+        console.error("Failed to render ticket QR code:", error);
+      }
+    }
+
     const subject = `Booking Confirmed: ${args.listingTitle}`;
 
     const htmlBody = `
@@ -330,6 +355,8 @@ export const sendBookingConfirmed = internalAction({
     .header { background: linear-gradient(135deg, #0d9488 0%, #14b8a6 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
     .content { background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
     .details { background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0; }
+    .ticket { text-align: center; border: 2px dashed #14b8a6; padding: 20px; border-radius: 8px; margin: 20px 0; }
+    .ticket code { font-size: 12px; color: #6b7280; word-break: break-all; }
     .button { display: inline-block; background: #0d9488; color: white !important; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; margin: 20px 0; }
     .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 14px; }
   </style>
@@ -351,17 +378,29 @@ export const sendBookingConfirmed = internalAction({
         <p><strong>Date:</strong> ${formattedDate}</p>
         <p><strong>Time:</strong> ${args.slotTime}</p>
         <p><strong>Guests:</strong> ${args.guests}</p>
+        ${args.addOns?.length ? `<p><strong>Extras:</strong> ${describeAddOns(args.addOns)}</p>` : ''}
         <p><strong>Total:</strong> ฿${args.totalPrice.toLocaleString()}</p>
       </div>
 
+      ${ticketCode ? `
+      <div class="ticket">
+        <h3>🎟️ Your Ticket</h3>
+        ${ticketQrPng ? `
+        <img src="cid:ticket-qr" width="200" height="200" alt="Ticket QR code" />
+        <p>Show this QR code when you arrive.</p>
+        ` : '<p>Show this ticket code when you arrive.</p>'}
+        <code>${ticketCode}</code>
+      </div>
+      ` : ''}
+
       <center>
         <a href="${bookingUrl}" class="button">View Booking Details</a>
       </center>
 
       <p><strong>What's Next?</strong></p>
       <ul>
-        <li>We'll send you a reminder 24 hours before your activity</li>
-        <li>Check your booking details for meeting point and instructions</li>
+        <li>We'll send you a reminder with the meeting point before your activity</li>
+        <li>Check your booking details for instructions</li>
         <li>Contact the vendor if you have any questions</li>
       </ul>
     </div>
@@ -383,13 +422,13 @@ Your Booking:
 - Date: ${formattedDate}
 - Time: ${args.slotTime}
 - Guests: ${args.guests}
-- Total: ฿${args.totalPrice.toLocaleString()}
-
+${args.addOns?.length ? `- Extras: ${describeAddOns(args.addOns)}\n` : ''}- Total: ฿${args.totalPrice.toLocaleString()}
+${ticketCode ? `\nYour ticket code (show it when you arrive): ${ticketCode}\n` : ''}
 View details: ${bookingUrl}
 
 What's Next?
-- We'll send you a reminder 24 hours before
-- Check booking details for meeting point
+- We'll send you a reminder with the meeting point before your activity
+- Check booking details for instructions
 - Contact the vendor with any questions
 
 Book The Islands - Your Island Adventure Marketplace
@@ -400,6 +439,9 @@ Book The Islands - Your Island Adventure Marketplace
       subject,
       htmlBody,
       textBody,
+      attachments: ticketQrPng
+        ? [{ filename: "ticket.png", content: ticketQrPng, contentId: "ticket-qr" }]
+        : undefined,
     });
   },
 });
@@ -417,6 +459,7 @@ export const sendNewSale = internalAction({
     slotDate: v.string(),
     slotTime: v.string(),
     guests: v.number(),
+    addOns: v.optional(v.array(addOnItemValidator)),
     totalPrice: v.number(),
     vendorEarnings: v.number(),
     platformFee: v.number(),
@@ -477,6 +520,7 @@ export const sendNewSale = internalAction({
         <p><strong>Date:</strong> ${formattedDate}</p>
         <p><strong>Time:</strong> ${args.slotTime}</p>
         <p><strong>Guests:</strong> ${args.guests}</p>
+        ${args.addOns?.length ? `<p><strong>Extras to prepare:</strong> ${describeAddOns(args.addOns)}</p>` : ''}
       </div>
 
       <center>
@@ -514,7 +558,7 @@ Booking Details:
 - Date: ${formattedDate}
 - Time: ${args.slotTime}
 - Guests: ${args.guests}
-
+${args.addOns?.length ? `- Extras to prepare: ${describeAddOns(args.addOns)}\n` : ''}
 View booking: ${bookingUrl}
 
 What's Next?
@@ -535,3 +579,874 @@ Book The Islands - Vendor Dashboard
     });
   },
 });
+
+/**
+ * Send booking rescheduled email to vendor
+ */
+export const sendBookingRescheduled = internalAction({
+  args: {
+    to: v.string(),
+    vendorName: v.string(),
+    customerName: v.string(),
+    listingTitle: v.string(),
+    oldDate: v.string(),
+    oldTime: v.string(),
+    newDate: v.string(),
+    newTime: v.string(),
+    guests: v.number(),
+    bookingId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const formatDate = (date: string) =>
+      new Date(date).toLocaleDateString('en-US', {
+        weekday: 'long',
+        month: 'long',
+        day: 'numeric',
+        year: 'numeric',
+      });
+
+    const bookingUrl = `${FRONTEND_URL}/#/vendor/bookings`;
+
+    const subject = `Booking Rescheduled: ${args.listingTitle}`;
+
+    const htmlBody = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #0d9488 0%, #14b8a6 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+    .details { background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0; }
+    .old { color: #6b7280; text-decoration: line-through; }
+    .button { display: inline-block; background: #0d9488; color: white !important; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; margin: 20px 0; }
+    .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>📅 Booking Rescheduled</h1>
+    </div>
+    <div class="content">
+      <p>Hi ${args.vendorName},</p>
+
+      <p>${args.customerName} has moved their booking for <strong>${args.listingTitle}</strong> to a new time.</p>
+
+      <div class="details">
+        <p class="old"><strong>Was:</strong> ${formatDate(args.oldDate)} at ${args.oldTime}</p>
+        <p><strong>Now:</strong> ${formatDate(args.newDate)} at ${args.newTime}</p>
+        <p><strong>Guests:</strong> ${args.guests}</p>
+      </div>
+
+      <center>
+        <a href="${bookingUrl}" class="button">View Booking</a>
+      </center>
+    </div>
+    <div class="footer">
+      <p>Book The Islands - Vendor Dashboard</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    const textBody = `
+Hi ${args.vendorName},
+
+${args.customerName} has moved their booking for ${args.listingTitle} to a new time.
+
+Was: ${formatDate(args.oldDate)} at ${args.oldTime}
+Now: ${formatDate(args.newDate)} at ${args.newTime}
+Guests: ${args.guests}
+
+View booking: ${bookingUrl}
+
+Book The Islands - Vendor Dashboard
+    `;
+
+    return await sendEmailHelper({
+      to: args.to,
+      subject,
+      htmlBody,
+      textBody,
+    });
+  },
+});
+
+/**
+ * Send a gift voucher code to its recipient
+ */
+export const sendGiftVoucher = internalAction({
+  args: {
+    to: v.string(),
+    recipientName: v.string(),
+    purchaserName: v.string(),
+    code: v.string(),
+    amount: v.number(), // THB
+    message: v.optional(v.string()),
+    expiresAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const expiryDate = new Date(args.expiresAt).toLocaleDateString('en-US', {
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric',
+    });
+
+    const exploreUrl = `${FRONTEND_URL}/#/`;
+
+    const subject = `${args.purchaserName} sent you a ฿${args.amount.toLocaleString()} gift voucher`;
+
+    const htmlBody = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #0d9488 0%, #14b8a6 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+    .details { background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0; text-align: center; }
+    .code { font-size: 28px; font-weight: bold; letter-spacing: 2px; color: #0d9488; }
+    .message { font-style: italic; border-left: 4px solid #14b8a6; padding-left: 15px; margin: 20px 0; }
+    .button { display: inline-block; background: #0d9488; color: white !important; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; margin: 20px 0; }
+    .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>🎁 You've Got a Gift!</h1>
+    </div>
+    <div class="content">
+      <p>Hi ${args.recipientName},</p>
+
+      <p>${args.purchaserName} has sent you a <strong>฿${args.amount.toLocaleString()}</strong> gift voucher for activities on the island.</p>
+
+      ${args.message ? `<p class="message">"${args.message}"</p>` : ''}
+
+      <div class="details">
+        <p>Your voucher code</p>
+        <p class="code">${args.code}</p>
+        <p>Valid until ${expiryDate}</p>
+      </div>
+
+      <p>Enter the code when you book any activity. You can use the balance across as many bookings as you like until it runs out.</p>
+
+      <center>
+        <a href="${exploreUrl}" class="button">Explore Activities</a>
+      </center>
+    </div>
+    <div class="footer">
+      <p>Book The Islands - Your Island Adventure Marketplace</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    const textBody = `
+Hi ${args.recipientName},
+
+${args.purchaserName} has sent you a ฿${args.amount.toLocaleString()} gift voucher for activities on the island.
+${args.message ? `\n"${args.message}"\n` : ''}
+Your voucher code: ${args.code}
+Valid until ${expiryDate}
+
+Enter the code when you book any activity. You can use the balance across as many bookings as you like until it runs out.
+
+Explore activities: ${exploreUrl}
+
+Book The Islands - Your Island Adventure Marketplace
+    `;
+
+    return await sendEmailHelper({
+      to: args.to,
+      subject,
+      htmlBody,
+      textBody,
+    });
+  },
+});
+
+// ============================================
+// WAIVER REQUEST EMAIL
+// ============================================
+
+/**
+ * Send the customer a link for their group to sign the activity's waiver
+ */
+export const sendWaiverRequest = internalAction({
+  args: {
+    to: v.string(),
+    customerName: v.string(),
+    listingTitle: v.string(),
+    bookingDate: v.string(),
+    guests: v.number(),
+    signed: v.number(), // Guests who have already signed
+    bookingId: v.string(),
+    token: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const formattedDate = new Date(args.bookingDate).toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+
+    const waiverUrl = `${FRONTEND_URL}/waiver/${args.bookingId}?token=${args.token}`;
+    const remaining = args.guests - args.signed;
+
+    const subject = `Waiver to sign for ${args.listingTitle}`;
+
+    const htmlBody = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #0d9488 0%, #14b8a6 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+    .details { background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0; }
+    .button { display: inline-block; background: #0d9488; color: white !important; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; margin: 20px 0; }
+    .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>✍️ Waiver Needed</h1>
+    </div>
+    <div class="content">
+      <p>Hi ${args.customerName},</p>
+
+      <p><strong>${args.listingTitle}</strong> asks every guest to sign a liability waiver before the activity.</p>
+
+      <div class="details">
+        <p><strong>Date:</strong> ${formattedDate}</p>
+        <p><strong>Still to sign:</strong> ${remaining} of ${args.guests} ${args.guests === 1 ? 'guest' : 'guests'}</p>
+      </div>
+
+      <p>Open the link below to sign, and forward this email to the rest of your group so each of them can sign too.</p>
+
+      <center>
+        <a href="${waiverUrl}" class="button">Sign the Waiver</a>
+      </center>
+    </div>
+    <div class="footer">
+      <p>Book The Islands - Your Island Adventure Marketplace</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    const textBody = `
+Hi ${args.customerName},
+
+${args.listingTitle} asks every guest to sign a liability waiver before the activity.
+
+Date: ${formattedDate}
+Still to sign: ${remaining} of ${args.guests} ${args.guests === 1 ? 'guest' : 'guests'}
+
+Open the link below to sign, and forward this email to the rest of your group so each of them can sign too.
+
+Sign the waiver: ${waiverUrl}
+
+Book The Islands - Your Island Adventure Marketplace
+    `;
+
+    return await sendEmailHelper({
+      to: args.to,
+      subject,
+      htmlBody,
+      textBody,
+    });
+  },
+});
+
+// ============================================
+// BOOKING REQUEST EMAILS
+// ============================================
+
+/**
+ * Ask the vendor to approve or decline a booking request before it expires
+ */
+export const sendBookingRequest = internalAction({
+  args: {
+    to: v.string(),
+    vendorName: v.string(),
+    customerName: v.string(),
+    listingTitle: v.string(),
+    slotDate: v.string(),
+    slotTime: v.string(),
+    guests: v.number(),
+    totalPrice: v.number(), // Amount in cents
+    expiresAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const formattedDate = new Date(args.slotDate).toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+    const formattedDeadline = new Date(args.expiresAt).toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+    const formattedPrice = (args.totalPrice / 100).toFixed(2);
+
+    const dashboardUrl = `${FRONTEND_URL}/vendor`;
+
+    const subject = `Booking request for ${args.listingTitle} - please respond`;
+
+    const htmlBody = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #0d9488 0%, #14b8a6 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+    .details { background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0; }
+    .deadline { background: #fef3c7; border-left: 4px solid #f59e0b; padding: 15px; margin: 20px 0; border-radius: 4px; }
+    .button { display: inline-block; background: #0d9488; color: white !important; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; margin: 20px 0; }
+    .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>📩 New Booking Request</h1>
+    </div>
+    <div class="content">
+      <p>Hi ${args.vendorName},</p>
+
+      <p><strong>${args.customerName}</strong> would like to book <strong>${args.listingTitle}</strong>.</p>
+
+      <div class="details">
+        <p><strong>Date:</strong> ${formattedDate}</p>
+        <p><strong>Time:</strong> ${args.slotTime}</p>
+        <p><strong>Guests:</strong> ${args.guests}</p>
+        <p><strong>Total:</strong> ฿${formattedPrice}</p>
+      </div>
+
+      <div class="deadline">
+        <p><strong>Respond by ${formattedDeadline}.</strong> The customer's card is authorized and is only charged if you approve. Requests you don't answer in time are declined automatically.</p>
+      </div>
+
+      <center>
+        <a href="${dashboardUrl}" class="button">Review Request</a>
+      </center>
+    </div>
+    <div class="footer">
+      <p>Book The Islands - Your Island Adventure Marketplace</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    const textBody = `
+Hi ${args.vendorName},
+
+${args.customerName} would like to book ${args.listingTitle}.
+
+Date: ${formattedDate}
+Time: ${args.slotTime}
+Guests: ${args.guests}
+Total: ฿${formattedPrice}
+
+Respond by ${formattedDeadline}. The customer's card is authorized and is only charged if you approve. Requests you don't answer in time are declined automatically.
+
+Review the request: ${dashboardUrl}
+
+Book The Islands - Your Island Adventure Marketplace
+    `;
+
+    return await sendEmailHelper({
+      to: args.to,
+      subject,
+      htmlBody,
+      textBody,
+    });
+  },
+});
+
+/**
+ * Tell the customer their booking request was declined or expired
+ * and that their card was not charged
+ */
+export const sendBookingRequestDeclined = internalAction({
+  args: {
+    to: v.string(),
+    customerName: v.string(),
+    listingTitle: v.string(),
+    slotDate: v.string(),
+    slotTime: v.string(),
+    expired: v.boolean(),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const formattedDate = new Date(args.slotDate).toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+
+    const exploreUrl = `${FRONTEND_URL}/`;
+    const outcome = args.expired
+      ? "The vendor wasn't able to respond to your booking request in time, so it has been declined."
+      : "Unfortunately the vendor has declined your booking request.";
+
+    const subject = `Booking request for ${args.listingTitle} ${args.expired ? 'expired' : 'declined'}`;
+
+    const htmlBody = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #6b7280; color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+    .details { background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0; }
+    .button { display: inline-block; background: #0d9488; color: white !important; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; margin: 20px 0; }
+    .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>Booking Request ${args.expired ? 'Expired' : 'Declined'}</h1>
+    </div>
+    <div class="content">
+      <p>Hi ${args.customerName},</p>
+
+      <p>${outcome}</p>
+
+      <div class="details">
+        <p><strong>Activity:</strong> ${args.listingTitle}</p>
+        <p><strong>Date:</strong> ${formattedDate}</p>
+        <p><strong>Time:</strong> ${args.slotTime}</p>
+        ${args.reason ? `<p><strong>Message from the vendor:</strong> ${args.reason}</p>` : ''}
+      </div>
+
+      <p>Your card was <strong>not charged</strong> - the authorization has been released.</p>
+
+      <center>
+        <a href="${exploreUrl}" class="button">Browse Activities</a>
+      </center>
+    </div>
+    <div class="footer">
+      <p>Book The Islands - Your Island Adventure Marketplace</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    const textBody = `
+Hi ${args.customerName},
+
+${outcome}
+
+Activity: ${args.listingTitle}
+Date: ${formattedDate}
+Time: ${args.slotTime}
+${args.reason ? `Message from the vendor: ${args.reason}\n` : ''}
+Your card was not charged - the authorization has been released.
+
+Browse more activities: ${exploreUrl}
+
+Book The Islands - Your Island Adventure Marketplace
+    `;
+
+    return await sendEmailHelper({
+      to: args.to,
+      subject,
+      htmlBody,
+      textBody,
+    });
+  },
+});
+
+/**
+ * Tell the vendor a booking request expired before they answered it
+ */
+export const sendBookingRequestExpired = internalAction({
+  args: {
+    to: v.string(),
+    vendorName: v.string(),
+    customerName: v.string(),
+    listingTitle: v.string(),
+    slotDate: v.string(),
+    slotTime: v.string(),
+    guests: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const formattedDate = new Date(args.slotDate).toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+
+    const subject = `Booking request for ${args.listingTitle} expired`;
+
+    const htmlBody = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #6b7280; color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+    .details { background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0; }
+    .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>Booking Request Expired</h1>
+    </div>
+    <div class="content">
+      <p>Hi ${args.vendorName},</p>
+
+      <p>A booking request from <strong>${args.customerName}</strong> wasn't answered in time and has been declined automatically. The customer was not charged and the seats are back on sale.</p>
+
+      <div class="details">
+        <p><strong>Activity:</strong> ${args.listingTitle}</p>
+        <p><strong>Date:</strong> ${formattedDate}</p>
+        <p><strong>Time:</strong> ${args.slotTime}</p>
+        <p><strong>Guests:</strong> ${args.guests}</p>
+      </div>
+    </div>
+    <div class="footer">
+      <p>Book The Islands - Your Island Adventure Marketplace</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    const textBody = `
+Hi ${args.vendorName},
+
+A booking request from ${args.customerName} wasn't answered in time and has been declined automatically. The customer was not charged and the seats are back on sale.
+
+Activity: ${args.listingTitle}
+Date: ${formattedDate}
+Time: ${args.slotTime}
+Guests: ${args.guests}
+
+Book The Islands - Your Island Adventure Marketplace
+    `;
+
+    return await sendEmailHelper({
+      to: args.to,
+      subject,
+      htmlBody,
+      textBody,
+    });
+  },
+});
+
+// ============================================
+// BOOKING REMINDER EMAIL
+// ============================================
+
+/**
+ * Remind the customer of an upcoming booking, with the meeting point
+ * and the vendor's pre-activity note
+ */
+export const sendBookingReminder = internalAction({
+  args: {
+    to: v.string(),
+    customerName: v.string(),
+    listingTitle: v.string(),
+    slotDate: v.string(),
+    slotTime: v.string(),
+    guests: v.number(),
+    startsIn: v.string(),
+    meetingPoint: v.string(),
+    mapUrl: v.string(),
+    vendorNote: v.optional(v.string()),
+    bookingId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const formattedDate = new Date(args.slotDate).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric',
+    });
+
+    const bookingUrl = `${FRONTEND_URL}/bookings/${args.bookingId}`;
+
+    const subject = `Reminder: ${args.listingTitle} starts in ${args.startsIn}`;
+
+    const htmlBody = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #0d9488 0%, #14b8a6 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+    .details { background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0; }
+    .note { background: #f0fdfa; border-left: 4px solid #14b8a6; padding: 15px; margin: 20px 0; border-radius: 4px; white-space: pre-line; }
+    .button { display: inline-block; background: #0d9488; color: white !important; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; margin: 20px 0; }
+    .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>⏰ See You Soon!</h1>
+      <p>${args.listingTitle} starts in ${args.startsIn}</p>
+    </div>
+    <div class="content">
+      <p>Hi ${args.customerName},</p>
+
+      <p>This is a reminder of your upcoming booking for <strong>${args.listingTitle}</strong>.</p>
+
+      <div class="details">
+        <p><strong>Date:</strong> ${formattedDate}</p>
+        ${args.slotTime ? `<p><strong>Time:</strong> ${args.slotTime}</p>` : ''}
+        <p><strong>Guests:</strong> ${args.guests}</p>
+        <p><strong>Meeting point:</strong> ${args.meetingPoint}<br /><a href="${args.mapUrl}">Open in Google Maps</a></p>
+      </div>
+
+      ${args.vendorNote ? `
+      <div class="note">
+        <strong>📝 A note from your host</strong>
+        ${args.vendorNote}
+      </div>
+      ` : ''}
+
+      <center>
+        <a href="${bookingUrl}" class="button">View Booking &amp; Ticket</a>
+      </center>
+    </div>
+    <div class="footer">
+      <p>Book The Islands - Your Island Adventure Marketplace</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    const textBody = `
+Hi ${args.customerName},
+
+This is a reminder of your upcoming booking for ${args.listingTitle}, starting in ${args.startsIn}.
+
+Date: ${formattedDate}
+${args.slotTime ? `Time: ${args.slotTime}\n` : ''}Guests: ${args.guests}
+Meeting point: ${args.meetingPoint}
+Map: ${args.mapUrl}
+${args.vendorNote ? `\nA note from your host:\n${args.vendorNote}\n` : ''}
+View your booking and ticket: ${bookingUrl}
+
+Book The Islands - Your Island Adventure Marketplace
+    `;
+
+    return await sendEmailHelper({
+      to: args.to,
+      subject,
+      htmlBody,
+      textBody,
+    });
+  },
+});
+
+// ============================================
+// REVIEW REQUEST EMAIL
+// ============================================
+
+/**
+ * Invite the customer to review a completed booking, with one-click star
+ * links that open the review page without signing in
+ */
+export const sendReviewRequest = internalAction({
+  args: {
+    to: v.string(),
+    customerName: v.string(),
+    listingTitle: v.string(),
+    slotDate: v.string(),
+    bookingId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const formattedDate = new Date(args.slotDate).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+
+    // Without a signed link the customer reviews from their trips page
+    let reviewUrl = `${FRONTEND_URL}/review/${args.bookingId}`;
+    try {
+      reviewUrl += `?token=${await getReviewToken(args.bookingId)}`;
+    } catch (error) {
+      console.error("Failed to create review token:", error);
+    }
+    const starUrl = (rating: number) =>
+      `${reviewUrl}${reviewUrl.includes('?') ? '&' : '?'}rating=${rating}`;
+
+    const subject = `How was ${args.listingTitle}?`;
+
+    const htmlBody = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #0d9488 0%, #14b8a6 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+    .stars { text-align: center; margin: 20px 0; }
+    .stars a { font-size: 32px; color: #facc15; text-decoration: none; margin: 0 4px; }
+    .button { display: inline-block; background: #0d9488; color: white !important; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; margin: 20px 0; }
+    .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>⭐ How Was It?</h1>
+    </div>
+    <div class="content">
+      <p>Hi ${args.customerName},</p>
+
+      <p>We hope you enjoyed <strong>${args.listingTitle}</strong> on ${formattedDate}! Your review helps other travelers and the people who run the activity.</p>
+
+      <div class="stars">
+        <p><strong>Tap a star to rate your experience:</strong></p>
+        ${[1, 2, 3, 4, 5].map(rating => `<a href="${starUrl(rating)}">★</a>`).join('')}
+      </div>
+
+      <center>
+        <a href="${reviewUrl}" class="button">Write a Review</a>
+      </center>
+    </div>
+    <div class="footer">
+      <p>Book The Islands - Your Island Adventure Marketplace</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    const textBody = `
+Hi ${args.customerName},
+
+We hope you enjoyed ${args.listingTitle} on ${formattedDate}! Your review helps other travelers and the people who run the activity.
+
+Write a review: ${reviewUrl}
+
+Book The Islands - Your Island Adventure Marketplace
+    `;
+
+    return await sendEmailHelper({
+      to: args.to,
+      subject,
+      htmlBody,
+      textBody,
+    });
+  },
+});
+
+// ============================================
+// DEPOSIT BALANCE EMAILS
+// ============================================
+
+/**
+ * Ask the customer to pay a balance their saved card couldn't cover
+ */
+export const sendBalancePaymentFailed = internalAction({
+  args: {
+    to: v.string(),
+    customerName: v.string(),
+    listingTitle: v.string(),
+    slotDate: v.string(),
+    amount: v.number(), // Cents
+  },
+  handler: async (ctx, args) => {
+    const formattedDate = new Date(args.slotDate).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+    const amount = `฿${(args.amount / 100).toLocaleString()}`;
+
+    const subject = `Action needed: balance for ${args.listingTitle}`;
+
+    const htmlBody = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #f59e0b 0%, #d97706 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+    .button { display: inline-block; background: #0d9488; color: white !important; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; margin: 20px 0; }
+    .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>💳 Balance Payment Failed</h1>
+    </div>
+    <div class="content">
+      <p>Hi ${args.customerName},</p>
+
+      <p>We tried to charge the <strong>${amount}</strong> balance for <strong>${args.listingTitle}</strong> on ${formattedDate} to the card you paid your deposit with, but the payment didn't go through.</p>
+
+      <p>Please pay the balance from your trips page before the activity.</p>
+
+      <center>
+        <a href="${FRONTEND_URL}/trips" class="button">Pay Balance</a>
+      </center>
+    </div>
+    <div class="footer">
+      <p>Book The Islands - Your Island Adventure Marketplace</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    const textBody = `
+Hi ${args.customerName},
+
+We tried to charge the ${amount} balance for ${args.listingTitle} on ${formattedDate} to the card you paid your deposit with, but the payment didn't go through.
+
+Please pay the balance from your trips page before the activity: ${FRONTEND_URL}/trips
+
+Book The Islands - Your Island Adventure Marketplace
+    `;
+
+    return await sendEmailHelper({
+      to: args.to,
+      subject,
+      htmlBody,
+      textBody,
+    });
+  },
+});
@@ -192,6 +192,117 @@ export const notifyBookingConfirmed = internalMutation({
   },
 });
 
+// ============================================
+// BOOKING REMINDER NOTIFICATION
+// ============================================
+
+export const notifyBookingReminder = internalMutation({
+  args: {
+    userId: v.string(),
+    listingTitle: v.string(),
+    slotDate: v.string(),
+    slotTime: v.string(),
+    startsIn: v.string(),
+    meetingPoint: v.string(),
+    listingId: v.id("listings"),
+    bookingId: v.id("bookings"),
+    slotId: v.optional(v.id("slots")),
+  },
+  handler: async (ctx, args) => {
+    const formattedDate = new Date(args.slotDate).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+    const when = args.slotTime ? `${formattedDate} at ${args.slotTime}` : formattedDate;
+
+    await ctx.db.insert("notifications", {
+      userId: args.userId,
+      type: "booking_reminder",
+      title: `Starting in ${args.startsIn}`,
+      message: `${args.listingTitle} starts ${when}. Meeting point: ${args.meetingPoint}.`,
+      listingId: args.listingId,
+      slotId: args.slotId,
+      bookingId: args.bookingId,
+      actionUrl: `/bookings/${args.bookingId}`,
+      actionLabel: "View Details",
+      isRead: false,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+// ============================================
+// REVIEW REQUEST NOTIFICATION
+// ============================================
+
+export const notifyReviewRequest = internalMutation({
+  args: {
+    userId: v.string(),
+    listingTitle: v.string(),
+    listingId: v.id("listings"),
+    bookingId: v.id("bookings"),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("notifications", {
+      userId: args.userId,
+      type: "review_request",
+      title: "How Was It?",
+      message: `We hope you enjoyed ${args.listingTitle}! Share your experience to help other travelers.`,
+      listingId: args.listingId,
+      bookingId: args.bookingId,
+      actionUrl: `/review/${args.bookingId}`,
+      actionLabel: "Write a Review",
+      isRead: false,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+// ============================================
+// BALANCE PAYMENT FAILED NOTIFICATION
+// ============================================
+
+export const notifyBalancePaymentFailed = internalMutation({
+  args: {
+    userId: v.string(),
+    listingTitle: v.string(),
+    slotDate: v.string(),
+    amount: v.number(), // Cents
+    listingId: v.id("listings"),
+    bookingId: v.id("bookings"),
+  },
+  handler: async (ctx, args) => {
+    const formattedDate = new Date(args.slotDate).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+
+    await ctx.db.insert("notifications", {
+      userId: args.userId,
+      type: "balance_payment_failed",
+      title: "Balance Payment Failed",
+      message: `We couldn't charge the ฿${(args.amount / 100).toLocaleString()} balance for ${args.listingTitle} on ${formattedDate} to your card. Please pay it to keep your booking.`,
+      listingId: args.listingId,
+      bookingId: args.bookingId,
+      actionUrl: "/trips",
+      actionLabel: "Pay Balance",
+      isRead: false,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
 // ============================================
 // GET USER NOTIFICATIONS
 // ============================================
@@ -387,3 +498,169 @@ export const notifyNewSale = internalMutation({
     return { success: true };
   },
 });
+
+/**
+ * Notify vendor that a customer moved their booking to another slot
+ */
+export const notifyBookingRescheduled = internalMutation({
+  args: {
+    vendorId: v.string(),
+    customerName: v.string(),
+    listingTitle: v.string(),
+    oldDate: v.string(),
+    oldTime: v.string(),
+    newDate: v.string(),
+    newTime: v.string(),
+    guests: v.number(),
+    listingId: v.id("listings"),
+    bookingId: v.id("bookings"),
+  },
+  handler: async (ctx, args) => {
+    const formatDate = (date: string) =>
+      new Date(date).toLocaleDateString('en-US', {
+        weekday: 'long',
+        month: 'long',
+        day: 'numeric',
+      });
+
+    await ctx.db.insert("notifications", {
+      userId: args.vendorId,
+      type: "booking_rescheduled",
+      title: "Booking Rescheduled",
+      message: `${args.customerName} moved their ${args.listingTitle} booking (${args.guests} guest${args.guests > 1 ? 's' : ''}) from ${formatDate(args.oldDate)} at ${args.oldTime} to ${formatDate(args.newDate)} at ${args.newTime}.`,
+      listingId: args.listingId,
+      bookingId: args.bookingId,
+      actionUrl: `/vendor/bookings`,
+      actionLabel: "View Booking",
+      isRead: false,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+// ============================================
+// BOOKING REQUEST NOTIFICATIONS
+// ============================================
+
+/**
+ * Notify vendor of a booking request waiting for their approval
+ */
+export const notifyBookingRequest = internalMutation({
+  args: {
+    vendorId: v.string(),
+    customerName: v.string(),
+    listingTitle: v.string(),
+    slotDate: v.string(),
+    slotTime: v.string(),
+    guests: v.number(),
+    expiresAt: v.number(),
+    listingId: v.id("listings"),
+    bookingId: v.id("bookings"),
+  },
+  handler: async (ctx, args) => {
+    const formattedDate = new Date(args.slotDate).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+    const formattedDeadline = new Date(args.expiresAt).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+    await ctx.db.insert("notifications", {
+      userId: args.vendorId,
+      type: "booking_request",
+      title: "New Booking Request",
+      message: `${args.customerName} requested ${args.listingTitle} for ${formattedDate} at ${args.slotTime} (${args.guests} guest${args.guests > 1 ? 's' : ''}). Approve or decline by ${formattedDeadline}.`,
+      listingId: args.listingId,
+      bookingId: args.bookingId,
+      actionUrl: `/vendor`,
+      actionLabel: "Review Request",
+      isRead: false,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Notify customer that their booking request was declined or expired
+ */
+export const notifyBookingRequestDeclined = internalMutation({
+  args: {
+    userId: v.string(),
+    listingTitle: v.string(),
+    slotDate: v.string(),
+    expired: v.boolean(),
+    listingId: v.id("listings"),
+    bookingId: v.id("bookings"),
+  },
+  handler: async (ctx, args) => {
+    const formattedDate = new Date(args.slotDate).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+
+    await ctx.db.insert("notifications", {
+      userId: args.userId,
+      type: "booking_request_declined",
+      title: args.expired ? "Booking Request Expired" : "Booking Request Declined",
+      message: args.expired
+        ? `The vendor didn't respond to your request for ${args.listingTitle} on ${formattedDate} in time. Your card was not charged.`
+        : `Your request for ${args.listingTitle} on ${formattedDate} was declined. Your card was not charged.`,
+      listingId: args.listingId,
+      bookingId: args.bookingId,
+      actionUrl: `/listing/${args.listingId}`,
+      actionLabel: "Pick Another Time",
+      isRead: false,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Notify vendor that a booking request expired before they answered it
+ */
+export const notifyBookingRequestExpired = internalMutation({
+  args: {
+    vendorId: v.string(),
+    customerName: v.string(),
+    listingTitle: v.string(),
+    slotDate: v.string(),
+    listingId: v.id("listings"),
+    bookingId: v.id("bookings"),
+  },
+  handler: async (ctx, args) => {
+    const formattedDate = new Date(args.slotDate).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+
+    await ctx.db.insert("notifications", {
+      userId: args.vendorId,
+      type: "booking_request_expired",
+      title: "Booking Request Expired",
+      message: `${args.customerName}'s request for ${args.listingTitle} on ${formattedDate} wasn't answered in time and was declined automatically.`,
+      listingId: args.listingId,
+      bookingId: args.bookingId,
+      isRead: false,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
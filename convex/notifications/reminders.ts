@@ -0,0 +1,140 @@
+/**
+ * Booking Reminders
+ *
+ * Sends customers a reminder (in-app and email) ahead of each confirmed
+ * booking, following the listing's reminder schedule. Every reminder sent is
+ * recorded in bookingReminders, with the start it was for, so a booking never
+ * gets the same one twice - and gets them again when it's rescheduled.
+ */
+
+import { internalMutation } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { getActivityStartTime } from "../lib/cancellationPolicy";
+import {
+  getReminderOffsets,
+  getMapUrl,
+  formatReminderOffset,
+  MAX_REMINDER_OFFSET_HOURS,
+} from "../lib/reminders";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ============================================
+// SEND DUE REMINDERS
+// ============================================
+
+/**
+ * Send every reminder that has come due for upcoming confirmed bookings.
+ * When several reminders are due at once (e.g. the booking was made 3 hours
+ * before the activity) only the closest one is sent and the rest are
+ * recorded as sent.
+ */
+export const sendDueReminders = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    // Booking dates are local, so look one day back to cover time zones
+    const dates: string[] = [];
+    for (let day = -1; day <= Math.ceil(MAX_REMINDER_OFFSET_HOURS / 24) + 1; day++) {
+      dates.push(new Date(now + day * DAY_MS).toISOString().split('T')[0]);
+    }
+
+    let sent = 0;
+
+    for (const date of dates) {
+      const bookings = await ctx.db
+        .query("bookings")
+        .withIndex("by_date", (q) => q.eq("bookingDate", date))
+        .filter((q) => q.eq(q.field("status"), "confirmed"))
+        .collect();
+
+      for (const booking of bookings) {
+        const listing = await ctx.db.get(booking.listingId);
+        if (!listing) {
+          continue;
+        }
+
+        const offsets = getReminderOffsets(listing);
+        if (offsets.length === 0) {
+          continue;
+        }
+
+        const slot = booking.slotId ? await ctx.db.get(booking.slotId) : null;
+        const activityStart = getActivityStartTime(booking.bookingDate, slot?.startTime);
+        if (activityStart <= now) {
+          continue;
+        }
+
+        const alreadySent = await ctx.db
+          .query("bookingReminders")
+          .withIndex("by_booking", (q) => q.eq("bookingId", booking._id))
+          .collect();
+        const sentOffsets = new Set(
+          alreadySent
+            .filter((r) => r.startsAt === undefined || r.startsAt === activityStart)
+            .map((r) => r.offsetHours)
+        );
+
+        const due = offsets.filter(
+          (hours) => !sentOffsets.has(hours) && now >= activityStart - hours * HOUR_MS
+        );
+        if (due.length === 0) {
+          continue;
+        }
+
+        for (const offsetHours of due) {
+          await ctx.db.insert("bookingReminders", {
+            bookingId: booking._id,
+            offsetHours,
+            startsAt: activityStart,
+            sentAt: now,
+          });
+        }
+
+        const hoursLeft = Math.max(1, Math.round((activityStart - now) / HOUR_MS));
+        const startsIn = formatReminderOffset(hoursLeft);
+        const slotTime = slot?.startTime || "";
+        const meetingPoint = listing.meetingPoint || listing.location;
+        const mapUrl = listing.meetingPoint
+          ? getMapUrl({ address: listing.meetingPoint })
+          : getMapUrl({
+              latitude: listing.latitude,
+              longitude: listing.longitude,
+              address: listing.location,
+            });
+
+        await ctx.scheduler.runAfter(0, internal.notifications.inApp.notifyBookingReminder, {
+          userId: booking.customerId,
+          listingTitle: listing.title,
+          slotDate: booking.bookingDate,
+          slotTime,
+          startsIn,
+          meetingPoint,
+          listingId: listing._id,
+          bookingId: booking._id,
+          slotId: booking.slotId,
+        });
+
+        await ctx.scheduler.runAfter(0, internal.notifications.email.sendBookingReminder, {
+          to: booking.customerEmail,
+          customerName: booking.customerName,
+          listingTitle: listing.title,
+          slotDate: booking.bookingDate,
+          slotTime,
+          guests: booking.guests,
+          startsIn,
+          meetingPoint,
+          mapUrl,
+          vendorNote: listing.reminderNote,
+          bookingId: booking._id,
+        });
+
+        sent++;
+      }
+    }
+
+    return { sent };
+  },
+});
@@ -0,0 +1,27 @@
+"use node";
+
+/**
+ * Ticket QR Codes
+ *
+ * Renders the QR code image for the confirmation email here rather than
+ * through an image service - a ticket code checks guests in, so it must
+ * not leave our servers. PNG encoding needs the Node runtime.
+ */
+
+import { internalAction } from "../_generated/server";
+import { v } from "convex/values";
+import QRCode from "qrcode";
+
+/**
+ * Base64 PNG of a ticket code's QR code, for an inline email attachment
+ */
+export const renderTicketQr = internalAction({
+  args: {
+    code: v.string(),
+    size: v.optional(v.number()),
+  },
+  handler: async (_ctx, args) => {
+    const png = await QRCode.toBuffer(args.code, { width: args.size ?? 240, margin: 2 });
+    return png.toString("base64");
+  },
+});
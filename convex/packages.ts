@@ -0,0 +1,574 @@
+/**
+ * Packages Queries and Mutations
+ *
+ * Vendors bundle their own listings, and admins bundle listings from any
+ * vendor, into multi-day packages sold at a package price. Booking a
+ * package reserves every component slot in one transaction and pays for
+ * all of them with one checkout, so each vendor gets their share of the
+ * package price less their commission (see cart.ts for checkouts).
+ */
+
+import { v } from "convex/values";
+import { query, mutation, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  getCurrentUserId,
+  getCurrentUserIdOrNull,
+  requireUserProfile,
+  isAdmin,
+  requireVendor,
+} from "./lib/auth";
+import {
+  PackageComponent,
+  packageComponentValidator,
+  validatePackage,
+  hasFixedDates,
+  getPackageDayDate,
+  splitPackagePrice,
+  packageStopInputValidator,
+} from "./lib/packages";
+import { priceTickets } from "./lib/ticketTypes";
+import { getSlotTicketTypes } from "./lib/routes";
+import { requiresApproval } from "./lib/bookingRequests";
+import { checkBookingAnswers } from "./lib/bookingQuestions";
+import { hasWaiver } from "./lib/waivers";
+import { getSlotPricing, applyPriceAdjustment } from "./lib/pricingRules";
+import { toBasePricing } from "./exchangeRates";
+import { placeHold } from "./availability/holds";
+import { getResourceLimit } from "./availability/resources";
+import { resolvePickup } from "./pickups";
+
+interface ItineraryStop {
+  component: PackageComponent;
+  listing: Doc<"listings"> | null;
+  slot: Doc<"slots"> | null;
+  date: string;
+  problem: string | null;
+}
+
+// ============================================
+// PACKAGE HELPERS
+// ============================================
+
+/**
+ * The first day of a package: its earliest fixed slot, or the chosen date
+ */
+async function getStartDate(
+  ctx: QueryCtx,
+  pkg: Doc<"packages">,
+  startDate: string
+): Promise<string> {
+  if (!hasFixedDates(pkg.components)) {
+    return startDate;
+  }
+  const slots = await Promise.all(pkg.components.map((c) => ctx.db.get(c.slotId!)));
+  const dates = slots.filter((s): s is Doc<"slots"> => s !== null).map((s) => s.date).sort();
+  return dates[0] ?? startDate;
+}
+
+/**
+ * Find each component's slot for a start date and check it can take the guests
+ * Returns the reason a stop can't be booked instead of throwing
+ */
+async function resolveItinerary(
+  ctx: QueryCtx,
+  pkg: Doc<"packages">,
+  startDate: string,
+  guests: number
+): Promise<ItineraryStop[]> {
+  const now = Date.now();
+  const stops: ItineraryStop[] = [];
+
+  for (const component of pkg.components) {
+    const listing = await ctx.db.get(component.listingId);
+    let date = getPackageDayDate(startDate, component.day);
+
+    if (!listing) {
+      stops.push({ component, listing, slot: null, date, problem: "This activity is no longer available" });
+      continue;
+    }
+    if (requiresApproval(listing)) {
+      stops.push({ component, listing, slot: null, date, problem: "This activity needs the vendor's approval" });
+      continue;
+    }
+
+    let candidates: Doc<"slots">[];
+    if (component.slotId) {
+      const fixed = await ctx.db.get(component.slotId);
+      candidates = fixed ? [fixed] : [];
+      date = fixed?.date ?? date;
+    } else {
+      candidates = (await ctx.db
+        .query("slots")
+        .withIndex("by_listing_and_date", (q) => q.eq("listingId", listing._id).eq("date", date))
+        .collect())
+        .filter((s) => !component.ruleId || s.ruleId === component.ruleId)
+        .sort((a, b) => a.startTime.localeCompare(b.startTime));
+    }
+
+    const open = candidates.filter((s) => s.status === "active" && s.bookingDeadline > now);
+    if (open.length === 0) {
+      stops.push({ component, listing, slot: null, date, problem: `Not running on ${date}` });
+      continue;
+    }
+
+    // Earliest session with room for everyone (shared resources included)
+    let slot: Doc<"slots"> | null = null;
+    for (const candidate of open) {
+      const resourceLimit = await getResourceLimit(ctx, candidate);
+      const available = resourceLimit === null ? candidate.available : Math.min(candidate.available, resourceLimit);
+      if (available >= guests) {
+        slot = candidate;
+        break;
+      }
+    }
+
+    stops.push({
+      component,
+      listing,
+      slot,
+      date,
+      problem: slot ? null : `Not enough spots left on ${date}`,
+    });
+  }
+
+  return stops;
+}
+
+/**
+ * Check who may sell a package of these components
+ * Admins sell platform packages of any listing; vendors only their own listings.
+ */
+async function checkPackageComponents(
+  ctx: QueryCtx,
+  components: PackageComponent[]
+): Promise<{ userId: string; vendorId?: string }> {
+  const userId = await getCurrentUserId(ctx);
+  const admin = await isAdmin(ctx);
+  if (!admin) {
+    await requireVendor(ctx);
+  }
+
+  for (const component of components) {
+    const listing = await ctx.db.get(component.listingId);
+    if (!listing) {
+      throw new Error("Listing not found");
+    }
+    if (!admin && listing.vendorId !== userId) {
+      throw new Error("You can only include your own listings in a package");
+    }
+    if (component.ruleId) {
+      const rule = await ctx.db.get(component.ruleId);
+      if (!rule || rule.listingId !== listing._id) {
+        throw new Error(`Availability rule not found for ${listing.title}`);
+      }
+    }
+    if (component.slotId) {
+      const slot = await ctx.db.get(component.slotId);
+      if (!slot || slot.listingId !== listing._id) {
+        throw new Error(`Time slot not found for ${listing.title}`);
+      }
+    }
+  }
+
+  return { userId, vendorId: admin ? undefined : userId };
+}
+
+/**
+ * A package with its components' listings, for display
+ */
+async function withListings(ctx: QueryCtx, pkg: Doc<"packages">) {
+  const components = await Promise.all(
+    pkg.components.map(async (component) => {
+      const listing = await ctx.db.get(component.listingId);
+      return {
+        ...component,
+        listingTitle: listing?.title ?? "Unavailable activity",
+        imageUrl: listing?.imageUrl,
+        location: listing?.location,
+        vendorName: listing?.vendorName,
+      };
+    })
+  );
+
+  return {
+    ...pkg,
+    components,
+    fixedDates: hasFixedDates(pkg.components),
+    startDate: hasFixedDates(pkg.components) ? await getStartDate(ctx, pkg, "") : undefined,
+    vendorNames: [...new Set(components.map((c) => c.vendorName).filter(Boolean))],
+  };
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Packages on sale (Explore page)
+ */
+export const listActive = query({
+  args: {},
+  handler: async (ctx) => {
+    const packages = await ctx.db
+      .query("packages")
+      .withIndex("by_active", (q) => q.eq("active", true))
+      .collect();
+    return await Promise.all(packages.map((pkg) => withListings(ctx, pkg)));
+  },
+});
+
+/**
+ * A package with its components
+ */
+export const get = query({
+  args: { packageId: v.id("packages") },
+  handler: async (ctx, args) => {
+    const pkg = await ctx.db.get(args.packageId);
+    return pkg ? await withListings(ctx, pkg) : null;
+  },
+});
+
+/**
+ * The slots a package would book from a start date, and its price
+ */
+export const getItinerary = query({
+  args: {
+    packageId: v.id("packages"),
+    startDate: v.string(),   // YYYY-MM-DD (ignored for fixed-date packages)
+    guests: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const pkg = await ctx.db.get(args.packageId);
+    if (!pkg || !pkg.active) {
+      return null;
+    }
+
+    const startDate = await getStartDate(ctx, pkg, args.startDate);
+    const stops = await resolveItinerary(ctx, pkg, startDate, args.guests);
+
+    return {
+      startDate,
+      totalPrice: pkg.price * args.guests,
+      bookable: stops.every((stop) => !stop.problem),
+      stops: stops.map((stop) => ({
+        listingId: stop.component.listingId,
+        listingTitle: stop.listing?.title ?? "Unavailable activity",
+        day: stop.component.day,
+        note: stop.component.note,
+        date: stop.date,
+        startTime: stop.slot?.startTime,
+        endTime: stop.slot?.endTime,
+        problem: stop.problem,
+        // What the customer fills in for the activity, as when booking it alone
+        vendorName: stop.listing?.vendorName,
+        currency: stop.listing?.currency,
+        bookingQuestions: stop.listing?.bookingQuestions ?? [],
+        pickupZones: stop.listing?.pickupZones ?? [],
+        waiver: stop.listing && hasWaiver(stop.listing) ? stop.listing.waiver : undefined,
+      })),
+    };
+  },
+});
+
+/**
+ * Packages the current user can manage: a vendor's own, or all of them for admins
+ */
+export const getManageable = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getCurrentUserIdOrNull(ctx);
+    if (!userId) return [];
+
+    const packages = (await isAdmin(ctx))
+      ? await ctx.db.query("packages").collect()
+      : await ctx.db
+          .query("packages")
+          .withIndex("by_vendor", (q) => q.eq("vendorId", userId))
+          .collect();
+    return await Promise.all(packages.map((pkg) => withListings(ctx, pkg)));
+  },
+});
+
+/**
+ * The current customer's package bookings
+ */
+export const getMyBookings = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getCurrentUserIdOrNull(ctx);
+    if (!userId) return [];
+
+    return await ctx.db
+      .query("packageBookings")
+      .withIndex("by_customer", (q) => q.eq("customerId", userId))
+      .order("desc")
+      .collect();
+  },
+});
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Create a package
+ * Vendor (own listings) or Admin (platform package)
+ */
+export const create = mutation({
+  args: {
+    name: v.string(),
+    description: v.string(),
+    imageUrl: v.optional(v.string()),
+    components: v.array(packageComponentValidator),
+    durationDays: v.number(),
+    price: v.number(),
+  },
+  handler: async (ctx, args) => {
+    validatePackage(args);
+    const { userId, vendorId } = await checkPackageComponents(ctx, args.components);
+
+    const now = Date.now();
+    return await ctx.db.insert("packages", {
+      name: args.name.trim(),
+      description: args.description.trim(),
+      imageUrl: args.imageUrl || undefined,
+      vendorId,
+      createdBy: userId,
+      components: args.components,
+      durationDays: args.durationDays,
+      price: args.price,
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Update a package
+ * Its vendor, or an admin
+ */
+export const update = mutation({
+  args: {
+    packageId: v.id("packages"),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    imageUrl: v.optional(v.string()),
+    components: v.optional(v.array(packageComponentValidator)),
+    durationDays: v.optional(v.number()),
+    price: v.optional(v.number()),
+    active: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const pkg = await ctx.db.get(args.packageId);
+    if (!pkg) {
+      throw new Error("Package not found");
+    }
+
+    const updated = {
+      name: args.name?.trim() ?? pkg.name,
+      description: args.description?.trim() ?? pkg.description,
+      imageUrl: args.imageUrl !== undefined ? args.imageUrl || undefined : pkg.imageUrl,
+      components: args.components ?? pkg.components,
+      durationDays: args.durationDays ?? pkg.durationDays,
+      price: args.price ?? pkg.price,
+      active: args.active ?? pkg.active,
+    };
+    validatePackage(updated);
+
+    const { userId } = await checkPackageComponents(ctx, updated.components);
+    if (pkg.vendorId !== undefined && pkg.vendorId !== userId && !(await isAdmin(ctx))) {
+      throw new Error("Unauthorized: You can only update your own packages");
+    }
+    if (pkg.vendorId === undefined && !(await isAdmin(ctx))) {
+      throw new Error("Unauthorized: Only admins can update platform packages");
+    }
+
+    await ctx.db.patch(args.packageId, { ...updated, updatedAt: Date.now() });
+    return args.packageId;
+  },
+});
+
+// ============================================
+// CHECKOUT (internal, driven by createCheckoutPaymentIntent)
+// ============================================
+
+/**
+ * Book every activity of a package: pending bookings with seat holds,
+ * priced at their share of the package price, and one checkout to pay for them
+ * Each activity's booking questions and pickup are checked as when it's booked
+ * alone. Throws listing every activity that can't be booked; nothing is
+ * reserved then.
+ */
+export const createPackageCheckout = internalMutation({
+  args: {
+    packageId: v.id("packages"),
+    startDate: v.string(),
+    guests: v.number(),
+    stops: v.optional(v.array(packageStopInputValidator)), // In component order
+  },
+  handler: async (ctx, args) => {
+    const profile = await requireUserProfile(ctx);
+    const userId = await getCurrentUserId(ctx);
+
+    const pkg = await ctx.db.get(args.packageId);
+    if (!pkg || !pkg.active) {
+      throw new Error("This package is no longer available");
+    }
+    if (!Number.isInteger(args.guests) || args.guests < 1) {
+      throw new Error("Please choose the number of guests");
+    }
+
+    const startDate = await getStartDate(ctx, pkg, args.startDate);
+    const stops = await resolveItinerary(ctx, pkg, startDate, args.guests);
+
+    const problems: string[] = [];
+    const validated = [];
+    for (const [index, stop] of stops.entries()) {
+      if (stop.problem || !stop.listing || !stop.slot) {
+        problems.push(`${stop.listing?.title || "Activity"}: ${stop.problem}`);
+        continue;
+      }
+
+      const vendorProfile = await ctx.db
+        .query("profiles")
+        .withIndex("by_userId", (q) => q.eq("userId", stop.slot!.vendorId))
+        .unique();
+      if (!vendorProfile?.stripeConnectAccountId || !vendorProfile.onboardingComplete) {
+        problems.push(`${stop.listing.title}: Vendor payment setup is incomplete`);
+        continue;
+      }
+
+      // What the activity would cost on its own decides its share of the package price
+      const ticketTypes = getSlotTicketTypes(stop.listing, stop.slot);
+      const ticket = ticketTypes.find((t) => t.seats === 1) ?? ticketTypes[0];
+      const pricing = await toBasePricing(ctx, stop.listing, applyPriceAdjustment(
+        priceTickets(ticketTypes, [{ ticketTypeId: ticket.id, quantity: args.guests }]),
+        getSlotPricing(stop.listing.pricingRules, stop.slot).adjustment
+      ));
+
+      const input = args.stops?.[index] ?? {};
+      let answers;
+      let pickup;
+      try {
+        answers = checkBookingAnswers(stop.listing.bookingQuestions || [], input.answers || [], pricing.seats);
+        pickup = input.pickup ? await resolvePickup(ctx, stop.listing, stop.slot, input.pickup) : undefined;
+      } catch (error) {
+        problems.push(`${stop.listing.title}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+
+      validated.push({
+        slot: stop.slot,
+        listing: stop.listing,
+        pricing,
+        answers,
+        pickup,
+        stripeAccountId: vendorProfile.stripeConnectAccountId,
+      });
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Some activities in this package can't be booked. ${problems.join("; ")}`);
+    }
+
+    // Pickup isn't part of the package price - its fee is added on top
+    const packagePrice = pkg.price * args.guests;
+    const shares = splitPackagePrice(packagePrice, validated.map((item) => item.pricing.totalPrice));
+    const totalPrice = validated.reduce((total, item) => total + (item.pickup?.fee ?? 0), packagePrice);
+    const now = Date.now();
+
+    const packageBookingId = await ctx.db.insert("packageBookings", {
+      packageId: pkg._id,
+      packageName: pkg.name,
+      customerId: userId,
+      startDate,
+      guests: args.guests,
+      totalPrice,
+      bookingIds: [],
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const items = [];
+    for (const [index, { slot, listing, pricing, answers, pickup, stripeAccountId }] of validated.entries()) {
+      const share = shares[index];
+      const bookingId = await ctx.db.insert("bookings", {
+        listingId: slot.listingId,
+        listingTitle: listing.title,
+        customerId: userId,
+        customerName: profile.fullName || profile.email,
+        customerEmail: profile.email,
+        vendorId: slot.vendorId,
+        slotId: slot._id,
+        bookingDate: slot.date,
+        guests: pricing.seats,
+        totalPrice: share + (pickup?.fee ?? 0),
+        lineItems: pricing.lineItems.map((item) => ({
+          ...item,
+          name: `${item.name} (${pkg.name})`,
+          unitPrice: Math.round((share / item.quantity) * 100) / 100,
+        })),
+        pickup,
+        answers,
+        status: "pending",
+        timeSlot: "full_day", // Keep for backward compatibility
+        paymentStatus: "pending",
+        packageBookingId,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      // Reserve the seats while the customer pays (throws, undoing everything, if they're gone)
+      await placeHold(ctx, {
+        slot,
+        bookingId,
+        customerId: userId,
+        guests: pricing.seats,
+      });
+
+      items.push({
+        bookingId,
+        vendorId: slot.vendorId,
+        stripeAccountId,
+        amount: Math.round((share + (pickup?.fee ?? 0)) * 100), // Amount in cents
+      });
+    }
+
+    const amount = items.reduce((total, item) => total + item.amount, 0);
+
+    const checkoutId = await ctx.db.insert("checkouts", {
+      customerId: userId,
+      bookingIds: items.map((item) => item.bookingId),
+      amount,
+      currency: "thb",
+      packageBookingId,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.db.patch(packageBookingId, {
+      bookingIds: items.map((item) => item.bookingId),
+      checkoutId,
+    });
+
+    return { checkoutId, customerId: userId, amount, items };
+  },
+});
+
+/**
+ * Record a package checkout's outcome on its package booking
+ */
+export async function settlePackageBooking(
+  ctx: MutationCtx,
+  packageBookingId: Id<"packageBookings">,
+  status: "succeeded" | "failed"
+) {
+  await ctx.db.patch(packageBookingId, {
+    status: status === "succeeded" ? "confirmed" : "cancelled",
+    updatedAt: Date.now(),
+  });
+}
@@ -0,0 +1,126 @@
+/**
+ * Hotel Pickups
+ *
+ * Bookings on listings with pickup zones can ask to be collected from
+ * where the customer is staying (see lib/pickups.ts). The pickup fee is
+ * added to the booking total, and vendors get a run sheet per slot with
+ * every pickup ordered by zone.
+ */
+
+import { v } from "convex/values";
+import { query, QueryCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { getCurrentUserId, isAdmin } from "./lib/auth";
+import {
+  Pickup,
+  PickupRequest,
+  findPickupZone,
+  getPickupTime,
+  sortPickupRun,
+} from "./lib/pickups";
+import { BASE_CURRENCY, convertAmount } from "./lib/currency";
+import { getExchangeRates } from "./exchangeRates";
+
+// ============================================
+// PICKUP HELPERS
+// ============================================
+
+/**
+ * The pickup for a booking on a slot, with its fee in THB
+ * Throws if the listing has no pickup or the location is outside its zones
+ */
+export async function resolvePickup(
+  ctx: QueryCtx,
+  listing: Doc<"listings">,
+  slot: Doc<"slots">,
+  request: PickupRequest
+): Promise<Pickup> {
+  if (!listing.pickupZones || listing.pickupZones.length === 0) {
+    throw new Error("This activity doesn't offer pickup");
+  }
+  if (!request.location.trim()) {
+    throw new Error("Please tell us where you're staying");
+  }
+
+  const zone = findPickupZone(listing.pickupZones, request);
+  if (!zone) {
+    throw new Error("Your accommodation is outside the pickup area - please meet at the meeting point");
+  }
+
+  const currency = listing.currency ?? BASE_CURRENCY;
+  const fee = currency === BASE_CURRENCY || zone.fee === 0
+    ? zone.fee
+    : convertAmount(zone.fee, currency, BASE_CURRENCY, await getExchangeRates(ctx));
+
+  return {
+    zoneId: zone.id,
+    zoneName: zone.name,
+    location: request.location.trim(),
+    latitude: request.latitude,
+    longitude: request.longitude,
+    fee,
+    pickupTime: getPickupTime(slot.startTime, zone.offsetMinutes),
+  };
+}
+
+/**
+ * A booking's pickup moved to another slot: same place and fee, new time
+ */
+export function movePickup(
+  pickup: Pickup,
+  listing: Doc<"listings">,
+  slot: Doc<"slots">
+): Pickup {
+  const zone = listing.pickupZones?.find((z) => z.id === pickup.zoneId);
+  if (!zone) {
+    return pickup;
+  }
+  return { ...pickup, pickupTime: getPickupTime(slot.startTime, zone.offsetMinutes) };
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Pickup run sheet for a slot: every booking with a pickup, ordered by zone
+ * Vendor (if owns slot) or Admin
+ */
+export const getRunSheet = query({
+  args: { slotId: v.id("slots") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const slot = await ctx.db.get(args.slotId);
+    if (!slot) {
+      throw new Error("Slot not found");
+    }
+    if (slot.vendorId !== userId && !(await isAdmin(ctx))) {
+      throw new Error("Unauthorized: You can only see pickups for your own slots");
+    }
+
+    const listing = await ctx.db.get(slot.listingId);
+    const bookings = await ctx.db
+      .query("bookings")
+      .withIndex("by_slot", (q) => q.eq("slotId", args.slotId))
+      .collect();
+
+    const stops = bookings
+      .filter((b) => b.status === "confirmed" || b.status === "completed")
+      .filter((b): b is Doc<"bookings"> & { pickup: Pickup } => !!b.pickup)
+      .map((b) => ({
+        bookingId: b._id,
+        customerName: b.customerName,
+        customerEmail: b.customerEmail,
+        guests: b.guests,
+        pickup: b.pickup,
+      }));
+
+    return {
+      date: slot.date,
+      startTime: slot.startTime,
+      listingTitle: listing?.title ?? "",
+      stops: sortPickupRun(stops, listing?.pickupZones || []),
+    };
+  },
+});
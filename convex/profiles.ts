@@ -7,6 +7,7 @@
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
 import { getCurrentUserId, getCurrentUserProfile } from "./lib/auth";
+import { currencyValidator } from "./lib/currency";
 
 // ============================================
 // QUERIES (Read Operations)
@@ -136,6 +137,7 @@ export const update = mutation({
   args: {
     fullName: v.optional(v.string()),
     phone: v.optional(v.string()),
+    displayCurrency: v.optional(currencyValidator),
   },
   handler: async (ctx, args) => {
     const userId = await getCurrentUserId(ctx);
@@ -155,6 +157,7 @@ export const update = mutation({
 
     if (args.fullName !== undefined) updates.fullName = args.fullName;
     if (args.phone !== undefined) updates.phone = args.phone;
+    if (args.displayCurrency !== undefined) updates.displayCurrency = args.displayCurrency;
 
     await ctx.db.patch(profile._id, updates);
 
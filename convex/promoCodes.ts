@@ -0,0 +1,366 @@
+/**
+ * Promo Codes Queries and Mutations
+ *
+ * Admins manage platform-funded codes; vendors manage codes for their own
+ * listings. Codes are previewed in the booking flow and applied to the
+ * booking server-side when the payment intent is created.
+ */
+
+import { v } from "convex/values";
+import { query, mutation, internalMutation, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  getCurrentUserId,
+  getCurrentUserIdOrNull,
+  isAdmin,
+  requireVendor,
+} from "./lib/auth";
+import {
+  calculateDiscount,
+  describePromoDiscount,
+  normalizePromoCode,
+  promoDiscountTypeValidator,
+  validatePromoCodeRules,
+} from "./lib/promoCodes";
+
+// ============================================
+// PROMO CODE HELPERS
+// ============================================
+
+/**
+ * Bookings currently using a promo code (cancelled bookings give their use back)
+ */
+async function getRedemptions(ctx: QueryCtx, promoCodeId: Id<"promoCodes">) {
+  const bookings = await ctx.db
+    .query("bookings")
+    .withIndex("by_promoCode", (q) => q.eq("promoCodeId", promoCodeId))
+    .collect();
+
+  return bookings.filter((b) => b.status !== "cancelled");
+}
+
+/**
+ * Look up a code and check it can be used for a booking
+ * Returns the reason it cannot be used instead of throwing
+ */
+async function checkPromoCode(
+  ctx: QueryCtx,
+  code: string,
+  booking: {
+    listing: Doc<"listings">;
+    guests: number;
+    customerId: string | null;
+    excludeBookingId?: Id<"bookings">;
+  }
+): Promise<{ promo: Doc<"promoCodes">; problem: null } | { promo: null; problem: string }> {
+  const promo = await ctx.db
+    .query("promoCodes")
+    .withIndex("by_code", (q) => q.eq("code", normalizePromoCode(code)))
+    .unique();
+
+  if (!promo || !promo.active) {
+    return { promo: null, problem: "This promo code is not valid" };
+  }
+
+  const now = Date.now();
+  if (promo.startsAt !== undefined && now < promo.startsAt) {
+    return { promo: null, problem: "This promo code is not active yet" };
+  }
+  if (promo.endsAt !== undefined && now > promo.endsAt) {
+    return { promo: null, problem: "This promo code has expired" };
+  }
+
+  const { listing } = booking;
+  if (
+    (promo.vendorId !== undefined && promo.vendorId !== listing.vendorId) ||
+    (promo.listingIds.length > 0 && !promo.listingIds.includes(listing._id))
+  ) {
+    return { promo: null, problem: "This promo code does not apply to this activity" };
+  }
+
+  if (promo.minGuests !== undefined && booking.guests < promo.minGuests) {
+    return {
+      promo: null,
+      problem: `This promo code needs at least ${promo.minGuests} guests`,
+    };
+  }
+
+  if (promo.maxUses !== undefined || promo.maxUsesPerCustomer !== undefined) {
+    const redemptions = (await getRedemptions(ctx, promo._id)).filter(
+      (b) => b._id !== booking.excludeBookingId
+    );
+
+    if (promo.maxUses !== undefined && redemptions.length >= promo.maxUses) {
+      return { promo: null, problem: "This promo code has been fully redeemed" };
+    }
+
+    if (
+      promo.maxUsesPerCustomer !== undefined &&
+      booking.customerId &&
+      redemptions.filter((b) => b.customerId === booking.customerId).length >=
+        promo.maxUsesPerCustomer
+    ) {
+      return { promo: null, problem: "You have already used this promo code" };
+    }
+  }
+
+  return { promo, problem: null };
+}
+
+/**
+ * Throws unless the current user may manage a promo code
+ */
+async function requirePromoCodeAccess(ctx: QueryCtx, promoCodeId: Id<"promoCodes">) {
+  const userId = await getCurrentUserId(ctx);
+  const adminUser = await isAdmin(ctx);
+
+  const promo = await ctx.db.get(promoCodeId);
+  if (!promo) {
+    throw new Error("Promo code not found");
+  }
+
+  if (promo.fundedBy === "platform" ? !adminUser : promo.vendorId !== userId && !adminUser) {
+    throw new Error("Unauthorized: You cannot manage this promo code");
+  }
+
+  return promo;
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Preview a promo code in the booking flow
+ * Subtotal is in THB; the discount is recalculated server-side at payment
+ */
+export const validate = query({
+  args: {
+    code: v.string(),
+    listingId: v.id("listings"),
+    guests: v.number(),
+    subtotal: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const listing = await ctx.db.get(args.listingId);
+    if (!listing) {
+      throw new Error("Listing not found");
+    }
+
+    const { promo, problem } = await checkPromoCode(ctx, args.code, {
+      listing,
+      guests: args.guests,
+      customerId: await getCurrentUserIdOrNull(ctx),
+    });
+
+    if (!promo) {
+      return { valid: false as const, message: problem };
+    }
+
+    return {
+      valid: true as const,
+      code: promo.code,
+      description: promo.description || describePromoDiscount(promo),
+      discountAmount: calculateDiscount(promo, args.subtotal),
+    };
+  },
+});
+
+/**
+ * Promo codes the current user manages with their usage so far
+ * Admin: platform-funded codes; Vendor: their own codes
+ */
+export const listMine = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const promoCodes = (await isAdmin(ctx))
+      ? await ctx.db
+          .query("promoCodes")
+          .withIndex("by_fundedBy", (q) => q.eq("fundedBy", "platform"))
+          .collect()
+      : await ctx.db
+          .query("promoCodes")
+          .withIndex("by_vendor", (q) => q.eq("vendorId", userId))
+          .collect();
+
+    return await Promise.all(
+      promoCodes.map(async (promo) => ({
+        ...promo,
+        timesUsed: (await getRedemptions(ctx, promo._id)).length,
+      }))
+    );
+  },
+});
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Create a promo code
+ * Admins create platform-funded codes, vendors create codes for their own listings
+ */
+export const create = mutation({
+  args: {
+    code: v.string(),
+    description: v.optional(v.string()),
+    listingIds: v.array(v.id("listings")), // Empty = all listings (admin only)
+    discountType: promoDiscountTypeValidator,
+    discountValue: v.number(),
+    minGuests: v.optional(v.number()),
+    maxUses: v.optional(v.number()),
+    maxUsesPerCustomer: v.optional(v.number()),
+    startsAt: v.optional(v.number()),
+    endsAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+    const adminUser = await isAdmin(ctx);
+    if (!adminUser) {
+      await requireVendor(ctx);
+    }
+
+    const code = normalizePromoCode(args.code);
+    validatePromoCodeRules(code, args);
+
+    const existing = await ctx.db
+      .query("promoCodes")
+      .withIndex("by_code", (q) => q.eq("code", code))
+      .first();
+    if (existing) {
+      throw new Error(`Promo code ${code} already exists`);
+    }
+
+    if (!adminUser) {
+      if (args.listingIds.length === 0) {
+        throw new Error("Choose at least one listing for this promo code");
+      }
+      for (const listingId of args.listingIds) {
+        const listing = await ctx.db.get(listingId);
+        if (!listing || listing.vendorId !== userId) {
+          throw new Error("You can only create promo codes for your own listings");
+        }
+      }
+    }
+
+    return await ctx.db.insert("promoCodes", {
+      ...args,
+      code,
+      fundedBy: adminUser ? "platform" : "vendor",
+      createdBy: userId,
+      vendorId: adminUser ? undefined : userId,
+      active: true,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Turn a promo code on or off
+ * Owning vendor, or Admin for platform codes
+ */
+export const setActive = mutation({
+  args: {
+    id: v.id("promoCodes"),
+    active: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    await requirePromoCodeAccess(ctx, args.id);
+
+    await ctx.db.patch(args.id, {
+      active: args.active,
+      updatedAt: Date.now(),
+    });
+
+    return args.id;
+  },
+});
+
+/**
+ * Delete a promo code that has never been used
+ * Used codes are deactivated instead so bookings keep their reference
+ */
+export const remove = mutation({
+  args: { id: v.id("promoCodes") },
+  handler: async (ctx, args) => {
+    await requirePromoCodeAccess(ctx, args.id);
+
+    const used = await ctx.db
+      .query("bookings")
+      .withIndex("by_promoCode", (q) => q.eq("promoCodeId", args.id))
+      .first();
+    if (used) {
+      throw new Error("This promo code has been used. Deactivate it instead.");
+    }
+
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * Apply (or clear) a promo code on a booking before it is paid
+ * Called from createPaymentIntent so the discount is always priced server-side
+ */
+export const applyToBooking = internalMutation({
+  args: {
+    bookingId: v.id("bookings"),
+    code: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    if (booking.customerId !== userId) {
+      throw new Error("Unauthorized: You can only apply promo codes to your own bookings");
+    }
+
+    if (booking.paymentStatus === "paid") {
+      throw new Error("Promo codes cannot be added after payment");
+    }
+
+    if (!args.code) {
+      await ctx.db.patch(args.bookingId, {
+        promoCodeId: undefined,
+        promoCode: undefined,
+        discountAmount: undefined,
+        discountFundedBy: undefined,
+        updatedAt: Date.now(),
+      });
+      return { discountAmount: 0, fundedBy: undefined };
+    }
+
+    const listing = await ctx.db.get(booking.listingId);
+    if (!listing) {
+      throw new Error("Listing not found");
+    }
+
+    const { promo, problem } = await checkPromoCode(ctx, args.code, {
+      listing,
+      guests: booking.guests,
+      customerId: userId,
+      excludeBookingId: booking._id,
+    });
+    if (!promo) {
+      throw new Error(problem);
+    }
+
+    const discountAmount = calculateDiscount(promo, booking.totalPrice);
+
+    await ctx.db.patch(args.bookingId, {
+      promoCodeId: promo._id,
+      promoCode: promo.code,
+      discountAmount,
+      discountFundedBy: promo.fundedBy,
+      updatedAt: Date.now(),
+    });
+
+    return { discountAmount, fundedBy: promo.fundedBy };
+  },
+});
@@ -2,11 +2,108 @@
  * Reviews Queries and Mutations
  *
  * All operations for managing reviews and ratings on the platform.
+ * New reviews are verified: each one is written for a completed booking,
+ * by the signed-in customer or from the review link emailed to them.
  */
 
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
-import { getCurrentUserId, requireUserProfile } from "./lib/auth";
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getCurrentUserId, getCurrentUserIdOrNull } from "./lib/auth";
+import {
+  getReviewEligibility,
+  validateReview,
+  createReviewToken,
+  isValidReviewToken,
+  ReviewEligibility,
+} from "./lib/reviews";
+
+// ============================================
+// REVIEW HELPERS
+// ============================================
+
+// Review links are signed with the ticket secret, under their own prefix
+function getReviewSecret(): string {
+  const secret = process.env.TICKET_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error("TICKET_SIGNING_SECRET is not configured");
+  }
+  return secret;
+}
+
+/**
+ * Signed token for a booking's review link (used by the invitation email)
+ */
+export async function getReviewToken(bookingId: string): Promise<string> {
+  return await createReviewToken(bookingId, getReviewSecret());
+}
+
+async function getBookingReview(ctx: QueryCtx, bookingId: Id<"bookings">) {
+  return await ctx.db
+    .query("reviews")
+    .withIndex("by_booking", (q) => q.eq("bookingId", bookingId))
+    .first();
+}
+
+/**
+ * Whether the caller may review a booking: the signed-in customer, or
+ * anyone holding the emailed review link
+ */
+async function canReview(ctx: QueryCtx, booking: Doc<"bookings">, token?: string): Promise<boolean> {
+  const userId = await getCurrentUserIdOrNull(ctx);
+  if (userId && userId === booking.customerId) {
+    return true;
+  }
+  if (!token) {
+    return false;
+  }
+  try {
+    return await isValidReviewToken(booking._id, token, getReviewSecret());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Mark a booking completed and invite the customer to review it
+ * (once per booking). Called when a slot is closed, or when the vendor
+ * marks the booking completed.
+ */
+export async function completeBooking(ctx: MutationCtx, booking: Doc<"bookings">) {
+  const now = Date.now();
+
+  await ctx.db.patch(booking._id, {
+    status: "completed",
+    completedAt: booking.completedAt ?? now,
+    reviewRequestedAt: booking.reviewRequestedAt ?? now,
+    updatedAt: now,
+  });
+
+  if (booking.reviewRequestedAt) {
+    return;
+  }
+
+  const listing = await ctx.db.get(booking.listingId);
+  if (!listing) {
+    return;
+  }
+
+  await ctx.scheduler.runAfter(0, internal.notifications.inApp.notifyReviewRequest, {
+    userId: booking.customerId,
+    listingTitle: listing.title,
+    listingId: listing._id,
+    bookingId: booking._id,
+  });
+
+  await ctx.scheduler.runAfter(0, internal.notifications.email.sendReviewRequest, {
+    to: booking.customerEmail,
+    customerName: booking.customerName,
+    listingTitle: listing.title,
+    slotDate: booking.bookingDate,
+    bookingId: booking._id,
+  });
+}
 
 // ============================================
 // QUERIES (Read Operations)
@@ -59,6 +156,70 @@ export const myReviews = query({
   },
 });
 
+/**
+ * Review eligibility of each of the current user's bookings
+ * Authenticated users only
+ */
+export const myEligibility = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getCurrentUserId(ctx);
+
+    const bookings = await ctx.db
+      .query("bookings")
+      .withIndex("by_customer", (q) => q.eq("customerId", userId))
+      .collect();
+
+    const result: {
+      bookingId: Id<"bookings">;
+      listingId: Id<"listings">;
+      eligibility: ReviewEligibility;
+      rating?: number;
+    }[] = [];
+
+    for (const booking of bookings) {
+      const review = await getBookingReview(ctx, booking._id);
+      result.push({
+        bookingId: booking._id,
+        listingId: booking.listingId,
+        eligibility: getReviewEligibility(booking, review !== null),
+        rating: review?.rating,
+      });
+    }
+
+    return result;
+  },
+});
+
+/**
+ * Booking details for the review page
+ * The customer, or anyone holding the emailed review link
+ */
+export const getForBooking = query({
+  args: {
+    bookingId: v.id("bookings"),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking || !(await canReview(ctx, booking, args.token))) {
+      return null;
+    }
+
+    const listing = await ctx.db.get(booking.listingId);
+    const review = await getBookingReview(ctx, booking._id);
+
+    return {
+      listingId: booking.listingId,
+      listingTitle: listing?.title || "Activity",
+      bookingDate: booking.bookingDate,
+      customerName: booking.customerName,
+      eligibility: getReviewEligibility(booking, review !== null),
+      rating: review?.rating,
+    };
+  },
+});
+
 /**
  * Check if user has already reviewed a listing
  * Authenticated users only
@@ -83,54 +244,62 @@ export const hasReviewed = query({
 // ============================================
 
 /**
- * Create a new review
- * Authenticated users only
+ * Review a completed booking
+ * The customer, or anyone holding the emailed review link
  */
 export const create = mutation({
   args: {
-    listingId: v.id("listings"),
+    bookingId: v.id("bookings"),
+    token: v.optional(v.string()),
     rating: v.number(),
     comment: v.string(),
   },
   handler: async (ctx, args) => {
-    const profile = await requireUserProfile(ctx);
-    const userId = await getCurrentUserId(ctx);
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
 
-    // Validate rating
-    if (args.rating < 1 || args.rating > 5) {
-      throw new Error("Rating must be between 1 and 5");
+    if (!(await canReview(ctx, booking, args.token))) {
+      throw new Error("Unauthorized: You can only review your own bookings");
     }
 
-    // Check if listing exists
-    const listing = await ctx.db.get(args.listingId);
-    if (!listing) {
-      throw new Error("Listing not found");
+    const existingReview = await getBookingReview(ctx, booking._id);
+    const eligibility = getReviewEligibility(booking, existingReview !== null);
+    if (eligibility === "reviewed") {
+      throw new Error("You have already reviewed this booking");
+    }
+    if (eligibility === "expired") {
+      throw new Error("The review period for this booking has ended");
+    }
+    if (eligibility !== "eligible") {
+      throw new Error("You can review this booking once the activity is completed");
     }
 
-    // Check if user already reviewed this listing
-    const existingReview = await ctx.db
-      .query("reviews")
-      .withIndex("by_listing", (q) => q.eq("listingId", args.listingId))
-      .filter((q) => q.eq(q.field("userId"), userId))
-      .first();
+    const comment = args.comment.trim();
+    validateReview(args.rating, comment);
 
-    if (existingReview) {
-      throw new Error("You have already reviewed this listing");
+    // Check if listing exists
+    const listing = await ctx.db.get(booking.listingId);
+    if (!listing) {
+      throw new Error("Listing not found");
     }
 
     // Create the review
     const reviewId = await ctx.db.insert("reviews", {
-      listingId: args.listingId,
-      userId: userId,
-      userName: profile.fullName || profile.email,
+      listingId: booking.listingId,
+      userId: booking.customerId,
+      userName: booking.customerName,
+      bookingId: booking._id,
+      verified: true,
       rating: args.rating,
-      comment: args.comment,
+      comment,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     });
 
     // Update listing's average rating
-    await updateListingRating(ctx, args.listingId);
+    await updateListingRating(ctx, booking.listingId);
 
     return reviewId;
   },
@@ -159,10 +328,8 @@ export const update = mutation({
       throw new Error("Unauthorized: You can only update your own reviews");
     }
 
-    // Validate rating if provided
-    if (args.rating !== undefined && (args.rating < 1 || args.rating > 5)) {
-      throw new Error("Rating must be between 1 and 5");
-    }
+    // Validate rating and comment if provided
+    validateReview(args.rating ?? review.rating, args.comment ?? review.comment);
 
     const updates: any = {
       updatedAt: Date.now(),
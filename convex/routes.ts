@@ -0,0 +1,121 @@
+/**
+ * Transportation Routes
+ *
+ * Route listings sell seats on timetabled departures, one slot per fare
+ * segment (see lib/routes.ts). Segments of a departure share the vehicle,
+ * so the seats a segment can sell depend on what's booked on the others.
+ * Customers search departures by origin, destination and date.
+ */
+
+import { v } from "convex/values";
+import { query, QueryCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import {
+  Route,
+  getFare,
+  getStopIndex,
+  getSlotTicketTypes,
+  matchesStop,
+} from "./lib/routes";
+import { adjustPrice, getSlotPricing } from "./lib/pricingRules";
+import { getFromPrice } from "./lib/ticketTypes";
+import { BASE_CURRENCY } from "./lib/currency";
+import { getResourceLimit } from "./availability/resources";
+
+// ============================================
+// ROUTE HELPERS
+// ============================================
+
+type RouteListing = Doc<"listings"> & { route: Route };
+
+/**
+ * Transportation listings that run a route
+ */
+async function getRouteListings(ctx: QueryCtx): Promise<RouteListing[]> {
+  const listings = await ctx.db
+    .query("listings")
+    .withIndex("by_category", (q) => q.eq("category", "Transportation"))
+    .collect();
+  return listings.filter((l): l is RouteListing => !!l.route);
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Every stop name served by a route, for the from / to pickers
+ * Public
+ */
+export const getStopNames = query({
+  args: {},
+  handler: async (ctx) => {
+    const names = new Set<string>();
+    for (const listing of await getRouteListings(ctx)) {
+      for (const stop of listing.route.stops) {
+        names.add(stop.name);
+      }
+    }
+    return [...names].sort();
+  },
+});
+
+/**
+ * Departures from one place to another on a date, earliest first
+ * Public - each result is a bookable segment slot with its fare
+ */
+export const searchDepartures = query({
+  args: {
+    from: v.string(),
+    to: v.string(),
+    date: v.string(), // YYYY-MM-DD
+  },
+  handler: async (ctx, args) => {
+    if (!args.from.trim() || !args.to.trim()) {
+      return [];
+    }
+
+    const now = Date.now();
+    const departures = [];
+
+    for (const listing of await getRouteListings(ctx)) {
+      const slots = await ctx.db
+        .query("slots")
+        .withIndex("by_listing_and_date", (q) => q.eq("listingId", listing._id).eq("date", args.date))
+        .collect();
+
+      for (const slot of slots) {
+        if (!slot.segment || slot.status !== "active" || slot.bookingDeadline <= now) continue;
+
+        const { route } = listing;
+        const fromStop = route.stops[getStopIndex(route, slot.segment.fromStopId)];
+        const toStop = route.stops[getStopIndex(route, slot.segment.toStopId)];
+        if (!fromStop || !toStop) continue;
+        if (!matchesStop(fromStop, args.from) || !matchesStop(toStop, args.to)) continue;
+        if (!getFare(route, slot.segment.fromStopId, slot.segment.toStopId)) continue;
+
+        // The rest of the departure and shared resources limit the seats
+        const resourceLimit = await getResourceLimit(ctx, slot);
+        const available = resourceLimit === null ? slot.available : Math.min(slot.available, resourceLimit);
+        if (available <= 0) continue;
+
+        const { adjustment } = getSlotPricing(listing.pricingRules, slot, now);
+        departures.push({
+          slot: { ...slot, available },
+          listingId: listing._id,
+          listingTitle: listing.title,
+          vendorName: listing.vendorName,
+          fromStop: fromStop.name,
+          toStop: toStop.name,
+          fare: adjustPrice(
+            getFromPrice(getSlotTicketTypes(listing, slot)),
+            adjustment
+          ),
+          currency: listing.currency ?? BASE_CURRENCY,
+        });
+      }
+    }
+
+    return departures.sort((a, b) => a.slot.startTime.localeCompare(b.slot.startTime));
+  },
+});
@@ -1,6 +1,34 @@
 import { defineSchema, defineTable } from "convex/server";
 import { authTables } from "@convex-dev/auth/server";
 import { v } from "convex/values";
+import { cancellationPolicyValidator } from "./lib/cancellationPolicy";
+import {
+  ticketTypeValidator,
+  ticketSelectionValidator,
+  lineItemValidator,
+} from "./lib/ticketTypes";
+import { promoDiscountTypeValidator, promoFundedByValidator } from "./lib/promoCodes";
+import {
+  bookingQuestionValidator,
+  bookingAnswerInputValidator,
+  bookingAnswerValidator,
+} from "./lib/bookingQuestions";
+import { waiverValidator } from "./lib/waivers";
+import { bookingModeValidator, approvalStatusValidator } from "./lib/bookingRequests";
+import {
+  paymentPlanValidator,
+  balanceCollectionValidator,
+  depositBalanceStatusValidator,
+} from "./lib/paymentPlans";
+import { attendanceOutcomeValidator, noShowPolicyValidator } from "./lib/attendance";
+import { legacyTimeSlotValidator } from "./lib/legacySlots";
+import { currencyValidator } from "./lib/currency";
+import { pricingRuleValidator } from "./lib/pricingRules";
+import { resourceTypeValidator } from "./lib/resources";
+import { packageComponentValidator, packageBookingStatusValidator } from "./lib/packages";
+import { addOnValidator, addOnItemValidator } from "./lib/addOns";
+import { pickupZoneValidator, pickupValidator } from "./lib/pickups";
+import { routeValidator, routeSegmentValidator } from "./lib/routes";
 
 /**
  * Convex Schema for Discover Phangan
@@ -41,6 +69,12 @@ export default defineSchema({
       v.literal("manual")
     )),
 
+    // Attendance (for customers, visible to vendors)
+    noShowCount: v.optional(v.number()),                // Bookings marked as no-show
+
+    // Preferences
+    displayCurrency: v.optional(currencyValidator),      // Prices shown and charged in (defaults to THB)
+
     // Timestamps
     createdAt: v.number(),           // Unix timestamp in milliseconds
     updatedAt: v.number(),
@@ -58,7 +92,8 @@ export default defineSchema({
     title: v.string(),
     description: v.string(),
     location: v.string(),
-    price: v.number(),
+    price: v.number(),               // In the listing's currency
+    currency: v.optional(currencyValidator), // Prices are in THB when unset
 
     // Ratings
     rating: v.number(),              // 0-5 with decimals
@@ -100,6 +135,45 @@ export default defineSchema({
     // External calendar
     externalIcalUrl: v.optional(v.string()),
 
+    // Cancellation policy (refund tiers by hours before start)
+    cancellationPolicy: v.optional(cancellationPolicyValidator),
+
+    // Ticket types with their own prices and capacity weights (falls back to `price`)
+    ticketTypes: v.optional(v.array(ticketTypeValidator)),
+
+    // Extras sold with the tickets (GoPro rental, lunch, hotel transfer...)
+    addOns: v.optional(v.array(addOnValidator)),
+
+    // Hotel pickup zones in route order (no pickup if unset)
+    pickupZones: v.optional(v.array(pickupZoneValidator)),
+
+    // Stops and segment fares of a transportation route (availability rules are its timetable)
+    route: v.optional(routeValidator),
+
+    // Questions customers answer when booking (pickup hotel, dietary needs...)
+    bookingQuestions: v.optional(v.array(bookingQuestionValidator)),
+
+    // Liability waiver every guest signs (written text or uploaded document)
+    waiver: v.optional(waiverValidator),
+
+    // Request to book: the vendor approves each booking within the window
+    bookingMode: v.optional(bookingModeValidator),     // Defaults to "instant"
+    requestWindowHours: v.optional(v.number()),        // Hours the vendor has to answer a request
+
+    // Booking reminders sent to customers before the activity
+    reminderOffsetsHours: v.optional(v.array(v.number())), // Hours before start (defaults to 24 and 2)
+    reminderNote: v.optional(v.string()),             // Vendor's pre-activity note
+    meetingPoint: v.optional(v.string()),             // Where guests meet (defaults to location)
+
+    // Payment plan: pay in full, or a deposit now and the balance later
+    paymentPlan: v.optional(paymentPlanValidator),    // Defaults to paying in full
+
+    // Refunds for guests who don't show up (defaults to none)
+    noShowPolicy: v.optional(noShowPolicyValidator),
+
+    // Dynamic pricing: peak dates, weekdays, occupancy and last-minute rules
+    pricingRules: v.optional(v.array(pricingRuleValidator)),
+
     // Timestamps
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -134,8 +208,13 @@ export default defineSchema({
 
     // Booking details
     bookingDate: v.string(),         // ISO date string (YYYY-MM-DD)
-    guests: v.number(),
+    guests: v.number(),              // Seats taken (sum of ticket capacity weights)
     totalPrice: v.number(),
+    lineItems: v.optional(v.array(lineItemValidator)), // Tickets bought, unit prices in THB at booking time
+    addOns: v.optional(v.array(addOnItemValidator)),   // Extras bought, priced at booking time (in totalPrice)
+    pickup: v.optional(pickupValidator),               // Hotel pickup (fee in totalPrice)
+    answers: v.optional(v.array(bookingAnswerValidator)), // Answers to the listing's booking questions
+    waiverToken: v.optional(v.string()), // Lets guests sign the waiver from the emailed link
 
     // Status
     status: v.union(
@@ -145,13 +224,8 @@ export default defineSchema({
       v.literal("completed")
     ),
 
-    // Time slot (kept for backward compatibility)
-    timeSlot: v.union(
-      v.literal("morning"),
-      v.literal("afternoon"),
-      v.literal("evening"),
-      v.literal("full_day")
-    ),
+    // Time slot (kept for backward compatibility; migrations.ts moves legacy bookings onto slots)
+    timeSlot: legacyTimeSlotValidator,
 
     // Payment
     paymentStatus: v.union(
@@ -173,6 +247,63 @@ export default defineSchema({
     )),
     cancellationMessage: v.optional(v.string()),
     refundProcessed: v.optional(v.boolean()),
+    refundPercent: v.optional(v.number()),   // Refund % applied by cancellation policy
+    refundAmount: v.optional(v.number()),    // Refund owed in cents
+    refundStatus: v.optional(v.union(
+      v.literal("pending"),     // Scheduled or retrying
+      v.literal("succeeded"),
+      v.literal("failed")       // Gave up after max attempts
+    )),
+    refundAttempts: v.optional(v.number()),
+    refundError: v.optional(v.string()),     // Last Stripe error
+    pendingRefundKeys: v.optional(v.array(v.string())), // Scheduled refunds not yet issued (refundKey)
+
+    // Rescheduling
+    rescheduledAt: v.optional(v.number()),
+    balanceDue: v.optional(v.number()),      // Price increase still to be paid, in cents
+    pendingReschedule: v.optional(v.object({ // Move waiting for balanceDue to be paid
+      slotId: v.id("slots"),
+      totalPrice: v.number(),                // THB at the new slot
+    })),
+
+    // Promo code (totalPrice is before the discount)
+    promoCodeId: v.optional(v.id("promoCodes")),
+    promoCode: v.optional(v.string()),       // Code as applied
+    discountAmount: v.optional(v.number()),  // Discount in THB
+    discountFundedBy: v.optional(promoFundedByValidator),
+
+    // Gift voucher (redemptions are tracked in voucherLedger)
+    voucherCode: v.optional(v.string()),     // Code as applied
+    voucherAmount: v.optional(v.number()),   // Voucher balance applied in THB
+
+    // Package (set when booked as one activity of a package)
+    packageBookingId: v.optional(v.id("packageBookings")),
+
+    // Request to book (listings in "request" mode)
+    approvalStatus: v.optional(approvalStatusValidator),
+    requestExpiresAt: v.optional(v.number()),  // Set once the card is authorized
+    respondedAt: v.optional(v.number()),       // When the vendor approved or declined
+    declineReason: v.optional(v.string()),     // Shown to the customer
+
+    // Deposit (listings with a deposit payment plan)
+    depositBalance: v.optional(v.number()),           // Balance left after the deposit, in cents
+    depositBalanceFee: v.optional(v.number()),        // Platform commission on the balance, in cents
+    depositBalanceDueAt: v.optional(v.number()),      // When the balance is charged (or the activity start, at the venue)
+    depositBalanceCollection: v.optional(balanceCollectionValidator),
+    depositBalanceStatus: v.optional(depositBalanceStatusValidator),
+    depositBalanceError: v.optional(v.string()),      // Last failed charge
+    stripeCustomerId: v.optional(v.string()),         // Stripe customer holding the saved card
+
+    // Attendance (recorded by the vendor once the activity starts)
+    attendance: v.optional(attendanceOutcomeValidator),
+    attendedGuests: v.optional(v.number()),
+    attendanceMarkedAt: v.optional(v.number()),
+    attendanceMarkedBy: v.optional(v.string()),      // Reference to profiles.userId
+    noShowRefundAmount: v.optional(v.number()),      // Refunded under the no-show policy, in cents
+
+    // Reviews
+    completedAt: v.optional(v.number()),
+    reviewRequestedAt: v.optional(v.number()), // When the review invitation went out
 
     // Timestamps
     createdAt: v.number(),
@@ -184,7 +315,10 @@ export default defineSchema({
     .index("by_date", ["bookingDate"])                       // Bookings by date
     .index("by_listing_and_date", ["listingId", "bookingDate"]) // Availability check
     .index("by_status", ["status"])                          // Filter by status
-    .index("by_slot", ["slotId"]),                           // Bookings for specific slot (NEW)
+    .index("by_slot", ["slotId"])                            // Bookings for specific slot (NEW)
+    .index("by_promoCode", ["promoCodeId"])                  // Promo code usage
+    .index("by_approval_and_expiry", ["approvalStatus", "requestExpiresAt"]) // Pending requests
+    .index("by_deposit_balance", ["depositBalanceStatus", "depositBalanceDueAt"]), // Balances to charge
 
   // ============================================
   // REVIEWS TABLE
@@ -197,6 +331,10 @@ export default defineSchema({
     userId: v.string(),              // Reference to profiles.userId
     userName: v.string(),
 
+    // Booking reviewed (older reviews have none and are unverified)
+    bookingId: v.optional(v.id("bookings")),
+    verified: v.optional(v.boolean()), // Written for a completed booking
+
     // Review content
     rating: v.number(),              // 1-5
     comment: v.string(),
@@ -207,6 +345,7 @@ export default defineSchema({
   })
     .index("by_listing", ["listingId"])        // Listing's reviews
     .index("by_user", ["userId"])              // User's reviews
+    .index("by_booking", ["bookingId"])        // Review of a booking
     .index("by_rating", ["rating"]),           // Filter by rating
 
   // ============================================
@@ -235,7 +374,9 @@ export default defineSchema({
     .index("by_created", ["createdAt"]),                   // Sort by time
 
   // ============================================
-  // AVAILABILITY BLOCKS TABLE
+  // AVAILABILITY BLOCKS TABLE (LEGACY)
+  // Converted onto slots by migrations.migrateLegacyAvailability;
+  // remove once empty
   // ============================================
   availabilityBlocks: defineTable({
     // Listing reference
@@ -243,12 +384,7 @@ export default defineSchema({
 
     // Date and time slot
     date: v.string(),                // ISO date string (YYYY-MM-DD)
-    timeSlot: v.union(
-      v.literal("morning"),
-      v.literal("afternoon"),
-      v.literal("evening"),
-      v.literal("full_day")
-    ),
+    timeSlot: legacyTimeSlotValidator,
 
     // Capacity
     availableSpots: v.number(),
@@ -269,14 +405,26 @@ export default defineSchema({
   payments: defineTable({
     // Booking reference
     bookingId: v.id("bookings"),
+    checkoutId: v.optional(v.id("checkouts")), // Set when paid as part of a cart checkout
 
     // User references
     customerId: v.string(),          // Reference to profiles.userId
     vendorId: v.string(),            // Reference to profiles.userId
 
     // Payment amount
-    amount: v.number(),              // Amount in cents
-    currency: v.string(),            // "THB", "USD", etc.
+    amount: v.number(),              // Settled amount in cents
+    currency: v.string(),            // Settlement currency ("thb")
+
+    // What the customer was charged, when paying in another currency
+    presentmentAmount: v.optional(v.number()),   // In cents of presentmentCurrency
+    presentmentCurrency: v.optional(currencyValidator),
+    exchangeRate: v.optional(v.number()),        // Presentment units per settlement unit
+
+    // What the payment was for (unset = the booking in full)
+    kind: v.optional(v.union(
+      v.literal("deposit"),          // Deposit at booking
+      v.literal("balance")           // Balance after a deposit
+    )),
 
     // Payment status
     status: v.union(
@@ -296,6 +444,11 @@ export default defineSchema({
     // Stripe Connect fields (marketplace payments)
     applicationFeeAmount: v.optional(v.number()),      // Platform commission in cents
     vendorPayoutAmount: v.optional(v.number()),        // Amount vendor receives in cents
+    discountAmount: v.optional(v.number()),            // Promo discount in cents
+    voucherAmount: v.optional(v.number()),             // Paid from a gift voucher in cents
+    platformSubsidyAmount: v.optional(v.number()),     // Platform-funded discount or voucher share beyond commission, transferred separately in cents
+    subsidyTransferId: v.optional(v.string()),         // Stripe Transfer ID of the platform subsidy
+    subsidyReversedAmount: v.optional(v.number()),     // Subsidy taken back (or withheld) for refunds, in cents
     transferId: v.optional(v.string()),                // Stripe Transfer ID
     transferStatus: v.optional(v.union(
       v.literal("pending"),
@@ -304,12 +457,15 @@ export default defineSchema({
       v.literal("canceled"),
       v.literal("reversed")
     )),
+    transferAttempts: v.optional(v.number()),          // Failed attempts at a cart payment's transfer
+    transferError: v.optional(v.string()),             // Last Stripe error
 
     // Error handling
     errorMessage: v.optional(v.string()),
 
     // Refunds
     refundAmount: v.number(),        // Amount refunded in cents
+    refundIds: v.optional(v.array(v.string())), // Stripe refunds counted in refundAmount
 
     // Timestamps
     createdAt: v.number(),
@@ -319,7 +475,210 @@ export default defineSchema({
     .index("by_customer", ["customerId"])      // Customer's payments
     .index("by_vendor", ["vendorId"])          // Vendor's payments
     .index("by_status", ["status"])            // Filter by status
-    .index("by_paymentIntent", ["paymentIntentId"]), // Lookup by Stripe payment intent
+    .index("by_paymentIntent", ["paymentIntentId"]) // Lookup by Stripe payment intent
+    .index("by_checkout", ["checkoutId"]),     // Payments in a cart checkout
+
+  // ============================================
+  // PROMO CODES TABLE
+  // ============================================
+  promoCodes: defineTable({
+    // Code customers enter (stored upper case)
+    code: v.string(),
+    description: v.optional(v.string()),
+
+    // Who pays for the discount
+    fundedBy: promoFundedByValidator,
+    createdBy: v.string(),           // Reference to profiles.userId
+    vendorId: v.optional(v.string()), // Owner of vendor-funded codes
+
+    // Listings the code applies to (empty = all, or all of the vendor's)
+    listingIds: v.array(v.id("listings")),
+
+    // Discount
+    discountType: promoDiscountTypeValidator,
+    discountValue: v.number(),       // Percent off, or THB off
+
+    // Restrictions
+    minGuests: v.optional(v.number()),
+    maxUses: v.optional(v.number()),
+    maxUsesPerCustomer: v.optional(v.number()),
+    startsAt: v.optional(v.number()),
+    endsAt: v.optional(v.number()),
+
+    // Status
+    active: v.boolean(),
+
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_code", ["code"])                          // Lookup at checkout
+    .index("by_vendor", ["vendorId"])                    // Vendor's codes
+    .index("by_fundedBy", ["fundedBy"]),                 // Platform codes
+
+  // ============================================
+  // CART ITEMS TABLE
+  // ============================================
+  cartItems: defineTable({
+    // Owner
+    userId: v.string(),              // Reference to profiles.userId
+
+    // What is in the cart
+    slotId: v.id("slots"),
+    listingId: v.id("listings"),     // Denormalized for display
+    vendorId: v.string(),            // Denormalized for per-vendor payouts
+    tickets: v.array(ticketSelectionValidator),
+    answers: v.optional(v.array(bookingAnswerInputValidator)), // Booking question answers
+
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"])                        // User's cart
+    .index("by_user_and_slot", ["userId", "slotId"]),    // One cart line per slot
+
+  // ============================================
+  // CHECKOUTS TABLE
+  // ============================================
+  checkouts: defineTable({
+    // Customer paying for the cart
+    customerId: v.string(),          // Reference to profiles.userId
+
+    // Bookings created from the cart
+    bookingIds: v.array(v.id("bookings")),
+
+    // Payment amount
+    amount: v.number(),              // Total in cents
+    currency: v.string(),
+
+    // Single Stripe payment for the whole cart
+    paymentIntentId: v.optional(v.string()),
+    chargeId: v.optional(v.string()),
+
+    // Set when paying for a package rather than the cart
+    packageBookingId: v.optional(v.id("packageBookings")),
+
+    // Status
+    status: v.union(
+      v.literal("pending"),
+      v.literal("succeeded"),
+      v.literal("failed")
+    ),
+
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_customer", ["customerId"])                // Customer's checkouts
+    .index("by_paymentIntent", ["paymentIntentId"]),     // Lookup by Stripe payment intent
+
+  // ============================================
+  // PACKAGES TABLE
+  // ============================================
+  // Bundles of activities sold at a package price (see lib/packages.ts)
+  packages: defineTable({
+    name: v.string(),                // "3-day Phangan adventure"
+    description: v.string(),
+    imageUrl: v.optional(v.string()),
+
+    // Who sells it: a vendor (own listings only) or the platform (any vendor)
+    vendorId: v.optional(v.string()), // Reference to profiles.userId; unset for platform packages
+    createdBy: v.string(),
+
+    // What's in it
+    components: v.array(packageComponentValidator),
+    durationDays: v.number(),
+    price: v.number(),               // Per person, in THB
+
+    active: v.boolean(),
+
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_active", ["active"])                      // Packages on sale
+    .index("by_vendor", ["vendorId"]),                   // Vendor's packages
+
+  // ============================================
+  // PACKAGE BOOKINGS TABLE
+  // ============================================
+  // One per package purchase; its component bookings are paid with one checkout
+  packageBookings: defineTable({
+    packageId: v.id("packages"),
+    packageName: v.string(),         // Denormalized for display
+    customerId: v.string(),          // Reference to profiles.userId
+    startDate: v.string(),           // YYYY-MM-DD (first day of the package)
+    guests: v.number(),
+    totalPrice: v.number(),          // THB, package price x guests plus any pickup fees
+    bookingIds: v.array(v.id("bookings")),
+    checkoutId: v.optional(v.id("checkouts")),
+    status: packageBookingStatusValidator,
+
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_customer", ["customerId"])                // Customer's packages
+    .index("by_package", ["packageId"]),                 // Package's sales
+
+  // ============================================
+  // GIFT VOUCHERS TABLE
+  // ============================================
+  giftVouchers: defineTable({
+    code: v.string(),                // e.g. GIFT-7KQ2-M9XD
+
+    // Value
+    amount: v.number(),              // Value purchased in THB
+    balance: v.number(),             // Remaining balance in THB
+    currency: v.string(),
+
+    // Purchaser and recipient
+    purchaserId: v.string(),         // Reference to profiles.userId
+    purchaserName: v.string(),
+    recipientName: v.string(),
+    recipientEmail: v.string(),
+    message: v.optional(v.string()),
+
+    // Stripe payment (charged to the platform account)
+    paymentIntentId: v.optional(v.string()),
+    chargeId: v.optional(v.string()),
+
+    // Status
+    status: v.union(
+      v.literal("pending"),          // Awaiting payment
+      v.literal("active"),
+      v.literal("expired"),
+      v.literal("failed")            // Payment failed
+    ),
+    expiresAt: v.optional(v.number()), // Set when the voucher is issued
+
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_code", ["code"])                          // Lookup at checkout
+    .index("by_purchaser", ["purchaserId"])              // Vouchers a customer bought
+    .index("by_paymentIntent", ["paymentIntentId"])      // Lookup by Stripe payment intent
+    .index("by_status_and_expiry", ["status", "expiresAt"]), // Expiry job
+
+  // ============================================
+  // VOUCHER LEDGER TABLE
+  // ============================================
+  voucherLedger: defineTable({
+    voucherId: v.id("giftVouchers"),
+    type: v.union(
+      v.literal("issue"),            // Voucher paid for
+      v.literal("redeem"),           // Applied to a booking
+      v.literal("refund"),           // Redemption given back (cancellation or failed payment)
+      v.literal("expire")            // Remaining balance expired
+    ),
+    amount: v.number(),              // Change to the balance in THB (negative for redeem/expire)
+    balanceAfter: v.number(),        // Balance in THB after this entry
+    bookingId: v.optional(v.id("bookings")),
+    createdAt: v.number(),
+  })
+    .index("by_voucher", ["voucherId"])                  // Voucher history
+    .index("by_booking", ["bookingId"]),                 // Redemptions for a booking
 
   // ============================================
   // PLATFORM SETTINGS TABLE
@@ -336,6 +695,22 @@ export default defineSchema({
     updatedAt: v.number(),
   }),
 
+  // ============================================
+  // EXCHANGE RATES TABLE
+  // One row per supported currency other than THB
+  // ============================================
+  exchangeRates: defineTable({
+    currency: currencyValidator,
+    rate: v.number(),                // Units of the currency per 1 THB
+    source: v.union(
+      v.literal("manual"),           // Set by an admin
+      v.literal("import")            // From an imported rates file
+    ),
+    updatedBy: v.string(),           // Admin's userId
+    updatedAt: v.number(),
+  })
+    .index("by_currency", ["currency"]),
+
   // ============================================
   // AVAILABILITY RULES TABLE
   // ============================================
@@ -373,6 +748,9 @@ export default defineSchema({
     // Capacity
     capacity: v.number(),                // Max bookings per slot
 
+    // Shared resources every slot from this rule needs (boats, guides...)
+    resourceIds: v.optional(v.array(v.id("resources"))),
+
     // Booking settings
     bookingDeadlineHours: v.number(),    // Hours before start time (e.g., 2)
     generateDaysInAdvance: v.union(      // How far ahead to generate slots
@@ -432,6 +810,18 @@ export default defineSchema({
     )),
     cancellationMessage: v.optional(v.string()),
 
+    // Shared resources the slot needs (copied from its rule)
+    resourceIds: v.optional(v.array(v.id("resources"))),
+
+    // Route segment this slot sells (transportation departures only)
+    segment: v.optional(routeSegmentValidator),
+
+    // Pricing (kept up to date from the listing's pricing rules)
+    price: v.optional(v.number()),                      // Cheapest ticket after rules, in the listing's currency
+    currency: v.optional(currencyValidator),
+    priceAdjustment: v.optional(v.number()),            // % applied to every ticket type
+    appliedPricingRules: v.optional(v.array(v.string())), // Names of the matching rules
+
     // Timestamps
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -444,6 +834,135 @@ export default defineSchema({
     .index("by_available", ["available"])                // Slots with availability
     .index("by_listing_date_time", ["listingId", "date", "startTime"]), // Exact slot lookup
 
+  // ============================================
+  // AVAILABILITY SUMMARIES TABLE
+  // One row per listing per day with active slots, maintained from slots
+  // ============================================
+  availabilitySummaries: defineTable({
+    listingId: v.id("listings"),
+    date: v.string(),                // ISO date string (YYYY-MM-DD)
+
+    // Active slots, earliest first (deadlines are checked when read)
+    openings: v.array(v.object({
+      startTime: v.string(),         // "06:00"
+      available: v.number(),         // Seats left
+      bookingDeadline: v.number(),   // Unix timestamp when booking closes
+    })),
+
+    capacity: v.number(),            // Seats across the day's active slots
+    booked: v.number(),
+    price: v.number(),               // From-price per ticket
+    currency: v.optional(currencyValidator), // The listing's currency (THB when unset)
+
+    updatedAt: v.number(),
+  })
+    .index("by_listing_and_date", ["listingId", "date"]) // Listing's days
+    .index("by_date", ["date"]),                         // Search across listings
+
+  // ============================================
+  // RESOURCES TABLE
+  // ============================================
+  // Boats, guides, rooms and equipment pools shared across a vendor's
+  // listings (see lib/resources.ts for how they limit bookings)
+  resources: defineTable({
+    vendorId: v.string(),            // Reference to profiles.userId
+    name: v.string(),                // "Longtail boat", "Guide: Nok"
+    type: resourceTypeValidator,
+    capacity: v.number(),            // Passengers, guests or units at one time
+    notes: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_vendor", ["vendorId"]),                   // Vendor's resources
+
+  // ============================================
+  // SLOT RESOURCES TABLE
+  // One row per resource a slot needs, kept in step with slots.resourceIds
+  // so a resource's slots on a day can be found without scanning the date
+  // ============================================
+  slotResources: defineTable({
+    slotId: v.id("slots"),
+    resourceId: v.id("resources"),
+    date: v.string(),                // The slot's date (YYYY-MM-DD)
+  })
+    .index("by_slot", ["slotId"])                        // A slot's resources
+    .index("by_resource_and_date", ["resourceId", "date"]), // Resource's slots by date
+
+  // ============================================
+  // SLOT HOLDS TABLE
+  // ============================================
+  slotHolds: defineTable({
+    // Slot and booking references
+    slotId: v.id("slots"),
+    bookingId: v.id("bookings"),
+    listingId: v.id("listings"),     // Denormalized for queries
+
+    // Customer info
+    customerId: v.string(),          // Reference to profiles.userId
+
+    // Seats reserved by this hold
+    guests: v.number(),
+
+    // Status
+    status: v.union(
+      v.literal("active"),           // Seats reserved, awaiting payment
+      v.literal("converted"),        // Payment succeeded, seats confirmed
+      v.literal("released"),         // Payment failed or booking cancelled
+      v.literal("expired")           // Hold timed out before payment
+    ),
+
+    // Hold expiry (Unix timestamp)
+    expiresAt: v.number(),
+    releasedAt: v.optional(v.number()),
+
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_booking", ["bookingId"])                  // Hold for a booking
+    .index("by_slot", ["slotId"])                        // Holds on a slot
+    .index("by_status_and_expiry", ["status", "expiresAt"]), // Expired active holds
+
+  // ============================================
+  // CHECK-INS TABLE
+  // ============================================
+  checkIns: defineTable({
+    // Slot and booking references
+    slotId: v.id("slots"),
+    bookingId: v.id("bookings"),
+    vendorId: v.string(),            // Reference to profiles.userId
+
+    // One row per guest admitted
+    guestNumber: v.number(),         // 1..booking.guests
+
+    // Who scanned the ticket and when
+    checkedInBy: v.string(),         // Reference to profiles.userId
+    checkedInAt: v.number(),
+  })
+    .index("by_booking", ["bookingId"])                  // Guests checked in on a ticket
+    .index("by_slot", ["slotId"]),                       // Attendance for a slot
+
+  // ============================================
+  // WAIVER SIGNATURES TABLE
+  // ============================================
+  waiverSignatures: defineTable({
+    // Booking references
+    bookingId: v.id("bookings"),
+    listingId: v.id("listings"),
+    vendorId: v.string(),            // Reference to profiles.userId
+
+    // One row per guest who signed
+    guestNumber: v.number(),         // 1..booking.guests
+    signerName: v.string(),          // Typed full name
+    signedBy: v.optional(v.string()), // profiles.userId when signed while logged in
+
+    // Signed document snapshot (waiver, name and drawn signature) in Convex storage
+    documentStorageId: v.id("_storage"),
+
+    signedAt: v.number(),
+  })
+    .index("by_booking", ["bookingId"]),                 // Signatures on a booking
+
   // ============================================
   // WAITLIST TABLE
   // ============================================
@@ -483,6 +1002,17 @@ export default defineSchema({
     .index("by_joined", ["joinedAt"])                    // FIFO order
     .index("by_slot_joined", ["slotId", "joinedAt"]),    // Slot waitlist in FIFO order
 
+  // ============================================
+  // BOOKING REMINDERS TABLE
+  // ============================================
+  bookingReminders: defineTable({
+    bookingId: v.id("bookings"),
+    offsetHours: v.number(),         // Reminder sent this many hours before the start
+    startsAt: v.optional(v.number()), // The start it was sent for - a rescheduled booking gets new reminders
+    sentAt: v.number(),
+  })
+    .index("by_booking", ["bookingId"]),                 // Reminders sent for a booking
+
   // ============================================
   // NOTIFICATIONS TABLE
   // ============================================
@@ -496,7 +1026,13 @@ export default defineSchema({
       v.literal("booking_cancelled_by_vendor"),
       v.literal("booking_confirmed"),
       v.literal("booking_reminder"),
-      v.literal("new_sale")
+      v.literal("new_sale"),
+      v.literal("booking_rescheduled"),
+      v.literal("booking_request"),
+      v.literal("booking_request_declined"),
+      v.literal("booking_request_expired"),
+      v.literal("review_request"),
+      v.literal("balance_payment_failed")
     ),
     title: v.string(),
     message: v.string(),
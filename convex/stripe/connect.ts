@@ -10,6 +10,7 @@
 
 import { v } from "convex/values";
 import { query, mutation, action } from "../_generated/server";
+import { Doc } from "../_generated/dataModel";
 import { requireVendor, getCurrentUserId, requireAdmin } from "../lib/auth";
 import { api, internal } from "../_generated/api";
 import Stripe from "stripe";
@@ -479,7 +480,7 @@ export const deleteMultipleAccounts = action({
 export const getDetailedAccountInfo = action({
   args: {},
   handler: async (ctx) => {
-    const profile = await ctx.runQuery(api.profiles.current);
+    const profile: Doc<"profiles"> | null = await ctx.runQuery(api.profiles.current);
     if (!profile || profile.role !== "vendor") {
       throw new Error("Only vendors can access account details");
     }
@@ -3,23 +3,53 @@
  *
  * Functions for processing payments with automatic commission deduction:
  * - Creating payment intents with application fees
+ * - Paying for a multi-vendor cart with one payment intent
+ * - Selling gift vouchers and paying for bookings with them
  * - Confirming payments
  * - Processing refunds
  * - Managing payment records
  */
 
 import { v } from "convex/values";
-import { query, mutation, action } from "../_generated/server";
+import {
+  query,
+  mutation,
+  internalQuery,
+  internalMutation,
+  action,
+  internalAction,
+} from "../_generated/server";
+import { Id } from "../_generated/dataModel";
 import { getCurrentUserId } from "../lib/auth";
 import { api, internal } from "../_generated/api";
+import { confirmHold, releaseHold } from "../availability/holds";
+import {
+  isRescheduleTopUp,
+  recordStripeRefunds,
+  refundLatePayment,
+  retryDelayMs,
+  settleScheduledRefund,
+} from "./refunds";
+import { notifyBookingPaid, settleCheckout } from "../cart";
+import { completeReschedule } from "../bookings";
+import { settleVoucherPurchase } from "../giftVouchers";
+import { requestWaiverSignatures } from "../waivers";
+import { settleBalancePayment } from "../deposits";
+import { getBalanceCommission, getDepositAmount } from "../lib/paymentPlans";
+import { packageStopInputValidator } from "../lib/packages";
+import { Currency, BASE_CURRENCY, currencyValidator, toPresentmentCents } from "../lib/currency";
 import Stripe from "stripe";
 
+// Automatic attempts at a cart payment's transfer before it's left failed
+const MAX_TRANSFER_ATTEMPTS = 5;
+
 // ============================================
 // QUERIES (Read Operations)
 // ============================================
 
 /**
  * Get a payment by booking ID
+ * Bookings with a deposit or top-up have more than one; this is the first
  */
 export const getByBooking = query({
   args: { bookingId: v.id("bookings") },
@@ -27,12 +57,22 @@ export const getByBooking = query({
     const payment = await ctx.db
       .query("payments")
       .withIndex("by_booking", (q) => q.eq("bookingId", args.bookingId))
-      .unique();
+      .first();
 
     return payment;
   },
 });
 
+/**
+ * Get a payment by ID (used by actions)
+ */
+export const getById = internalQuery({
+  args: { id: v.id("payments") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.id);
+  },
+});
+
 /**
  * Get all payments for the current user (as customer)
  */
@@ -136,10 +176,19 @@ export const createPaymentRecord = mutation({
     paymentIntentId: v.string(),
     applicationFeeAmount: v.number(),
     vendorPayoutAmount: v.number(),
+    checkoutId: v.optional(v.id("checkouts")),
+    discountAmount: v.optional(v.number()),
+    voucherAmount: v.optional(v.number()),
+    platformSubsidyAmount: v.optional(v.number()),
+    kind: v.optional(v.union(v.literal("deposit"), v.literal("balance"))),
+    presentmentAmount: v.optional(v.number()),
+    presentmentCurrency: v.optional(currencyValidator),
+    exchangeRate: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const paymentId = await ctx.db.insert("payments", {
       bookingId: args.bookingId,
+      checkoutId: args.checkoutId,
       customerId: args.customerId,
       vendorId: args.vendorId,
       amount: args.amount,
@@ -148,6 +197,13 @@ export const createPaymentRecord = mutation({
       paymentIntentId: args.paymentIntentId,
       applicationFeeAmount: args.applicationFeeAmount,
       vendorPayoutAmount: args.vendorPayoutAmount,
+      discountAmount: args.discountAmount,
+      voucherAmount: args.voucherAmount,
+      platformSubsidyAmount: args.platformSubsidyAmount,
+      kind: args.kind,
+      presentmentAmount: args.presentmentAmount,
+      presentmentCurrency: args.presentmentCurrency,
+      exchangeRate: args.exchangeRate,
       refundAmount: 0,
       createdAt: Date.now(),
       updatedAt: Date.now(),
@@ -179,6 +235,53 @@ export const updatePaymentStatus = mutation({
     // Get current user - must be authenticated
     const userId = await getCurrentUserId(ctx);
 
+    // Cart checkouts pay for several bookings with one payment intent
+    const checkout = await ctx.db
+      .query("checkouts")
+      .withIndex("by_paymentIntent", (q) =>
+        q.eq("paymentIntentId", args.paymentIntentId)
+      )
+      .unique();
+
+    if (checkout) {
+      if (checkout.customerId !== userId) {
+        throw new Error("Unauthorized: You can only update your own payments");
+      }
+
+      // Only the payment_intent.succeeded webhook settles a paid checkout - the
+      // client can't be trusted to say it paid
+      if (args.status === "failed") {
+        await settleCheckout(ctx, checkout, {
+          status: "failed",
+          errorMessage: args.errorMessage,
+        });
+      }
+
+      return { success: true };
+    }
+
+    // Gift voucher purchases are charged to the platform account
+    const voucher = await ctx.db
+      .query("giftVouchers")
+      .withIndex("by_paymentIntent", (q) =>
+        q.eq("paymentIntentId", args.paymentIntentId)
+      )
+      .unique();
+
+    if (voucher) {
+      if (voucher.purchaserId !== userId) {
+        throw new Error("Unauthorized: You can only update your own payments");
+      }
+
+      // Only the payment_intent.succeeded webhook issues the voucher - the
+      // client can't be trusted to say it paid
+      if (args.status === "failed") {
+        await settleVoucherPurchase(ctx, voucher, { status: "failed" });
+      }
+
+      return { success: true };
+    }
+
     const payment = await ctx.db
       .query("payments")
       .withIndex("by_paymentIntent", (q) =>
@@ -197,6 +300,14 @@ export const updatePaymentStatus = mutation({
       throw new Error("Unauthorized: You can only update your own payments");
     }
 
+    // Requests are confirmed once the vendor approves and the payment is captured
+    if (args.status === "succeeded") {
+      const booking = await ctx.db.get(payment.bookingId);
+      if (booking?.approvalStatus === "requested") {
+        throw new Error("This booking is waiting for the vendor's approval");
+      }
+    }
+
     await ctx.db.patch(payment._id, {
       status: args.status,
       chargeId: args.chargeId,
@@ -205,14 +316,44 @@ export const updatePaymentStatus = mutation({
       updatedAt: Date.now(),
     });
 
+    // The balance of a booking confirmed by its deposit
+    if (payment.kind === "balance") {
+      if (args.status === "succeeded" || args.status === "failed") {
+        await settleBalancePayment(ctx, payment.bookingId, args.status, args.errorMessage);
+      }
+      return { success: true };
+    }
+
     // Update booking status if payment succeeded
     if (args.status === "succeeded") {
+      // Paid after the customer cancelled - refund it rather than bring the booking back
+      if ((await ctx.db.get(payment.bookingId))?.status === "cancelled") {
+        await refundLatePayment(ctx, payment.bookingId);
+        return { success: true };
+      }
+
+      // A top-up for a rescheduled booking that was already paid for moves it
+      if (await isRescheduleTopUp(ctx, payment.bookingId)) {
+        await completeReschedule(ctx, payment);
+        return { success: true };
+      }
+
       await ctx.db.patch(payment.bookingId, {
         status: "confirmed",
         paymentStatus: "paid",
         updatedAt: Date.now(),
       });
 
+      // Convert the seat hold into a confirmed seat
+      const { confirmed } = await confirmHold(ctx, payment.bookingId);
+      if (!confirmed) {
+        await refundLatePayment(ctx, payment.bookingId);
+        return { success: true };
+      }
+
+      // The platform-funded part of the price is only transferred to the vendor
+      // from the payment_intent.succeeded webhook (handlePaymentSuccess)
+
       // Send notifications to vendor and customer
       // Get all necessary data
       const booking = await ctx.db.get(payment.bookingId);
@@ -259,10 +400,14 @@ export const updatePaymentStatus = mutation({
             slotDate,
             slotTime,
             guests: booking.guests,
+            addOns: booking.addOns,
             totalPrice: payment.amount,
             bookingId: booking._id,
           });
 
+          // Ask the rest of the group to sign the waiver
+          await requestWaiverSignatures(ctx, booking);
+
           // Send in-app notification to vendor
           await ctx.scheduler.runAfter(0, internal.notifications.inApp.notifyNewSale, {
             vendorId: listing.vendorId,
@@ -285,6 +430,7 @@ export const updatePaymentStatus = mutation({
             slotDate,
             slotTime,
             guests: booking.guests,
+            addOns: booking.addOns,
             totalPrice: payment.amount,
             vendorEarnings,
             platformFee,
@@ -295,11 +441,17 @@ export const updatePaymentStatus = mutation({
         }
       }
     } else if (args.status === "failed") {
-      await ctx.db.patch(payment.bookingId, {
-        status: "cancelled",
-        paymentStatus: "failed",
-        updatedAt: Date.now(),
-      });
+      // A failed top-up leaves the paid booking in place with its balance due
+      if ((await ctx.db.get(payment.bookingId))?.paymentStatus !== "paid") {
+        await ctx.db.patch(payment.bookingId, {
+          status: "cancelled",
+          paymentStatus: "failed",
+          updatedAt: Date.now(),
+        });
+
+        // Return the held seats to the slot
+        await releaseHold(ctx, payment.bookingId);
+      }
     }
 
     return { success: true };
@@ -342,46 +494,207 @@ export const updateTransferStatus = mutation({
 });
 
 /**
- * Internal mutation to record a refund
+ * Internal mutation to record a transfer of a cart payment to the vendor
  */
-export const recordRefund = mutation({
+export const recordTransfer = internalMutation({
   args: {
-    paymentIntentId: v.string(),
-    refundAmount: v.number(),
+    paymentId: v.id("payments"),
+    transferId: v.string(),
   },
   handler: async (ctx, args) => {
-    const payment = await ctx.db
-      .query("payments")
-      .withIndex("by_paymentIntent", (q) =>
-        q.eq("paymentIntentId", args.paymentIntentId)
-      )
-      .unique();
+    await ctx.db.patch(args.paymentId, {
+      transferId: args.transferId,
+      transferStatus: "pending",
+      transferError: undefined,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
 
+/**
+ * Internal mutation to record a failed transfer of a cart payment
+ * Returns whether the caller should schedule another attempt
+ */
+export const recordTransferFailure = internalMutation({
+  args: {
+    paymentId: v.id("payments"),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const payment = await ctx.db.get(args.paymentId);
     if (!payment) {
-      throw new Error("Payment not found");
+      return { retry: false, retryDelayMs: 0 };
     }
 
-    const totalRefunded = payment.refundAmount + args.refundAmount;
+    const attempts = (payment.transferAttempts || 0) + 1;
 
-    await ctx.db.patch(payment._id, {
-      refundAmount: totalRefunded,
-      status: totalRefunded >= payment.amount ? "refunded" : payment.status,
+    await ctx.db.patch(args.paymentId, {
+      transferStatus: "failed",
+      transferAttempts: attempts,
+      transferError: args.error,
       updatedAt: Date.now(),
     });
 
-    // Update booking if fully refunded
-    if (totalRefunded >= payment.amount) {
+    return { retry: attempts < MAX_TRANSFER_ATTEMPTS, retryDelayMs: retryDelayMs(attempts) };
+  },
+});
+
+/**
+ * Internal mutation to record the transfer of a platform subsidy
+ * A refund that came in while the transfer was being made is reversed now
+ */
+export const recordSubsidyTransfer = internalMutation({
+  args: {
+    paymentId: v.id("payments"),
+    transferId: v.string(),
+    amount: v.number(), // Transferred, in cents
+  },
+  handler: async (ctx, args) => {
+    const payment = await ctx.db.get(args.paymentId);
+    if (!payment) {
+      return { success: false };
+    }
+
+    await ctx.db.patch(args.paymentId, {
+      subsidyTransferId: args.transferId,
+      updatedAt: Date.now(),
+    });
+
+    const unreversed = args.amount - ((payment.platformSubsidyAmount || 0) - (payment.subsidyReversedAmount || 0));
+    if (unreversed > 0) {
+      await ctx.scheduler.runAfter(0, internal.stripe.payments.reversePlatformSubsidy, {
+        paymentId: args.paymentId,
+        transferId: args.transferId,
+        amount: unreversed,
+        refundKey: `${args.paymentId}-transfer`,
+      });
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Internal mutation to record a refund
+ * Cart payments share a payment intent, so they are identified by paymentId
+ */
+export const recordRefund = mutation({
+  args: {
+    paymentIntentId: v.string(),
+    refundId: v.string(),            // Stripe refund ID
+    refundAmount: v.number(),        // In cents of the currency charged
+
+    paymentId: v.optional(v.id("payments")),
+    refundKey: v.optional(v.string()), // Set for refunds scheduled by scheduleRefund
+  },
+  handler: async (ctx, args) => {
+    const payment = args.paymentId
+      ? await ctx.db.get(args.paymentId)
+      : await ctx.db
+          .query("payments")
+          .withIndex("by_paymentIntent", (q) =>
+            q.eq("paymentIntentId", args.paymentIntentId)
+          )
+          .unique();
+
+    if (!payment) {
+      throw new Error("Payment not found");
+    }
+
+    // Other scheduled refunds of the booking may still be pending
+    const booking = await ctx.db.get(payment.bookingId);
+    if (args.refundKey) {
+      await settleScheduledRefund(ctx, payment.bookingId, args.refundKey, "succeeded");
+    } else if (booking && !booking.pendingRefundKeys?.length) {
       await ctx.db.patch(payment.bookingId, {
-        paymentStatus: "refunded",
-        status: "cancelled",
+        refundProcessed: true,
+        refundStatus: "succeeded",
+        refundError: undefined,
         updatedAt: Date.now(),
       });
     }
 
+    // Cancels the booking if this refunds the whole payment
+    await recordStripeRefunds(ctx, payment, [
+      { id: args.refundId, amount: args.refundAmount },
+    ]);
+
     return { success: true };
   },
 });
 
+/**
+ * Confirm a booking paid for entirely with a gift voucher
+ * No card is charged; the vendor's payout is transferred from the platform
+ * balance (transferPlatformSubsidy). Called from createPaymentIntent.
+ */
+export const confirmVoucherPayment = internalMutation({
+  args: {
+    bookingId: v.id("bookings"),
+    applicationFeeAmount: v.number(),
+    vendorPayoutAmount: v.number(),
+    discountAmount: v.optional(v.number()),
+    voucherAmount: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    if (booking.paymentStatus === "paid") {
+      throw new Error("This booking has already been paid");
+    }
+
+    const now = Date.now();
+
+    const paymentId = await ctx.db.insert("payments", {
+      bookingId: args.bookingId,
+      customerId: booking.customerId,
+      vendorId: booking.vendorId,
+      amount: 0, // Nothing charged to the card
+      currency: "thb",
+      status: "succeeded",
+      paymentMethod: "gift_voucher",
+      applicationFeeAmount: args.applicationFeeAmount,
+      vendorPayoutAmount: args.vendorPayoutAmount,
+      discountAmount: args.discountAmount,
+      voucherAmount: args.voucherAmount,
+      platformSubsidyAmount: args.vendorPayoutAmount,
+      refundAmount: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.db.patch(args.bookingId, {
+      status: "confirmed",
+      paymentStatus: "paid",
+      updatedAt: now,
+    });
+
+    // Convert the seat hold into a confirmed seat
+    const { confirmed } = await confirmHold(ctx, args.bookingId);
+    if (!confirmed) {
+      await refundLatePayment(ctx, args.bookingId);
+      return paymentId;
+    }
+
+    await ctx.scheduler.runAfter(0, internal.stripe.payments.transferPlatformSubsidy, {
+      paymentId,
+    });
+
+    const payment = await ctx.db.get(paymentId);
+    const paidBooking = await ctx.db.get(args.bookingId);
+    if (payment && paidBooking) {
+      await notifyBookingPaid(ctx, paidBooking, payment);
+    }
+
+    return paymentId;
+  },
+});
+
 // ============================================
 // ACTIONS (External API Calls)
 // ============================================
@@ -393,9 +706,26 @@ export const recordRefund = mutation({
 export const createPaymentIntent = action({
   args: {
     bookingId: v.id("bookings"),
-    amount: v.number(), // Amount in cents (smallest currency unit)
+    promoCode: v.optional(v.string()),
+    voucherCode: v.optional(v.string()),
+    currency: v.optional(currencyValidator), // Currency to charge in (THB by default)
   },
-  handler: async (ctx, args) => {
+  handler: async (
+    ctx,
+    args
+  ): Promise<{
+    clientSecret: string | null;
+    paymentIntentId: string | null;
+    paidByVoucher: boolean;
+    amount: number;
+    presentmentAmount: number;
+    presentmentCurrency: Currency;
+    discountAmount: number;
+    voucherAmount: number;
+    applicationFeeAmount: number;
+    vendorPayoutAmount: number;
+    balanceAmount: number;
+  }> => {
     // Get booking details
     const booking = await ctx.runQuery(api.bookings.get, {
       id: args.bookingId,
@@ -405,6 +735,39 @@ export const createPaymentIntent = action({
       throw new Error("Booking not found");
     }
 
+    // Charge the server-side booking total, add-ons included (or the balance left
+    // after rescheduling, or a deposit balance the saved card couldn't pay)
+    const isBalance = booking.paymentStatus === "paid" && booking.depositBalanceStatus === "failed";
+    const isTopUp = !isBalance && booking.paymentStatus === "paid" && booking.balanceDue !== undefined;
+    if (booking.paymentStatus === "paid" && !isTopUp && !isBalance) {
+      throw new Error("This booking has already been paid");
+    }
+
+    // Request to book: the card is only authorized until the vendor approves
+    const isRequest = booking.approvalStatus === "requested";
+    if (isRequest && booking.requestExpiresAt !== undefined) {
+      throw new Error("This request is already waiting for the vendor");
+    }
+
+    // Apply (or clear) the promo code; top-ups and balances keep the original discount
+    const discount = isTopUp || isBalance
+      ? { discountAmount: 0, fundedBy: undefined }
+      : await ctx.runMutation(internal.promoCodes.applyToBooking, {
+          bookingId: args.bookingId,
+          code: args.promoCode,
+        });
+
+    const subtotal = isBalance
+      ? booking.depositBalance!
+      : isTopUp
+        ? booking.balanceDue!
+        : Math.round(booking.totalPrice * 100); // Amount in cents (smallest currency unit)
+    const discountAmount = Math.round(discount.discountAmount * 100);
+
+    if (subtotal - discountAmount <= 0) {
+      throw new Error("The discounted total is too low to pay by card");
+    }
+
     // Get vendor profile to check onboarding status
     const vendorProfile = await ctx.runQuery(api.profiles.get, {
       userId: booking.vendorId,
@@ -422,28 +785,123 @@ export const createPaymentIntent = action({
       );
     }
 
+    // Redeem (or give back) gift voucher balance; the card pays the rest
+    const voucher = isTopUp || isBalance
+      ? { voucherAmount: 0 }
+      : await ctx.runMutation(internal.giftVouchers.applyToBooking, {
+          bookingId: args.bookingId,
+          code: args.voucherCode,
+          amountDue: (subtotal - discountAmount) / 100,
+        });
+    const voucherAmount = Math.round(voucher.voucherAmount * 100);
+    const amount = subtotal - discountAmount - voucherAmount;
+
     // Get commission rate for this vendor
     const commissionRate = await ctx.runQuery(
       api.stripe.connect.getVendorCommissionRate,
       { vendorId: booking.vendorId }
     );
 
-    // Calculate application fee (platform commission)
-    const applicationFeeAmount = Math.round(
-      args.amount * (commissionRate / 100)
-    );
-    const vendorPayoutAmount = args.amount - applicationFeeAmount;
+    // Calculate the vendor payout and application fee (platform commission)
+    // Vendor-funded discounts: commission is taken on the discounted price.
+    // Platform-funded discounts: the vendor is paid as if the full price was
+    // charged. Gift vouchers were paid to the platform, so the voucher part
+    // of the price reaches the vendor from the platform balance too.
+    // Whatever the card charge doesn't cover is transferred to the vendor
+    // after payment (transferPlatformSubsidy).
+    // A balance keeps the commission worked out when the deposit was paid.
+    const vendorPriced = discount.fundedBy === "platform" ? subtotal : subtotal - discountAmount;
+    const vendorPayoutAmount = isBalance
+      ? amount - (booking.depositBalanceFee || 0)
+      : vendorPriced - Math.round(vendorPriced * (commissionRate / 100));
+    const applicationFeeAmount = Math.max(0, amount - vendorPayoutAmount);
+    const platformSubsidyAmount = Math.max(0, vendorPayoutAmount - amount);
+
+    // Deposit plans charge part of the amount now and leave a balance. Too close
+    // to the activity for the balance to be charged later, it's paid in full.
+    const depositTerms = isTopUp || isBalance
+      ? null
+      : await ctx.runQuery(internal.deposits.getDepositTerms, { bookingId: args.bookingId });
+    const balanceAmount = depositTerms && depositTerms.balanceDueAt > Date.now()
+      ? amount - getDepositAmount(depositTerms.plan, amount)
+      : 0;
+    // Each charge carries its share of the commission; a platform subsidy is
+    // transferred with the deposit
+    const balanceFee = getBalanceCommission(applicationFeeAmount, amount, balanceAmount);
+    const chargeAmount = amount - balanceAmount;
+    const chargeFee = applicationFeeAmount - balanceFee;
+    const chargePayout = vendorPayoutAmount - (balanceAmount - balanceFee);
+
+    // Paid in full by the voucher: nothing to charge
+    if (amount <= 0) {
+      if (isRequest) {
+        // Give the voucher balance back - there would be no payment to release on decline
+        await ctx.runMutation(internal.giftVouchers.applyToBooking, {
+          bookingId: args.bookingId,
+          amountDue: 0,
+        });
+        throw new Error("Booking requests are held on a card until the vendor approves. Remove the gift voucher to continue.");
+      }
+
+      // Nothing left to pay later either
+      if (booking.depositBalance !== undefined) {
+        await ctx.runMutation(internal.deposits.recordDepositPlan, { bookingId: args.bookingId });
+      }
+
+      await ctx.runMutation(internal.stripe.payments.confirmVoucherPayment, {
+        bookingId: args.bookingId,
+        applicationFeeAmount: vendorPriced - vendorPayoutAmount,
+        vendorPayoutAmount,
+        discountAmount: discountAmount || undefined,
+        voucherAmount,
+      });
+
+      return {
+        clientSecret: null,
+        paymentIntentId: null,
+        paidByVoucher: true,
+        amount: 0,
+        presentmentAmount: 0,
+        presentmentCurrency: BASE_CURRENCY,
+        discountAmount,
+        voucherAmount,
+        applicationFeeAmount: vendorPriced - vendorPayoutAmount,
+        vendorPayoutAmount,
+        balanceAmount: 0,
+      };
+    }
 
     // Initialize Stripe
     const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
       apiVersion: "2024-11-20.acacia",
     });
 
+    // Charge in the customer's currency at today's rate; everything recorded
+    // stays in THB. A balance is charged in the deposit's currency.
+    const presentmentCurrency = args.currency ?? BASE_CURRENCY;
+    const exchangeRate: number = await ctx.runQuery(internal.exchangeRates.getPresentmentRate, {
+      currency: presentmentCurrency,
+    });
+    const presentmentAmount = toPresentmentCents(chargeAmount, exchangeRate);
+    const presentment = presentmentCurrency === BASE_CURRENCY
+      ? {}
+      : { presentmentAmount, presentmentCurrency, exchangeRate };
+
+    // Save the card to charge the balance to later
+    const chargeBalanceToCard = balanceAmount > 0 && depositTerms?.plan.balanceCollection !== "venue";
+    const stripeCustomer = chargeBalanceToCard
+      ? await stripe.customers.create({
+          email: booking.customerEmail,
+          name: booking.customerName,
+          metadata: { customerId: booking.customerId },
+        })
+      : null;
+
     // Create payment intent with transfer to vendor
     const paymentIntent = await stripe.paymentIntents.create({
-      amount: args.amount,
-      currency: "thb", // Thai Baht
-      application_fee_amount: applicationFeeAmount,
+      amount: presentmentAmount,
+      currency: presentmentCurrency.toLowerCase(),
+      application_fee_amount: toPresentmentCents(chargeFee, exchangeRate),
       transfer_data: {
         destination: vendorProfile.stripeConnectAccountId,
       },
@@ -452,33 +910,591 @@ export const createPaymentIntent = action({
         vendorId: booking.vendorId,
         customerId: booking.customerId,
         commissionRate: commissionRate.toString(),
+        ...(discountAmount > 0 && args.promoCode
+          ? { promoCode: args.promoCode, discountFundedBy: discount.fundedBy || "" }
+          : {}),
+        ...(voucherAmount > 0 && args.voucherCode
+          ? { voucherCode: args.voucherCode, voucherAmount: voucherAmount.toString() }
+          : {}),
+        ...(balanceAmount > 0 ? { paymentKind: "deposit", balanceAmount: balanceAmount.toString() } : {}),
+        ...(isBalance ? { paymentKind: "balance" } : {}),
       },
       automatic_payment_methods: {
         enabled: true,
       },
+      // Captured when the vendor approves the request, see bookingRequests
+      ...(isRequest ? { capture_method: "manual" as const } : {}),
+      ...(stripeCustomer
+        ? { customer: stripeCustomer.id, setup_future_usage: "off_session" as const }
+        : {}),
     });
 
+    // Remember the balance (or forget one from an earlier attempt)
+    if (!isTopUp && !isBalance && (balanceAmount > 0 || booking.depositBalance !== undefined)) {
+      await ctx.runMutation(internal.deposits.recordDepositPlan, {
+        bookingId: args.bookingId,
+        balance: balanceAmount > 0
+          ? {
+              amount: balanceAmount,
+              applicationFeeAmount: balanceFee,
+              dueAt: depositTerms!.balanceDueAt,
+              collection: chargeBalanceToCard ? "card" : "venue",
+              stripeCustomerId: stripeCustomer?.id,
+            }
+          : undefined,
+      });
+    }
+
     // Create payment record in database
     await ctx.runMutation(internal.stripe.payments.createPaymentRecord, {
       bookingId: args.bookingId,
       customerId: booking.customerId,
       vendorId: booking.vendorId,
-      amount: args.amount,
+      amount: chargeAmount,
       currency: "thb",
       paymentIntentId: paymentIntent.id,
-      applicationFeeAmount,
-      vendorPayoutAmount,
+      applicationFeeAmount: chargeFee,
+      vendorPayoutAmount: chargePayout,
+      discountAmount: discountAmount || undefined,
+      voucherAmount: voucherAmount || undefined,
+      platformSubsidyAmount: platformSubsidyAmount || undefined,
+      kind: isBalance ? "balance" : balanceAmount > 0 ? "deposit" : undefined,
+      ...presentment,
+    });
+
+    return {
+      clientSecret: paymentIntent.client_secret,
+      paymentIntentId: paymentIntent.id,
+      paidByVoucher: false,
+      amount: chargeAmount,
+      presentmentAmount,
+      presentmentCurrency,
+      discountAmount,
+      voucherAmount,
+      applicationFeeAmount: chargeFee,
+      vendorPayoutAmount: chargePayout,
+      balanceAmount,
+    };
+  },
+});
+
+/**
+ * Create one payment intent for everything in the current user's cart
+ * The platform collects the payment; each vendor's share (after their own
+ * commission rate) is transferred once it succeeds, see transferCheckoutFunds
+ */
+export const createCheckoutPaymentIntent = action({
+  args: {
+    currency: v.optional(currencyValidator), // Currency to charge in (THB by default)
+    packageBooking: v.optional(v.object({    // Book a package instead of the cart
+      packageId: v.id("packages"),
+      startDate: v.string(),
+      guests: v.number(),
+      stops: v.optional(v.array(packageStopInputValidator)),
+    })),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{
+    clientSecret: string | null;
+    paymentIntentId: string;
+    checkoutId: Id<"checkouts">;
+    bookingIds: Id<"bookings">[];
+    amount: number;
+    presentmentAmount: number;
+    presentmentCurrency: Currency;
+  }> => {
+    // Re-validate the cart (or the package's activities) and reserve seats for every item
+    const checkout = args.packageBooking
+      ? await ctx.runMutation(internal.packages.createPackageCheckout, args.packageBooking)
+      : await ctx.runMutation(internal.cart.createCheckout, {});
+
+    try {
+      const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+        apiVersion: "2024-11-20.acacia",
+      });
+
+      // Vendors are paid in THB from the platform balance whatever the customer pays in
+      const presentmentCurrency = args.currency ?? BASE_CURRENCY;
+      const exchangeRate: number = await ctx.runQuery(internal.exchangeRates.getPresentmentRate, {
+        currency: presentmentCurrency,
+      });
+      const presentmentAmount = toPresentmentCents(checkout.amount, exchangeRate);
+
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: presentmentAmount,
+        currency: presentmentCurrency.toLowerCase(),
+        transfer_group: checkout.checkoutId,
+        metadata: {
+          checkoutId: checkout.checkoutId,
+          customerId: checkout.customerId,
+        },
+        automatic_payment_methods: {
+          enabled: true,
+        },
+      });
+
+      // One payment record per booking, with that vendor's commission
+      for (const item of checkout.items) {
+        const commissionRate = await ctx.runQuery(
+          api.stripe.connect.getVendorCommissionRate,
+          { vendorId: item.vendorId }
+        );
+        const applicationFeeAmount = Math.round(
+          item.amount * (commissionRate / 100)
+        );
+
+        await ctx.runMutation(internal.stripe.payments.createPaymentRecord, {
+          bookingId: item.bookingId,
+          customerId: checkout.customerId,
+          vendorId: item.vendorId,
+          amount: item.amount,
+          currency: "thb",
+          paymentIntentId: paymentIntent.id,
+          applicationFeeAmount,
+          vendorPayoutAmount: item.amount - applicationFeeAmount,
+          checkoutId: checkout.checkoutId,
+          ...(presentmentCurrency === BASE_CURRENCY
+            ? {}
+            : {
+                presentmentAmount: toPresentmentCents(item.amount, exchangeRate),
+                presentmentCurrency,
+                exchangeRate,
+              }),
+        });
+      }
+
+      await ctx.runMutation(internal.cart.attachPaymentIntent, {
+        checkoutId: checkout.checkoutId,
+        paymentIntentId: paymentIntent.id,
+      });
+
+      return {
+        clientSecret: paymentIntent.client_secret,
+        paymentIntentId: paymentIntent.id,
+        checkoutId: checkout.checkoutId,
+        bookingIds: checkout.items.map((item) => item.bookingId),
+        amount: checkout.amount,
+        presentmentAmount,
+        presentmentCurrency,
+      };
+    } catch (error) {
+      // Give the seats back; the cart stays as it was
+      await ctx.runMutation(internal.cart.abandonCheckout, {
+        checkoutId: checkout.checkoutId,
+      });
+      throw error;
+    }
+  },
+});
+
+/**
+ * Create a payment intent for a gift voucher
+ * Vouchers can be spent with any vendor, so the platform collects the payment;
+ * the voucher is issued and emailed to the recipient once it succeeds
+ */
+export const createVoucherPaymentIntent = action({
+  args: {
+    amount: v.number(), // THB
+    recipientName: v.string(),
+    recipientEmail: v.string(),
+    message: v.optional(v.string()),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{
+    clientSecret: string | null;
+    paymentIntentId: string;
+    voucherId: Id<"giftVouchers">;
+    amount: number;
+  }> => {
+    if (!Number.isInteger(args.amount) || args.amount <= 0) {
+      throw new Error("Gift voucher amount must be a whole number of baht");
+    }
+
+    const { voucherId, purchaserId } = await ctx.runMutation(
+      internal.giftVouchers.createPurchase,
+      args
+    );
+
+    const amount = args.amount * 100; // Amount in cents
+
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+      apiVersion: "2024-11-20.acacia",
+    });
+
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount,
+      currency: "thb", // Thai Baht
+      description: `Gift voucher for ${args.recipientName}`,
+      metadata: {
+        voucherId,
+        customerId: purchaserId,
+      },
+      automatic_payment_methods: {
+        enabled: true,
+      },
+    });
+
+    await ctx.runMutation(internal.giftVouchers.attachPaymentIntent, {
+      voucherId,
+      paymentIntentId: paymentIntent.id,
     });
 
     return {
       clientSecret: paymentIntent.client_secret,
       paymentIntentId: paymentIntent.id,
-      applicationFeeAmount,
-      vendorPayoutAmount,
+      voucherId,
+      amount,
     };
   },
 });
 
+/**
+ * Transfer each vendor's share of a paid cart checkout to their Connect account
+ * Anything already refunded is left out of the transfer
+ */
+export const transferCheckoutFunds = internalAction({
+  args: {
+    checkoutId: v.id("checkouts"),
+  },
+  handler: async (ctx, args) => {
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+      apiVersion: "2024-11-20.acacia",
+    });
+
+    const payments = await ctx.runQuery(internal.cart.getCheckoutTransfers, {
+      checkoutId: args.checkoutId,
+    });
+
+    // Failed transfers are retried together after the shortest backoff
+    let retryAfterMs: number | null = null;
+
+    for (const payment of payments) {
+      if (payment.transferId || !payment.chargeId || !payment.destination) {
+        continue;
+      }
+      if (payment.transferAttempts >= MAX_TRANSFER_ATTEMPTS) {
+        continue;
+      }
+
+      const amount = Math.round(
+        payment.vendorPayoutAmount *
+          ((payment.amount - payment.refundAmount) / payment.amount)
+      );
+      if (amount <= 0) {
+        continue;
+      }
+
+      try {
+        const transfer = await stripe.transfers.create(
+          {
+            amount,
+            currency: "thb",
+            destination: payment.destination,
+            source_transaction: payment.chargeId,
+            transfer_group: args.checkoutId,
+            metadata: {
+              bookingId: payment.bookingId,
+              paymentId: payment.paymentId,
+            },
+          },
+          { idempotencyKey: `checkout-transfer-${payment.paymentId}` }
+        );
+
+        await ctx.runMutation(internal.stripe.payments.recordTransfer, {
+          paymentId: payment.paymentId,
+          transferId: transfer.id,
+        });
+      } catch (error: any) {
+        console.error(
+          `Transfer failed for booking ${payment.bookingId}:`,
+          error.message
+        );
+
+        const { retry, retryDelayMs: delayMs } = await ctx.runMutation(
+          internal.stripe.payments.recordTransferFailure,
+          { paymentId: payment.paymentId, error: error.message || "Transfer failed" }
+        );
+        if (retry) {
+          retryAfterMs = Math.min(retryAfterMs ?? delayMs, delayMs);
+        }
+      }
+    }
+
+    if (retryAfterMs !== null) {
+      await ctx.scheduler.runAfter(retryAfterMs, internal.stripe.payments.transferCheckoutFunds, args);
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Transfer the part of a platform-funded discount or gift voucher payment that
+ * the card charge didn't cover to the vendor, so they receive their full payout
+ */
+export const transferPlatformSubsidy = internalAction({
+  args: {
+    paymentId: v.id("payments"),
+  },
+  handler: async (ctx, args) => {
+    const payment = await ctx.runQuery(internal.stripe.payments.getById, {
+      id: args.paymentId,
+    });
+    if (!payment?.platformSubsidyAmount || payment.status !== "succeeded" || payment.subsidyTransferId) {
+      return { success: false };
+    }
+
+    // Less whatever was refunded before the transfer went out
+    const amount = payment.platformSubsidyAmount - (payment.subsidyReversedAmount || 0);
+    if (amount <= 0) {
+      return { success: false };
+    }
+
+    const vendorProfile = await ctx.runQuery(api.profiles.get, {
+      userId: payment.vendorId,
+    });
+    if (!vendorProfile?.stripeConnectAccountId) {
+      console.error(`No Connect account for vendor ${payment.vendorId}`);
+      return { success: false };
+    }
+
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+      apiVersion: "2024-11-20.acacia",
+    });
+
+    const transfer = await stripe.transfers.create(
+      {
+        amount,
+        currency: payment.currency,
+        destination: vendorProfile.stripeConnectAccountId,
+        metadata: {
+          bookingId: payment.bookingId,
+          paymentId: payment._id,
+          reason: payment.voucherAmount ? "gift_voucher" : "platform_funded_discount",
+        },
+      },
+      { idempotencyKey: `platform-subsidy-${payment._id}` }
+    );
+
+    await ctx.runMutation(internal.stripe.payments.recordSubsidyTransfer, {
+      paymentId: payment._id,
+      transferId: transfer.id,
+      amount: transfer.amount,
+    });
+
+    console.log(
+      `Transfer ${transfer.id} of ${transfer.amount} covers platform-funded amount on booking ${payment.bookingId}`
+    );
+
+    return { success: true, transferId: transfer.id };
+  },
+});
+
+/**
+ * Take part of a platform subsidy back from the vendor after a refund
+ * Scheduled via scheduleRefund; failed attempts are retried with backoff
+ */
+export const reversePlatformSubsidy = internalAction({
+  args: {
+    paymentId: v.id("payments"),
+    transferId: v.string(),
+    amount: v.number(),   // In cents (THB)
+    refundKey: v.string(), // The refund's key; retries reuse it
+    attempt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+      apiVersion: "2024-11-20.acacia",
+    });
+
+    try {
+      await stripe.transfers.createReversal(
+        args.transferId,
+        {
+          amount: args.amount,
+          metadata: { paymentId: args.paymentId },
+        },
+        { idempotencyKey: `subsidy-reversal-${args.refundKey}` }
+      );
+    } catch (error: any) {
+      const attempt = (args.attempt || 0) + 1;
+      console.error(`Subsidy reversal failed for payment ${args.paymentId}:`, error.message);
+
+      if (attempt < MAX_TRANSFER_ATTEMPTS) {
+        await ctx.scheduler.runAfter(retryDelayMs(attempt), internal.stripe.payments.reversePlatformSubsidy, {
+          ...args,
+          attempt,
+        });
+      }
+      return { success: false };
+    }
+
+    console.log(`Reversed ${args.amount} of subsidy transfer ${args.transferId}`);
+    return { success: true };
+  },
+});
+
+/**
+ * Capture the authorized payment of an approved booking request
+ * The payment_intent.succeeded webhook then confirms the booking
+ */
+export const captureBookingRequest = internalAction({
+  args: {
+    bookingId: v.id("bookings"),
+    paymentIntentId: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+      apiVersion: "2024-11-20.acacia",
+    });
+
+    try {
+      await stripe.paymentIntents.capture(
+        args.paymentIntentId,
+        {},
+        { idempotencyKey: `request-capture-${args.paymentIntentId}` }
+      );
+    } catch (error: any) {
+      console.error(`Failed to capture ${args.paymentIntentId}:`, error);
+      await ctx.runMutation(internal.bookingRequests.handleCaptureFailed, {
+        bookingId: args.bookingId,
+        errorMessage: error.message || "Capture failed",
+      });
+      return { success: false };
+    }
+
+    console.log(`Captured booking request payment ${args.paymentIntentId}`);
+    return { success: true };
+  },
+});
+
+/**
+ * Release the card authorization of a declined, expired or withdrawn
+ * booking request, or cancel the payment intent of a booking whose seat
+ * hold expired before it was paid
+ */
+export const cancelPaymentAuthorization = internalAction({
+  args: {
+    paymentIntentId: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+      apiVersion: "2024-11-20.acacia",
+    });
+
+    try {
+      const paymentIntent = await stripe.paymentIntents.retrieve(args.paymentIntentId);
+      if (paymentIntent.status === "canceled" || paymentIntent.status === "succeeded") {
+        return { success: true };
+      }
+      await stripe.paymentIntents.cancel(args.paymentIntentId);
+    } catch (error: any) {
+      // An authorization that can't be cancelled lapses on its own after about 7 days
+      console.error(`Failed to cancel authorization ${args.paymentIntentId}:`, error);
+      return { success: false };
+    }
+
+    console.log(`Released authorization ${args.paymentIntentId}`);
+    return { success: true };
+  },
+});
+
+/**
+ * Charge the balance of a deposit booking to the card saved with the deposit
+ * Scheduled by chargeDueBalances; if the card is declined (or needs the
+ * customer to authenticate) the customer is asked to pay it themselves
+ */
+export const chargeDepositBalance = internalAction({
+  args: {
+    bookingId: v.id("bookings"),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const charge = await ctx.runQuery(internal.deposits.getBalanceCharge, {
+      bookingId: args.bookingId,
+    });
+
+    if (!charge) {
+      await ctx.runMutation(internal.deposits.recordBalanceCharge, {
+        bookingId: args.bookingId,
+        succeeded: false,
+        errorMessage: "No saved card to charge",
+      });
+      return { success: false };
+    }
+
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+      apiVersion: "2024-11-20.acacia",
+    });
+
+    let paymentMethod = charge.paymentMethod;
+    try {
+      if (!paymentMethod) {
+        const saved = await stripe.paymentMethods.list({ customer: charge.stripeCustomerId, limit: 1 });
+        paymentMethod = saved.data[0]?.id;
+      }
+      if (!paymentMethod) {
+        throw new Error("No saved card to charge");
+      }
+
+      // Charged in the deposit's currency at the deposit's rate
+      const exchangeRate = charge.exchangeRate ?? 1;
+      const paymentIntent = await stripe.paymentIntents.create(
+        {
+          amount: toPresentmentCents(charge.amount, exchangeRate),
+          currency: (charge.presentmentCurrency ?? BASE_CURRENCY).toLowerCase(),
+          customer: charge.stripeCustomerId,
+          payment_method: paymentMethod,
+          off_session: true,
+          confirm: true,
+          application_fee_amount: toPresentmentCents(charge.applicationFeeAmount, exchangeRate),
+          transfer_data: {
+            destination: charge.destination,
+          },
+          metadata: {
+            bookingId: args.bookingId,
+            vendorId: charge.vendorId,
+            customerId: charge.customerId,
+            paymentKind: "balance",
+          },
+        },
+        { idempotencyKey: `deposit-balance-${args.bookingId}-${charge.amount}` }
+      );
+
+      await ctx.runMutation(internal.deposits.recordBalanceCharge, {
+        bookingId: args.bookingId,
+        succeeded: paymentIntent.status === "succeeded",
+        paymentIntentId: paymentIntent.id,
+        chargeId: (paymentIntent.latest_charge as string | null) || undefined,
+        paymentMethod,
+        errorMessage: paymentIntent.status === "succeeded" ? undefined : `Payment ${paymentIntent.status}`,
+        presentmentCurrency: charge.presentmentCurrency,
+        exchangeRate: charge.exchangeRate,
+      });
+
+      console.log(`Charged balance of booking ${args.bookingId}: ${paymentIntent.status}`);
+      return { success: paymentIntent.status === "succeeded" };
+    } catch (error: any) {
+      console.error(`Balance charge failed for booking ${args.bookingId}:`, error.message);
+
+      // Declined cards still leave a payment intent behind
+      await ctx.runMutation(internal.deposits.recordBalanceCharge, {
+        bookingId: args.bookingId,
+        succeeded: false,
+        paymentIntentId: error.raw?.payment_intent?.id,
+        paymentMethod,
+        errorMessage: error.message || "Charge failed",
+        presentmentCurrency: charge.presentmentCurrency,
+        exchangeRate: charge.exchangeRate,
+      });
+      return { success: false };
+    }
+  },
+});
+
 /**
  * Process a refund for a payment
  * Can be full or partial refund
@@ -486,7 +1502,7 @@ export const createPaymentIntent = action({
 export const refundPayment = action({
   args: {
     paymentIntentId: v.string(),
-    amount: v.optional(v.number()), // Optional: full refund if not specified
+    amount: v.optional(v.number()), // In cents of the currency charged; full refund if not specified
     reason: v.optional(
       v.union(
         v.literal("duplicate"),
@@ -512,6 +1528,7 @@ export const refundPayment = action({
     // Record refund in database
     await ctx.runMutation(internal.stripe.payments.recordRefund, {
       paymentIntentId: args.paymentIntentId,
+      refundId: refund.id,
       refundAmount: refund.amount,
     });
 
@@ -524,6 +1541,107 @@ export const refundPayment = action({
   },
 });
 
+/**
+ * Refund a cancelled booking
+ * Scheduled via scheduleRefund; failed attempts are retried with backoff and the
+ * idempotency key stops a retry refunding twice
+ */
+export const processBookingRefund = internalAction({
+  args: {
+    bookingId: v.id("bookings"),
+    paymentIntentId: v.string(),
+    amount: v.number(), // Amount in cents (THB)
+    presentmentAmount: v.optional(v.number()), // The same in cents of the currency charged
+    reason: v.optional(v.literal("requested_by_customer")),
+    paymentId: v.optional(v.id("payments")), // Set for cart checkout payments
+    refundKey: v.string(), // Unique per scheduled refund; retries reuse it
+  },
+  handler: async (ctx, args) => {
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+      apiVersion: "2024-11-20.acacia",
+    });
+
+    // Cart payments were charged by the platform and transferred separately
+    const cartPayment = args.paymentId
+      ? await ctx.runQuery(internal.stripe.payments.getById, { id: args.paymentId })
+      : null;
+
+    // Stripe refunds in the currency the customer was charged in
+    const refundAmount = args.presentmentAmount ?? args.amount;
+
+    let refund: Stripe.Refund;
+    try {
+      if (cartPayment) {
+        refund = await stripe.refunds.create(
+          {
+            payment_intent: args.paymentIntentId,
+            amount: refundAmount,
+            reason: args.reason,
+            metadata: {
+              bookingId: args.bookingId,
+            },
+          },
+          { idempotencyKey: `booking-refund-${args.refundKey}` }
+        );
+
+        // Take the vendor's share of the refund back from their transfer
+        if (cartPayment.transferId && cartPayment.vendorPayoutAmount) {
+          await stripe.transfers.createReversal(
+            cartPayment.transferId,
+            {
+              amount: Math.round(
+                args.amount * (cartPayment.vendorPayoutAmount / cartPayment.amount)
+              ),
+            },
+            { idempotencyKey: `transfer-reversal-${args.refundKey}` }
+          );
+        }
+      } else {
+        refund = await stripe.refunds.create(
+          {
+            payment_intent: args.paymentIntentId,
+            amount: refundAmount,
+            reason: args.reason,
+            reverse_transfer: true, // Reverses the transfer to vendor
+            refund_application_fee: true, // Refunds platform commission
+            metadata: {
+              bookingId: args.bookingId,
+            },
+          },
+          { idempotencyKey: `booking-refund-${args.refundKey}` }
+        );
+      }
+    } catch (error: any) {
+      console.error(`Refund failed for booking ${args.bookingId}:`, error.message);
+
+      const { retry, retryDelayMs } = await ctx.runMutation(
+        internal.stripe.refunds.recordRefundFailure,
+        { bookingId: args.bookingId, refundKey: args.refundKey, error: error.message || "Refund failed" }
+      );
+
+      if (retry) {
+        await ctx.scheduler.runAfter(retryDelayMs, internal.stripe.payments.processBookingRefund, args);
+      }
+
+      return { success: false };
+    }
+
+    await ctx.runMutation(internal.stripe.payments.recordRefund, {
+      paymentIntentId: args.paymentIntentId,
+      refundId: refund.id,
+      refundAmount: refund.amount,
+      paymentId: args.paymentId,
+      refundKey: args.refundKey,
+    });
+
+    console.log(
+      `Refund ${refund.id} of ${refund.amount} issued for booking ${args.bookingId}`
+    );
+
+    return { success: true, refundId: refund.id, amount: refund.amount };
+  },
+});
+
 /**
  * Get payment intent details from Stripe
  * Useful for checking real-time status
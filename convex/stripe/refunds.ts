@@ -0,0 +1,418 @@
+/**
+ * Booking Refunds
+ *
+ * Scheduling and tracking of Stripe refunds for cancelled bookings.
+ * Each booking carries its own refund status so vendors can see which
+ * refunds went through, and failed refunds are retried with backoff
+ * before being flagged for a manual retry.
+ */
+
+import { v } from "convex/values";
+import { query, mutation, internalMutation, QueryCtx, MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import { getCurrentUserId, isAdmin } from "../lib/auth";
+import { getVoucherRedeemed, restoreVoucherRedemptions } from "../giftVouchers";
+import { releaseHold } from "../availability/holds";
+import { toPresentmentCents, toSettlementCents } from "../lib/currency";
+
+// Automatic attempts before a refund is marked failed
+export const MAX_REFUND_ATTEMPTS = 5;
+
+// Backoff between automatic attempts: 2, 4, 8, 16 minutes
+export const retryDelayMs = (attempt: number) => Math.pow(2, attempt) * 60 * 1000;
+
+// ============================================
+// REFUND HELPERS (used inside other mutations)
+// ============================================
+
+/**
+ * Successful payments for a booking, newest first.
+ * A booking can have more than one payment (e.g. a top-up after rescheduling).
+ */
+export async function getPaidPayments(ctx: QueryCtx, bookingId: Id<"bookings">) {
+  const payments = await ctx.db
+    .query("payments")
+    .withIndex("by_booking", (q) => q.eq("bookingId", bookingId))
+    .collect();
+
+  return payments
+    .filter((p) => p.status === "succeeded" && p.paymentIntentId)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Whether a booking's new payment is a top-up after rescheduling
+ * (the booking was already paid and still has a balance due)
+ */
+export async function isRescheduleTopUp(ctx: QueryCtx, bookingId: Id<"bookings">) {
+  const booking = await ctx.db.get(bookingId);
+  return !!booking && booking.paymentStatus === "paid" && booking.balanceDue !== undefined;
+}
+
+/**
+ * Schedule Stripe refunds for a booking's payments.
+ * Refunds whatever is still refundable when no amount is given. Gift voucher
+ * balance spent on the booking is credited back first (immediately), then the
+ * rest is drawn from the newest payment first. Given a paymentId, only that
+ * payment is refunded. Returns the amount refunded or scheduled in cents (0
+ * if nothing was paid).
+ */
+export async function scheduleRefund(
+  ctx: MutationCtx,
+  bookingId: Id<"bookings">,
+  options: {
+    amount?: number;
+    reason?: "requested_by_customer";
+    paymentId?: Id<"payments">;
+  } = {}
+): Promise<number> {
+  const payments = (await getPaidPayments(ctx, bookingId)).filter(
+    (p) => !options.paymentId || p._id === options.paymentId
+  );
+  const voucherRefundable = options.paymentId
+    ? 0
+    : Math.round((await getVoucherRedeemed(ctx, bookingId)) * 100);
+
+  const refundable = payments.reduce(
+    (total, p) => total + Math.max(0, p.amount - p.refundAmount),
+    voucherRefundable
+  );
+  const amount = Math.min(options.amount ?? refundable, refundable);
+  if (amount <= 0) {
+    return 0;
+  }
+
+  const voucherRefund = voucherRefundable > 0
+    ? Math.round(
+        (await restoreVoucherRedemptions(ctx, bookingId, Math.min(amount, voucherRefundable) / 100)) * 100
+      )
+    : 0;
+  let remaining = amount - voucherRefund;
+  const scheduledAt = Date.now();
+
+  // Refunds scheduled earlier and still in flight keep the booking pending
+  const booking = await ctx.db.get(bookingId);
+  const refundKeys = [...(booking?.pendingRefundKeys ?? [])];
+
+  for (const payment of payments) {
+    if (remaining <= 0) break;
+
+    const paymentAmount = Math.min(remaining, payment.amount - payment.refundAmount);
+    if (paymentAmount <= 0) continue;
+
+    // Two refunds of the same amount on a payment are still two refunds
+    const refundKey = `${payment._id}-${scheduledAt}`;
+    refundKeys.push(refundKey);
+
+    await ctx.scheduler.runAfter(0, internal.stripe.payments.processBookingRefund, {
+      bookingId,
+      paymentIntentId: payment.paymentIntentId!,
+      amount: paymentAmount,
+      presentmentAmount: payment.exchangeRate
+        ? toPresentmentCents(paymentAmount, payment.exchangeRate)
+        : undefined,
+      reason: options.reason,
+      // Cart payments share a payment intent with other bookings
+      paymentId: payment.checkoutId ? payment._id : undefined,
+      refundKey,
+    });
+
+    remaining -= paymentAmount;
+  }
+
+  // A refund of the booking (not of one payment) takes back its share of the
+  // platform-funded part the vendor was paid
+  if (!options.paymentId) {
+    await scheduleSubsidyReversals(ctx, bookingId, amount, scheduledAt);
+  }
+
+  await ctx.db.patch(bookingId, {
+    refundAmount: amount,
+    refundStatus: refundKeys.length > 0 ? "pending" : "succeeded",
+    ...(refundKeys.length > 0 ? {} : { refundProcessed: true }),
+    pendingRefundKeys: refundKeys,
+    refundAttempts: 0,
+    refundError: undefined,
+    updatedAt: scheduledAt,
+  });
+
+  return amount;
+}
+
+/**
+ * Mark one of a booking's scheduled refunds as issued or given up on.
+ * The booking's refund only succeeds once none of its refunds are pending;
+ * one that failed for good keeps it failed until a manual retry.
+ */
+export async function settleScheduledRefund(
+  ctx: MutationCtx,
+  bookingId: Id<"bookings">,
+  refundKey: string,
+  outcome: "succeeded" | "failed",
+  error?: string
+) {
+  const booking = await ctx.db.get(bookingId);
+  if (!booking) {
+    return;
+  }
+
+  const pendingRefundKeys = (booking.pendingRefundKeys ?? []).filter((key) => key !== refundKey);
+  const refundStatus = outcome === "failed" || booking.refundStatus === "failed"
+    ? "failed"
+    : pendingRefundKeys.length > 0 ? "pending" : "succeeded";
+
+  await ctx.db.patch(bookingId, {
+    pendingRefundKeys,
+    refundStatus,
+    ...(refundStatus === "succeeded" ? { refundProcessed: true, refundError: undefined } : {}),
+    ...(error ? { refundError: error } : {}),
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Take back the share of a booking's platform subsidies (platform-funded
+ * discounts and voucher payouts) matching a refund or voucher credit. The
+ * share is counted as reversed straight away, so a subsidy not transferred
+ * yet goes out smaller (transferPlatformSubsidy).
+ */
+async function scheduleSubsidyReversals(
+  ctx: MutationCtx,
+  bookingId: Id<"bookings">,
+  amount: number, // Cents refunded or credited
+  scheduledAt: number
+) {
+  const payments = (
+    await ctx.db
+      .query("payments")
+      .withIndex("by_booking", (q) => q.eq("bookingId", bookingId))
+      .collect()
+  ).filter((p) => p.status === "succeeded" || p.status === "refunded");
+
+  // Everything paid for the booking, by card or voucher
+  const paid = payments.reduce((total, p) => total + p.amount + (p.voucherAmount || 0), 0);
+  if (paid <= 0) {
+    return;
+  }
+
+  for (const payment of payments) {
+    if (!payment.platformSubsidyAmount) continue;
+
+    const reversed = payment.subsidyReversedAmount || 0;
+    const reversal = Math.min(
+      Math.round(payment.platformSubsidyAmount * (amount / paid)),
+      payment.platformSubsidyAmount - reversed
+    );
+    if (reversal <= 0) continue;
+
+    await ctx.db.patch(payment._id, {
+      subsidyReversedAmount: reversed + reversal,
+      updatedAt: scheduledAt,
+    });
+
+    if (payment.subsidyTransferId) {
+      await ctx.scheduler.runAfter(0, internal.stripe.payments.reversePlatformSubsidy, {
+        paymentId: payment._id,
+        transferId: payment.subsidyTransferId,
+        amount: reversal,
+        refundKey: `${payment._id}-${scheduledAt}`,
+      });
+    }
+  }
+}
+
+/**
+ * Refund a payment that arrived after its booking was cancelled, or after
+ * its seat hold expired and the seats were resold (confirmHold couldn't
+ * take them back). The booking is marked failed rather than overbooking
+ * the slot.
+ */
+export async function refundLatePayment(ctx: MutationCtx, bookingId: Id<"bookings">) {
+  await ctx.db.patch(bookingId, {
+    status: "cancelled",
+    paymentStatus: "failed",
+    updatedAt: Date.now(),
+  });
+
+  await scheduleRefund(ctx, bookingId);
+}
+
+/**
+ * Add Stripe refunds to a payment's refunded total.
+ * A refund is recorded when it's issued and again by the charge.refunded
+ * webhook, so refunds already counted (by Stripe refund id) are skipped.
+ * The booking is cancelled once the payment is fully refunded.
+ */
+export async function recordStripeRefunds(
+  ctx: MutationCtx,
+  payment: Doc<"payments">,
+  refunds: { id: string; amount: number }[] // Amounts in cents of the currency charged
+): Promise<{ totalRefunded: number; fullyRefunded: boolean }> {
+  const counted = payment.refundIds ?? [];
+  const newRefunds = refunds.filter((r) => !counted.includes(r.id));
+  if (newRefunds.length === 0) {
+    return {
+      totalRefunded: payment.refundAmount,
+      fullyRefunded: payment.refundAmount >= payment.amount,
+    };
+  }
+
+  const totalRefunded = newRefunds.reduce(
+    (total, r) => total + toSettlementCents(payment, r.amount),
+    payment.refundAmount
+  );
+  const fullyRefunded = totalRefunded >= payment.amount;
+
+  await ctx.db.patch(payment._id, {
+    refundAmount: totalRefunded,
+    refundIds: [...counted, ...newRefunds.map((r) => r.id)],
+    status: fullyRefunded ? "refunded" : payment.status,
+    updatedAt: Date.now(),
+  });
+
+  if (fullyRefunded && payment.refundAmount < payment.amount) {
+    await ctx.db.patch(payment.bookingId, {
+      paymentStatus: "refunded",
+      status: "cancelled",
+      updatedAt: Date.now(),
+    });
+    await releaseHold(ctx, payment.bookingId);
+  }
+
+  return { totalRefunded, fullyRefunded };
+}
+
+// ============================================
+// INTERNAL MUTATIONS
+// ============================================
+
+/**
+ * Record a failed refund attempt
+ * Returns whether the caller should schedule another attempt
+ */
+export const recordRefundFailure = internalMutation({
+  args: {
+    bookingId: v.id("bookings"),
+    refundKey: v.string(),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking) {
+      return { retry: false, retryDelayMs: 0 };
+    }
+
+    const attempts = (booking.refundAttempts || 0) + 1;
+    const retry = attempts < MAX_REFUND_ATTEMPTS;
+
+    await ctx.db.patch(args.bookingId, {
+      refundAttempts: attempts,
+      refundError: args.error,
+      updatedAt: Date.now(),
+    });
+
+    if (!retry) {
+      await settleScheduledRefund(ctx, args.bookingId, args.refundKey, "failed", args.error);
+    }
+
+    return { retry, retryDelayMs: retryDelayMs(attempts) };
+  },
+});
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Refund summary for a cancelled slot
+ * Vendor (if owns slot) or Admin
+ */
+export const getBySlot = query({
+  args: { slotId: v.id("slots") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+    const adminUser = await isAdmin(ctx);
+
+    const slot = await ctx.db.get(args.slotId);
+    if (!slot) {
+      throw new Error("Slot not found");
+    }
+
+    if (slot.vendorId !== userId && !adminUser) {
+      throw new Error("Unauthorized: You cannot view refunds for this slot");
+    }
+
+    const bookings = await ctx.db
+      .query("bookings")
+      .withIndex("by_slot", (q) => q.eq("slotId", args.slotId))
+      .filter((q) => q.eq(q.field("status"), "cancelled"))
+      .collect();
+
+    const refunds = bookings
+      .filter((b) => b.refundStatus)
+      .map((b) => ({
+        bookingId: b._id,
+        customerName: b.customerName,
+        amount: b.refundAmount || 0,
+        status: b.refundStatus!,
+        attempts: b.refundAttempts || 0,
+        error: b.refundError,
+      }));
+
+    const sum = (status: string) =>
+      refunds
+        .filter((r) => r.status === status)
+        .reduce((total, r) => total + r.amount, 0);
+
+    return {
+      refunds,
+      refundedTotal: sum("succeeded"),
+      pendingTotal: sum("pending"),
+      failedTotal: sum("failed"),
+    };
+  },
+});
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Retry a refund that failed after all automatic attempts
+ * Vendor (if owns booking) or Admin
+ */
+export const retry = mutation({
+  args: { bookingId: v.id("bookings") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+    const adminUser = await isAdmin(ctx);
+
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    if (booking.vendorId !== userId && !adminUser) {
+      throw new Error("Unauthorized: You cannot refund this booking");
+    }
+
+    if (booking.refundStatus !== "failed") {
+      throw new Error("Only failed refunds can be retried");
+    }
+    if (booking.pendingRefundKeys?.length) {
+      throw new Error("Some of this booking's refunds are still being processed");
+    }
+
+    // Voucher credits never fail, so only the card part is retried
+    const voucherRefunded = Math.round(
+      ((booking.voucherAmount || 0) - (await getVoucherRedeemed(ctx, args.bookingId))) * 100
+    );
+
+    const amount = await scheduleRefund(ctx, args.bookingId, {
+      amount: (booking.refundAmount || 0) - voucherRefunded,
+    });
+
+    return { amount };
+  },
+});
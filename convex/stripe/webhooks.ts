@@ -8,6 +8,14 @@
 import { v } from "convex/values";
 import { internalMutation } from "../_generated/server";
 import { internal } from "../_generated/api";
+import { confirmHold, releaseHold } from "../availability/holds";
+import { isRescheduleTopUp, recordStripeRefunds, refundLatePayment } from "./refunds";
+import { settleCheckout } from "../cart";
+import { settleVoucherPurchase } from "../giftVouchers";
+import { requestWaiverSignatures } from "../waivers";
+import { submitRequest } from "../bookingRequests";
+import { completeReschedule } from "../bookings";
+import { settleBalancePayment } from "../deposits";
 
 /**
  * Handle successful payment intent
@@ -20,6 +28,39 @@ export const handlePaymentSuccess = internalMutation({
     paymentMethod: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // Cart checkouts pay for several bookings with one payment intent
+    const checkout = await ctx.db
+      .query("checkouts")
+      .withIndex("by_paymentIntent", (q) =>
+        q.eq("paymentIntentId", args.paymentIntentId)
+      )
+      .unique();
+
+    if (checkout) {
+      await settleCheckout(ctx, checkout, {
+        status: "succeeded",
+        chargeId: args.chargeId,
+        paymentMethod: args.paymentMethod,
+      });
+      return { success: true };
+    }
+
+    // Gift voucher purchases are charged to the platform account
+    const voucher = await ctx.db
+      .query("giftVouchers")
+      .withIndex("by_paymentIntent", (q) =>
+        q.eq("paymentIntentId", args.paymentIntentId)
+      )
+      .unique();
+
+    if (voucher) {
+      await settleVoucherPurchase(ctx, voucher, {
+        status: "succeeded",
+        chargeId: args.chargeId,
+      });
+      return { success: true };
+    }
+
     // Find payment record
     const payment = await ctx.db
       .query("payments")
@@ -41,6 +82,26 @@ export const handlePaymentSuccess = internalMutation({
       updatedAt: Date.now(),
     });
 
+    // The balance of a booking confirmed by its deposit
+    if (payment.kind === "balance") {
+      await settleBalancePayment(ctx, payment.bookingId, "succeeded");
+      return { success: true };
+    }
+
+    // Paid after the customer cancelled - refund it rather than bring the booking back
+    if ((await ctx.db.get(payment.bookingId))?.status === "cancelled") {
+      await refundLatePayment(ctx, payment.bookingId);
+      console.log(`Refunding late payment ${args.paymentIntentId} - its booking was cancelled`);
+      return { success: true };
+    }
+
+    // A top-up for a rescheduled booking that was already paid for moves it
+    if (await isRescheduleTopUp(ctx, payment.bookingId)) {
+      await completeReschedule(ctx, payment);
+      console.log(`Reschedule top-up ${args.paymentIntentId} succeeded`);
+      return { success: true };
+    }
+
     // Update booking status
     await ctx.db.patch(payment.bookingId, {
       status: "confirmed",
@@ -48,6 +109,22 @@ export const handlePaymentSuccess = internalMutation({
       updatedAt: Date.now(),
     });
 
+    // Convert the seat hold into a confirmed seat
+    const { confirmed } = await confirmHold(ctx, payment.bookingId);
+    if (!confirmed) {
+      await refundLatePayment(ctx, payment.bookingId);
+      console.log(`Refunding late payment ${args.paymentIntentId} - its seats were resold`);
+      return { success: true };
+    }
+
+    // Pay the vendor the part of a platform-funded discount or gift voucher
+    // the commission didn't cover
+    if (payment.platformSubsidyAmount) {
+      await ctx.scheduler.runAfter(0, internal.stripe.payments.transferPlatformSubsidy, {
+        paymentId: payment._id,
+      });
+    }
+
     // Get booking details for notifications
     const booking = await ctx.db.get(payment.bookingId);
     if (!booking) {
@@ -107,10 +184,14 @@ export const handlePaymentSuccess = internalMutation({
       slotDate,
       slotTime,
       guests: booking.guests,
+      addOns: booking.addOns,
       totalPrice: payment.amount,
       bookingId: booking._id,
     });
 
+    // Ask the rest of the group to sign the waiver
+    await requestWaiverSignatures(ctx, booking);
+
     // Send notification to vendor
     await ctx.scheduler.runAfter(0, internal.notifications.inApp.notifyNewSale, {
       vendorId: listing.vendorId,
@@ -133,6 +214,7 @@ export const handlePaymentSuccess = internalMutation({
       slotDate,
       slotTime,
       guests: booking.guests,
+      addOns: booking.addOns,
       totalPrice: payment.amount,
       vendorEarnings,
       platformFee,
@@ -144,6 +226,21 @@ export const handlePaymentSuccess = internalMutation({
   },
 });
 
+/**
+ * Handle an authorized (not yet captured) payment intent
+ * Called when a booking request's card is authorized; starts the vendor's
+ * approval window
+ */
+export const handlePaymentAuthorized = internalMutation({
+  args: {
+    paymentIntentId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await submitRequest(ctx, args.paymentIntentId);
+    return { success: true };
+  },
+});
+
 /**
  * Handle failed payment intent
  * Called when customer payment fails
@@ -154,6 +251,37 @@ export const handlePaymentFailed = internalMutation({
     errorMessage: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // Cart checkouts pay for several bookings with one payment intent
+    const checkout = await ctx.db
+      .query("checkouts")
+      .withIndex("by_paymentIntent", (q) =>
+        q.eq("paymentIntentId", args.paymentIntentId)
+      )
+      .unique();
+
+    if (checkout) {
+      await settleCheckout(ctx, checkout, {
+        status: "failed",
+        errorMessage: args.errorMessage,
+      });
+      console.log(`Checkout payment ${args.paymentIntentId} failed: ${args.errorMessage}`);
+      return { success: true };
+    }
+
+    // Gift voucher purchases are charged to the platform account
+    const voucher = await ctx.db
+      .query("giftVouchers")
+      .withIndex("by_paymentIntent", (q) =>
+        q.eq("paymentIntentId", args.paymentIntentId)
+      )
+      .unique();
+
+    if (voucher) {
+      await settleVoucherPurchase(ctx, voucher, { status: "failed" });
+      console.log(`Gift voucher payment ${args.paymentIntentId} failed: ${args.errorMessage}`);
+      return { success: true };
+    }
+
     // Find payment record
     const payment = await ctx.db
       .query("payments")
@@ -174,6 +302,19 @@ export const handlePaymentFailed = internalMutation({
       updatedAt: Date.now(),
     });
 
+    // A failed balance leaves the booking in place for the customer to pay
+    if (payment.kind === "balance") {
+      await settleBalancePayment(ctx, payment.bookingId, "failed", args.errorMessage);
+      console.log(`Balance payment ${args.paymentIntentId} failed: ${args.errorMessage}`);
+      return { success: true };
+    }
+
+    // A failed top-up leaves the paid booking in place with its balance due
+    if ((await ctx.db.get(payment.bookingId))?.paymentStatus === "paid") {
+      console.log(`Reschedule top-up ${args.paymentIntentId} failed: ${args.errorMessage}`);
+      return { success: true };
+    }
+
     // Update booking status
     await ctx.db.patch(payment.bookingId, {
       status: "cancelled",
@@ -181,6 +322,9 @@ export const handlePaymentFailed = internalMutation({
       updatedAt: Date.now(),
     });
 
+    // Return the held seats to the slot
+    await releaseHold(ctx, payment.bookingId);
+
     console.log(`Payment ${args.paymentIntentId} failed: ${args.errorMessage}`);
     return { success: true };
   },
@@ -229,14 +373,33 @@ export const handleAccountUpdate = internalMutation({
 
 /**
  * Handle charge refunded event
- * Called when a charge is refunded (full or partial)
+ * Called when a charge is refunded (full or partial) with all of the
+ * charge's refunds; ones already recorded when they were issued are skipped
  */
 export const handleRefund = internalMutation({
   args: {
     paymentIntentId: v.string(),
-    refundAmount: v.number(),
+    refunds: v.array(v.object({
+      id: v.string(),                // Stripe refund ID
+      amount: v.number(),            // In cents of the currency charged
+    })),
   },
   handler: async (ctx, args) => {
+    // Cart checkout refunds are recorded per booking when they are issued
+    const checkout = await ctx.db
+      .query("checkouts")
+      .withIndex("by_paymentIntent", (q) =>
+        q.eq("paymentIntentId", args.paymentIntentId)
+      )
+      .unique();
+
+    if (checkout) {
+      console.log(
+        `Refunds recorded per booking for checkout payment ${args.paymentIntentId}`
+      );
+      return { success: true };
+    }
+
     // Find payment record
     const payment = await ctx.db
       .query("payments")
@@ -250,27 +413,11 @@ export const handleRefund = internalMutation({
       return { success: false, error: "Payment not found" };
     }
 
-    // Update refund amount
-    const totalRefunded = payment.refundAmount + args.refundAmount;
-    const fullyRefunded = totalRefunded >= payment.amount;
-
-    await ctx.db.patch(payment._id, {
-      refundAmount: totalRefunded,
-      status: fullyRefunded ? "refunded" : payment.status,
-      updatedAt: Date.now(),
-    });
-
-    // Update booking if fully refunded
-    if (fullyRefunded) {
-      await ctx.db.patch(payment.bookingId, {
-        paymentStatus: "refunded",
-        status: "cancelled",
-        updatedAt: Date.now(),
-      });
-    }
+    // Update refund amount (kept in THB); cancels the booking once fully refunded
+    const { totalRefunded, fullyRefunded } = await recordStripeRefunds(ctx, payment, args.refunds);
 
     console.log(
-      `Refunded ${args.refundAmount} for payment ${args.paymentIntentId} (total: ${totalRefunded})`
+      `Refunds for payment ${args.paymentIntentId} total ${totalRefunded}`
     );
 
     return { success: true, totalRefunded, fullyRefunded };
@@ -409,11 +556,11 @@ export const handleDisputeCreated = internalMutation({
     reason: v.string(),
   },
   handler: async (ctx, args) => {
-    // Find payment by charge ID
+    // Find payment by charge ID (cart payments share a charge)
     const payment = await ctx.db
       .query("payments")
       .filter((q) => q.eq(q.field("chargeId"), args.chargeId))
-      .unique();
+      .first();
 
     if (!payment) {
       console.error(`Payment not found for charge ${args.chargeId}`);
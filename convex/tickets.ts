@@ -0,0 +1,228 @@
+/**
+ * E-Tickets and Check-In
+ *
+ * Every confirmed slot booking has a signed ticket code, shown as a QR code
+ * on the customer's trips page and in the confirmation email. Vendors scan
+ * or type the code at the start of the activity to check guests in, and see
+ * the slot's attendance live.
+ */
+
+import { v } from "convex/values";
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getCurrentUserId, isAdmin } from "./lib/auth";
+import { createTicketCode, readTicketCode } from "./lib/tickets";
+import { getNoShowCounts } from "./attendance";
+
+// ============================================
+// TICKET HELPERS
+// ============================================
+
+function getTicketSecret(): string {
+  const secret = process.env.TICKET_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error("TICKET_SIGNING_SECRET is not configured");
+  }
+  return secret;
+}
+
+/**
+ * Signed ticket code for a booking (also used by the confirmation email)
+ */
+export async function getTicketCode(bookingId: string): Promise<string> {
+  return await createTicketCode(bookingId, getTicketSecret());
+}
+
+/**
+ * Bookings that hold a valid ticket
+ */
+function hasTicket(booking: Doc<"bookings">) {
+  return !!booking.slotId && (booking.status === "confirmed" || booking.status === "completed");
+}
+
+async function getCheckIns(ctx: QueryCtx, bookingId: Id<"bookings">) {
+  return await ctx.db
+    .query("checkIns")
+    .withIndex("by_booking", (q) => q.eq("bookingId", bookingId))
+    .collect();
+}
+
+/**
+ * Throws unless the current user runs the slot
+ */
+async function requireSlotAccess(ctx: QueryCtx, slotId: Id<"slots">) {
+  const userId = await getCurrentUserId(ctx);
+  const adminUser = await isAdmin(ctx);
+
+  const slot = await ctx.db.get(slotId);
+  if (!slot) {
+    throw new Error("Slot not found");
+  }
+
+  if (slot.vendorId !== userId && !adminUser) {
+    throw new Error("Unauthorized: You can only check in guests for your own slots");
+  }
+
+  return { slot, userId };
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Ticket for a confirmed booking, with how many guests have checked in
+ * Customer (if owns), Vendor (if owns) or Admin. Null until the booking is confirmed.
+ */
+export const getTicket = query({
+  args: { bookingId: v.id("bookings") },
+  handler: async (ctx, args) => {
+    const userId = await getCurrentUserId(ctx);
+    const adminUser = await isAdmin(ctx);
+
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    if (booking.customerId !== userId && booking.vendorId !== userId && !adminUser) {
+      throw new Error("Unauthorized: You cannot view this ticket");
+    }
+
+    if (!hasTicket(booking)) {
+      return null;
+    }
+
+    const checkIns = await getCheckIns(ctx, booking._id);
+
+    return {
+      code: await getTicketCode(booking._id),
+      guests: booking.guests,
+      checkedIn: checkIns.length,
+    };
+  },
+});
+
+/**
+ * Live attendance for a slot: expected guests, who has checked in, the
+ * recorded outcome of each booking and each customer's past no-shows
+ * Vendor (if owns slot) or Admin
+ */
+export const getSlotAttendance = query({
+  args: { slotId: v.id("slots") },
+  handler: async (ctx, args) => {
+    await requireSlotAccess(ctx, args.slotId);
+
+    const bookings = (
+      await ctx.db
+        .query("bookings")
+        .withIndex("by_slot", (q) => q.eq("slotId", args.slotId))
+        .collect()
+    ).filter(hasTicket);
+
+    const checkIns = await ctx.db
+      .query("checkIns")
+      .withIndex("by_slot", (q) => q.eq("slotId", args.slotId))
+      .collect();
+
+    const noShows = await getNoShowCounts(ctx, bookings.map((b) => b.customerId));
+
+    const guests = bookings.map((booking) => {
+      const bookingCheckIns = checkIns.filter((c) => c.bookingId === booking._id);
+      return {
+        bookingId: booking._id,
+        customerName: booking.customerName,
+        guests: booking.guests,
+        attendance: booking.attendance,
+        attendedGuests: booking.attendedGuests,
+        customerNoShows: noShows.get(booking.customerId) || 0,
+        checkedIn: bookingCheckIns.length,
+        lastCheckedInAt: bookingCheckIns.length > 0
+          ? Math.max(...bookingCheckIns.map((c) => c.checkedInAt))
+          : undefined,
+      };
+    });
+
+    return {
+      expected: guests.reduce((total, g) => total + g.guests, 0),
+      checkedIn: guests.reduce((total, g) => total + g.checkedIn, 0),
+      bookings: guests,
+    };
+  },
+});
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Check guests in with a scanned or typed ticket code
+ * Checks in every remaining guest unless a number is given
+ * Vendor (if owns slot) or Admin
+ */
+export const checkIn = mutation({
+  args: {
+    slotId: v.id("slots"),
+    code: v.string(),
+    guests: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { slot, userId } = await requireSlotAccess(ctx, args.slotId);
+
+    if (args.guests !== undefined && (!Number.isInteger(args.guests) || args.guests < 1)) {
+      throw new Error("Check in at least one guest");
+    }
+
+    const ticketBookingId = await readTicketCode(args.code, getTicketSecret());
+    const bookingId = ticketBookingId ? ctx.db.normalizeId("bookings", ticketBookingId) : null;
+    const booking = bookingId ? await ctx.db.get(bookingId) : null;
+    if (!booking) {
+      throw new Error("This ticket code is not valid");
+    }
+
+    if (booking.slotId !== slot._id) {
+      const ticketSlot = booking.slotId ? await ctx.db.get(booking.slotId) : null;
+      throw new Error(
+        ticketSlot
+          ? `This ticket is for ${booking.listingTitle} on ${ticketSlot.date} at ${ticketSlot.startTime}`
+          : "This ticket is not for this time slot"
+      );
+    }
+
+    if (!hasTicket(booking)) {
+      throw new Error(
+        booking.status === "cancelled"
+          ? "This booking has been cancelled"
+          : "This booking has not been paid"
+      );
+    }
+
+    const checkIns = await getCheckIns(ctx, booking._id);
+    const remaining = booking.guests - checkIns.length;
+    const guests = Math.min(args.guests ?? remaining, remaining);
+
+    const now = Date.now();
+    for (let i = 1; i <= guests; i++) {
+      await ctx.db.insert("checkIns", {
+        slotId: slot._id,
+        bookingId: booking._id,
+        vendorId: slot.vendorId,
+        guestNumber: checkIns.length + i,
+        checkedInBy: userId,
+        checkedInAt: now,
+      });
+    }
+
+    return {
+      bookingId: booking._id,
+      customerName: booking.customerName,
+      lineItems: booking.lineItems,
+      answers: booking.answers,
+      addOns: booking.addOns,
+      guests: booking.guests,
+      checkedIn: checkIns.length + guests,
+      justCheckedIn: guests,
+      alreadyCheckedIn: remaining <= 0,
+    };
+  },
+});
@@ -0,0 +1,377 @@
+/**
+ * Liability Waivers
+ *
+ * Guests sign a listing's waiver with their typed name and a drawn signature,
+ * either while booking or later from the link emailed with the confirmation.
+ * Each signature is kept as a snapshot document in Convex storage, so the
+ * vendor holds exactly what was signed even if the waiver changes later.
+ */
+
+import { v } from "convex/values";
+import {
+  query,
+  action,
+  internalQuery,
+  internalMutation,
+  QueryCtx,
+  MutationCtx,
+} from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getCurrentUserIdOrNull, isAdmin } from "./lib/auth";
+import { hasWaiver, validateSignature } from "./lib/waivers";
+import { storeDocument } from "./files";
+
+const DEFAULT_WAIVER_TITLE = "Release of Liability";
+
+// ============================================
+// WAIVER HELPERS
+// ============================================
+
+function generateWaiverToken(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes)
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function getSignatures(ctx: QueryCtx, bookingId: Id<"bookings">) {
+  return await ctx.db
+    .query("waiverSignatures")
+    .withIndex("by_booking", (q) => q.eq("bookingId", bookingId))
+    .collect();
+}
+
+/**
+ * How the current caller may use a booking's waivers:
+ * "party" for the customer, vendor or an admin, "link" for anyone holding
+ * the emailed signing link, or null
+ */
+async function getWaiverAccess(
+  ctx: QueryCtx,
+  booking: Doc<"bookings">,
+  token?: string
+): Promise<"party" | "link" | null> {
+  const userId = await getCurrentUserIdOrNull(ctx);
+  if (userId && (userId === booking.customerId || userId === booking.vendorId || (await isAdmin(ctx)))) {
+    return "party";
+  }
+  if (token && booking.waiverToken && token === booking.waiverToken) {
+    return "link";
+  }
+  return null;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Standalone HTML record of a signed waiver
+ */
+function renderSignedWaiver(args: {
+  title: string;
+  text?: string;
+  documentUrl: string | null;
+  listingTitle: string;
+  bookingId: string;
+  bookingDate: string;
+  guestNumber: number;
+  signerName: string;
+  signatureDataUrl: string;
+  signedAt: number;
+}): string {
+  const signedAt = new Date(args.signedAt).toUTCString();
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(args.title)} - ${escapeHtml(args.signerName)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 720px; margin: 0 auto; padding: 32px; }
+    .meta { color: #6b7280; font-size: 14px; }
+    .waiver { white-space: pre-wrap; border: 1px solid #e5e7eb; border-radius: 8px; padding: 20px; margin: 24px 0; }
+    .signature img { max-width: 360px; border-bottom: 1px solid #333; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(args.title)}</h1>
+  <p class="meta">
+    ${escapeHtml(args.listingTitle)} · ${escapeHtml(args.bookingDate)}<br>
+    Booking ${escapeHtml(args.bookingId)} · Guest ${args.guestNumber}
+  </p>
+  ${args.text ? `<div class="waiver">${escapeHtml(args.text)}</div>` : ""}
+  ${args.documentUrl ? `<p>Waiver document: <a href="${escapeHtml(args.documentUrl)}">${escapeHtml(args.documentUrl)}</a></p>` : ""}
+  <div class="signature">
+    <p>Signed by <strong>${escapeHtml(args.signerName)}</strong> on ${signedAt}</p>
+    <img src="${escapeHtml(args.signatureDataUrl)}" alt="Signature of ${escapeHtml(args.signerName)}">
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Email the customer a link for the rest of the group to sign the waiver
+ * Sent once per booking, and only while some guests still have to sign
+ */
+export async function requestWaiverSignatures(
+  ctx: MutationCtx,
+  booking: Doc<"bookings">
+) {
+  if (booking.waiverToken) {
+    return;
+  }
+
+  const listing = await ctx.db.get(booking.listingId);
+  if (!listing || !hasWaiver(listing)) {
+    return;
+  }
+
+  const signatures = await getSignatures(ctx, booking._id);
+  if (signatures.length >= booking.guests) {
+    return;
+  }
+
+  const token = generateWaiverToken();
+  await ctx.db.patch(booking._id, { waiverToken: token });
+
+  await ctx.scheduler.runAfter(0, internal.notifications.email.sendWaiverRequest, {
+    to: booking.customerEmail,
+    customerName: booking.customerName,
+    listingTitle: listing.title,
+    bookingDate: booking.bookingDate,
+    guests: booking.guests,
+    signed: signatures.length,
+    bookingId: booking._id,
+    token,
+  });
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Waiver for a booking and who has signed it
+ * Customer, Vendor or Admin, or anyone with the emailed signing link.
+ * Null when the listing has no waiver.
+ */
+export const getForBooking = query({
+  args: {
+    bookingId: v.id("bookings"),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    const access = await getWaiverAccess(ctx, booking, args.token);
+    if (!access) {
+      throw new Error("Unauthorized: You cannot view this waiver");
+    }
+
+    const listing = await ctx.db.get(booking.listingId);
+    if (!listing || !listing.waiver || !hasWaiver(listing)) {
+      return null;
+    }
+
+    const signatures = await getSignatures(ctx, booking._id);
+
+    return {
+      listingTitle: listing.title,
+      bookingDate: booking.bookingDate,
+      status: booking.status,
+      guests: booking.guests,
+      title: listing.waiver.title || DEFAULT_WAIVER_TITLE,
+      text: listing.waiver.text,
+      documentUrl: listing.waiver.storageId
+        ? await ctx.storage.getUrl(listing.waiver.storageId)
+        : null,
+      // Signed documents are only shared with the booking's customer and vendor
+      signatures: await Promise.all(
+        signatures
+          .sort((a, b) => a.guestNumber - b.guestNumber)
+          .map(async (signature) => ({
+            guestNumber: signature.guestNumber,
+            signerName: signature.signerName,
+            signedAt: signature.signedAt,
+            signedDocumentUrl:
+              access === "party" ? await ctx.storage.getUrl(signature.documentStorageId) : null,
+          }))
+      ),
+    };
+  },
+});
+
+// ============================================
+// INTERNAL FUNCTIONS
+// ============================================
+
+/**
+ * Everything needed to sign a booking's waiver, after checking access
+ */
+export const getSigningContext = internalQuery({
+  args: {
+    bookingId: v.id("bookings"),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    if (!(await getWaiverAccess(ctx, booking, args.token))) {
+      throw new Error("Unauthorized: You cannot sign this waiver");
+    }
+
+    if (booking.status === "cancelled") {
+      throw new Error("This booking has been cancelled");
+    }
+
+    const listing = await ctx.db.get(booking.listingId);
+    if (!listing || !listing.waiver || !hasWaiver(listing)) {
+      throw new Error("This activity does not have a waiver to sign");
+    }
+
+    const signatures = await getSignatures(ctx, booking._id);
+
+    return {
+      userId: await getCurrentUserIdOrNull(ctx),
+      listingTitle: listing.title,
+      bookingDate: booking.bookingDate,
+      guests: booking.guests,
+      title: listing.waiver.title || DEFAULT_WAIVER_TITLE,
+      text: listing.waiver.text,
+      documentUrl: listing.waiver.storageId
+        ? await ctx.storage.getUrl(listing.waiver.storageId)
+        : null,
+      signedGuests: signatures.map((s) => s.guestNumber),
+    };
+  },
+});
+
+/**
+ * Save a guest's signature once its document is stored
+ * Discards the document if the guest signed in the meantime
+ */
+export const recordSignature = internalMutation({
+  args: {
+    bookingId: v.id("bookings"),
+    guestNumber: v.number(),
+    signerName: v.string(),
+    signedBy: v.optional(v.string()),
+    documentStorageId: v.id("_storage"),
+    signedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const booking = await ctx.db.get(args.bookingId);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    // Returned rather than thrown, which would roll back the delete
+    const signatures = await getSignatures(ctx, booking._id);
+    if (signatures.some((s) => s.guestNumber === args.guestNumber)) {
+      await ctx.storage.delete(args.documentStorageId);
+      return { success: false, error: `Guest ${args.guestNumber} has already signed` };
+    }
+
+    const signatureId = await ctx.db.insert("waiverSignatures", {
+      bookingId: booking._id,
+      listingId: booking.listingId,
+      vendorId: booking.vendorId,
+      guestNumber: args.guestNumber,
+      signerName: args.signerName,
+      signedBy: args.signedBy,
+      documentStorageId: args.documentStorageId,
+      signedAt: args.signedAt,
+    });
+
+    return { success: true, signatureId };
+  },
+});
+
+// ============================================
+// ACTIONS
+// ============================================
+
+/**
+ * Sign a booking's waiver for one guest
+ * Signs for the next guest who hasn't signed unless a guest number is given
+ * Customer, Vendor or Admin, or anyone with the emailed signing link
+ */
+export const sign = action({
+  args: {
+    bookingId: v.id("bookings"),
+    token: v.optional(v.string()),
+    guestNumber: v.optional(v.number()),
+    signerName: v.string(),
+    signatureDataUrl: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ guestNumber: number }> => {
+    validateSignature(args.signerName, args.signatureDataUrl);
+
+    const waiver = await ctx.runQuery(internal.waivers.getSigningContext, {
+      bookingId: args.bookingId,
+      token: args.token,
+    });
+
+    const guestNumber =
+      args.guestNumber ??
+      Array.from({ length: waiver.guests }, (_, i) => i + 1).find(
+        (n) => !waiver.signedGuests.includes(n)
+      );
+    if (!guestNumber) {
+      throw new Error("Everyone on this booking has already signed");
+    }
+    if (!Number.isInteger(guestNumber) || guestNumber < 1 || guestNumber > waiver.guests) {
+      throw new Error("Invalid guest number");
+    }
+    if (waiver.signedGuests.includes(guestNumber)) {
+      throw new Error(`Guest ${guestNumber} has already signed`);
+    }
+
+    const signerName = args.signerName.trim();
+    const signedAt = Date.now();
+
+    const documentStorageId = await storeDocument(
+      ctx,
+      renderSignedWaiver({
+        title: waiver.title,
+        text: waiver.text,
+        documentUrl: waiver.documentUrl,
+        listingTitle: waiver.listingTitle,
+        bookingId: args.bookingId,
+        bookingDate: waiver.bookingDate,
+        guestNumber,
+        signerName,
+        signatureDataUrl: args.signatureDataUrl,
+        signedAt,
+      }),
+      "text/html"
+    );
+
+    const result = await ctx.runMutation(internal.waivers.recordSignature, {
+      bookingId: args.bookingId,
+      guestNumber,
+      signerName,
+      signedBy: waiver.userId || undefined,
+      documentStorageId,
+      signedAt,
+    });
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    return { guestNumber };
+  },
+});
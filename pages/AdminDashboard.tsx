@@ -5,6 +5,10 @@ import { useQuery } from 'convex/react';
 import { api } from '../convex/_generated/api';
 import { useAuth } from '../contexts/AuthContext';
 import type { Booking, TimeSlot } from '../types';
+import { PromoCodesManager } from '../components/PromoCodesManager';
+import { LegacyMigrationPanel } from '../components/LegacyMigrationPanel';
+import { ExchangeRatesPanel } from '../components/ExchangeRatesPanel';
+import { PackagesManager } from '../components/PackagesManager';
 
 export const AdminDashboard: React.FC = () => {
   const { user, profile } = useAuth();
@@ -156,6 +160,39 @@ export const AdminDashboard: React.FC = () => {
             )}
           </div>
         </div>
+
+        {/* Platform Promo Codes */}
+        <div className="mt-8 bg-white dark:bg-gray-800 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 overflow-hidden">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">Platform Promo Codes</h2>
+          </div>
+          <div className="p-6">
+            <PromoCodesManager />
+          </div>
+        </div>
+
+        {/* Platform Packages */}
+        <div className="mt-8 bg-white dark:bg-gray-800 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 overflow-hidden">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">Packages</h2>
+          </div>
+          <div className="p-6">
+            <PackagesManager />
+          </div>
+        </div>
+
+        {/* Exchange Rates */}
+        <div className="mt-8 bg-white dark:bg-gray-800 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 overflow-hidden">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">Exchange Rates</h2>
+          </div>
+          <div className="p-6">
+            <ExchangeRatesPanel />
+          </div>
+        </div>
+
+        {/* Legacy bookings still to move onto slots */}
+        <LegacyMigrationPanel />
       </div>
     </div>
   );
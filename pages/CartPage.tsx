@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useAction } from 'convex/react';
+import { Elements } from '@stripe/react-stripe-js';
+import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
+import { getStripe } from '../services/stripeService';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { Currency } from '../convex/lib/currency';
+import { PaymentForm } from '../components/PaymentForm';
+import { Loader2, ShoppingCart, Calendar, Users, Trash2, AlertCircle, Lock } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export const CartPage: React.FC = () => {
+  const navigate = useNavigate();
+  const cart = useQuery(api.cart.get);
+  const removeItem = useMutation(api.cart.remove);
+  const cancelCheckout = useMutation(api.cart.cancelCheckout);
+  const createCheckoutPaymentIntent = useAction(api.stripe.payments.createCheckoutPaymentIntent);
+  const { chargeCurrency, formatPrice } = useCurrency();
+
+  const [stripePromise] = useState(() => getStripe());
+  const [submitting, setSubmitting] = useState(false);
+  // The amount is what the card is charged, in the customer's currency
+  const [checkout, setCheckout] = useState<{ checkoutId: string; amount: number; currency: Currency } | null>(null);
+  const [paymentOptions, setPaymentOptions] = useState<any>(null);
+
+  const handleCheckout = async () => {
+    setSubmitting(true);
+    try {
+      const result = await createCheckoutPaymentIntent({ currency: chargeCurrency });
+
+      setCheckout({
+        checkoutId: result.checkoutId,
+        amount: result.presentmentAmount,
+        currency: result.presentmentCurrency,
+      });
+      setPaymentOptions({
+        clientSecret: result.clientSecret,
+        appearance: {
+          theme: 'stripe' as const,
+          variables: {
+            colorPrimary: '#14b8a6',
+            borderRadius: '12px',
+          },
+        },
+      });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to start checkout');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Release the held seats if the customer leaves the payment step
+  const handleCancelPayment = async () => {
+    if (checkout) {
+      try {
+        await cancelCheckout({ checkoutId: checkout.checkoutId as Id<"checkouts"> });
+      } catch (error) {
+        console.error('Failed to release held seats:', error);
+      }
+    }
+    setCheckout(null);
+    setPaymentOptions(null);
+  };
+
+  if (cart === undefined) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <Loader2 className="w-8 h-8 animate-spin text-teal-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-24 px-4">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-8">Your Cart</h1>
+
+        {checkout && paymentOptions && stripePromise ? (
+          <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Your spots are held for 15 minutes while you pay for {cart.items.length}{' '}
+              {cart.items.length === 1 ? 'activity' : 'activities'}.
+            </p>
+            <Elements stripe={stripePromise} options={paymentOptions}>
+              <PaymentForm
+                amount={checkout.amount / 100}
+                currency={checkout.currency}
+                bookingId={checkout.checkoutId}
+                onSuccess={() => {
+                  toast.success('Payment received. Your bookings are confirmed.');
+                  navigate('/trips');
+                }}
+                onError={(error) => console.error('Payment error:', error)}
+                onCancel={handleCancelPayment}
+              />
+            </Elements>
+          </div>
+        ) : cart.items.length > 0 ? (
+          <div className="space-y-4">
+            {cart.items.map(item => (
+              <div
+                key={item._id}
+                className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 flex flex-col md:flex-row justify-between items-center gap-4"
+              >
+                <div className="flex items-center gap-4">
+                  {item.imageUrl ? (
+                    <img src={item.imageUrl} alt={item.listingTitle} className="w-16 h-16 rounded-xl object-cover" />
+                  ) : (
+                    <div className="w-16 h-16 bg-teal-50 dark:bg-teal-900/30 rounded-xl flex items-center justify-center text-teal-600 dark:text-teal-400">
+                      <ShoppingCart className="w-8 h-8" />
+                    </div>
+                  )}
+                  <div>
+                    <Link to={`/listing/${item.listingId}`} className="font-bold text-gray-900 dark:text-white text-lg hover:underline">
+                      {item.listingTitle}
+                    </Link>
+                    <div className="flex gap-4 text-sm text-gray-500 dark:text-gray-400 mt-1">
+                      {item.date && (
+                        <span className="flex items-center gap-1">
+                          <Calendar className="w-4 h-4" /> {item.date} {item.startTime}
+                        </span>
+                      )}
+                      {item.lineItems.length > 0 && (
+                        <span className="flex items-center gap-1">
+                          <Users className="w-4 h-4" />
+                          {item.lineItems.map(line => `${line.quantity} × ${line.name}`).join(', ')}
+                        </span>
+                      )}
+                    </div>
+                    {item.problem && (
+                      <div className="flex items-center gap-1 text-sm text-red-600 dark:text-red-400 mt-2">
+                        <AlertCircle className="w-4 h-4" /> {item.problem}
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-4">
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">{formatPrice(item.totalPrice)}</div>
+                  <button
+                    onClick={() => removeItem({ id: item._id })}
+                    className="p-2 rounded-full text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30"
+                    aria-label="Remove from cart"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
+              <div className="flex justify-between items-center mb-4">
+                <span className="text-gray-700 dark:text-gray-300">Total</span>
+                <span className="text-2xl font-bold text-gray-900 dark:text-white">
+                  {formatPrice(cart.totalPrice)}
+                </span>
+              </div>
+              {cart.hasProblems && (
+                <p className="text-sm text-red-600 dark:text-red-400 mb-4">
+                  Remove the items that can no longer be booked to check out.
+                </p>
+              )}
+              <button
+                onClick={handleCheckout}
+                disabled={submitting || cart.hasProblems}
+                className="w-full py-4 rounded-xl bg-teal-600 hover:bg-teal-700 text-white font-bold transition-colors shadow-lg shadow-teal-500/30 flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {submitting ? <Loader2 className="animate-spin w-5 h-5" /> : <Lock className="w-5 h-5" />}
+                Checkout
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-20 bg-white dark:bg-gray-800 rounded-3xl border-dashed border-2 border-gray-200 dark:border-gray-700">
+            <ShoppingCart className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
+            <h3 className="font-bold text-gray-900 dark:text-white mb-2">Your cart is empty</h3>
+            <p className="text-gray-500 dark:text-gray-400 mb-6">Add activities from any listing and pay for them together.</p>
+            <Link
+              to="/"
+              className="inline-block px-6 py-3 bg-teal-600 dark:bg-teal-500 text-white rounded-xl font-bold hover:bg-teal-700 dark:hover:bg-teal-600 transition-colors"
+            >
+              Explore Activities
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,270 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
+import { Loader2, Camera, CameraOff, CheckCircle, XCircle, ChevronLeft, Users, UserX } from 'lucide-react';
+import { formatBookingAnswer, BookingAnswer } from '../convex/lib/bookingQuestions';
+import { describeAddOns, AddOnItem } from '../convex/lib/addOns';
+import { getActivityStartTime } from '../convex/lib/cancellationPolicy';
+import { AttendanceMarker } from '../components/vendor/AttendanceMarker';
+
+type ScanResult =
+  | { ok: true; customerName: string; justCheckedIn: number; checkedIn: number; guests: number; alreadyCheckedIn: boolean; answers?: BookingAnswer[]; addOns?: AddOnItem[] }
+  | { ok: false; message: string };
+
+// How often the camera frame is checked for a QR code
+const SCAN_INTERVAL_MS = 500;
+
+export const CheckInPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const slotId = searchParams.get('slot') as Id<"slots"> | null;
+
+  const slot = useQuery(api.availability.slots.get, slotId ? { slotId } : "skip");
+  const attendance = useQuery(api.tickets.getSlotAttendance, slotId ? { slotId } : "skip");
+  const checkIn = useMutation(api.tickets.checkIn);
+
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [scanning, setScanning] = useState(false);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const busyRef = useRef(false);
+
+  // Camera scanning uses the browser's built-in barcode detector where available
+  const canScan = typeof window !== 'undefined' && 'BarcodeDetector' in window;
+
+  const submitCode = async (ticketCode: string) => {
+    if (!slotId || !ticketCode.trim() || busyRef.current) return;
+
+    busyRef.current = true;
+    setSubmitting(true);
+    try {
+      const checkedIn = await checkIn({ slotId, code: ticketCode.trim() });
+      setResult({ ok: true, ...checkedIn });
+      setCode('');
+    } catch (error: any) {
+      setResult({ ok: false, message: error.message || 'Check-in failed' });
+    } finally {
+      setSubmitting(false);
+      busyRef.current = false;
+    }
+  };
+
+  const stopScanning = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setScanning(false);
+  };
+
+  const startScanning = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment' },
+      });
+      streamRef.current = stream;
+      setScanning(true);
+    } catch (error) {
+      console.error('Camera error:', error);
+      setResult({ ok: false, message: 'Could not open the camera. Type the ticket code instead.' });
+    }
+  };
+
+  // Attach the stream and poll frames for QR codes while scanning
+  useEffect(() => {
+    if (!scanning || !videoRef.current || !streamRef.current) return;
+
+    const video = videoRef.current;
+    video.srcObject = streamRef.current;
+    video.play().catch(() => {});
+
+    const detector = new (window as any).BarcodeDetector({ formats: ['qr_code'] });
+    let lastCode = '';
+    const timer = setInterval(async () => {
+      if (busyRef.current || video.readyState < 2) return;
+      try {
+        const codes = await detector.detect(video);
+        const scanned = codes[0]?.rawValue;
+        // Ignore the same ticket held in front of the camera
+        if (scanned && scanned !== lastCode) {
+          lastCode = scanned;
+          await submitCode(scanned);
+        }
+      } catch (error) {
+        console.error('Scan error:', error);
+      }
+    }, SCAN_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [scanning, slotId]);
+
+  // Turn the camera off when leaving the page
+  useEffect(() => stopScanning, []);
+
+  if (!slotId) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-24 px-4 text-center text-gray-500 dark:text-gray-400">
+        Choose a slot in your calendar to check guests in.
+      </div>
+    );
+  }
+
+  if (slot === undefined || attendance === undefined) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <Loader2 className="w-8 h-8 animate-spin text-teal-600" />
+      </div>
+    );
+  }
+
+  // Outcomes can be recorded once the activity has started
+  const hasStarted = !!slot && getActivityStartTime(slot.date, slot.startTime) <= Date.now();
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-24 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <Link to="/vendor" className="text-sm text-teal-600 dark:text-teal-400 hover:underline flex items-center gap-1">
+          <ChevronLeft className="w-4 h-4" /> Back to dashboard
+        </Link>
+
+        <div className="flex justify-between items-end">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Check-In</h1>
+            {slot && (
+              <p className="text-gray-500 dark:text-gray-400">
+                {new Date(slot.date).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+                {' · '}{slot.startTime} - {slot.endTime}
+              </p>
+            )}
+          </div>
+          <div className="text-right">
+            <div className="text-3xl font-bold text-teal-600 dark:text-teal-400">
+              {attendance.checkedIn}/{attendance.expected}
+            </div>
+            <div className="text-sm text-gray-500 dark:text-gray-400">checked in</div>
+          </div>
+        </div>
+
+        {/* Scanner */}
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 space-y-4">
+          {scanning && (
+            <video ref={videoRef} muted playsInline className="w-full rounded-xl bg-black aspect-square object-cover" />
+          )}
+
+          {canScan && (
+            <button
+              onClick={scanning ? stopScanning : startScanning}
+              className="w-full py-3 rounded-xl bg-teal-600 hover:bg-teal-700 text-white font-bold transition-colors flex items-center justify-center gap-2"
+            >
+              {scanning ? <CameraOff className="w-5 h-5" /> : <Camera className="w-5 h-5" />}
+              {scanning ? 'Stop Scanning' : 'Scan Ticket'}
+            </button>
+          )}
+
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              submitCode(code);
+            }}
+            className="flex gap-2"
+          >
+            <input
+              type="text"
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              placeholder="Type the ticket code"
+              className="flex-1 px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono focus:ring-2 focus:ring-teal-500 outline-none"
+            />
+            <button
+              type="submit"
+              disabled={submitting || !code.trim()}
+              className="px-5 rounded-xl font-bold bg-gray-900 dark:bg-teal-600 text-white hover:bg-teal-600 dark:hover:bg-teal-500 disabled:opacity-50"
+            >
+              {submitting ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Check In'}
+            </button>
+          </form>
+
+          {result && (
+            result.ok ? (
+              <div className={`flex items-center gap-3 p-4 rounded-xl ${
+                result.alreadyCheckedIn
+                  ? 'bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300'
+                  : 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-300'
+              }`}>
+                <CheckCircle className="w-6 h-6 flex-shrink-0" />
+                <div>
+                  <p className="font-bold">{result.customerName}</p>
+                  <p className="text-sm">
+                    {result.alreadyCheckedIn
+                      ? `Already checked in (${result.guests} ${result.guests === 1 ? 'guest' : 'guests'})`
+                      : `${result.justCheckedIn} ${result.justCheckedIn === 1 ? 'guest' : 'guests'} checked in · ${result.checkedIn}/${result.guests} on this ticket`}
+                  </p>
+                  {result.addOns && result.addOns.length > 0 && (
+                    <p className="text-sm font-bold">Extras: {describeAddOns(result.addOns)}</p>
+                  )}
+                  {result.answers?.map(answer => (
+                    <p key={`${answer.questionId}:${answer.guestNumber ?? ''}`} className="text-sm">
+                      {formatBookingAnswer(answer)}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center gap-3 p-4 rounded-xl bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-300">
+                <XCircle className="w-6 h-6 flex-shrink-0" />
+                <p className="font-bold">{result.message}</p>
+              </div>
+            )
+          )}
+        </div>
+
+        {/* Attendance */}
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+            <Users className="w-5 h-5" /> Guests
+          </h2>
+          {attendance.bookings.length > 0 ? (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {attendance.bookings.map(b => (
+                <li key={b.bookingId} className="py-3">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-900 dark:text-white flex items-center gap-2">
+                      {b.customerName}
+                      {b.customerNoShows > 0 && (
+                        <span className="text-xs font-bold text-red-600 dark:text-red-400 flex items-center gap-0.5">
+                          <UserX className="w-3 h-3" />
+                          {b.customerNoShows} {b.customerNoShows === 1 ? 'no-show' : 'no-shows'}
+                        </span>
+                      )}
+                    </span>
+                    <span className={`text-sm font-bold ${
+                      b.checkedIn >= b.guests
+                        ? 'text-green-600 dark:text-green-400'
+                        : 'text-gray-500 dark:text-gray-400'
+                    }`}>
+                      {b.checkedIn}/{b.guests}
+                      {b.lastCheckedInAt && ` · ${new Date(b.lastCheckedInAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`}
+                    </span>
+                  </div>
+                  {hasStarted && (
+                    <AttendanceMarker
+                      bookingId={b.bookingId}
+                      guests={b.guests}
+                      checkedIn={b.checkedIn}
+                      attendance={b.attendance}
+                      attendedGuests={b.attendedGuests}
+                    />
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-500 dark:text-gray-400 text-sm">No confirmed bookings for this slot.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -6,9 +6,34 @@ import { useAuth } from '../contexts/AuthContext';
 import { ImageUpload } from '../components/ImageUpload';
 import { VideoUpload } from '../components/VideoUpload';
 import { GalleryUpload } from '../components/GalleryUpload';
+import { CancellationPolicySelect } from '../components/vendor/CancellationPolicySelect';
+import { TicketTypesEditor } from '../components/vendor/TicketTypesEditor';
+import { PricingRulesEditor } from '../components/vendor/PricingRulesEditor';
+import { AddOnsEditor } from '../components/vendor/AddOnsEditor';
+import { PickupZonesEditor } from '../components/vendor/PickupZonesEditor';
+import { RouteEditor } from '../components/vendor/RouteEditor';
+import { BookingQuestionsEditor } from '../components/vendor/BookingQuestionsEditor';
+import { WaiverEditor } from '../components/vendor/WaiverEditor';
+import { BookingModeSelect } from '../components/vendor/BookingModeSelect';
+import { ReminderSettingsEditor } from '../components/vendor/ReminderSettingsEditor';
+import { PaymentPlanSelect } from '../components/vendor/PaymentPlanSelect';
+import { NoShowPolicySelect } from '../components/vendor/NoShowPolicySelect';
 import { Loader2, Plus } from 'lucide-react';
 import { Id } from '../convex/_generated/dataModel';
 import toast from 'react-hot-toast';
+import { CancellationPolicy, DEFAULT_CANCELLATION_POLICY } from '../convex/lib/cancellationPolicy';
+import { TicketType } from '../convex/lib/ticketTypes';
+import { PricingRule } from '../convex/lib/pricingRules';
+import { AddOn } from '../convex/lib/addOns';
+import { PickupZone } from '../convex/lib/pickups';
+import { Route } from '../convex/lib/routes';
+import { BookingQuestion } from '../convex/lib/bookingQuestions';
+import { Waiver } from '../convex/lib/waivers';
+import { BookingMode, DEFAULT_REQUEST_WINDOW_HOURS } from '../convex/lib/bookingRequests';
+import { ReminderSettings, DEFAULT_REMINDER_OFFSETS_HOURS } from '../convex/lib/reminders';
+import { PaymentPlan, FULL_PAYMENT_PLAN } from '../convex/lib/paymentPlans';
+import { NoShowPolicy, DEFAULT_NO_SHOW_POLICY } from '../convex/lib/attendance';
+import { Currency, BASE_CURRENCY, SUPPORTED_CURRENCIES } from '../convex/lib/currency';
 
 const CATEGORIES = [
   'Water Sports',
@@ -33,6 +58,7 @@ export const CreateListingPage = () => {
     description: '',
     category: 'Water Sports' as typeof CATEGORIES[number],
     price: '',
+    currency: BASE_CURRENCY as Currency,
     location: '',
     duration: '',
     maxCapacity: '',
@@ -44,6 +70,21 @@ export const CreateListingPage = () => {
   const [imageStorageId, setImageStorageId] = useState<Id<"_storage"> | null>(null);
   const [galleryStorageIds, setGalleryStorageIds] = useState<Id<"_storage">[]>([]);
   const [videoStorageId, setVideoStorageId] = useState<Id<"_storage"> | null>(null);
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy>(DEFAULT_CANCELLATION_POLICY);
+  const [ticketTypes, setTicketTypes] = useState<TicketType[]>([]);
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
+  const [addOns, setAddOns] = useState<AddOn[]>([]);
+  const [pickupZones, setPickupZones] = useState<PickupZone[]>([]);
+  const [route, setRoute] = useState<Route>({ stops: [], fares: [] });
+  const [bookingQuestions, setBookingQuestions] = useState<BookingQuestion[]>([]);
+  const [waiver, setWaiver] = useState<Waiver>({});
+  const [bookingMode, setBookingMode] = useState<BookingMode>('instant');
+  const [requestWindowHours, setRequestWindowHours] = useState(DEFAULT_REQUEST_WINDOW_HOURS);
+  const [reminders, setReminders] = useState<ReminderSettings>({
+    reminderOffsetsHours: DEFAULT_REMINDER_OFFSETS_HOURS,
+  });
+  const [paymentPlan, setPaymentPlan] = useState<PaymentPlan>(FULL_PAYMENT_PLAN);
+  const [noShowPolicy, setNoShowPolicy] = useState<NoShowPolicy>(DEFAULT_NO_SHOW_POLICY);
   const [submitting, setSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -96,12 +137,27 @@ export const CreateListingPage = () => {
         description: formData.description.trim(),
         category: formData.category,
         price: parseFloat(formData.price),
+        currency: formData.currency,
         location: formData.location.trim(),
         duration: formData.duration.trim() || undefined,
         maxCapacity: parseInt(formData.maxCapacity),
         operatingDays: formData.operatingDays,
         latitude: formData.latitude ? parseFloat(formData.latitude) : undefined,
         longitude: formData.longitude ? parseFloat(formData.longitude) : undefined,
+        cancellationPolicy,
+        ticketTypes,
+        pricingRules,
+        addOns,
+        pickupZones,
+        // Only transportation runs a route; an empty route removes it
+        route: formData.category === 'Transportation' ? route : { stops: [], fares: [] },
+        bookingQuestions,
+        waiver,
+        bookingMode,
+        requestWindowHours,
+        ...reminders,
+        paymentPlan,
+        noShowPolicy,
         imageStorageId,
         galleryStorageIds: galleryStorageIds.length > 0 ? galleryStorageIds : undefined,
         videoStorageId: videoStorageId || undefined,
@@ -192,16 +248,28 @@ export const CreateListingPage = () => {
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
-                  Price (THB/person) *
+                  Price (per person) *
                 </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={formData.price}
-                  onChange={(e) => setFormData({ ...formData, price: e.target.value })}
-                  className="w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
-                  placeholder="500"
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={formData.price}
+                    onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                    className="w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    placeholder="500"
+                  />
+                  <select
+                    value={formData.currency}
+                    onChange={(e) => setFormData({ ...formData, currency: e.target.value as Currency })}
+                    className="px-3 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    aria-label="Price currency"
+                  >
+                    {SUPPORTED_CURRENCIES.map(code => (
+                      <option key={code} value={code}>{code}</option>
+                    ))}
+                  </select>
+                </div>
                 {errors.price && <p className="text-red-600 text-sm mt-1">{errors.price}</p>}
               </div>
 
@@ -273,6 +341,91 @@ export const CreateListingPage = () => {
               {errors.operatingDays && <p className="text-red-600 text-sm mt-1">{errors.operatingDays}</p>}
             </div>
 
+            {/* Ticket Types */}
+            <TicketTypesEditor
+              value={ticketTypes}
+              onChange={setTicketTypes}
+              basePrice={parseFloat(formData.price) || undefined}
+              currency={formData.currency}
+            />
+
+            {/* Pricing Rules */}
+            <PricingRulesEditor
+              value={pricingRules}
+              onChange={setPricingRules}
+            />
+
+            {/* Add-ons */}
+            <AddOnsEditor
+              value={addOns}
+              onChange={setAddOns}
+              currency={formData.currency}
+            />
+
+            {/* Hotel Pickup */}
+            <PickupZonesEditor
+              value={pickupZones}
+              onChange={setPickupZones}
+              currency={formData.currency}
+              latitude={formData.latitude ? parseFloat(formData.latitude) : undefined}
+              longitude={formData.longitude ? parseFloat(formData.longitude) : undefined}
+            />
+
+            {/* Route (transportation only) */}
+            {formData.category === 'Transportation' && (
+              <RouteEditor
+                value={route}
+                onChange={setRoute}
+                currency={formData.currency}
+              />
+            )}
+
+            {/* Booking Questions */}
+            <BookingQuestionsEditor
+              value={bookingQuestions}
+              onChange={setBookingQuestions}
+            />
+
+            {/* Liability Waiver */}
+            <WaiverEditor
+              value={waiver}
+              onChange={setWaiver}
+            />
+
+            {/* Booking Mode */}
+            <BookingModeSelect
+              mode={bookingMode}
+              windowHours={requestWindowHours}
+              onChange={(mode, hours) => {
+                setBookingMode(mode);
+                setRequestWindowHours(hours);
+              }}
+            />
+
+            {/* Booking Reminders */}
+            <ReminderSettingsEditor
+              value={reminders}
+              onChange={setReminders}
+            />
+
+            {/* Payment Plan */}
+            <PaymentPlanSelect
+              value={paymentPlan}
+              onChange={setPaymentPlan}
+            />
+
+            {/* Cancellation Policy */}
+            <CancellationPolicySelect
+              value={cancellationPolicy}
+              onChange={setCancellationPolicy}
+            />
+
+            {/* No-Show Policy */}
+            <NoShowPolicySelect
+              value={noShowPolicy}
+              onChange={setNoShowPolicy}
+            />
+
             {/* Coordinates (optional) */}
             <div className="grid grid-cols-2 gap-4">
               <div>
@@ -1,23 +1,187 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { useQuery } from 'convex/react';
+import { useQuery, useMutation } from 'convex/react';
 import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
 import { useAuth } from '../contexts/AuthContext';
 import { Booking, TimeSlot } from '../types';
-import { Loader2, Palmtree, Calendar, Users, CheckCircle, ShoppingBag } from 'lucide-react';
+import { formatAmount } from '../services/stripeService';
+import { ReviewEligibility } from '../convex/lib/reviews';
+import { describeAddOns } from '../convex/lib/addOns';
+import { RescheduleModal } from '../components/customer/RescheduleModal';
+import { TicketModal } from '../components/customer/TicketModal';
+import { BalancePaymentModal } from '../components/customer/BalancePaymentModal';
+import { Loader2, Palmtree, Calendar, Users, CheckCircle, ShoppingBag, X, AlertCircle, XCircle, Ticket, Clock, Star, MapPin } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface CancelBookingModalProps {
+  booking: Booking;
+  onClose: () => void;
+}
+
+const CancelBookingModal: React.FC<CancelBookingModalProps> = ({ booking, onClose }) => {
+  const quote = useQuery(api.bookings.getCancellationQuote, { id: booking.id as Id<"bookings"> });
+  const cancelBooking = useMutation(api.bookings.cancel);
+  const [cancelling, setCancelling] = useState(false);
+
+  const handleConfirm = async () => {
+    setCancelling(true);
+    try {
+      const result = await cancelBooking({ id: booking.id as Id<"bookings"> });
+      toast.success(
+        result.refundAmount > 0
+          ? `Booking cancelled. ${formatAmount(result.refundAmount)} will be refunded.`
+          : 'Booking cancelled.'
+      );
+      onClose();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to cancel booking');
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl max-w-md w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white">Cancel Booking</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-gray-600 dark:text-gray-400 mb-4">
+          {booking.listingTitle} on {booking.date}
+        </p>
+
+        {quote === undefined ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-teal-600" />
+          </div>
+        ) : (
+          <div className="mb-6 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl">
+            <div className="flex gap-2">
+              <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-amber-800 dark:text-amber-300">
+                {quote.amountPaid > 0 ? (
+                  <p className="font-bold mb-2">
+                    You will be refunded {formatAmount(quote.refundAmount)} ({quote.refundPercent}% of {formatAmount(quote.amountPaid)})
+                  </p>
+                ) : (
+                  <p className="font-bold mb-2">No payment has been taken for this booking</p>
+                )}
+                {quote.policyLines.map(line => (
+                  <p key={line}>{line}</p>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl font-bold border-2 border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            Keep Booking
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={cancelling || quote === undefined}
+            className="flex-1 py-3 rounded-xl bg-red-600 hover:bg-red-700 text-white font-bold transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {cancelling && <Loader2 className="animate-spin w-4 h-4" />}
+            Cancel Booking
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ReviewStatus: React.FC<{
+  bookingId: string;
+  review?: { eligibility: ReviewEligibility; rating?: number };
+}> = ({ bookingId, review }) => {
+  if (review?.eligibility === 'eligible') {
+    return (
+      <Link
+        to={`/review/${bookingId}`}
+        className="text-sm font-bold text-teal-600 dark:text-teal-400 hover:underline mt-2 flex items-center gap-1 justify-end"
+      >
+        <Star className="w-4 h-4" /> Write a Review
+      </Link>
+    );
+  }
+  if (review?.eligibility === 'reviewed') {
+    return (
+      <div className="text-sm text-gray-500 dark:text-gray-400 mt-2 flex items-center gap-1 justify-end">
+        <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" /> You rated this {review.rating}/5
+      </div>
+    );
+  }
+  return null;
+};
+
+const DepositBalance: React.FC<{
+  booking: Booking;
+  onPay: () => void;
+}> = ({ booking, onPay }) => {
+  if (!booking.depositBalance || booking.status === 'cancelled') {
+    return null;
+  }
+  const balance = formatAmount(booking.depositBalance);
+  switch (booking.depositBalanceStatus) {
+    case 'scheduled':
+    case 'processing':
+      return (
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          Deposit paid · {balance} balance charged {booking.depositBalanceDueAt
+            ? new Date(booking.depositBalanceDueAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+            : 'before the activity'}
+        </div>
+      );
+    case 'due_at_venue':
+      return (
+        <div className="text-xs text-gray-500 dark:text-gray-400">Deposit paid · {balance} balance due at the venue</div>
+      );
+    case 'failed':
+      return (
+        <button
+          onClick={onPay}
+          className="text-sm font-bold text-amber-600 dark:text-amber-400 hover:underline mt-1 flex items-center gap-1 ml-auto"
+        >
+          <AlertCircle className="w-4 h-4" /> Pay balance of {balance}
+        </button>
+      );
+    case 'paid':
+    case 'collected':
+      return (
+        <div className="text-xs text-teal-600 dark:text-teal-400">Deposit and balance paid</div>
+      );
+    default:
+      return null;
+  }
+};
 
 export const CustomerDashboard: React.FC = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const [cancellingBooking, setCancellingBooking] = useState<Booking | null>(null);
+  const [reschedulingBooking, setReschedulingBooking] = useState<Booking | null>(null);
+  const [ticketBooking, setTicketBooking] = useState<Booking | null>(null);
+  const [balanceBooking, setBalanceBooking] = useState<Booking | null>(null);
 
   // 🎉 Convex: Automatically fetch customer bookings
   const convexBookings = useQuery(api.bookings.myBookings, user ? {} : "skip");
+  const reviewEligibility = useQuery(api.reviews.myEligibility, user ? {} : "skip");
 
   // Convert Convex data to app types
   const bookings: Booking[] = (convexBookings || []).map(b => ({
     id: b._id,
     listingId: b.listingId,
     listingTitle: b.listingTitle,
+    slotId: b.slotId,
     customerId: b.customerId,
     customerName: b.customerName,
     customerEmail: b.customerEmail,
@@ -25,10 +189,23 @@ export const CustomerDashboard: React.FC = () => {
     date: b.bookingDate,
     guests: b.guests,
     totalPrice: b.totalPrice,
+    lineItems: b.lineItems,
+    addOns: b.addOns,
+    pickup: b.pickup,
+    approvalStatus: b.approvalStatus,
+    requestExpiresAt: b.requestExpiresAt,
     status: b.status as 'pending' | 'confirmed' | 'completed' | 'cancelled',
     paymentStatus: b.paymentStatus as 'pending' | 'paid' | 'refunded',
     timeSlot: b.timeSlot as TimeSlot | undefined,
     createdAt: new Date(b.createdAt).toISOString(),
+    refundAmount: b.refundAmount,
+    balanceDue: b.balanceDue,
+    promoCode: b.promoCode,
+    discountAmount: b.discountAmount,
+    voucherAmount: b.paymentStatus === 'paid' ? b.voucherAmount : undefined,
+    depositBalance: b.depositBalance,
+    depositBalanceDueAt: b.depositBalanceDueAt,
+    depositBalanceStatus: b.depositBalanceStatus,
   }));
 
   const isLoading = convexBookings === undefined;
@@ -70,9 +247,18 @@ export const CustomerDashboard: React.FC = () => {
                         <Calendar className="w-4 h-4" /> {b.date}
                       </span>
                       <span className="flex items-center gap-1">
-                        <Users className="w-4 h-4" /> {b.guests} Guests
+                        <Users className="w-4 h-4" />
+                        {b.lineItems && b.lineItems.length > 0
+                          ? b.lineItems.map(item => `${item.quantity} × ${item.name}`).join(', ')
+                          : `${b.guests} Guests`}
+                        {b.addOns && b.addOns.length > 0 && ` + ${describeAddOns(b.addOns)}`}
                       </span>
                     </div>
+                    {b.pickup && (
+                      <div className="flex items-center gap-1 text-sm text-teal-700 dark:text-teal-300 mt-1">
+                        <MapPin className="w-4 h-4" /> Pickup {b.pickup.pickupTime} at {b.pickup.location}
+                      </div>
+                    )}
                     {b.timeSlot && (
                       <span className="inline-block mt-2 px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-xs rounded text-gray-600 dark:text-gray-300 uppercase">
                         {b.timeSlot.replace('_', ' ')}
@@ -82,16 +268,75 @@ export const CustomerDashboard: React.FC = () => {
                 </div>
 
                 <div className="text-right">
-                  <div className="text-2xl font-bold text-gray-900 dark:text-white">${b.totalPrice}</div>
-                  <div className="text-green-600 dark:text-green-400 font-bold text-sm flex items-center justify-end gap-1 mt-1">
-                    <CheckCircle className="w-4 h-4" /> Confirmed
-                  </div>
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">${b.totalPrice - (b.discountAmount || 0)}</div>
+                  {b.promoCode && b.discountAmount ? (
+                    <div className="text-xs text-teal-600 dark:text-teal-400">{b.promoCode} · ฿{b.discountAmount} off</div>
+                  ) : null}
+                  {b.voucherAmount ? (
+                    <div className="text-xs text-teal-600 dark:text-teal-400">฿{b.voucherAmount} paid with gift voucher</div>
+                  ) : null}
+                  <DepositBalance booking={b} onPay={() => setBalanceBooking(b)} />
+                  {b.status === 'cancelled' ? (
+                    <div className="text-red-600 dark:text-red-400 font-bold text-sm flex items-center justify-end gap-1 mt-1">
+                      <XCircle className="w-4 h-4" />
+                      {b.approvalStatus === 'declined' ? 'Request declined' :
+                       b.approvalStatus === 'expired' ? 'Request expired' : 'Cancelled'}
+                      {b.refundAmount ? ` · ${formatAmount(b.refundAmount)} refunded` : ''}
+                    </div>
+                  ) : b.status === 'pending' && b.approvalStatus === 'requested' && b.requestExpiresAt ? (
+                    <div className="text-amber-600 dark:text-amber-400 font-bold text-sm flex items-center justify-end gap-1 mt-1">
+                      <Clock className="w-4 h-4" /> Awaiting vendor approval
+                    </div>
+                  ) : b.status === 'completed' ? (
+                    <div className="text-gray-600 dark:text-gray-300 font-bold text-sm flex items-center justify-end gap-1 mt-1">
+                      <CheckCircle className="w-4 h-4" /> Completed
+                    </div>
+                  ) : (
+                    <div className="text-green-600 dark:text-green-400 font-bold text-sm flex items-center justify-end gap-1 mt-1">
+                      <CheckCircle className="w-4 h-4" /> Confirmed
+                    </div>
+                  )}
+                  <ReviewStatus
+                    bookingId={b.id}
+                    review={reviewEligibility?.find(e => e.bookingId === b.id)}
+                  />
+                  {b.status === 'confirmed' && b.slotId && (
+                    <button
+                      onClick={() => setTicketBooking(b)}
+                      className="text-sm font-bold text-teal-600 dark:text-teal-400 hover:underline mt-2 flex items-center gap-1 ml-auto"
+                    >
+                      <Ticket className="w-4 h-4" /> Show Ticket
+                    </button>
+                  )}
                   <Link
                     to={`/listing/${b.listingId}`}
                     className="text-sm text-teal-600 dark:text-teal-400 hover:underline mt-2 block"
                   >
                     View Details
                   </Link>
+                  {b.balanceDue ? (
+                    <button
+                      onClick={() => setReschedulingBooking(b)}
+                      className="text-sm text-amber-600 dark:text-amber-400 hover:underline mt-1 block ml-auto"
+                    >
+                      Pay balance of {formatAmount(b.balanceDue)}
+                    </button>
+                  ) : b.status === 'confirmed' && b.slotId && (
+                    <button
+                      onClick={() => setReschedulingBooking(b)}
+                      className="text-sm text-teal-600 dark:text-teal-400 hover:underline mt-1 block ml-auto"
+                    >
+                      Reschedule
+                    </button>
+                  )}
+                  {(b.status === 'confirmed' || b.status === 'pending') && (
+                    <button
+                      onClick={() => setCancellingBooking(b)}
+                      className="text-sm text-red-600 dark:text-red-400 hover:underline mt-1"
+                    >
+                      Cancel Booking
+                    </button>
+                  )}
                 </div>
               </div>
             ))
@@ -110,6 +355,34 @@ export const CustomerDashboard: React.FC = () => {
           )}
         </div>
       </div>
+
+      {reschedulingBooking && (
+        <RescheduleModal
+          booking={reschedulingBooking}
+          onClose={() => setReschedulingBooking(null)}
+        />
+      )}
+
+      {ticketBooking && (
+        <TicketModal
+          booking={ticketBooking}
+          onClose={() => setTicketBooking(null)}
+        />
+      )}
+
+      {balanceBooking && (
+        <BalancePaymentModal
+          booking={balanceBooking}
+          onClose={() => setBalanceBooking(null)}
+        />
+      )}
+
+      {cancellingBooking && (
+        <CancelBookingModal
+          booking={cancellingBooking}
+          onClose={() => setCancellingBooking(null)}
+        />
+      )}
     </div>
   );
 };
@@ -2,13 +2,16 @@ import React, { useState, useEffect, useRef } from 'react';
 import { LayoutDashboard, Map, Loader2 } from 'lucide-react';
 import { useQuery, useAction } from 'convex/react';
 import { api } from '../convex/_generated/api';
-import { Listing, ActivityCategory, ChatMessage } from '../types';
+import { Listing, ActivityCategory, ChatMessage, NextAvailability } from '../types';
 import { ListingCard } from '../components/ListingCard';
 import { ListingMap } from '../components/maps/ListingMap';
 import { UnifiedSearchBar } from '../components/UnifiedSearchBar';
 import { NuiResponsePanel } from '../components/NuiResponsePanel';
 import { NuiFullScreen } from '../components/NuiFullScreen';
 import { BookingModal } from '../components/BookingModal';
+import { PackageCard, ActivePackage } from '../components/PackageCard';
+import { PackageBookingModal } from '../components/PackageBookingModal';
+import { RouteSearch } from '../components/RouteSearch';
 import { Id } from '../convex/_generated/dataModel';
 
 interface ExplorePageProps {
@@ -19,6 +22,7 @@ export const ExplorePage: React.FC<ExplorePageProps> = ({ onBook }) => {
   // Convex data
   const convexListings = useQuery(api.listings.list);
   const availabilityData = useQuery(api.bookings.getAvailabilityNext30Days);
+  const packages = useQuery(api.packages.listActive);
   const chatWithGemini = useAction(api.ai.gemini.chat);
   const createVoiceToken = useAction(api.ai.gemini.createVoiceSession);
 
@@ -26,6 +30,7 @@ export const ExplorePage: React.FC<ExplorePageProps> = ({ onBook }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('All');
   const [viewMode, setViewMode] = useState<'grid' | 'map'>('grid');
+  const [bookingPackage, setBookingPackage] = useState<ActivePackage | null>(null);
 
   // Nui state
   const [nuiMode, setNuiMode] = useState<'search' | 'askNui'>('search');
@@ -72,6 +77,7 @@ export const ExplorePage: React.FC<ExplorePageProps> = ({ onBook }) => {
     description: listing.description,
     location: listing.location,
     price: listing.price,
+    currency: listing.currency,
     rating: listing.rating,
     reviewCount: listing.reviewCount,
     imageUrl: listing.imageUrl,
@@ -85,11 +91,38 @@ export const ExplorePage: React.FC<ExplorePageProps> = ({ onBook }) => {
     operatingDays: listing.operatingDays,
     latitude: listing.latitude,
     longitude: listing.longitude,
+    cancellationPolicy: listing.cancellationPolicy,
+    ticketTypes: listing.ticketTypes,
+    addOns: listing.addOns,
+    pickupZones: listing.pickupZones,
+    route: listing.route,
+    bookingQuestions: listing.bookingQuestions,
+    waiver: listing.waiver,
+    bookingMode: listing.bookingMode,
+    requestWindowHours: listing.requestWindowHours,
+    reminderOffsetsHours: listing.reminderOffsetsHours,
+    reminderNote: listing.reminderNote,
+    meetingPoint: listing.meetingPoint,
+    paymentPlan: listing.paymentPlan,
+    noShowPolicy: listing.noShowPolicy,
+    pricingRules: listing.pricingRules,
   }));
 
   const isLoading = convexListings === undefined;
 
   // Filter listings based on search, category, and Nui results
+  // Next bookable day per listing
+  const getNextAvailable = (listingId: string): NextAvailability | undefined => {
+    const days = availabilityData?.[listingId];
+    if (!days) return undefined;
+    const date = Object.keys(days)
+      .sort()
+      .find(d => days[d].available > 0 && days[d].earliestStartTime);
+    return date
+      ? { date, startTime: days[date].earliestStartTime, seatsLeft: days[date].available }
+      : undefined;
+  };
+
   const filteredListings = listings.filter(l => {
     // If Nui has filtered results, prioritize those
     if (nuiFilteredIds !== null) {
@@ -102,6 +135,13 @@ export const ExplorePage: React.FC<ExplorePageProps> = ({ onBook }) => {
     return matchesSearch && matchesCategory;
   });
 
+  // Packages span categories, so they only show while browsing everything
+  const filteredPackages = (packages || []).filter((p) =>
+    nuiFilteredIds === null &&
+    selectedCategory === 'All' &&
+    p.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
   // Handle Nui query
   const handleAskNui = async (query: string) => {
     if (!query.trim() || isNuiLoading) return;
@@ -126,6 +166,7 @@ export const ExplorePage: React.FC<ExplorePageProps> = ({ onBook }) => {
         location: l.location,
         category: l.category,
         price: l.price,
+        currency: l.currency,
         duration: l.duration,
         maxCapacity: l.maxCapacity,
         operatingDays: l.operatingDays,
@@ -136,7 +177,6 @@ export const ExplorePage: React.FC<ExplorePageProps> = ({ onBook }) => {
         userQuery: query,
         listings: listingsData,
         conversationHistory: conversationHistory.map(m => ({ role: m.role, text: m.text })),
-        availabilityData: availabilityData || {},
       });
 
       // Parse response
@@ -396,6 +436,13 @@ export const ExplorePage: React.FC<ExplorePageProps> = ({ onBook }) => {
         )}
       </div>
 
+      {/* Departures search for transportation routes */}
+      {selectedCategory === ActivityCategory.TRANSPORTATION && nuiFilteredIds === null && (
+        <RouteSearch
+          onSelectDeparture={(departure) => handleSlotSelect(departure.slot, departure.listingId)}
+        />
+      )}
+
       {/* Content */}
       {isLoading ? (
         <div className="flex justify-center py-20">
@@ -405,10 +452,13 @@ export const ExplorePage: React.FC<ExplorePageProps> = ({ onBook }) => {
         <>
           {viewMode === 'grid' ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+              {filteredPackages.map((p) => (
+                <PackageCard key={p._id} pkg={p} onBook={setBookingPackage} />
+              ))}
               {filteredListings.map(l => (
-                <ListingCard key={l.id} listing={l} onBook={onBook} />
+                <ListingCard key={l.id} listing={l} onBook={onBook} nextAvailable={getNextAvailable(l.id)} />
               ))}
-              {filteredListings.length === 0 && (
+              {filteredListings.length === 0 && filteredPackages.length === 0 && (
                 <div className="col-span-full text-center py-20 text-gray-400 dark:text-gray-500">
                   {nuiFilteredIds !== null
                     ? "No activities found. Try asking Nui a different question!"
@@ -446,6 +496,11 @@ export const ExplorePage: React.FC<ExplorePageProps> = ({ onBook }) => {
           preSelectedSlot={selectedSlotForBooking}
         />
       )}
+
+      {/* Package Booking Modal */}
+      {bookingPackage && (
+        <PackageBookingModal pkg={bookingPackage} onClose={() => setBookingPackage(null)} />
+      )}
     </div>
   );
 };
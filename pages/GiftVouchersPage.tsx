@@ -0,0 +1,280 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useAction } from 'convex/react';
+import { Elements } from '@stripe/react-stripe-js';
+import { api } from '../convex/_generated/api';
+import { useAuth } from '../contexts/AuthContext';
+import { getStripe, formatAmount } from '../services/stripeService';
+import { PaymentForm } from '../components/PaymentForm';
+import { Loader2, Gift, Lock, Search } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const PRESET_AMOUNTS = [500, 1000, 2000, 5000];
+
+const inputClassName =
+  'w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-teal-500 outline-none';
+
+const ledgerLabels: Record<string, string> = {
+  issue: 'Issued',
+  redeem: 'Used for a booking',
+  refund: 'Returned from a booking',
+  expire: 'Expired',
+};
+
+export const GiftVouchersPage: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const myVouchers = useQuery(api.giftVouchers.myVouchers, user ? {} : "skip");
+  const createVoucherPaymentIntent = useAction(api.stripe.payments.createVoucherPaymentIntent);
+
+  const [stripePromise] = useState(() => getStripe());
+  const [amount, setAmount] = useState(PRESET_AMOUNTS[1]);
+  const [recipientName, setRecipientName] = useState('');
+  const [recipientEmail, setRecipientEmail] = useState('');
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [purchase, setPurchase] = useState<{ voucherId: string; amount: number } | null>(null);
+  const [paymentOptions, setPaymentOptions] = useState<any>(null);
+
+  const [balanceInput, setBalanceInput] = useState('');
+  const [balanceCode, setBalanceCode] = useState<string | null>(null);
+  const balance = useQuery(api.giftVouchers.check, balanceCode ? { code: balanceCode } : "skip");
+
+  const handlePurchase = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await createVoucherPaymentIntent({
+        amount,
+        recipientName,
+        recipientEmail,
+        message: message || undefined,
+      });
+
+      setPurchase({ voucherId: result.voucherId, amount: result.amount });
+      setPaymentOptions({
+        clientSecret: result.clientSecret,
+        appearance: {
+          theme: 'stripe' as const,
+          variables: {
+            colorPrimary: '#14b8a6',
+            borderRadius: '12px',
+          },
+        },
+      });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to start payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const resetPurchase = () => {
+    setPurchase(null);
+    setPaymentOptions(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-24 px-4">
+      <div className="max-w-4xl mx-auto space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Gift Vouchers</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            Give the island. Vouchers can be spent on any activity, across as many bookings as the balance allows, for a year.
+          </p>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
+          {purchase && paymentOptions && stripePromise ? (
+            <>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                The voucher code is emailed to {recipientName} as soon as your payment goes through.
+              </p>
+              <Elements stripe={stripePromise} options={paymentOptions}>
+                <PaymentForm
+                  amount={purchase.amount / 100}
+                  bookingId={purchase.voucherId}
+                  onSuccess={() => {
+                    toast.success(`Gift voucher sent to ${recipientEmail}`);
+                    resetPurchase();
+                    setRecipientName('');
+                    setRecipientEmail('');
+                    setMessage('');
+                  }}
+                  onError={(error) => console.error('Payment error:', error)}
+                  onCancel={resetPurchase}
+                />
+              </Elements>
+            </>
+          ) : (
+            <form onSubmit={handlePurchase} className="space-y-4">
+              <div>
+                <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Amount</label>
+                <div className="flex flex-wrap gap-2">
+                  {PRESET_AMOUNTS.map(preset => (
+                    <button
+                      key={preset}
+                      type="button"
+                      onClick={() => setAmount(preset)}
+                      className={`px-5 py-3 rounded-xl font-bold transition ${
+                        amount === preset
+                          ? 'bg-teal-600 dark:bg-teal-500 text-white'
+                          : 'bg-gray-50 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600'
+                      }`}
+                    >
+                      ฿{preset.toLocaleString()}
+                    </button>
+                  ))}
+                  <input
+                    type="number"
+                    min="500"
+                    max="50000"
+                    step="1"
+                    value={amount}
+                    onChange={e => setAmount(parseInt(e.target.value) || 0)}
+                    className={`${inputClassName} max-w-[10rem]`}
+                    aria-label="Custom amount"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Recipient name</label>
+                  <input
+                    type="text"
+                    value={recipientName}
+                    onChange={e => setRecipientName(e.target.value)}
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Recipient email</label>
+                  <input
+                    type="email"
+                    value={recipientEmail}
+                    onChange={e => setRecipientEmail(e.target.value)}
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Message (optional)</label>
+                <textarea
+                  value={message}
+                  onChange={e => setMessage(e.target.value)}
+                  rows={3}
+                  className={inputClassName}
+                  placeholder="Happy birthday! Go and see the island."
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={submitting || !amount}
+                className="w-full py-4 rounded-xl bg-teal-600 hover:bg-teal-700 text-white font-bold transition-colors shadow-lg shadow-teal-500/30 flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {submitting ? <Loader2 className="animate-spin w-5 h-5" /> : <Lock className="w-5 h-5" />}
+                Buy ฿{amount.toLocaleString()} Voucher
+              </button>
+            </form>
+          )}
+        </div>
+
+        {/* Balance Check */}
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Check a balance</h2>
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              setBalanceCode(balanceInput.trim() || null);
+            }}
+            className="flex gap-2"
+          >
+            <input
+              type="text"
+              value={balanceInput}
+              onChange={e => setBalanceInput(e.target.value)}
+              placeholder="GIFT-XXXX-XXXX"
+              className={`${inputClassName} uppercase`}
+            />
+            <button
+              type="submit"
+              disabled={!balanceInput.trim()}
+              className="px-5 rounded-xl font-bold bg-gray-900 dark:bg-teal-600 text-white hover:bg-teal-600 dark:hover:bg-teal-500 disabled:opacity-50"
+              aria-label="Check balance"
+            >
+              <Search className="w-5 h-5" />
+            </button>
+          </form>
+          {balance && (
+            <p className={`mt-3 text-sm ${balance.valid ? 'text-gray-700 dark:text-gray-300' : 'text-red-600 dark:text-red-400'}`}>
+              {balance.valid
+                ? `${balance.code}: ฿${balance.balance.toLocaleString()} left${
+                    balance.expiresAt ? `, valid until ${new Date(balance.expiresAt).toLocaleDateString()}` : ''
+                  }`
+                : balance.message}
+            </p>
+          )}
+        </div>
+
+        {/* Vouchers Bought */}
+        {myVouchers && myVouchers.length > 0 && (
+          <div className="space-y-4">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">Vouchers you've bought</h2>
+            {myVouchers.map(voucher => (
+              <div
+                key={voucher._id}
+                className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700"
+              >
+                <div className="flex flex-col md:flex-row justify-between md:items-center gap-2">
+                  <div className="flex items-center gap-3">
+                    <Gift className="w-6 h-6 text-teal-600 dark:text-teal-400" />
+                    <div>
+                      <div className="font-bold text-gray-900 dark:text-white">{voucher.code}</div>
+                      <div className="text-sm text-gray-500 dark:text-gray-400">
+                        For {voucher.recipientName} ({voucher.recipientEmail})
+                      </div>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-xl font-bold text-gray-900 dark:text-white">
+                      {formatAmount(Math.round(voucher.balance * 100))}
+                      <span className="text-sm font-normal text-gray-500 dark:text-gray-400">
+                        {' '}of {formatAmount(voucher.amount * 100)}
+                      </span>
+                    </div>
+                    <div className={`text-xs font-bold ${voucher.status === 'active' ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                      {voucher.status === 'active' && voucher.expiresAt
+                        ? `Valid until ${new Date(voucher.expiresAt).toLocaleDateString()}`
+                        : 'Expired'}
+                    </div>
+                  </div>
+                </div>
+                {voucher.ledger.length > 1 && (
+                  <ul className="mt-4 pt-4 border-t border-gray-100 dark:border-gray-700 space-y-1 text-sm text-gray-500 dark:text-gray-400">
+                    {voucher.ledger.map(entry => (
+                      <li key={entry._id} className="flex justify-between">
+                        <span>
+                          {new Date(entry.createdAt).toLocaleDateString()} · {ledgerLabels[entry.type]}
+                        </span>
+                        <span>
+                          {entry.amount > 0 ? '+' : '−'}฿{Math.abs(entry.amount).toLocaleString()}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
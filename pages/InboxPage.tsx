@@ -3,7 +3,7 @@ import toast from 'react-hot-toast';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../convex/_generated/api';
 import { useAuth } from '../contexts/AuthContext';
-import { Loader2, Send, User, MessageSquare, ArrowLeft, Bell, CheckCircle2, Calendar, Users, DollarSign } from 'lucide-react';
+import { Loader2, Send, User, MessageSquare, ArrowLeft, Bell, CheckCircle2, Calendar, Users, DollarSign, Clock, Star, CreditCard } from 'lucide-react';
 import { useLocation, useNavigate } from 'react-router-dom';
 
 // Helper type for a conversation
@@ -216,6 +216,10 @@ export const InboxPage = () => {
                         }`}>
                           {notification.type === 'new_sale' ? <DollarSign className="w-5 h-5" /> :
                            notification.type === 'booking_confirmed' ? <CheckCircle2 className="w-5 h-5" /> :
+                           notification.type === 'booking_rescheduled' ? <Calendar className="w-5 h-5" /> :
+                           notification.type === 'booking_request' ? <Clock className="w-5 h-5" /> :
+                           notification.type === 'review_request' ? <Star className="w-5 h-5" /> :
+                           notification.type === 'balance_payment_failed' ? <CreditCard className="w-5 h-5" /> :
                            <Bell className="w-5 h-5" />}
                         </div>
                         <div className="flex-1 min-w-0">
@@ -2,13 +2,15 @@ import React, { useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import {
   ArrowLeft, MapPin, Star, Calendar, CheckCircle, TrendingUp,
-  MessageSquare, Loader2, ImageIcon
+  MessageSquare, Loader2, ImageIcon, BadgeCheck
 } from 'lucide-react';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../convex/_generated/api';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 import { Listing, Review, ActivityCategory } from '../types';
 import { Id } from '../convex/_generated/dataModel';
+import { CANCELLATION_POLICY_LABELS, describeCancellationPolicy } from '../convex/lib/cancellationPolicy';
 
 interface ListingDetailsPageProps {
   onBook: (listing: Listing) => void;
@@ -17,11 +19,13 @@ interface ListingDetailsPageProps {
 export const ListingDetailsPage: React.FC<ListingDetailsPageProps> = ({ onBook }) => {
   const { id } = useParams();
   const { user } = useAuth();
+  const { formatPrice } = useCurrency();
   const navigate = useNavigate();
 
   // 🎉 Convex automatically fetches and keeps data in sync!
   const convexListing = useQuery(api.listings.get, id ? { id: id as Id<"listings"> } : "skip");
   const convexReviews = useQuery(api.reviews.getByListing, id ? { listingId: id as Id<"listings"> } : "skip");
+  const reviewEligibility = useQuery(api.reviews.myEligibility, user ? {} : "skip");
   const createReviewMutation = useMutation(api.reviews.create);
 
   const [rating, setRating] = useState(5);
@@ -35,6 +39,7 @@ export const ListingDetailsPage: React.FC<ListingDetailsPageProps> = ({ onBook }
     description: convexListing.description,
     location: convexListing.location,
     price: convexListing.price,
+    currency: convexListing.currency,
     rating: convexListing.rating,
     reviewCount: convexListing.reviewCount,
     imageUrl: convexListing.imageUrl,
@@ -48,6 +53,21 @@ export const ListingDetailsPage: React.FC<ListingDetailsPageProps> = ({ onBook }
     operatingDays: convexListing.operatingDays,
     latitude: convexListing.latitude,
     longitude: convexListing.longitude,
+    cancellationPolicy: convexListing.cancellationPolicy,
+    ticketTypes: convexListing.ticketTypes,
+    addOns: convexListing.addOns,
+    pickupZones: convexListing.pickupZones,
+    route: convexListing.route,
+    bookingQuestions: convexListing.bookingQuestions,
+    waiver: convexListing.waiver,
+    bookingMode: convexListing.bookingMode,
+    requestWindowHours: convexListing.requestWindowHours,
+    reminderOffsetsHours: convexListing.reminderOffsetsHours,
+    reminderNote: convexListing.reminderNote,
+    meetingPoint: convexListing.meetingPoint,
+    paymentPlan: convexListing.paymentPlan,
+    noShowPolicy: convexListing.noShowPolicy,
+    pricingRules: convexListing.pricingRules,
   } : null;
 
   // Convert Convex reviews to our Review type
@@ -59,17 +79,23 @@ export const ListingDetailsPage: React.FC<ListingDetailsPageProps> = ({ onBook }
     rating: review.rating,
     comment: review.comment,
     createdAt: new Date(review.createdAt).toISOString(),
+    verified: review.verified,
   }));
 
   const isLoading = convexListing === undefined;
 
+  // Only guests with a completed booking of this listing can review it
+  const reviewableBooking = (reviewEligibility || []).find(
+    e => e.listingId === id && e.eligibility === 'eligible'
+  );
+
   const handleSubmitReview = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !id) return;
+    if (!user || !reviewableBooking) return;
     setIsSubmittingReview(true);
     try {
       await createReviewMutation({
-        listingId: id as Id<"listings">,
+        bookingId: reviewableBooking.bookingId,
         rating,
         comment,
       });
@@ -229,7 +255,7 @@ export const ListingDetailsPage: React.FC<ListingDetailsPageProps> = ({ onBook }
                 </div>
               </div>
 
-              {user && (
+              {user && reviewableBooking && (
                 <form onSubmit={handleSubmitReview} className="mb-10 bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm">
                   <h3 className="text-sm font-bold text-gray-900 dark:text-white mb-4 uppercase tracking-wide">Write a Review</h3>
                   <div className="mb-4 flex items-center gap-2">
@@ -264,7 +290,14 @@ export const ListingDetailsPage: React.FC<ListingDetailsPageProps> = ({ onBook }
                       {review.userName.charAt(0)}
                     </div>
                     <div>
-                      <h4 className="font-bold text-gray-900 dark:text-white">{review.userName}</h4>
+                      <h4 className="font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                        {review.userName}
+                        {review.verified && (
+                          <span className="flex items-center gap-1 text-xs font-bold text-teal-600 dark:text-teal-400">
+                            <BadgeCheck className="w-3 h-3" /> Verified booking
+                          </span>
+                        )}
+                      </h4>
                       <div className="flex items-center gap-2 mb-2">
                         <div className="flex">
                           {[...Array(review.rating)].map((_, i) => (
@@ -291,9 +324,9 @@ export const ListingDetailsPage: React.FC<ListingDetailsPageProps> = ({ onBook }
             <div className="sticky top-28 bg-white dark:bg-gray-800 rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.12)] p-6 md:p-8 border border-gray-100 dark:border-gray-700">
               <div className="flex items-end justify-between mb-8">
                 <div>
-                  <p className="text-sm text-gray-400 dark:text-gray-500 line-through font-medium">${listing.price + 15}</p>
+                  <p className="text-sm text-gray-400 dark:text-gray-500 line-through font-medium">{formatPrice(listing.price + 15, listing.currency)}</p>
                   <div className="flex items-baseline gap-1">
-                    <span className="text-4xl font-bold text-gray-900 dark:text-white tracking-tight">${listing.price}</span>
+                    <span className="text-4xl font-bold text-gray-900 dark:text-white tracking-tight">{formatPrice(listing.price, listing.currency)}</span>
                     <span className="text-gray-500 dark:text-gray-400 font-medium">/ person</span>
                   </div>
                 </div>
@@ -303,8 +336,16 @@ export const ListingDetailsPage: React.FC<ListingDetailsPageProps> = ({ onBook }
               </div>
 
               <div className="space-y-4 mb-8">
-                <div className="flex items-center gap-3 text-sm text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-900 p-3 rounded-xl">
-                  <Calendar className="w-5 h-5 text-teal-600 dark:text-teal-400" /> <span>Free cancellation (24h)</span>
+                <div className="flex items-start gap-3 text-sm text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-900 p-3 rounded-xl">
+                  <Calendar className="w-5 h-5 text-teal-600 dark:text-teal-400 shrink-0" />
+                  <div>
+                    <span className="font-bold text-gray-900 dark:text-white">
+                      {CANCELLATION_POLICY_LABELS[listing.cancellationPolicy?.name || 'flexible']} cancellation
+                    </span>
+                    {describeCancellationPolicy(listing.cancellationPolicy).map(line => (
+                      <p key={line}>{line}</p>
+                    ))}
+                  </div>
                 </div>
                 <div className="flex items-center gap-3 text-sm text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-900 p-3 rounded-xl">
                   <CheckCircle className="w-5 h-5 text-teal-600 dark:text-teal-400" /> <span>Instant Confirmation</span>
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
+import { MAX_REVIEW_COMMENT_LENGTH } from '../convex/lib/reviews';
+import { Loader2, CheckCircle, Star } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export const ReviewPage: React.FC = () => {
+  const { bookingId } = useParams<{ bookingId: string }>();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || undefined;
+  // Star picked in the invitation email
+  const initialRating = parseInt(searchParams.get('rating') || '');
+
+  const booking = useQuery(
+    api.reviews.getForBooking,
+    bookingId ? { bookingId: bookingId as Id<"bookings">, token } : "skip"
+  );
+  const createReview = useMutation(api.reviews.create);
+
+  const [rating, setRating] = useState(initialRating >= 1 && initialRating <= 5 ? initialRating : 5);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bookingId) return;
+
+    setSubmitting(true);
+    try {
+      await createReview({
+        bookingId: bookingId as Id<"bookings">,
+        token,
+        rating,
+        comment,
+      });
+      toast.success('Thanks for your review!');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to post your review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (booking === undefined) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <Loader2 className="w-8 h-8 animate-spin text-teal-600" />
+      </div>
+    );
+  }
+
+  if (booking === null) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-24 px-4 text-center text-gray-500 dark:text-gray-400">
+        This review link is invalid. Sign in to review your trips.
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-24 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">How was it?</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            {booking.listingTitle} ·{' '}
+            {new Date(booking.bookingDate).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+          </p>
+        </div>
+
+        {booking.eligibility === 'reviewed' ? (
+          <div className="flex items-center justify-center gap-2 p-6 rounded-2xl bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-300 font-bold">
+            <CheckCircle className="w-5 h-5" />
+            Thanks for your {booking.rating}-star review!
+            <Link to={`/listing/${booking.listingId}`} className="underline ml-1">See it on the listing</Link>
+          </div>
+        ) : booking.eligibility === 'expired' ? (
+          <p className="text-center text-gray-500 dark:text-gray-400">The review period for this booking has ended.</p>
+        ) : booking.eligibility !== 'eligible' ? (
+          <p className="text-center text-gray-500 dark:text-gray-400">You can review this booking once the activity is completed.</p>
+        ) : (
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 space-y-4"
+          >
+            <div className="flex items-center gap-2">
+              {[1, 2, 3, 4, 5].map(s => (
+                <button key={s} type="button" onClick={() => setRating(s)} className="transition-transform hover:scale-110">
+                  <Star className={`w-8 h-8 ${s <= rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-200 dark:text-gray-600'}`} />
+                </button>
+              ))}
+            </div>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Share your experience with other travelers..."
+              className="w-full p-4 rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-100 text-sm focus:ring-2 focus:ring-teal-500 outline-none transition-all"
+              rows={4}
+              maxLength={MAX_REVIEW_COMMENT_LENGTH}
+              required
+            />
+            <button
+              type="submit"
+              disabled={submitting || !comment.trim()}
+              className="w-full py-4 rounded-xl bg-teal-600 hover:bg-teal-700 text-white font-bold transition-colors shadow-lg shadow-teal-500/30 flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {submitting && <Loader2 className="animate-spin w-5 h-5" />}
+              Post Review
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
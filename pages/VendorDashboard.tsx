@@ -1,25 +1,77 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Loader2, Calendar, Users, DollarSign, Package, Plus, Edit, TrendingUp, Wallet } from 'lucide-react';
+import { Loader2, Calendar, Users, DollarSign, Package, Plus, Edit, TrendingUp, Wallet, Download } from 'lucide-react';
 import { useQuery } from 'convex/react';
 import { api } from '../convex/_generated/api';
 import { useAuth } from '../contexts/AuthContext';
 import { Listing, ActivityCategory, Booking, TimeSlot } from '../types';
-import { BookingCalendar } from '../components/BookingCalendar';
 import { VendorOnboarding } from '../components/VendorOnboarding';
 import { StripeAccountDetails } from '../components/StripeAccountDetails';
 import { AvailabilitySetup } from '../components/vendor/AvailabilitySetup';
+import { ResourcesManager } from '../components/vendor/ResourcesManager';
 import { VendorCalendar } from '../components/vendor/VendorCalendar';
+import { PromoCodesManager } from '../components/PromoCodesManager';
+import { PackagesManager } from '../components/PackagesManager';
+import { WaiverSignatures } from '../components/vendor/WaiverSignatures';
+import { BookingRequests } from '../components/vendor/BookingRequests';
+import { DepositBalance } from '../components/vendor/DepositBalance';
+import { AttendanceReport } from '../components/vendor/AttendanceReport';
+import { formatBookingAnswer, BookingAnswer } from '../convex/lib/bookingQuestions';
+import { describeAddOns } from '../convex/lib/addOns';
+import { hasWaiver } from '../convex/lib/waivers';
+import { ATTENDANCE_LABELS } from '../convex/lib/attendance';
+import { BASE_CURRENCY, formatMoney } from '../convex/lib/currency';
+import { Id } from '../convex/_generated/dataModel';
 
 interface VendorDashboardProps {
   onAddListing: (listing: Listing) => void;
 }
 
+// Column heading for an answer, e.g. "Shoe size (guest 2)"
+const answerColumn = (answer: BookingAnswer) =>
+  answer.guestNumber ? `${answer.label} (guest ${answer.guestNumber})` : answer.label;
+
+/**
+ * Download bookings as a CSV file, one column per booking question
+ */
+const exportBookingsCsv = (bookings: Booking[]) => {
+  const answerColumns = Array.from(
+    new Set(bookings.flatMap(b => (b.answers || []).map(answerColumn)))
+  );
+
+  const header = ['Booking ID', 'Date', 'Activity', 'Customer', 'Email', 'Guests', 'Total (THB)', 'Extras', 'Pickup', 'Status', 'Attendance', ...answerColumns];
+  const rows = bookings.map(b => [
+    b.id,
+    b.date,
+    b.listingTitle,
+    b.customerName,
+    b.customerEmail,
+    String(b.guests),
+    String(b.totalPrice),
+    describeAddOns(b.addOns || []),
+    b.pickup ? `${b.pickup.pickupTime} ${b.pickup.location} (${b.pickup.zoneName})` : '',
+    b.status,
+    b.attendance ? `${ATTENDANCE_LABELS[b.attendance]} (${b.attendedGuests}/${b.guests})` : '',
+    ...answerColumns.map(column => b.answers?.find(a => answerColumn(a) === column)?.value || ''),
+  ]);
+
+  const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const csv = [header, ...rows].map(row => row.map(escape).join(',')).join('\n');
+
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `bookings-${new Date().toISOString().split('T')[0]}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 export const VendorDashboard: React.FC<VendorDashboardProps> = ({ onAddListing }) => {
   const { user, profile, loading } = useAuth();
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState<'bookings' | 'calendar' | 'listings' | 'availability' | 'account'>('bookings');
+  const [activeTab, setActiveTab] = useState<'bookings' | 'listings' | 'availability' | 'promos' | 'packages' | 'account'>('bookings');
   const [selectedListingId, setSelectedListingId] = useState<string | null>(null);
+  const [waiverBookingId, setWaiverBookingId] = useState<string | null>(null);
 
   // 🎉 Convex: Automatically fetch vendor bookings and listings
   const convexBookings = useQuery(api.bookings.vendorBookings, user ? {} : "skip");
@@ -42,6 +94,17 @@ export const VendorDashboard: React.FC<VendorDashboardProps> = ({ onAddListing }
     status: b.status as 'pending' | 'confirmed' | 'completed' | 'cancelled',
     paymentStatus: b.paymentStatus as 'pending' | 'paid' | 'refunded',
     timeSlot: b.timeSlot as TimeSlot | undefined,
+    answers: b.answers,
+    addOns: b.addOns,
+    pickup: b.pickup,
+    approvalStatus: b.approvalStatus,
+    requestExpiresAt: b.requestExpiresAt,
+    depositBalance: b.depositBalance,
+    depositBalanceDueAt: b.depositBalanceDueAt,
+    depositBalanceStatus: b.depositBalanceStatus,
+    attendance: b.attendance,
+    attendedGuests: b.attendedGuests,
+    customerNoShows: b.customerNoShows,
     createdAt: new Date(b.createdAt).toISOString(),
   }));
 
@@ -51,6 +114,7 @@ export const VendorDashboard: React.FC<VendorDashboardProps> = ({ onAddListing }
     description: l.description,
     location: l.location,
     price: l.price,
+    currency: l.currency,
     rating: l.rating,
     reviewCount: l.reviewCount,
     imageUrl: l.imageUrl,
@@ -64,6 +128,21 @@ export const VendorDashboard: React.FC<VendorDashboardProps> = ({ onAddListing }
     operatingDays: l.operatingDays,
     latitude: l.latitude,
     longitude: l.longitude,
+    cancellationPolicy: l.cancellationPolicy,
+    ticketTypes: l.ticketTypes,
+    addOns: l.addOns,
+    pickupZones: l.pickupZones,
+    route: l.route,
+    bookingQuestions: l.bookingQuestions,
+    waiver: l.waiver,
+    bookingMode: l.bookingMode,
+    requestWindowHours: l.requestWindowHours,
+    reminderOffsetsHours: l.reminderOffsetsHours,
+    reminderNote: l.reminderNote,
+    meetingPoint: l.meetingPoint,
+    paymentPlan: l.paymentPlan,
+    noShowPolicy: l.noShowPolicy,
+    pricingRules: l.pricingRules,
   }));
 
   const isLoadingBookings = convexBookings === undefined;
@@ -207,34 +286,44 @@ export const VendorDashboard: React.FC<VendorDashboardProps> = ({ onAddListing }
                 Bookings ({bookings.length})
               </button>
               <button
-                onClick={() => setActiveTab('calendar')}
+                onClick={() => setActiveTab('listings')}
                 className={`flex-1 px-6 py-4 font-bold transition-colors ${
-                  activeTab === 'calendar'
+                  activeTab === 'listings'
                     ? 'bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300 border-b-2 border-teal-500'
                     : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
                 }`}
               >
-                Calendar
+                My Listings ({myListings.length})
               </button>
               <button
-                onClick={() => setActiveTab('listings')}
+                onClick={() => setActiveTab('availability')}
                 className={`flex-1 px-6 py-4 font-bold transition-colors ${
-                  activeTab === 'listings'
+                  activeTab === 'availability'
                     ? 'bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300 border-b-2 border-teal-500'
                     : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
                 }`}
               >
-                My Listings ({myListings.length})
+                Availability
               </button>
               <button
-                onClick={() => setActiveTab('availability')}
+                onClick={() => setActiveTab('promos')}
                 className={`flex-1 px-6 py-4 font-bold transition-colors ${
-                  activeTab === 'availability'
+                  activeTab === 'promos'
                     ? 'bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300 border-b-2 border-teal-500'
                     : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
                 }`}
               >
-                Availability
+                Promo Codes
+              </button>
+              <button
+                onClick={() => setActiveTab('packages')}
+                className={`flex-1 px-6 py-4 font-bold transition-colors ${
+                  activeTab === 'packages'
+                    ? 'bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300 border-b-2 border-teal-500'
+                    : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                Packages
               </button>
               <button
                 onClick={() => setActiveTab('account')}
@@ -250,67 +339,112 @@ export const VendorDashboard: React.FC<VendorDashboardProps> = ({ onAddListing }
           </div>
 
           <div className="p-6">
-            {/* Calendar Tab */}
-            {activeTab === 'calendar' && (
-              <div>
-                {isLoadingBookings ? (
-                  <div className="text-center py-12">
-                    <Loader2 className="w-8 h-8 animate-spin text-teal-600 mx-auto" />
-                  </div>
-                ) : (
-                  <BookingCalendar bookings={bookings} />
-                )}
-              </div>
-            )}
-
             {/* Bookings Tab */}
             {activeTab === 'bookings' && (
               <div className="space-y-4">
+                <BookingRequests />
+                <AttendanceReport />
                 {isLoadingBookings ? (
                   <div className="text-center py-12">
                     <Loader2 className="w-8 h-8 animate-spin text-teal-600 mx-auto" />
                   </div>
                 ) : bookings.length > 0 ? (
-                  bookings.map(b => (
-                    <div
-                      key={b.id}
-                      className="bg-gray-50 dark:bg-gray-700 p-4 rounded-xl border border-gray-200 dark:border-gray-600 flex flex-col md:flex-row justify-between items-start md:items-center gap-4"
-                    >
-                      <div className="flex-1">
-                        <h3 className="font-bold text-gray-900 dark:text-white">{b.listingTitle}</h3>
-                        <div className="flex flex-wrap gap-4 text-sm text-gray-500 dark:text-gray-400 mt-2">
-                          <span className="flex items-center gap-1">
-                            <Calendar className="w-4 h-4" /> {b.date}
-                          </span>
-                          <span className="flex items-center gap-1">
-                            <Users className="w-4 h-4" /> {b.guests} guests
-                          </span>
-                          {b.timeSlot && (
-                            <span className="px-2 py-0.5 bg-gray-200 dark:bg-gray-600 rounded text-xs uppercase dark:text-gray-200">
-                              {b.timeSlot.replace('_', ' ')}
+                  <>
+                    <div className="flex justify-end">
+                      <button
+                        onClick={() => exportBookingsCsv(bookings)}
+                        className="flex items-center gap-2 text-sm font-bold text-teal-600 dark:text-teal-400 hover:text-teal-700"
+                      >
+                        <Download className="w-4 h-4" />
+                        Export CSV
+                      </button>
+                    </div>
+                    {bookings.map(b => (
+                      <div
+                        key={b.id}
+                        className="bg-gray-50 dark:bg-gray-700 p-4 rounded-xl border border-gray-200 dark:border-gray-600 flex flex-col md:flex-row justify-between items-start md:items-center gap-4"
+                      >
+                        <div className="flex-1">
+                          <h3 className="font-bold text-gray-900 dark:text-white">{b.listingTitle}</h3>
+                          <div className="flex flex-wrap gap-4 text-sm text-gray-500 dark:text-gray-400 mt-2">
+                            <span className="flex items-center gap-1">
+                              <Calendar className="w-4 h-4" /> {b.date}
+                            </span>
+                            <span className="flex items-center gap-1">
+                              <Users className="w-4 h-4" /> {b.guests} guests
                             </span>
+                            {b.timeSlot && (
+                              <span className="px-2 py-0.5 bg-gray-200 dark:bg-gray-600 rounded text-xs uppercase dark:text-gray-200">
+                                {b.timeSlot.replace('_', ' ')}
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-sm text-gray-600 dark:text-gray-300 mt-2">
+                            Customer: {b.customerName} ({b.customerEmail})
+                            {!!b.customerNoShows && (
+                              <span className="ml-2 text-xs font-bold text-red-600 dark:text-red-400">
+                                {b.customerNoShows} {b.customerNoShows === 1 ? 'no-show' : 'no-shows'}
+                              </span>
+                            )}
+                          </p>
+                          {b.pickup && (
+                            <p className="text-sm text-gray-600 dark:text-gray-300 mt-2">
+                              Pickup {b.pickup.pickupTime} · {b.pickup.zoneName} · {b.pickup.location}
+                            </p>
+                          )}
+                          {b.addOns && b.addOns.length > 0 && (
+                            <p className="text-sm font-bold text-teal-700 dark:text-teal-300 mt-2">
+                              Extras: {describeAddOns(b.addOns)}
+                            </p>
+                          )}
+                          {b.answers && b.answers.length > 0 && (
+                            <ul className="text-sm text-gray-500 dark:text-gray-400 mt-2 space-y-0.5">
+                              {b.answers.map(answer => (
+                                <li key={`${answer.questionId}:${answer.guestNumber ?? ''}`}>
+                                  {formatBookingAnswer(answer)}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {myListings.some(l => l.id === b.listingId && hasWaiver(l)) && (
+                            <div className="mt-2">
+                              {waiverBookingId === b.id ? (
+                                <WaiverSignatures bookingId={b.id as Id<"bookings">} />
+                              ) : (
+                                <button
+                                  onClick={() => setWaiverBookingId(b.id)}
+                                  className="text-sm font-bold text-teal-600 dark:text-teal-400 hover:underline"
+                                >
+                                  View waivers
+                                </button>
+                              )}
+                            </div>
                           )}
                         </div>
-                        <p className="text-sm text-gray-600 dark:text-gray-300 mt-2">
-                          Customer: {b.customerName} ({b.customerEmail})
-                        </p>
-                      </div>
-                      <div className="text-right">
-                        <div className="text-xl font-bold text-gray-900 dark:text-white">${b.totalPrice}</div>
-                        <div className={`text-sm font-bold mt-1 ${
-                          b.status === 'confirmed' ? 'text-green-600 dark:text-green-400' :
-                          b.status === 'pending' ? 'text-yellow-600 dark:text-yellow-400' :
-                          b.status === 'completed' ? 'text-blue-600 dark:text-blue-400' :
-                          'text-red-600 dark:text-red-400'
-                        }`}>
-                          {b.status.toUpperCase()}
-                        </div>
-                        <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                          Payment: {b.paymentStatus}
+                        <div className="text-right">
+                          <div className="text-xl font-bold text-gray-900 dark:text-white">${b.totalPrice}</div>
+                          <div className={`text-sm font-bold mt-1 ${
+                            b.status === 'confirmed' ? 'text-green-600 dark:text-green-400' :
+                            b.status === 'pending' ? 'text-yellow-600 dark:text-yellow-400' :
+                            b.status === 'completed' ? 'text-blue-600 dark:text-blue-400' :
+                            'text-red-600 dark:text-red-400'
+                          }`}>
+                            {b.status === 'pending' && b.approvalStatus === 'requested' ? 'REQUESTED' : b.status.toUpperCase()}
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            Payment: {b.paymentStatus}
+                          </div>
+                          {b.attendance && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                              {ATTENDANCE_LABELS[b.attendance]}
+                              {b.attendance === 'partial' && ` (${b.attendedGuests}/${b.guests} guests)`}
+                            </div>
+                          )}
+                          <DepositBalance booking={b} />
                         </div>
                       </div>
-                    </div>
-                  ))
+                    ))}
+                  </>
                 ) : (
                   <div className="text-center py-12 text-gray-400 dark:text-gray-500">
                     <Calendar className="w-12 h-12 mx-auto mb-4 opacity-30" />
@@ -351,7 +485,7 @@ export const VendorDashboard: React.FC<VendorDashboardProps> = ({ onAddListing }
                         <h3 className="font-bold text-gray-900 dark:text-white text-lg">{l.title}</h3>
                         <p className="text-sm text-gray-500 dark:text-gray-400 line-clamp-2">{l.description}</p>
                         <div className="flex gap-4 mt-2 text-sm">
-                          <span className="text-teal-600 dark:text-teal-400 font-bold">${l.price}/person</span>
+                          <span className="text-teal-600 dark:text-teal-400 font-bold">{formatMoney(l.price, l.currency ?? BASE_CURRENCY)}/person</span>
                           <span className="text-gray-500 dark:text-gray-400">⭐ {l.rating} ({l.reviewCount} reviews)</span>
                           <span className="text-gray-500 dark:text-gray-400">Max: {l.maxCapacity} guests</span>
                         </div>
@@ -399,6 +533,7 @@ export const VendorDashboard: React.FC<VendorDashboardProps> = ({ onAddListing }
                   </div>
                 ) : !selectedListingId ? (
                   <div>
+                    <ResourcesManager />
                     <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">Select a Listing to Manage Availability</h3>
                     <div className="space-y-3">
                       {myListings.map(l => (
@@ -415,7 +550,7 @@ export const VendorDashboard: React.FC<VendorDashboardProps> = ({ onAddListing }
                           <div className="flex-1">
                             <h4 className="font-bold text-gray-900 dark:text-white">{l.title}</h4>
                             <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                              ${l.price}/person • Max {l.maxCapacity} guests
+                              {formatMoney(l.price, l.currency ?? BASE_CURRENCY)}/person • Max {l.maxCapacity} guests
                             </p>
                           </div>
                           <div className="text-teal-600 dark:text-teal-400">→</div>
@@ -450,6 +585,16 @@ export const VendorDashboard: React.FC<VendorDashboardProps> = ({ onAddListing }
               </div>
             )}
 
+            {/* Promo Codes Tab */}
+            {activeTab === 'promos' && (
+              <PromoCodesManager listings={myListings.map(l => ({ id: l.id, title: l.title }))} />
+            )}
+
+            {/* Packages Tab */}
+            {activeTab === 'packages' && (
+              <PackagesManager listings={myListings.map(l => ({ id: l.id, title: l.title }))} />
+            )}
+
             {/* Stripe Account Tab */}
             {activeTab === 'account' && (
               <div>
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { useQuery, useAction } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { Id } from '../convex/_generated/dataModel';
+import { WaiverFields } from '../components/customer/WaiverFields';
+import { Loader2, CheckCircle, PenLine } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export const WaiverPage: React.FC = () => {
+  const { bookingId } = useParams<{ bookingId: string }>();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || undefined;
+
+  const waiver = useQuery(
+    api.waivers.getForBooking,
+    bookingId ? { bookingId: bookingId as Id<"bookings">, token } : "skip"
+  );
+  const signWaiver = useAction(api.waivers.sign);
+
+  const [signerName, setSignerName] = useState('');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [signing, setSigning] = useState(false);
+  // Remount the signature pad to clear it after each guest signs
+  const [padKey, setPadKey] = useState(0);
+
+  const handleSign = async () => {
+    if (!bookingId || !signature) return;
+
+    setSigning(true);
+    try {
+      const { guestNumber } = await signWaiver({
+        bookingId: bookingId as Id<"bookings">,
+        token,
+        signerName,
+        signatureDataUrl: signature,
+      });
+      toast.success(`Signed for guest ${guestNumber}`);
+      setSignerName('');
+      setSignature(null);
+      setPadKey(padKey + 1);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to sign the waiver');
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  if (waiver === undefined) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <Loader2 className="w-8 h-8 animate-spin text-teal-600" />
+      </div>
+    );
+  }
+
+  if (waiver === null) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-24 px-4 text-center text-gray-500 dark:text-gray-400">
+        This activity doesn't need a waiver.
+      </div>
+    );
+  }
+
+  const allSigned = waiver.signatures.length >= waiver.guests;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-24 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Sign the Waiver</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            {waiver.listingTitle} ·{' '}
+            {new Date(waiver.bookingDate).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+          </p>
+        </div>
+
+        {/* Who has signed */}
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
+          <div className="flex justify-between items-center mb-3">
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">Your group</h2>
+            <span className="text-sm font-bold text-teal-600 dark:text-teal-400">
+              {waiver.signatures.length} of {waiver.guests} signed
+            </span>
+          </div>
+          {waiver.signatures.length > 0 ? (
+            <ul className="space-y-1 text-sm">
+              {waiver.signatures.map(s => (
+                <li key={s.guestNumber} className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                  <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400" />
+                  {s.signerName}
+                  <span className="text-gray-400">· {new Date(s.signedAt).toLocaleDateString()}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Nobody has signed yet.</p>
+          )}
+        </div>
+
+        {/* Sign */}
+        {waiver.status === 'cancelled' ? (
+          <p className="text-center text-gray-500 dark:text-gray-400">This booking has been cancelled.</p>
+        ) : allSigned ? (
+          <div className="flex items-center justify-center gap-2 p-6 rounded-2xl bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-300 font-bold">
+            <CheckCircle className="w-5 h-5" />
+            Everyone has signed. See you there!
+          </div>
+        ) : (
+          <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 space-y-4">
+            <WaiverFields
+              key={padKey}
+              title={waiver.title}
+              text={waiver.text}
+              documentUrl={waiver.documentUrl}
+              signerName={signerName}
+              onSignerNameChange={setSignerName}
+              onSignatureChange={setSignature}
+            />
+            <button
+              onClick={handleSign}
+              disabled={signing || !signerName.trim() || !signature}
+              className="w-full py-4 rounded-xl bg-teal-600 hover:bg-teal-700 text-white font-bold transition-colors shadow-lg shadow-teal-500/30 flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {signing ? <Loader2 className="animate-spin w-5 h-5" /> : <PenLine className="w-5 h-5" />}
+              Sign Waiver
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
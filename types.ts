@@ -1,9 +1,24 @@
+import type { CancellationPolicy } from './convex/lib/cancellationPolicy';
+import type { TicketType, LineItem } from './convex/lib/ticketTypes';
+import type { AddOn, AddOnItem } from './convex/lib/addOns';
+import type { PickupZone, Pickup } from './convex/lib/pickups';
+import type { Route } from './convex/lib/routes';
+import type { BookingQuestion, BookingAnswer } from './convex/lib/bookingQuestions';
+import type { Waiver } from './convex/lib/waivers';
+import type { BookingMode, ApprovalStatus } from './convex/lib/bookingRequests';
+import type { PaymentPlan, DepositBalanceStatus } from './convex/lib/paymentPlans';
+import type { NoShowPolicy, AttendanceOutcome } from './convex/lib/attendance';
+import type { Currency } from './convex/lib/currency';
+import type { PricingRule } from './convex/lib/pricingRules';
+import type { ResourceType } from './convex/lib/resources';
+import type { PackageComponent, PackageBookingStatus } from './convex/lib/packages';
 
 export interface Profile {
   id: string;
   email: string;
   fullName: string;
   role: 'customer' | 'vendor' | 'admin';
+  displayCurrency?: Currency;
 }
 
 export interface Listing {
@@ -12,6 +27,7 @@ export interface Listing {
   description: string;
   location: string;
   price: number;
+  currency?: Currency; // Listing prices are in THB when unset
   rating: number;
   reviewCount: number;
   imageUrl: string;
@@ -28,17 +44,39 @@ export interface Listing {
   // Map Fields
   latitude?: number;
   longitude?: number;
+  // Refund tiers (defaults to flexible when unset)
+  cancellationPolicy?: CancellationPolicy;
+  // Ticket types with their own prices (defaults to a single ticket at `price`)
+  ticketTypes?: TicketType[];
+  addOns?: AddOn[]; // Extras sold with the tickets
+  pickupZones?: PickupZone[]; // Hotel pickup zones in route order
+  route?: Route; // Transportation stops and segment fares
+  // Questions asked at booking time
+  bookingQuestions?: BookingQuestion[];
+  // Liability waiver every guest signs
+  waiver?: Waiver;
+  // "request" bookings wait for the vendor's approval (defaults to instant)
+  bookingMode?: BookingMode;
+  requestWindowHours?: number;
+  // Hours before the activity customers are reminded (defaults to 24 and 2)
+  reminderOffsetsHours?: number[];
+  reminderNote?: string;
+  meetingPoint?: string;
+  // Deposit now and the balance later (defaults to paying in full)
+  paymentPlan?: PaymentPlan;
+  // Refunds for guests who don't show up (defaults to none)
+  noShowPolicy?: NoShowPolicy;
+  // Peak, weekday, occupancy and last-minute price changes
+  pricingRules?: PricingRule[];
 }
 
 export type TimeSlot = 'morning' | 'afternoon' | 'full_day';
 
-export interface AvailabilityBlock {
-  id: string;
-  listingId: string;
+// Next bookable day for a listing, from the availability summaries
+export interface NextAvailability {
   date: string; // YYYY-MM-DD
-  reason?: string;
-  source?: 'manual' | 'ical'; // Track if this was clicked by user or synced
-  timeSlot?: TimeSlot; // Specific slot blocked, defaults to full_day
+  startTime: string; // Earliest slot still taking bookings
+  seatsLeft: number;
 }
 
 export interface Review {
@@ -49,6 +87,8 @@ export interface Review {
   rating: number;
   comment: string;
   createdAt: string;
+  // Written for a completed booking
+  verified?: boolean;
 }
 
 export enum ActivityCategory {
@@ -116,6 +156,7 @@ export interface ListingsForDateComponentProps {
     id: string;
     title: string;
     price: number;
+    currency?: Currency;
     imageUrl: string;
     category: string;
     duration?: string;
@@ -154,6 +195,12 @@ export interface Booking {
   date: string;
   guests: number;
   totalPrice: number;
+  lineItems?: LineItem[]; // Tickets bought, priced at booking time
+  addOns?: AddOnItem[]; // Extras bought, priced at booking time
+  pickup?: Pickup; // Hotel pickup, fee included in totalPrice
+  answers?: BookingAnswer[]; // Answers to the listing's booking questions
+  approvalStatus?: ApprovalStatus; // Set for request-to-book listings
+  requestExpiresAt?: number; // When an unanswered request is declined
   status: 'confirmed' | 'pending' | 'cancelled' | 'completed';
   customerName: string;
   customerEmail: string;
@@ -166,6 +213,23 @@ export interface Booking {
   cancellationReason?: 'weather' | 'emergency' | 'personal' | 'other' | 'customer_request';
   cancellationMessage?: string;
   refundProcessed?: boolean;
+  refundPercent?: number; // Refund % applied by the cancellation policy
+  refundAmount?: number; // Refund owed in cents
+  // Rescheduling
+  rescheduledAt?: number;
+  balanceDue?: number; // Price increase still to be paid, in cents
+  // Promo code (totalPrice is before the discount)
+  promoCode?: string;
+  discountAmount?: number; // Discount in THB
+  voucherAmount?: number; // Paid from a gift voucher in THB
+  // Deposit plans: balance still to pay after the deposit
+  depositBalance?: number; // Cents
+  depositBalanceDueAt?: number;
+  depositBalanceStatus?: DepositBalanceStatus;
+  // Attendance recorded by the vendor
+  attendance?: AttendanceOutcome;
+  attendedGuests?: number;
+  customerNoShows?: number; // No-shows on the customer's profile (vendor view)
 }
 
 export interface Message {
@@ -202,6 +266,7 @@ export interface AvailabilityRule {
   oneTimeDuration?: number; // minutes
   // Capacity and settings
   capacity: number; // Max bookings per slot
+  resourceIds?: string[]; // Shared resources each slot needs
   bookingDeadlineHours: number; // Hours before start (e.g., 2)
   generateDaysInAdvance: number | 'indefinite'; // How far ahead to generate
   active: boolean;
@@ -229,6 +294,66 @@ export interface Slot {
   cancelledAt?: number;
   cancellationReason?: 'weather' | 'emergency' | 'personal' | 'other';
   cancellationMessage?: string;
+  resourceIds?: string[]; // Shared resources (copied from the rule)
+  // Pricing after the listing's pricing rules
+  price?: number; // Cheapest ticket, in the listing's currency
+  currency?: Currency;
+  priceAdjustment?: number; // % applied to every ticket type
+  appliedPricingRules?: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Resource {
+  id: string;
+  vendorId: string;
+  name: string; // "Longtail boat", "Guide: Nok"
+  type: ResourceType;
+  capacity: number; // Passengers, guests or units at one time
+  notes?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Package {
+  id: string;
+  name: string; // "3-day Phangan adventure"
+  description: string;
+  imageUrl?: string;
+  vendorId?: string; // Unset for platform packages spanning vendors
+  components: PackageComponent[];
+  durationDays: number;
+  price: number; // Per person, THB
+  active: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PackageBooking {
+  id: string;
+  packageId: string;
+  packageName: string;
+  customerId: string;
+  startDate: string; // YYYY-MM-DD
+  guests: number;
+  totalPrice: number; // THB
+  bookingIds: string[]; // One booking per activity
+  checkoutId?: string;
+  status: PackageBookingStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SlotHold {
+  id: string;
+  slotId: string;
+  bookingId: string;
+  listingId: string; // Denormalized for queries
+  customerId: string;
+  guests: number; // Seats reserved by this hold
+  status: 'active' | 'converted' | 'released' | 'expired';
+  expiresAt: number; // Unix timestamp when the hold lapses
+  releasedAt?: number;
   createdAt: number;
   updatedAt: number;
 }
@@ -252,7 +377,7 @@ export interface WaitlistEntry {
 export interface Notification {
   id: string;
   userId: string;
-  type: 'waitlist_spot_available' | 'booking_cancelled_by_vendor' | 'booking_confirmed' | 'booking_reminder';
+  type: 'waitlist_spot_available' | 'booking_cancelled_by_vendor' | 'booking_confirmed' | 'booking_reminder' | 'new_sale' | 'booking_rescheduled' | 'booking_request' | 'booking_request_declined' | 'booking_request_expired';
   title: string;
   message: string;
   // Related entities